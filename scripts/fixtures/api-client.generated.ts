@@ -0,0 +1,109 @@
+/**
+ * Generated from openapi/bookwork.json by scripts/generate-api-client.js - do not edit by hand
+ * Run `npm run generate:api` after changing the contract
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schemas
+ */
+
+export const RoleSchema = z.enum(['admin', 'member']);
+
+export const NewMemberSchema = z.object({
+    name: z.string().min(1).max(100),
+    email: z.string().email(),
+    role: RoleSchema.optional(),
+    code: z.string().regex(new RegExp("^[A-Z]{3}$")).optional(),
+    website: z.string().url().nullable().optional(),
+});
+
+export const MemberSchema = NewMemberSchema.merge(z.object({
+    id: z.string().uuid(),
+    joinedAt: z.string().datetime(),
+    booksRead: z.number().int().min(0).optional(),
+    tags: z.record(z.string(), z.string()).optional(),
+}));
+
+export const MemberPageSchema = z.object({
+    items: z.array(MemberSchema),
+    nextCursor: z.string().nullable(),
+});
+
+/**
+ * Types
+ */
+
+export type Role = z.infer<typeof RoleSchema>;
+export type NewMember = z.infer<typeof NewMemberSchema>;
+export type Member = z.infer<typeof MemberSchema>;
+export type MemberPage = z.infer<typeof MemberPageSchema>;
+
+/**
+ * Endpoint paths, relative to the API base URL
+ */
+export const paths = {
+    listMembers: (params: { clubId: string }) => `/club/${encodeURIComponent(params.clubId)}/members`,
+    addMember: (params: { clubId: string }) => `/club/${encodeURIComponent(params.clubId)}/members`,
+    health: () => '/health',
+};
+
+export interface PaginationQuery {
+    limit?: number;
+    cursor?: string | null;
+    offset?: number;
+}
+
+/**
+ * Performs the request and validates the unwrapped response body against the schema
+ */
+export type ApiTransport = <T>(path: string, init: RequestInit, schema: z.ZodType<T>) => Promise<T>;
+
+function withQuery(path: string, query: PaginationQuery): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null) {
+            search.set(key, String(value));
+        }
+    }
+    const queryString = search.toString();
+    return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * Typed fetchers for every operation in the contract
+ */
+export function createApiClient(transport: ApiTransport) {
+    return {
+        /**
+         * List club members
+         * GET /club/{clubId}/members
+         */
+        listMembers: (params: { clubId: string }, init: RequestInit = {}) =>
+            transport(paths.listMembers(params), { ...init, method: 'GET' }, z.array(MemberSchema)),
+
+        /**
+         * List club members (one page)
+         * GET /club/{clubId}/members
+         */
+        listMembersPage: (params: { clubId: string }, query: PaginationQuery = {}, init: RequestInit = {}) =>
+            transport(withQuery(paths.listMembers(params), query), { ...init, method: 'GET' }, MemberPageSchema),
+
+        /**
+         * Add a member
+         * POST /club/{clubId}/members
+         */
+        addMember: (params: { clubId: string }, body: NewMember, init: RequestInit = {}) =>
+            transport(paths.addMember(params), { ...init, method: 'POST', body: JSON.stringify(body) }, MemberSchema),
+
+        /**
+         * Check the API is up
+         * GET /health
+         */
+        health: (init: RequestInit = {}) =>
+            transport(paths.health(), { ...init, method: 'GET' }, z.unknown()),
+    };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
@@ -0,0 +1,329 @@
+/**
+ * API Client Generator
+ * Reads the OpenAPI contract in openapi/bookwork.json and writes src/lib/api.generated.ts:
+ * Zod schemas and inferred types for every component schema, endpoint path builders and
+ * a typed client whose fetchers validate responses against the contract.
+ *
+ * Usage:
+ *   node scripts/generate-api-client.js          # regenerate
+ *   node scripts/generate-api-client.js --check  # fail if the generated file is out of date
+ *
+ * Supported subset: $ref, allOf (object merge), object/array/string/integer/number/boolean,
+ * enum, nullable, required, minLength, pattern, minimum/maximum, additionalProperties and the
+ * string formats uuid, email, uri and date-time. `x-paginated` on a GET adds a second
+ * fetcher that takes pagination query parameters and returns the given page schema.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, resolve } from 'node:path';
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const SPEC_PATH = resolve(root, 'openapi/bookwork.json');
+const OUTPUT_PATH = resolve(root, 'src/lib/api.generated.ts');
+const INDENT = '    ';
+
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+function refName(ref) {
+    return ref.split('/').pop();
+}
+
+function resolveRef(spec, value) {
+    if (!value?.$ref) return value;
+    const [, ...segments] = value.$ref.split('/');
+    return segments.reduce((node, key) => node[key], spec);
+}
+
+/**
+ * Convert a JSON schema into a Zod expression
+ */
+function toZod(schema, depth = 0) {
+    if (schema.$ref) {
+        return `${refName(schema.$ref)}Schema${schema.nullable ? '.nullable()' : ''}`;
+    }
+
+    let expr;
+
+    if (schema.allOf) {
+        const [first, ...rest] = schema.allOf.map(part => toZod(part, depth));
+        expr = rest.reduce((acc, part) => `${acc}.merge(${part})`, first);
+    } else if (schema.enum) {
+        expr = `z.enum([${schema.enum.map(value => `'${value}'`).join(', ')}])`;
+    } else {
+        switch (schema.type) {
+            case 'string':
+                expr = 'z.string()';
+                if (schema.format === 'uuid') expr += '.uuid()';
+                if (schema.format === 'email') expr += '.email()';
+                if (schema.format === 'uri') expr += '.url()';
+                if (schema.format === 'date-time') expr += '.datetime()';
+                if (schema.minLength !== undefined) expr += `.min(${schema.minLength})`;
+                if (schema.maxLength !== undefined) expr += `.max(${schema.maxLength})`;
+                if (schema.pattern !== undefined) expr += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+                break;
+            case 'integer':
+            case 'number':
+                expr = schema.type === 'integer' ? 'z.number().int()' : 'z.number()';
+                if (schema.minimum !== undefined) expr += `.min(${schema.minimum})`;
+                if (schema.maximum !== undefined) expr += `.max(${schema.maximum})`;
+                break;
+            case 'boolean':
+                expr = 'z.boolean()';
+                break;
+            case 'array':
+                expr = `z.array(${toZod(schema.items, depth)})`;
+                break;
+            case 'object':
+                expr = objectToZod(schema, depth);
+                break;
+            default:
+                expr = 'z.unknown()';
+        }
+    }
+
+    if (schema.nullable) expr += '.nullable()';
+    return expr;
+}
+
+function objectToZod(schema, depth) {
+    const properties = Object.entries(schema.properties ?? {});
+
+    if (properties.length === 0) {
+        if (schema.additionalProperties === true) return 'z.record(z.string(), z.unknown())';
+        if (schema.additionalProperties) return `z.record(z.string(), ${toZod(schema.additionalProperties, depth)})`;
+        return 'z.object({})';
+    }
+
+    const required = new Set(schema.required ?? []);
+    const pad = INDENT.repeat(depth + 1);
+    const lines = properties.map(([key, property]) => {
+        const optional = required.has(key) ? '' : '.optional()';
+        return `${pad}${key}: ${toZod(property, depth + 1)}${optional},`;
+    });
+    return `z.object({\n${lines.join('\n')}\n${INDENT.repeat(depth)}})`;
+}
+
+/**
+ * Schema names referenced by a schema, for dependency ordering
+ */
+function collectRefs(schema, refs = new Set()) {
+    if (!schema || typeof schema !== 'object') return refs;
+    if (schema.$ref) refs.add(refName(schema.$ref));
+    for (const value of Object.values(schema)) {
+        if (typeof value === 'object') collectRefs(value, refs);
+    }
+    return refs;
+}
+
+function sortSchemas(schemas) {
+    const ordered = [];
+    const visiting = new Set();
+    const visit = name => {
+        if (ordered.includes(name)) return;
+        if (visiting.has(name)) throw new Error(`Circular schema reference at ${name}`);
+        visiting.add(name);
+        for (const dependency of collectRefs(schemas[name])) visit(dependency);
+        visiting.delete(name);
+        ordered.push(name);
+    };
+    Object.keys(schemas).forEach(visit);
+    return ordered;
+}
+
+function collectOperations(spec) {
+    const operations = [];
+
+    for (const [path, item] of Object.entries(spec.paths)) {
+        const sharedParameters = item.parameters ?? [];
+
+        for (const method of HTTP_METHODS) {
+            const operation = item[method];
+            if (!operation) continue;
+
+            const parameters = [...sharedParameters, ...(operation.parameters ?? [])].map(p => resolveRef(spec, p));
+            const pathParams = parameters.filter(p => p.in === 'path').map(p => p.name);
+            const bodySchema = operation.requestBody?.content?.['application/json']?.schema;
+            const success = Object.entries(operation.responses)
+                .find(([status]) => status.startsWith('2'))?.[1];
+            const responseSchema = resolveRef(spec, success)?.content?.['application/json']?.schema;
+
+            operations.push({
+                id: operation.operationId,
+                summary: operation.summary,
+                method: method.toUpperCase(),
+                path,
+                pathParams,
+                bodySchema,
+                responseSchema,
+                paginated: operation['x-paginated']
+            });
+        }
+    }
+
+    return operations;
+}
+
+function pathBuilder(op) {
+    if (op.pathParams.length === 0) {
+        return `() => '${op.path}'`;
+    }
+    const template = op.path.replace(/\{(\w+)\}/g, (_, name) => `\${encodeURIComponent(params.${name})}`);
+    return `(params: ${paramsType(op)}) => \`${template}\``;
+}
+
+function paramsType(op) {
+    return `{ ${op.pathParams.map(name => `${name}: string`).join('; ')} }`;
+}
+
+function typeOf(schema) {
+    if (schema.$ref) return refName(schema.$ref);
+    return `z.infer<typeof ${toZod(schema)}>`;
+}
+
+function fetcher(op, { id, summary, responseSchema, query }) {
+    const args = [];
+    if (op.pathParams.length > 0) args.push(`params: ${paramsType(op)}`);
+    if (query) args.push('query: PaginationQuery = {}');
+    if (op.bodySchema) args.push(`body: ${typeOf(op.bodySchema)}`);
+    args.push('init: RequestInit = {}');
+
+    let path = `paths.${op.id}(${op.pathParams.length > 0 ? 'params' : ''})`;
+    if (query) path = `withQuery(${path}, query)`;
+
+    const initParts = ['...init', `method: '${op.method}'`];
+    if (op.bodySchema) initParts.push('body: JSON.stringify(body)');
+
+    const schemaExpr = responseSchema ? toZod(responseSchema, 3) : 'z.unknown()';
+
+    return [
+        `${INDENT}${INDENT}/**`,
+        `${INDENT}${INDENT} * ${summary}`,
+        `${INDENT}${INDENT} * ${op.method} ${op.path}`,
+        `${INDENT}${INDENT} */`,
+        `${INDENT}${INDENT}${id}: (${args.join(', ')}) =>`,
+        `${INDENT}${INDENT}${INDENT}transport(${path}, { ${initParts.join(', ')} }, ${schemaExpr}),`
+    ].join('\n');
+}
+
+/**
+ * Source of api.generated.ts for a parsed OpenAPI spec
+ */
+export function generate(spec) {
+    const schemas = spec.components.schemas;
+    const names = sortSchemas(schemas);
+    const operations = collectOperations(spec);
+
+    const out = [];
+    out.push(`/**
+ * Generated from openapi/bookwork.json by scripts/generate-api-client.js - do not edit by hand
+ * Run \`npm run generate:api\` after changing the contract
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schemas
+ */
+`);
+
+    for (const name of names) {
+        out.push(`export const ${name}Schema = ${toZod(schemas[name], 0)};\n`);
+    }
+
+    out.push(`/**
+ * Types
+ */
+`);
+    for (const name of names) {
+        out.push(`export type ${name} = z.infer<typeof ${name}Schema>;`);
+    }
+
+    out.push(`
+/**
+ * Endpoint paths, relative to the API base URL
+ */
+export const paths = {`);
+    const pathEntries = [];
+    for (const op of operations) {
+        pathEntries.push(`${INDENT}${op.id}: ${pathBuilder(op)},`);
+    }
+    out.push(pathEntries.join('\n'));
+    out.push(`};
+
+export interface PaginationQuery {
+    limit?: number;
+    cursor?: string | null;
+    offset?: number;
+}
+
+/**
+ * Performs the request and validates the unwrapped response body against the schema
+ */
+export type ApiTransport = <T>(path: string, init: RequestInit, schema: z.ZodType<T>) => Promise<T>;
+
+function withQuery(path: string, query: PaginationQuery): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null) {
+            search.set(key, String(value));
+        }
+    }
+    const queryString = search.toString();
+    return queryString ? \`\${path}?\${queryString}\` : path;
+}
+
+/**
+ * Typed fetchers for every operation in the contract
+ */
+export function createApiClient(transport: ApiTransport) {
+    return {`);
+
+    const fetchers = [];
+    for (const op of operations) {
+        fetchers.push(fetcher(op, { id: op.id, summary: op.summary, responseSchema: op.responseSchema }));
+        if (op.paginated) {
+            fetchers.push(fetcher(op, {
+                id: op.paginated.operationId,
+                summary: `${op.summary} (one page)`,
+                responseSchema: op.paginated.schema,
+                query: true
+            }));
+        }
+    }
+    out.push(fetchers.join('\n\n'));
+    out.push(`${INDENT}};
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
+`);
+
+    return out.join('\n');
+}
+
+function main() {
+    const spec = JSON.parse(readFileSync(SPEC_PATH, 'utf8'));
+    const output = generate(spec);
+
+    if (process.argv.includes('--check')) {
+        let current = '';
+        try {
+            current = readFileSync(OUTPUT_PATH, 'utf8');
+        } catch {
+            // Missing file counts as out of date
+        }
+        if (current !== output) {
+            console.error('❌ src/lib/api.generated.ts is out of date with openapi/bookwork.json. Run `npm run generate:api`.');
+            process.exit(1);
+        }
+        console.log('✅ Generated API client is up to date');
+    } else {
+        writeFileSync(OUTPUT_PATH, output);
+        console.log(`✅ Wrote ${OUTPUT_PATH}`);
+    }
+}
+
+// Run when called as a script rather than imported by the tests
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+    main();
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { generate } from './generate-api-client.js';
+
+const fixtures = resolve(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+function read(name) {
+	return readFileSync(resolve(fixtures, name), 'utf8');
+}
+
+describe('generate', () => {
+	it('should write schemas, paths and a typed client for the fixture contract', () => {
+		const spec = JSON.parse(read('api-client.json'));
+
+		expect(generate(spec)).toBe(read('api-client.generated.ts'));
+	});
+
+	it('should reject schemas that refer to each other in a loop', () => {
+		const spec = {
+			paths: {},
+			components: {
+				schemas: {
+					Book: { type: 'object', properties: { club: { $ref: '#/components/schemas/Club' } } },
+					Club: { type: 'object', properties: { book: { $ref: '#/components/schemas/Book' } } }
+				}
+			}
+		};
+
+		expect(() => generate(spec)).toThrow('Circular schema reference at Book');
+	});
+});
@@ -1,6 +1,7 @@
 // See https://kit.svelte.dev/docs/types#app
 // for information about these interfaces
 import type { SessionData } from '$lib/sessionManager';
+import type { TraceContext } from '$lib/tracing';
 
 declare global {
 	namespace App {
@@ -12,6 +13,7 @@ declare global {
 		interface Locals {
 			nonce?: string;
 			session?: SessionData;
+			trace?: TraceContext;
 			user?: {
 				id: string;
 				email: string;
@@ -1,22 +1,94 @@
 import type { Handle } from '@sveltejs/kit';
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { applySecurityHeaders, validateSvelteKitCSP, validateCSPForAPI } from '$lib/security';
 import { createRateLimitMiddleware } from '$lib/rateLimit';
 import { generateSecurityHeaders, configureCORS } from '$lib/httpHeaders';
 import { detectMixedContent, fixMixedContent } from '$lib/httpsEnforcement';
 import { createSessionMiddleware } from '$lib/sessionManager';
 import type { SessionData } from '$lib/sessionManager';
-import { getApiConfig } from '$lib/env';
-import { dev } from '$app/environment';
+import { getApiConfig, getTracingConfig } from '$lib/env';
+import { building, dev } from '$app/environment';
 import { ApplicationMetrics } from '$lib/metrics';
+import {
+	startSpan,
+	parseTraceparent,
+	setTraceContextProvider,
+	configureTracing,
+	OtlpHttpExporter,
+	type TraceContext
+} from '$lib/tracing';
+import { startReminderScheduler } from '$lib/server/reminders';
+
+// Plan and send event reminders in the background while the server runs
+if (!building) {
+	startReminderScheduler();
+}
 
 // Create rate limiting middleware
 const rateLimitMiddleware = createRateLimitMiddleware();
 
+// Trace context of the request being handled, so API calls made while rendering join its trace
+const traceStorage = new AsyncLocalStorage<TraceContext>();
+setTraceContextProvider(() => traceStorage.getStore());
+
+const tracingConfig = getTracingConfig();
+if (tracingConfig.otlpEndpoint) {
+	configureTracing({
+		exporter: new OtlpHttpExporter({
+			endpoint: tracingConfig.otlpEndpoint,
+			serviceName: tracingConfig.serviceName
+		})
+	});
+}
+
 /**
- * Global SvelteKit hook that applies security middleware to all requests
- * Implements comprehensive security headers, rate limiting, HTTPS enforcement, and session management
+ * Global SvelteKit hook that traces each request
+ * Continues the caller's trace when a valid traceparent header is present, otherwise starts a new one
  */
 export const handle: Handle = async ({ event, resolve }) => {
+	const path = event.url.pathname;
+
+	// Scrapes of the metrics endpoint are not worth tracing
+	if (path === '/metrics') {
+		return handleRequest({ event, resolve });
+	}
+
+	const method = event.request.method;
+	const parent = parseTraceparent(
+		event.request.headers.get('traceparent'),
+		event.request.headers.get('tracestate')
+	);
+	const span = startSpan(`${method} ${event.route.id ?? path}`, {
+		kind: 'server',
+		parent,
+		attributes: {
+			'http.method': method,
+			'http.target': path,
+			'http.route': event.route.id ?? undefined,
+			'http.user_agent': event.request.headers.get('user-agent') ?? undefined
+		}
+	});
+	event.locals.trace = span.context;
+
+	try {
+		const response = await traceStorage.run(span.context, () => handleRequest({ event, resolve }));
+		span.setAttribute('http.status_code', response.status);
+		span.setStatus(response.status >= 500 ? 'error' : 'ok');
+		response.headers.set('X-Trace-ID', span.traceId);
+		return response;
+	} catch (error) {
+		span.recordError(error);
+		throw error;
+	} finally {
+		span.end();
+	}
+};
+
+/**
+ * Applies security middleware to all requests
+ * Implements comprehensive security headers, rate limiting, HTTPS enforcement, and session management
+ */
+const handleRequest: Handle = async ({ event, resolve }) => {
 	const start = Date.now(); // Track request start time
 	const url = new URL(event.request.url);
 	const path = url.pathname;
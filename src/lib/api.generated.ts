@@ -0,0 +1,612 @@
+/**
+ * Generated from openapi/bookwork.json by scripts/generate-api-client.js - do not edit by hand
+ * Run `npm run generate:api` after changing the contract
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schemas
+ */
+
+export const ErrorResponseSchema = z.object({
+    error: z.string(),
+    message: z.string().optional(),
+    code: z.string(),
+    details: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const RoleSchema = z.enum(['admin', 'moderator', 'member', 'guest']);
+
+export const UserSchema = z.object({
+    id: z.string().uuid(),
+    name: z.string().min(1),
+    email: z.string().email(),
+    phone: z.string().nullable().optional(),
+    avatar: z.string().url().nullable().optional(),
+    role: RoleSchema,
+    isActive: z.boolean(),
+    lastLoginAt: z.string().datetime().nullable().optional(),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime().optional(),
+    joinedDate: z.string().datetime().nullable().optional(),
+});
+
+export const ClubSchema = z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    description: z.string().optional(),
+    memberCount: z.number().int().min(0),
+    createdAt: z.string().datetime(),
+});
+
+export const UserClubSchema = ClubSchema.merge(z.object({
+    clubRole: RoleSchema,
+    isOwner: z.boolean(),
+}));
+
+export const MemberStatusSchema = z.enum(['active', 'inactive', 'pending']);
+
+export const ClubMemberSchema = UserSchema.merge(z.object({
+    joinDate: z.string().datetime(),
+    status: MemberStatusSchema,
+    permissions: z.array(z.string()).optional(),
+    booksRead: z.number().int().min(0).optional(),
+    clubRole: RoleSchema.optional(),
+}));
+
+export const NewClubMemberSchema = z.object({
+    name: z.string().min(1).max(100),
+    email: z.string().email(),
+    phone: z.string().nullable().optional(),
+    role: RoleSchema.optional(),
+    status: MemberStatusSchema.optional(),
+});
+
+export const ClubMemberUpdateSchema = z.object({
+    name: z.string().min(1).max(100).optional(),
+    email: z.string().email().optional(),
+    phone: z.string().nullable().optional(),
+    role: RoleSchema.optional(),
+    status: MemberStatusSchema.optional(),
+});
+
+export const TimeZoneSchema = z.string().max(64).regex(new RegExp("^[A-Za-z][A-Za-z0-9_+-]*(/[A-Za-z0-9_+-]+)*$"));
+
+export const EventUidSchema = z.string().min(1).max(255);
+
+export const EventCapacitySchema = z.number().int().min(1);
+
+export const RecurrenceRuleSchema = z.string().regex(new RegExp("^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[A-Za-z0-9,+-]+)*$"));
+
+export const EventBookIdSchema = z.string().min(1);
+
+export const EventExceptionSchema = z.object({
+    originalDate: z.string().regex(new RegExp("^\\d{4}-\\d{2}-\\d{2}$")),
+    cancelled: z.boolean().optional(),
+    date: z.string().datetime().optional(),
+    title: z.string().min(1).optional(),
+    description: z.string().optional(),
+    location: z.string().optional(),
+    bookId: EventBookIdSchema.nullable().optional(),
+});
+
+export const EventSchema = z.object({
+    id: z.string().min(1),
+    title: z.string().min(1),
+    description: z.string().optional(),
+    date: z.string().datetime(),
+    location: z.string().optional(),
+    type: z.enum(['meeting', 'training', 'social', 'other']),
+    status: z.enum(['scheduled', 'cancelled', 'completed']),
+    organizerId: z.string().min(1),
+    timeZone: TimeZoneSchema.optional(),
+    uid: EventUidSchema.optional(),
+    capacity: EventCapacitySchema.optional(),
+    rrule: RecurrenceRuleSchema.optional(),
+    bookId: EventBookIdSchema.optional(),
+    exceptions: z.array(EventExceptionSchema).optional(),
+});
+
+export const NewEventSchema = z.object({
+    title: z.string().min(1),
+    description: z.string().optional(),
+    date: z.string().datetime(),
+    location: z.string().optional(),
+    type: z.enum(['meeting', 'training', 'social', 'other']),
+    timeZone: TimeZoneSchema.optional(),
+    uid: EventUidSchema.optional(),
+    capacity: EventCapacitySchema.optional(),
+    rrule: RecurrenceRuleSchema.optional(),
+    bookId: EventBookIdSchema.optional(),
+    exceptions: z.array(EventExceptionSchema).optional(),
+});
+
+export const EventUpdateSchema = z.object({
+    title: z.string().min(1).optional(),
+    description: z.string().optional(),
+    date: z.string().datetime().optional(),
+    location: z.string().optional(),
+    type: z.enum(['meeting', 'training', 'social', 'other']).optional(),
+    status: z.enum(['scheduled', 'cancelled', 'completed']).optional(),
+    timeZone: TimeZoneSchema.optional(),
+    capacity: EventCapacitySchema.nullable().optional(),
+    rrule: RecurrenceRuleSchema.nullable().optional(),
+    bookId: EventBookIdSchema.nullable().optional(),
+    exceptions: z.array(EventExceptionSchema).optional(),
+});
+
+export const ItemQuantitySchema = z.number().int().min(1).max(999);
+
+export const GuidePositionSchema = z.number().int().min(0);
+
+export const GuideChapterSchema = z.number().int().min(1);
+
+export const NewEventItemSchema = z.object({
+    title: z.string().min(1),
+    description: z.string().optional(),
+    type: z.enum(['agenda', 'material', 'task', 'note', 'question']),
+    status: z.enum(['pending', 'completed', 'cancelled']),
+    assigneeId: z.string().optional(),
+    dueDate: z.string().datetime().optional(),
+    quantity: ItemQuantitySchema.optional(),
+    position: GuidePositionSchema.optional(),
+    chapter: GuideChapterSchema.optional(),
+    spoiler: z.boolean().optional(),
+});
+
+export const ItemClaimSchema = z.object({
+    userId: z.string().min(1),
+    quantity: ItemQuantitySchema,
+    claimedAt: z.string().datetime(),
+});
+
+export const EventItemSchema = z.object({
+    id: z.string().min(1),
+    claims: z.array(ItemClaimSchema).optional(),
+}).merge(NewEventItemSchema);
+
+export const ItemClaimRequestSchema = z.object({
+    userId: z.string().min(1),
+    quantity: z.number().int().min(0).max(999),
+});
+
+export const AddEventItemRequestSchema = z.object({
+    item: NewEventItemSchema,
+    claim: ItemClaimRequestSchema.optional(),
+});
+
+export const EventItemUpdateSchema = z.object({
+    title: z.string().min(1).optional(),
+    description: z.string().optional(),
+    status: z.enum(['pending', 'completed', 'cancelled']).optional(),
+    quantity: ItemQuantitySchema.optional(),
+    claims: z.array(ItemClaimSchema).optional(),
+    position: GuidePositionSchema.optional(),
+    chapter: GuideChapterSchema.nullable().optional(),
+    spoiler: z.boolean().optional(),
+});
+
+export const IsbnSchema = z.string().regex(new RegExp("^97[89][0-9]{10}$"));
+
+export const NewBookSchema = z.object({
+    title: z.string().min(1).max(200),
+    authors: z.array(z.string().min(1).max(200)).optional(),
+    isbn: IsbnSchema.optional(),
+    coverUrl: z.string().url().optional(),
+    pageCount: z.number().int().min(1).optional(),
+    chapterCount: z.number().int().min(1).optional(),
+});
+
+export const BookSchema = z.object({
+    id: z.string().min(1),
+    clubId: z.string().min(1),
+    createdAt: z.string().datetime(),
+}).merge(NewBookSchema);
+
+export const ReadingProgressSchema = z.object({
+    userId: z.string().min(1),
+    bookId: z.string().min(1),
+    page: z.number().int().min(0).optional(),
+    chapter: z.number().int().min(0).optional(),
+    percent: z.number().min(0).max(100),
+    startedAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+    finishedAt: z.string().datetime().nullable(),
+});
+
+export const ReadingProgressUpdateSchema = z.object({
+    page: z.number().int().min(0).optional(),
+    chapter: z.number().int().min(0).optional(),
+    percent: z.number().min(0).max(100).optional(),
+    finished: z.boolean().optional(),
+});
+
+export const AvailabilityStatusSchema = z.enum(['available', 'unavailable', 'maybe']);
+
+export const AvailabilitySchema = z.object({
+    userId: z.string().min(1),
+    status: AvailabilityStatusSchema,
+    note: z.string().optional(),
+    updatedAt: z.string().datetime(),
+    availableSince: z.string().datetime().optional(),
+    waitlisted: z.boolean().optional(),
+});
+
+export const AvailabilityMapSchema = z.record(z.string(), AvailabilitySchema);
+
+export const AvailabilityNoteSchema = z.string().max(500);
+
+export const AvailabilityUpdateRequestSchema = z.object({
+    userId: z.string().min(1),
+    status: AvailabilityStatusSchema,
+    note: AvailabilityNoteSchema.optional(),
+});
+
+export const AvailabilityChangeSchema = z.object({
+    userId: z.string().min(1),
+    status: AvailabilityStatusSchema,
+    note: z.string().optional(),
+    changedAt: z.string().datetime(),
+});
+
+export const AvailabilityUpdateResultSchema = z.object({
+    success: z.boolean(),
+    eventId: z.string(),
+    userId: z.string(),
+    status: z.string(),
+    waitlisted: z.boolean().optional(),
+    promoted: z.array(z.string()).optional(),
+});
+
+export const ClubMemberPageSchema = z.object({
+    items: z.array(ClubMemberSchema),
+    nextCursor: z.string().min(1).nullable(),
+    total: z.number().int().min(0),
+});
+
+export const EventPageSchema = z.object({
+    items: z.array(EventSchema),
+    nextCursor: z.string().min(1).nullable(),
+    total: z.number().int().min(0),
+});
+
+export const EventItemPageSchema = z.object({
+    items: z.array(EventItemSchema),
+    nextCursor: z.string().min(1).nullable(),
+    total: z.number().int().min(0),
+});
+
+export const LoginRequestSchema = z.object({
+    email: z.string().email(),
+    password: z.string().min(1),
+});
+
+export const AuthResponseSchema = z.object({
+    token: z.string().min(1),
+    user: UserSchema,
+    expiresAt: z.string().datetime().optional(),
+});
+
+export const ValidateTokenResponseSchema = z.object({
+    user: UserSchema,
+});
+
+export const RefreshRequestSchema = z.object({
+    refreshToken: z.string().min(1),
+});
+
+export const RefreshResponseSchema = z.object({
+    token: z.string().min(1),
+    expiresAt: z.string().datetime(),
+});
+
+/**
+ * Types
+ */
+
+export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+export type Role = z.infer<typeof RoleSchema>;
+export type User = z.infer<typeof UserSchema>;
+export type Club = z.infer<typeof ClubSchema>;
+export type UserClub = z.infer<typeof UserClubSchema>;
+export type MemberStatus = z.infer<typeof MemberStatusSchema>;
+export type ClubMember = z.infer<typeof ClubMemberSchema>;
+export type NewClubMember = z.infer<typeof NewClubMemberSchema>;
+export type ClubMemberUpdate = z.infer<typeof ClubMemberUpdateSchema>;
+export type TimeZone = z.infer<typeof TimeZoneSchema>;
+export type EventUid = z.infer<typeof EventUidSchema>;
+export type EventCapacity = z.infer<typeof EventCapacitySchema>;
+export type RecurrenceRule = z.infer<typeof RecurrenceRuleSchema>;
+export type EventBookId = z.infer<typeof EventBookIdSchema>;
+export type EventException = z.infer<typeof EventExceptionSchema>;
+export type Event = z.infer<typeof EventSchema>;
+export type NewEvent = z.infer<typeof NewEventSchema>;
+export type EventUpdate = z.infer<typeof EventUpdateSchema>;
+export type ItemQuantity = z.infer<typeof ItemQuantitySchema>;
+export type GuidePosition = z.infer<typeof GuidePositionSchema>;
+export type GuideChapter = z.infer<typeof GuideChapterSchema>;
+export type NewEventItem = z.infer<typeof NewEventItemSchema>;
+export type ItemClaim = z.infer<typeof ItemClaimSchema>;
+export type EventItem = z.infer<typeof EventItemSchema>;
+export type ItemClaimRequest = z.infer<typeof ItemClaimRequestSchema>;
+export type AddEventItemRequest = z.infer<typeof AddEventItemRequestSchema>;
+export type EventItemUpdate = z.infer<typeof EventItemUpdateSchema>;
+export type Isbn = z.infer<typeof IsbnSchema>;
+export type NewBook = z.infer<typeof NewBookSchema>;
+export type Book = z.infer<typeof BookSchema>;
+export type ReadingProgress = z.infer<typeof ReadingProgressSchema>;
+export type ReadingProgressUpdate = z.infer<typeof ReadingProgressUpdateSchema>;
+export type AvailabilityStatus = z.infer<typeof AvailabilityStatusSchema>;
+export type Availability = z.infer<typeof AvailabilitySchema>;
+export type AvailabilityMap = z.infer<typeof AvailabilityMapSchema>;
+export type AvailabilityNote = z.infer<typeof AvailabilityNoteSchema>;
+export type AvailabilityUpdateRequest = z.infer<typeof AvailabilityUpdateRequestSchema>;
+export type AvailabilityChange = z.infer<typeof AvailabilityChangeSchema>;
+export type AvailabilityUpdateResult = z.infer<typeof AvailabilityUpdateResultSchema>;
+export type ClubMemberPage = z.infer<typeof ClubMemberPageSchema>;
+export type EventPage = z.infer<typeof EventPageSchema>;
+export type EventItemPage = z.infer<typeof EventItemPageSchema>;
+export type LoginRequest = z.infer<typeof LoginRequestSchema>;
+export type AuthResponse = z.infer<typeof AuthResponseSchema>;
+export type ValidateTokenResponse = z.infer<typeof ValidateTokenResponseSchema>;
+export type RefreshRequest = z.infer<typeof RefreshRequestSchema>;
+export type RefreshResponse = z.infer<typeof RefreshResponseSchema>;
+
+/**
+ * Endpoint paths, relative to the API base URL
+ */
+export const paths = {
+    login: () => '/auth/login',
+    logout: () => '/auth/logout',
+    validateToken: () => '/auth/validate',
+    refreshToken: () => '/auth/refresh',
+    listUserClubs: () => '/user/clubs',
+    listClubMembers: (params: { clubId: string }) => `/club/${encodeURIComponent(params.clubId)}/members`,
+    addClubMember: (params: { clubId: string }) => `/club/${encodeURIComponent(params.clubId)}/members`,
+    updateClubMember: (params: { clubId: string; memberId: string }) => `/club/${encodeURIComponent(params.clubId)}/members/${encodeURIComponent(params.memberId)}`,
+    removeClubMember: (params: { clubId: string; memberId: string }) => `/club/${encodeURIComponent(params.clubId)}/members/${encodeURIComponent(params.memberId)}`,
+    listClubEvents: (params: { clubId: string }) => `/club/${encodeURIComponent(params.clubId)}/events`,
+    createClubEvent: (params: { clubId: string }) => `/club/${encodeURIComponent(params.clubId)}/events`,
+    updateClubEvent: (params: { clubId: string; eventId: string }) => `/club/${encodeURIComponent(params.clubId)}/events/${encodeURIComponent(params.eventId)}`,
+    deleteClubEvent: (params: { clubId: string; eventId: string }) => `/club/${encodeURIComponent(params.clubId)}/events/${encodeURIComponent(params.eventId)}`,
+    listClubBooks: (params: { clubId: string }) => `/club/${encodeURIComponent(params.clubId)}/books`,
+    createClubBook: (params: { clubId: string }) => `/club/${encodeURIComponent(params.clubId)}/books`,
+    listReadingProgress: (params: { clubId: string; bookId: string }) => `/club/${encodeURIComponent(params.clubId)}/books/${encodeURIComponent(params.bookId)}/progress`,
+    updateReadingProgress: (params: { clubId: string; bookId: string; memberId: string }) => `/club/${encodeURIComponent(params.clubId)}/books/${encodeURIComponent(params.bookId)}/progress/${encodeURIComponent(params.memberId)}`,
+    getEventAvailability: (params: { eventId: string }) => `/events/${encodeURIComponent(params.eventId)}/availability`,
+    updateAvailability: (params: { eventId: string }) => `/events/${encodeURIComponent(params.eventId)}/availability`,
+    getAvailabilityHistory: (params: { eventId: string }) => `/events/${encodeURIComponent(params.eventId)}/availability/history`,
+    listEventItems: (params: { eventId: string }) => `/events/${encodeURIComponent(params.eventId)}/items`,
+    addEventItem: (params: { eventId: string }) => `/events/${encodeURIComponent(params.eventId)}/items`,
+    updateEventItem: (params: { eventId: string; itemId: string }) => `/events/${encodeURIComponent(params.eventId)}/items/${encodeURIComponent(params.itemId)}`,
+    deleteEventItem: (params: { eventId: string; itemId: string }) => `/events/${encodeURIComponent(params.eventId)}/items/${encodeURIComponent(params.itemId)}`,
+    claimEventItem: (params: { eventId: string; itemId: string }) => `/events/${encodeURIComponent(params.eventId)}/items/${encodeURIComponent(params.itemId)}/claims`,
+};
+
+export interface PaginationQuery {
+    limit?: number;
+    cursor?: string | null;
+    offset?: number;
+}
+
+/**
+ * Performs the request and validates the unwrapped response body against the schema
+ */
+export type ApiTransport = <T>(path: string, init: RequestInit, schema: z.ZodType<T>) => Promise<T>;
+
+function withQuery(path: string, query: PaginationQuery): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+        if (value !== undefined && value !== null) {
+            search.set(key, String(value));
+        }
+    }
+    const queryString = search.toString();
+    return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * Typed fetchers for every operation in the contract
+ */
+export function createApiClient(transport: ApiTransport) {
+    return {
+        /**
+         * Exchange credentials for a session token
+         * POST /auth/login
+         */
+        login: (body: LoginRequest, init: RequestInit = {}) =>
+            transport(paths.login(), { ...init, method: 'POST', body: JSON.stringify(body) }, AuthResponseSchema),
+
+        /**
+         * Revoke a refresh token
+         * POST /auth/logout
+         */
+        logout: (body: RefreshRequest, init: RequestInit = {}) =>
+            transport(paths.logout(), { ...init, method: 'POST', body: JSON.stringify(body) }, z.unknown()),
+
+        /**
+         * Validate the bearer token and return its user
+         * POST /auth/validate
+         */
+        validateToken: (init: RequestInit = {}) =>
+            transport(paths.validateToken(), { ...init, method: 'POST' }, ValidateTokenResponseSchema),
+
+        /**
+         * Exchange a refresh token for a new session token
+         * POST /auth/refresh
+         */
+        refreshToken: (body: RefreshRequest, init: RequestInit = {}) =>
+            transport(paths.refreshToken(), { ...init, method: 'POST', body: JSON.stringify(body) }, RefreshResponseSchema),
+
+        /**
+         * Clubs the signed-in user belongs to, with their role in each
+         * GET /user/clubs
+         */
+        listUserClubs: (init: RequestInit = {}) =>
+            transport(paths.listUserClubs(), { ...init, method: 'GET' }, z.array(UserClubSchema)),
+
+        /**
+         * List members of a club
+         * GET /club/{clubId}/members
+         */
+        listClubMembers: (params: { clubId: string }, init: RequestInit = {}) =>
+            transport(paths.listClubMembers(params), { ...init, method: 'GET' }, z.array(ClubMemberSchema)),
+
+        /**
+         * List members of a club (one page)
+         * GET /club/{clubId}/members
+         */
+        listClubMembersPage: (params: { clubId: string }, query: PaginationQuery = {}, init: RequestInit = {}) =>
+            transport(withQuery(paths.listClubMembers(params), query), { ...init, method: 'GET' }, ClubMemberPageSchema),
+
+        /**
+         * Add a member to a club (club admins only)
+         * POST /club/{clubId}/members
+         */
+        addClubMember: (params: { clubId: string }, body: NewClubMember, init: RequestInit = {}) =>
+            transport(paths.addClubMember(params), { ...init, method: 'POST', body: JSON.stringify(body) }, ClubMemberSchema),
+
+        /**
+         * Update a club member; role and status changes require a club admin
+         * PATCH /club/{clubId}/members/{memberId}
+         */
+        updateClubMember: (params: { clubId: string; memberId: string }, body: ClubMemberUpdate, init: RequestInit = {}) =>
+            transport(paths.updateClubMember(params), { ...init, method: 'PATCH', body: JSON.stringify(body) }, ClubMemberSchema),
+
+        /**
+         * Remove a member from a club (club admins only)
+         * DELETE /club/{clubId}/members/{memberId}
+         */
+        removeClubMember: (params: { clubId: string; memberId: string }, init: RequestInit = {}) =>
+            transport(paths.removeClubMember(params), { ...init, method: 'DELETE' }, z.unknown()),
+
+        /**
+         * List scheduled events of a club
+         * GET /club/{clubId}/events
+         */
+        listClubEvents: (params: { clubId: string }, init: RequestInit = {}) =>
+            transport(paths.listClubEvents(params), { ...init, method: 'GET' }, z.array(EventSchema)),
+
+        /**
+         * List scheduled events of a club (one page)
+         * GET /club/{clubId}/events
+         */
+        listClubEventsPage: (params: { clubId: string }, query: PaginationQuery = {}, init: RequestInit = {}) =>
+            transport(withQuery(paths.listClubEvents(params), query), { ...init, method: 'GET' }, EventPageSchema),
+
+        /**
+         * Schedule an event, optionally repeating by an RRULE
+         * POST /club/{clubId}/events
+         */
+        createClubEvent: (params: { clubId: string }, body: NewEvent, init: RequestInit = {}) =>
+            transport(paths.createClubEvent(params), { ...init, method: 'POST', body: JSON.stringify(body) }, EventSchema),
+
+        /**
+         * Update an event or recurring series; a null rrule stops it repeating
+         * PATCH /club/{clubId}/events/{eventId}
+         */
+        updateClubEvent: (params: { clubId: string; eventId: string }, body: EventUpdate, init: RequestInit = {}) =>
+            transport(paths.updateClubEvent(params), { ...init, method: 'PATCH', body: JSON.stringify(body) }, EventSchema),
+
+        /**
+         * Delete an event and every occurrence of its series
+         * DELETE /club/{clubId}/events/{eventId}
+         */
+        deleteClubEvent: (params: { clubId: string; eventId: string }, init: RequestInit = {}) =>
+            transport(paths.deleteClubEvent(params), { ...init, method: 'DELETE' }, z.unknown()),
+
+        /**
+         * The club's book catalog, newest first
+         * GET /club/{clubId}/books
+         */
+        listClubBooks: (params: { clubId: string }, init: RequestInit = {}) =>
+            transport(paths.listClubBooks(params), { ...init, method: 'GET' }, z.array(BookSchema)),
+
+        /**
+         * Add a book to the catalog for events to discuss, members to nominate and track progress on
+         * POST /club/{clubId}/books
+         */
+        createClubBook: (params: { clubId: string }, body: NewBook, init: RequestInit = {}) =>
+            transport(paths.createClubBook(params), { ...init, method: 'POST', body: JSON.stringify(body) }, BookSchema),
+
+        /**
+         * Every member's progress through a book; members who haven't started have no entry
+         * GET /club/{clubId}/books/{bookId}/progress
+         */
+        listReadingProgress: (params: { clubId: string; bookId: string }, init: RequestInit = {}) =>
+            transport(paths.listReadingProgress(params), { ...init, method: 'GET' }, z.array(ReadingProgressSchema)),
+
+        /**
+         * Record how far a member has read; finishing the book counts towards their booksRead
+         * PUT /club/{clubId}/books/{bookId}/progress/{memberId}
+         */
+        updateReadingProgress: (params: { clubId: string; bookId: string; memberId: string }, body: ReadingProgressUpdate, init: RequestInit = {}) =>
+            transport(paths.updateReadingProgress(params), { ...init, method: 'PUT', body: JSON.stringify(body) }, ReadingProgressSchema),
+
+        /**
+         * Availability of every member for an event, keyed by user ID
+         * GET /events/{eventId}/availability
+         */
+        getEventAvailability: (params: { eventId: string }, init: RequestInit = {}) =>
+            transport(paths.getEventAvailability(params), { ...init, method: 'GET' }, AvailabilityMapSchema),
+
+        /**
+         * Set a member's availability for an event
+         * POST /events/{eventId}/availability
+         */
+        updateAvailability: (params: { eventId: string }, body: AvailabilityUpdateRequest, init: RequestInit = {}) =>
+            transport(paths.updateAvailability(params), { ...init, method: 'POST', body: JSON.stringify(body) }, AvailabilityUpdateResultSchema),
+
+        /**
+         * Every change members made to their availability for an event, newest first
+         * GET /events/{eventId}/availability/history
+         */
+        getAvailabilityHistory: (params: { eventId: string }, init: RequestInit = {}) =>
+            transport(paths.getAvailabilityHistory(params), { ...init, method: 'GET' }, z.array(AvailabilityChangeSchema)),
+
+        /**
+         * List items for an event
+         * GET /events/{eventId}/items
+         */
+        listEventItems: (params: { eventId: string }, init: RequestInit = {}) =>
+            transport(paths.listEventItems(params), { ...init, method: 'GET' }, z.array(EventItemSchema)),
+
+        /**
+         * List items for an event (one page)
+         * GET /events/{eventId}/items
+         */
+        listEventItemsPage: (params: { eventId: string }, query: PaginationQuery = {}, init: RequestInit = {}) =>
+            transport(withQuery(paths.listEventItems(params), query), { ...init, method: 'GET' }, EventItemPageSchema),
+
+        /**
+         * Add an item to an event
+         * POST /events/{eventId}/items
+         */
+        addEventItem: (params: { eventId: string }, body: AddEventItemRequest, init: RequestInit = {}) =>
+            transport(paths.addEventItem(params), { ...init, method: 'POST', body: JSON.stringify(body) }, EventItemSchema),
+
+        /**
+         * Change an item, or hand its claims to other members (organizers only)
+         * PATCH /events/{eventId}/items/{itemId}
+         */
+        updateEventItem: (params: { eventId: string; itemId: string }, body: EventItemUpdate, init: RequestInit = {}) =>
+            transport(paths.updateEventItem(params), { ...init, method: 'PATCH', body: JSON.stringify(body) }, EventItemSchema),
+
+        /**
+         * Remove an item and its claims
+         * DELETE /events/{eventId}/items/{itemId}
+         */
+        deleteEventItem: (params: { eventId: string; itemId: string }, init: RequestInit = {}) =>
+            transport(paths.deleteEventItem(params), { ...init, method: 'DELETE' }, z.unknown()),
+
+        /**
+         * Set how many of an item a member will bring; 0 gives the claim up
+         * PUT /events/{eventId}/items/{itemId}/claims
+         */
+        claimEventItem: (params: { eventId: string; itemId: string }, body: ItemClaimRequest, init: RequestInit = {}) =>
+            transport(paths.claimEventItem(params), { ...init, method: 'PUT', body: JSON.stringify(body) }, EventItemSchema),
+    };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
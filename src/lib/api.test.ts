@@ -0,0 +1,264 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { URL as NodeURL } from 'node:url';
+import {
+	fetchClubMembers,
+	fetchAvailability,
+	updateAvailability,
+	AbortedError,
+	ApiError,
+	invalidateApiCache,
+	configureCircuitBreaker,
+	onCircuitBreakerTransition,
+	getCircuitBreakers,
+	resetCircuitBreaker,
+	type CircuitBreakerTransition
+} from './api';
+import { setTraceContextProvider, parseTraceparent } from './tracing';
+
+vi.mock('$app/environment', () => ({
+	browser: false,
+	dev: true,
+	building: false,
+	version: 'test'
+}));
+
+/**
+ * fetch stand-in that resolves on the next tick unless its signal is aborted first
+ */
+function deferredFetch(body: unknown = [], etag: string | null = null) {
+	return vi.fn((_url: string, init: RequestInit = {}) => new Promise((resolve, reject) => {
+		const ifNoneMatch = (init.headers as Record<string, string> | undefined)?.['If-None-Match'];
+		const notModified = etag !== null && ifNoneMatch === etag;
+		const timer = setTimeout(() => resolve({
+			ok: !notModified,
+			status: notModified ? 304 : 200,
+			headers: new Headers(etag ? { ETag: etag } : {}),
+			json: async () => body
+		}), 5);
+		init.signal?.addEventListener('abort', () => {
+			clearTimeout(timer);
+			reject(new DOMException('Aborted', 'AbortError'));
+		});
+	}));
+}
+
+describe('API request cancellation and deduplication', () => {
+	let fetchMock: ReturnType<typeof deferredFetch>;
+
+	beforeEach(() => {
+		invalidateApiCache();
+		fetchMock = deferredFetch();
+		(globalThis as any).fetch = fetchMock;
+	});
+
+	it('should share one request between identical concurrent GETs', async () => {
+		const [first, second] = await Promise.all([
+			fetchClubMembers('club-dedupe'),
+			fetchClubMembers('club-dedupe')
+		]);
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		expect(first).toEqual([]);
+		expect(second).toEqual([]);
+	});
+
+	it('should keep the shared request alive while another caller still wants it', async () => {
+		const controller = new AbortController();
+		const cancelled = fetchClubMembers('club-partial', controller.signal);
+		const kept = fetchClubMembers('club-partial');
+
+		controller.abort();
+
+		await expect(cancelled).rejects.toBeInstanceOf(AbortedError);
+		await expect(kept).resolves.toEqual([]);
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should abort the underlying fetch once every caller has cancelled', async () => {
+		const controller = new AbortController();
+		const request = fetchClubMembers('club-cancel', controller.signal);
+
+		await new Promise(resolve => setTimeout(resolve, 0));
+		controller.abort();
+
+		await expect(request).rejects.toBeInstanceOf(AbortedError);
+		const init = fetchMock.mock.calls[0][1] as RequestInit;
+		expect(init.signal?.aborted).toBe(true);
+	});
+
+	it('should propagate the active trace on outbound requests', async () => {
+		const active = parseTraceparent('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01', 'vendor=abc')!;
+		setTraceContextProvider(() => active);
+
+		await fetchClubMembers('club-traced');
+		setTraceContextProvider(null);
+
+		const headers = fetchMock.mock.calls[0][1]?.headers as Record<string, string>;
+		expect(headers['traceparent']).toMatch(/^00-4bf92f3577b34da6a3ce929d0e0e4736-[0-9a-f]{16}-01$/);
+		expect(headers['traceparent']).not.toContain(active.spanId);
+		expect(headers['tracestate']).toBe('vendor=abc');
+	});
+
+	it('should not open the circuit breaker for aborted requests', async () => {
+		for (let i = 0; i < 6; i++) {
+			const controller = new AbortController();
+			const request = fetchClubMembers('club-breaker', controller.signal);
+			await new Promise(resolve => setTimeout(resolve, 0));
+			controller.abort();
+			await expect(request).rejects.toBeInstanceOf(AbortedError);
+		}
+
+		await expect(fetchClubMembers('club-breaker')).resolves.toEqual([]);
+	});
+});
+
+describe('API response cache', () => {
+	let fetchMock: ReturnType<typeof deferredFetch>;
+	let now: number;
+
+	beforeEach(() => {
+		invalidateApiCache();
+		now = 1_000_000;
+		vi.spyOn(Date, 'now').mockImplementation(() => now);
+		fetchMock = deferredFetch([], '"v1"');
+		(globalThis as any).fetch = fetchMock;
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('should serve fresh responses without a request', async () => {
+		await fetchClubMembers('club-fresh');
+		await fetchClubMembers('club-fresh');
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+	});
+
+	it('should serve stale responses immediately and revalidate with the ETag', async () => {
+		await fetchClubMembers('club-stale');
+		now += 61_000; // past the members TTL, inside the stale window
+
+		await expect(fetchClubMembers('club-stale')).resolves.toEqual([]);
+		await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+
+		const init = fetchMock.mock.calls[1][1] as RequestInit;
+		expect((init.headers as Record<string, string>)['If-None-Match']).toBe('"v1"');
+
+		// 304 refreshed the entry, so the next read is fresh again
+		await new Promise(resolve => setTimeout(resolve, 10));
+		await fetchClubMembers('club-stale');
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should refetch once the stale window has passed', async () => {
+		await fetchClubMembers('club-expired');
+		now += 60_000 + 600_000 + 1;
+
+		await fetchClubMembers('club-expired');
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should invalidate cached responses after a mutation to the same resource', async () => {
+		const getMock = deferredFetch({});
+		const postMock = deferredFetch({ success: true, eventId: 'event-9', userId: 'user-1', status: 'available' });
+		(globalThis as any).fetch = (url: string, init: RequestInit = {}) =>
+			init.method === 'POST' ? postMock(url, init) : getMock(url, init);
+
+		await fetchAvailability('event-9');
+		await fetchAvailability('event-9');
+		expect(getMock).toHaveBeenCalledTimes(1);
+
+		await updateAvailability('event-9', 'user-1', 'available');
+		await fetchAvailability('event-9');
+		expect(getMock).toHaveBeenCalledTimes(2);
+	});
+});
+
+describe('Circuit breaker policies', () => {
+	let now: number;
+	let transitions: CircuitBreakerTransition[];
+	let stopListening: () => void;
+
+	const failingFetch = () => vi.fn(async () => {
+		throw new TypeError('Failed to fetch');
+	});
+
+	async function failTimes(clubId: string, times: number) {
+		for (let i = 0; i < times; i++) {
+			await expect(fetchClubMembers(clubId)).rejects.toThrow();
+		}
+	}
+
+	beforeEach(() => {
+		invalidateApiCache();
+		// Breakers are keyed by path, which the test-setup URL stand-in does not parse
+		vi.stubGlobal('URL', NodeURL);
+		now = 2_000_000;
+		vi.spyOn(Date, 'now').mockImplementation(() => now);
+		configureCircuitBreaker(/\/club\/breaker-[^/]+\/members$/, { failureThreshold: 2, halfOpenProbes: 1, timeout: 1000 });
+		transitions = [];
+		stopListening = onCircuitBreakerTransition(transition => transitions.push(transition));
+	});
+
+	afterEach(() => {
+		stopListening();
+		resetCircuitBreaker();
+		vi.unstubAllGlobals();
+		vi.restoreAllMocks();
+	});
+
+	it('should open after the endpoint policy threshold and reject without a request', async () => {
+		const fetchMock = failingFetch();
+		(globalThis as any).fetch = fetchMock;
+
+		await failTimes('breaker-open', 2);
+		expect(transitions.map(t => `${t.from}->${t.to}`)).toEqual(['CLOSED->OPEN']);
+
+		await expect(fetchClubMembers('breaker-open')).rejects.toMatchObject({ code: 'CIRCUIT_BREAKER_OPEN' });
+		expect(fetchMock).toHaveBeenCalledTimes(2);
+	});
+
+	it('should close again once the half-open probe succeeds', async () => {
+		(globalThis as any).fetch = failingFetch();
+		await failTimes('breaker-probe', 2);
+
+		now += 1001;
+		(globalThis as any).fetch = deferredFetch([]);
+		await expect(fetchClubMembers('breaker-probe')).resolves.toEqual([]);
+
+		expect(transitions.map(t => `${t.from}->${t.to}`)).toEqual([
+			'CLOSED->OPEN',
+			'OPEN->HALF_OPEN',
+			'HALF_OPEN->CLOSED'
+		]);
+	});
+
+	it('should list breakers and reset them manually', async () => {
+		(globalThis as any).fetch = failingFetch();
+		await failTimes('breaker-reset', 2);
+
+		const breaker = getCircuitBreakers().find(b => b.endpoint?.endsWith('/club/breaker-reset/members'));
+		expect(breaker).toMatchObject({ state: 'OPEN', failures: 2, policy: { failureThreshold: 2 } });
+
+		expect(resetCircuitBreaker(breaker!.endpoint)).toBe(1);
+		expect(transitions.at(-1)).toMatchObject({ from: 'OPEN', to: 'CLOSED' });
+		expect(getCircuitBreakers().find(b => b.endpoint === breaker!.endpoint)?.state).toBe('CLOSED');
+	});
+});
+
+describe('ApiError', () => {
+	it('should read the backend\'s error response and fall back to a bare message', () => {
+		const standard = new ApiError(new Response(null, { status: 409 }), {
+			error: 'Conflict',
+			message: 'That member is already in the club',
+			code: 'MEMBER_EXISTS',
+			details: { memberId: 'm-1' }
+		});
+		expect(standard).toMatchObject({ statusCode: 409, message: 'That member is already in the club', code: 'MEMBER_EXISTS', details: { memberId: 'm-1' } });
+
+		// A numeric code isn't the documented format, so only the message is used
+		const legacy = new ApiError(new Response(null, { status: 400 }), { error: 'Bad Request', message: 'Name is required', code: 400 });
+		expect(legacy).toMatchObject({ statusCode: 400, message: 'Name is required', code: undefined });
+	});
+});
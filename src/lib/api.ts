@@ -6,7 +6,118 @@
 
 import { z } from 'zod';
 import { getApiConfig, isDevelopment, isMockDataEnabled } from './env';
-import { TIME_CONSTANTS } from './constants';
+import { TIME_CONSTANTS, UI_CONSTANTS } from './constants';
+import { apiCache } from './performance';
+import { ApplicationMetrics } from './metrics';
+import { startSpan, injectTraceHeaders, type Span } from './tracing';
+// Schemas and endpoints generated from openapi/bookwork.json (npm run generate:api)
+import {
+    ErrorResponseSchema,
+    UserSchema,
+    ClubMemberSchema,
+    EventSchema,
+    EventItemSchema,
+    AvailabilitySchema,
+    LoginRequestSchema,
+    AuthResponseSchema,
+    NewClubMemberSchema,
+    ClubMemberUpdateSchema,
+    NewEventSchema,
+    EventUpdateSchema,
+    EventItemUpdateSchema,
+    ItemClaimRequestSchema,
+    ReadingProgressUpdateSchema,
+    createApiClient,
+    paths,
+    type PaginationQuery,
+    type ClubMember,
+    type NewClubMember,
+    type ClubMemberUpdate,
+    type NewEvent,
+    type EventUpdate,
+    type AvailabilityChange,
+    type NewEventItem,
+    type EventItemUpdate,
+    type ItemClaimRequest,
+    type Book,
+    type NewBook,
+    type ReadingProgress,
+    type ReadingProgressUpdate,
+    type UserClub
+} from './api.generated';
+import {
+    ClubInvitationSchema,
+    InvitationPreviewSchema,
+    AcceptedInvitationSchema,
+    JoinRequestSchema,
+    NewInvitationSchema,
+    NewJoinRequestSchema,
+    type ClubInvitation,
+    type InvitationPreview,
+    type AcceptedInvitation,
+    type JoinRequest,
+    type JoinRequestStatus,
+    type JoinRequestDecision,
+    type NewInvitation,
+    type NewJoinRequest
+} from './invitations';
+import { CalendarFeedSchema, type CalendarFeed } from './ical';
+import { BookMetadataSchema, NewCatalogBookSchema, findCatalogBook, type BookMetadata } from './books';
+import {
+    MeetingPollSchema,
+    NewMeetingPollSchema,
+    PollResponseSchema,
+    type MeetingPoll,
+    type NewMeetingPoll,
+    type PollResponse
+} from './meetingPolls';
+import {
+    AttachWinnerSchema,
+    BallotSchema,
+    BookNominationSchema,
+    BookVoteSchema,
+    NewBookVoteSchema,
+    NewNominationSchema,
+    type AttachWinner,
+    type BookNomination,
+    type BookVote,
+    type NewBookVote,
+    type NewNomination
+} from './bookVotes';
+import {
+    DiscussionPostSchema,
+    DiscussionThreadDetailSchema,
+    DiscussionThreadSchema,
+    ModerateThreadSchema,
+    NewPostSchema,
+    NewThreadSchema,
+    SetReactionSchema,
+    cleanPostBody,
+    cleanThreadTitle,
+    type DiscussionPost,
+    type DiscussionThread,
+    type DiscussionThreadDetail,
+    type ModerateThread,
+    type NewPost,
+    type NewThread,
+    type Reaction
+} from './discussions';
+import {
+    MarkNotificationsReadSchema,
+    PushSubscriptionSchema,
+    ReminderPreferencesSchema,
+    ReminderSettingsSchema,
+    UserNotificationSchema,
+    type PushSubscriptionInput,
+    type ReminderPreferences,
+    type ReminderSettings,
+    type UserNotification
+} from './reminders';
+import { eventStart } from './recurrence';
+import { applyRsvp, markWaitlist } from './rsvp';
+import { claimConflict, claimedQuantity, findSimilarItem, neededQuantity, setClaim } from './potluck';
+import { cleanGuideText, isGuideItem } from './discussionGuides';
+import { applyProgressUpdate, countBooksRead, progressConflict } from './reading';
 import CryptoUtils from './crypto.js';
 
 // Import token storage for authorization headers
@@ -15,7 +126,7 @@ import { browser } from '$app/environment';
 /**
  * Get current authentication token from storage using secure encryption
  */
-async function getAuthToken(): Promise<string | null> {
+export async function getAuthToken(): Promise<string | null> {
     if (!browser) return null;
     
     try {
@@ -78,12 +189,14 @@ export class ApiError extends Error {
             statusCode = response.status;
         }
 
+        const standard = ErrorResponseSchema.safeParse(body);
+
         if (body) {
             // Handle standardized backend error format
-            if (body.error && body.code) {
-                message = body.message || body.error;
-                code = body.code;
-                details = body.details;
+            if (standard.success) {
+                message = standard.data.message || standard.data.error;
+                code = standard.data.code;
+                details = standard.data.details;
             } 
             // Handle legacy format
             else if (body.message) {
@@ -157,12 +270,15 @@ export class ApiError extends Error {
 // Network-related errors
 export class NetworkError extends ApiError {
     constructor(originalError?: Error) {
-        super(new Response(null, { status: 0 }), {
+        // No response exists; status 0 cannot be passed to the Response constructor
+        super(undefined, {
             error: 'Network error',
             message: 'Unable to connect to the server. Please check your internet connection.',
             code: 'NETWORK_ERROR'
         });
         this.name = 'NetworkError';
+        this.statusCode = 0;
+        this.userMessage = 'Unable to connect to the server. Please check your internet connection.';
         if (originalError) {
             this.context = { originalError: originalError.message };
         }
@@ -232,76 +348,28 @@ export class TimeoutError extends ApiError {
     }
 }
 
+// Cancelled requests (caller aborted via AbortSignal) - not a failure of the service
+export class AbortedError extends ApiError {
+    constructor() {
+        super(undefined, {
+            error: 'Request aborted',
+            message: 'The request was cancelled',
+            code: 'REQUEST_ABORTED'
+        });
+        this.name = 'AbortedError';
+        this.statusCode = 0;
+        this.userMessage = 'The request was cancelled.';
+    }
+}
+
 /**
- * Zod schemas for API response validation
- */
-
-// User schema - matches Go User model
-const UserSchema = z.object({
-    id: z.string().uuid('User ID must be a valid UUID'),
-    name: z.string().min(1, 'User name is required'),
-    email: z.string().email('Invalid email format'),
-    phone: z.string().nullable().optional(),
-    avatar: z.string().url('Avatar must be a valid URL').nullable().optional(),
-    role: z.enum(['admin', 'moderator', 'member', 'guest']),
-    isActive: z.boolean(),
-    lastLoginAt: z.string().datetime('Invalid last login date').nullable().optional(),
-    createdAt: z.string().datetime('Invalid creation date'),
-    updatedAt: z.string().datetime('Invalid update date').optional(),
-    joinedDate: z.string().datetime('Invalid join date').nullable().optional(), // For API compatibility
-});
-
-// Club member schema - extends User with club-specific data
-const ClubMemberSchema = UserSchema.extend({
-    joinDate: z.string().datetime('Invalid join date format'),
-    status: z.enum(['active', 'inactive', 'pending']),
-    permissions: z.array(z.string()).optional(),
-    booksRead: z.number().int().min(0).optional(),
-    clubRole: z.enum(['admin', 'moderator', 'member', 'guest']).optional(),
-});
-
-// Event schema
-const EventSchema = z.object({
-    id: z.string().min(1, 'Event ID is required'),
-    title: z.string().min(1, 'Event title is required'),
-    description: z.string().optional(),
-    date: z.string().datetime('Invalid event date format'),
-    location: z.string().optional(),
-    type: z.enum(['meeting', 'training', 'social', 'other']),
-    status: z.enum(['scheduled', 'cancelled', 'completed']),
-    organizerId: z.string().min(1, 'Organizer ID is required'),
-});
-
-// Event item schema
-const EventItemSchema = z.object({
-    id: z.string().min(1, 'Item ID is required'),
-    title: z.string().min(1, 'Item title is required'),
-    description: z.string().optional(),
-    type: z.enum(['agenda', 'material', 'task', 'note']),
-    status: z.enum(['pending', 'completed', 'cancelled']),
-    assigneeId: z.string().optional(),
-    dueDate: z.string().datetime('Invalid due date format').optional(),
-});
-
-// Availability schema
-const AvailabilitySchema = z.object({
-    userId: z.string().min(1, 'User ID is required'),
-    status: z.enum(['available', 'unavailable', 'maybe']),
-    note: z.string().optional(),
-    updatedAt: z.string().datetime('Invalid update timestamp'),
-});
-
-// Authentication schemas
-const LoginRequestSchema = z.object({
-    email: z.string().email('Invalid email format'),
-    password: z.string().min(1, 'Password is required'),
-});
-
-const AuthResponseSchema = z.object({
-    token: z.string().min(1, 'Token is required'),
-    user: UserSchema,
-    expiresAt: z.string().datetime('Invalid expiration date').optional(),
-});
+ * Throw AbortedError if the caller has already cancelled
+ */
+function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw new AbortedError();
+    }
+}
 
 /**
  * Mock data adapters to convert legacy mock data to schema-compliant format
@@ -312,6 +380,9 @@ async function adaptMockClubMembers(clubId: string): Promise<z.infer<typeof Club
     const mockDataService = await import('./mockDataService');
     const mockService = await mockDataService.getMockDataService();
     const mockMembers = await mockService.getClubMembers(clubId);
+    // booksRead is counted from finished reading progress, like the backend does
+    const books = await mockService.getBooks(clubId);
+    const booksRead = countBooksRead((await Promise.all(books.map((book: any) => mockService.getReadingProgress(book.id)))).flat());
     // Preserve all original fields, only fill in missing optional fields if needed
     return mockMembers.map((member: any) => ({
         ...member,
@@ -322,90 +393,279 @@ async function adaptMockClubMembers(clubId: string): Promise<z.infer<typeof Club
         joinedDate: member.joinedDate ?? member.joinDate ?? new Date().toISOString(),
         joinDate: member.joinDate ?? member.joinedDate ?? new Date().toISOString(),
         permissions: member.permissions ?? [],
-        booksRead: member.booksRead ?? 0,
+        booksRead: booksRead[member.id] ?? 0,
         clubRole: member.clubRole ?? member.role,
         isActive: member.isActive ?? true,
         status: member.status ?? 'active',
     }));
 }
 
-// Convert mock events to schema format
-async function adaptMockEvents(): Promise<z.infer<typeof EventSchema>[]> {
+// Convert mock events to schema format; every club's when no club is given
+async function adaptMockEvents(clubId?: string): Promise<z.infer<typeof EventSchema>[]> {
     const mockDataService = await import('./mockDataService');
     const mockService = await mockDataService.getMockDataService();
-    const mockEvents = await mockService.getScheduleEvents();
+    const mockEvents = await mockService.getScheduleEvents(clubId);
     return mockEvents.map((event: any) => ({
         id: event.id,
         title: event.title,
         description: event.description || '',
-        date: new Date(event.date).toISOString(),
+        // Mock events keep a calendar date plus an HH:MM time in the event's zone (or local time)
+        date: eventStart({ date: event.date, time: event.time, timeZone: event.timeZone }).toISOString(),
         location: event.location,
         type: event.type || 'meeting',
         status: event.status || 'scheduled',
         organizerId: event.organizerId || '1',
         attendees: Array.isArray(event.attendees) ? [...event.attendees] : [],
         time: event.time || '',
-        book: event.book || undefined
+        bookId: event.bookId || undefined,
+        timeZone: event.timeZone || undefined,
+        uid: event.uid || undefined,
+        capacity: event.capacity || undefined,
+        rrule: event.rrule || undefined,
+        exceptions: Array.isArray(event.exceptions) ? event.exceptions.map((exception: any) => ({ ...exception })) : undefined
     }));
 }
 
+// When seeded mock answers and claims were given, so seats and sign-ups keep a stable order
+const MOCK_SEED_ANSWERED_AT = '2024-01-01T00:00:00.000Z';
+
 // Convert mock event items to schema format
+// Seeded items are the old backend shape, claimed in full by their assignee; items saved since are EventItems
 async function adaptMockEventItems(eventId: string): Promise<z.infer<typeof EventItemSchema>[]> {
     const mockDataService = await import('./mockDataService');
     const mockService = await mockDataService.getMockDataService();
     const items = await mockService.getEventItems(eventId);
-    return items.map((item: any) => ({
-        id: item.id,
-        title: item.name || item.title,
-        description: item.notes || item.description,
-        type: 'task' as const,
-        status: (item.status === 'completed' || item.status === 'cancelled') ? item.status : 'pending' as const,
-        assigneeId: item.assignedTo || item.assigneeId,
-        dueDate: item.dueDate ? new Date(item.dueDate).toISOString() : undefined,
-    }));
+    return items.map((item: any) => {
+        const assigneeId = item.assigneeId || item.assignedTo;
+        return {
+            id: item.id,
+            title: item.title || item.name,
+            description: item.description || item.notes,
+            type: item.type || 'task' as const,
+            status: (item.status === 'completed' || item.status === 'cancelled') ? item.status : 'pending' as const,
+            assigneeId,
+            dueDate: item.dueDate ? new Date(item.dueDate).toISOString() : undefined,
+            quantity: item.quantity,
+            position: item.position,
+            chapter: item.chapter ?? undefined,
+            spoiler: item.spoiler,
+            claims: item.claims ?? (assigneeId ? [{ userId: assigneeId, quantity: item.quantity ?? 1, claimedAt: MOCK_SEED_ANSWERED_AT }] : [])
+        };
+    });
 }
 
 // Convert mock availability to schema format
+// Seeded answers are bare statuses; answers saved since are full responses
 async function adaptMockAvailability(eventId: string): Promise<Record<string, z.infer<typeof AvailabilitySchema>>> {
     const mockDataService = await import('./mockDataService');
     const mockService = await mockDataService.getMockDataService();
     const availability = await mockService.getMeetingAvailability(eventId);
     const adapted: Record<string, z.infer<typeof AvailabilitySchema>> = {};
     
-    Object.entries(availability).forEach(([userId, status]) => {
+    Object.entries(availability).forEach(([userId, answer]) => {
+        if (typeof answer === 'object' && answer !== null) {
+            adapted[userId] = { ...answer, userId };
+            return;
+        }
         adapted[userId] = {
             userId,
-            status: (status === 'available' || status === 'unavailable' || status === 'maybe') 
-                ? status 
+            status: (answer === 'available' || answer === 'unavailable' || answer === 'maybe') 
+                ? answer 
                 : 'maybe' as const,
-            updatedAt: new Date().toISOString(),
-            note: undefined,
+            updatedAt: MOCK_SEED_ANSWERED_AT,
         };
     });
     
-    return adapted;
+    return markWaitlist(adapted, await mockEventCapacity(eventId));
+}
+
+// Seats for a mock event, or null when it has no limit
+async function mockEventCapacity(eventId: string): Promise<number | null> {
+    const mockDataService = await import('./mockDataService');
+    const mockService = await mockDataService.getMockDataService();
+    const events = await mockService.getScheduleEvents();
+    return events.find((event: any) => event.id === eventId)?.capacity ?? null;
+}
+
+/**
+ * Pagination helpers
+ */
+
+/**
+ * Page request parameters accepted by paginated fetchers
+ * Use cursor for infinite scroll and offset for direct page jumps; cursor wins if both are set
+ */
+export interface PaginationParams {
+    cursor?: string | null;
+    offset?: number;
+    limit?: number;
+}
+
+/**
+ * Clamp a requested page size to the configured bounds
+ */
+function normalizePageSize(limit?: number): number {
+    if (!limit || !Number.isFinite(limit) || limit < 1) {
+        return UI_CONSTANTS.DEFAULT_PAGE_SIZE;
+    }
+    return Math.min(Math.floor(limit), UI_CONSTANTS.MAX_PAGE_SIZE);
+}
+
+/**
+ * Build the query for a paginated endpoint
+ */
+function buildPaginationQuery(params: PaginationParams = {}): PaginationQuery {
+    const query: PaginationQuery = { limit: normalizePageSize(params.limit) };
+
+    if (params.cursor) {
+        query.cursor = params.cursor;
+    } else if (params.offset && params.offset > 0) {
+        query.offset = Math.floor(params.offset);
+    }
+
+    return query;
+}
+
+/**
+ * Slice an already-loaded array into a page
+ * Used for mock data, where the cursor is simply the encoded offset of the next page
+ */
+function paginateLocally<T>(items: T[], params: PaginationParams = {}): PaginatedResult<T> {
+    const limit = normalizePageSize(params.limit);
+    const cursorOffset = params.cursor ? parseInt(params.cursor, 10) : NaN;
+    const offset = Number.isNaN(cursorOffset) ? Math.max(0, Math.floor(params.offset ?? 0)) : cursorOffset;
+    const end = offset + limit;
+
+    return {
+        items: items.slice(offset, end),
+        nextCursor: end < items.length ? String(end) : null,
+        total: items.length,
+    };
 }
 
 /**
  * Circuit breaker state tracking
  */
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
 interface CircuitBreakerState {
     failures: number;
     lastFailTime: number;
-    state: 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+    state: CircuitState;
+    probesInFlight: number;
+    probeSuccesses: number;
 }
 
 const circuitBreakers = new Map<string, CircuitBreakerState>();
 
 /**
- * Circuit breaker configuration
+ * Circuit breaker policy for an endpoint
  */
-const CIRCUIT_BREAKER_CONFIG = {
-    failureThreshold: 5, // Open circuit after 5 consecutive failures
-    timeout: 30000, // 30 seconds before trying half-open
-    successThreshold: 2 // Close circuit after 2 consecutive successes in half-open
+export interface CircuitBreakerPolicy {
+    /** Consecutive failures before the circuit opens */
+    failureThreshold: number;
+    /** Requests let through while half-open; all must succeed to close the circuit */
+    halfOpenProbes: number;
+    /** Milliseconds the circuit stays open before probing */
+    timeout: number;
+}
+
+const DEFAULT_CIRCUIT_BREAKER_POLICY: CircuitBreakerPolicy = {
+    failureThreshold: 5,
+    halfOpenProbes: 2,
+    timeout: 30000
 };
 
+/**
+ * Per-endpoint circuit breaker policies, first match wins
+ * Auth endpoints trip sooner and back off longer so a failing login is not hammered
+ */
+const circuitBreakerPolicies: Array<{ pattern: RegExp; policy: CircuitBreakerPolicy }> = [
+    { pattern: /^\/auth\//, policy: { failureThreshold: 3, halfOpenProbes: 1, timeout: 60000 } }
+];
+
+/**
+ * Override or add the circuit breaker policy for endpoints whose path matches a pattern
+ * @param pattern - Regular expression tested against the request path
+ * @param policy - Failure threshold, half-open probe count and open timeout
+ */
+export function configureCircuitBreaker(pattern: RegExp, policy: CircuitBreakerPolicy): void {
+    const existing = circuitBreakerPolicies.findIndex(entry => entry.pattern.source === pattern.source);
+    if (existing >= 0) {
+        circuitBreakerPolicies[existing] = { pattern, policy };
+    } else {
+        circuitBreakerPolicies.unshift({ pattern, policy });
+    }
+}
+
+function getCircuitBreakerPolicy(endpoint: string): CircuitBreakerPolicy {
+    return circuitBreakerPolicies.find(entry => entry.pattern.test(endpoint))?.policy ?? DEFAULT_CIRCUIT_BREAKER_POLICY;
+}
+
+/**
+ * Circuit breaker state change, delivered to onCircuitBreakerTransition listeners
+ */
+export interface CircuitBreakerTransition {
+    endpoint: string;
+    from: CircuitState;
+    to: CircuitState;
+    failures: number;
+    timestamp: number;
+}
+
+type CircuitBreakerListener = (transition: CircuitBreakerTransition) => void;
+
+const circuitBreakerListeners = new Set<CircuitBreakerListener>();
+
+/**
+ * Subscribe to circuit breaker state changes
+ * @param listener - Called on every transition, including manual resets
+ * @returns Function that removes the listener
+ */
+export function onCircuitBreakerTransition(listener: CircuitBreakerListener): () => void {
+    circuitBreakerListeners.add(listener);
+    return () => circuitBreakerListeners.delete(listener);
+}
+
+/**
+ * Collapse ID segments so metric labels stay bounded, e.g. /club/:id/members
+ */
+function endpointLabel(endpoint: string): string {
+    return endpoint.replace(/\/[^/]*\d[^/]*/g, '/:id');
+}
+
+function transitionCircuitBreaker(endpoint: string, breaker: CircuitBreakerState, to: CircuitState): void {
+    const from = breaker.state;
+    if (from === to) return;
+
+    breaker.state = to;
+    breaker.probesInFlight = 0;
+    breaker.probeSuccesses = 0;
+
+    const label = endpointLabel(endpoint);
+    ApplicationMetrics.setCircuitBreakerState(label, to);
+    ApplicationMetrics.recordCircuitBreakerTransition(label, from, to);
+
+    if (isDevelopment()) {
+        console.warn(`[API] Circuit breaker for ${endpoint}: ${from} -> ${to}`);
+    }
+
+    const transition: CircuitBreakerTransition = {
+        endpoint,
+        from,
+        to,
+        failures: breaker.failures,
+        timestamp: Date.now()
+    };
+    circuitBreakerListeners.forEach(listener => {
+        try {
+            listener(transition);
+        } catch (error) {
+            console.error('[API] Circuit breaker listener failed:', error);
+        }
+    });
+}
+
 /**
  * Get circuit breaker state for an endpoint
  */
@@ -414,7 +674,9 @@ function getCircuitBreakerState(endpoint: string): CircuitBreakerState {
         circuitBreakers.set(endpoint, {
             failures: 0,
             lastFailTime: 0,
-            state: 'CLOSED'
+            state: 'CLOSED',
+            probesInFlight: 0,
+            probeSuccesses: 0
         });
     }
     return circuitBreakers.get(endpoint)!;
@@ -426,9 +688,13 @@ function getCircuitBreakerState(endpoint: string): CircuitBreakerState {
 function onCircuitBreakerSuccess(endpoint: string) {
     const state = getCircuitBreakerState(endpoint);
     if (state.state === 'HALF_OPEN') {
-        // Reset to closed after successful half-open request
-        state.state = 'CLOSED';
-        state.failures = 0;
+        state.probesInFlight = Math.max(0, state.probesInFlight - 1);
+        state.probeSuccesses++;
+        // Close once every probe has come back healthy
+        if (state.probeSuccesses >= getCircuitBreakerPolicy(endpoint).halfOpenProbes) {
+            state.failures = 0;
+            transitionCircuitBreaker(endpoint, state, 'CLOSED');
+        }
     } else if (state.state === 'CLOSED') {
         // Reset failure count on successful closed request
         state.failures = 0;
@@ -443,8 +709,19 @@ function onCircuitBreakerFailure(endpoint: string) {
     state.failures++;
     state.lastFailTime = Date.now();
     
-    if (state.failures >= CIRCUIT_BREAKER_CONFIG.failureThreshold) {
-        state.state = 'OPEN';
+    // A failed probe reopens immediately
+    if (state.state === 'HALF_OPEN' || state.failures >= getCircuitBreakerPolicy(endpoint).failureThreshold) {
+        transitionCircuitBreaker(endpoint, state, 'OPEN');
+    }
+}
+
+/**
+ * Release a half-open probe slot without counting the outcome (caller cancelled)
+ */
+function onCircuitBreakerAbort(endpoint: string) {
+    const state = getCircuitBreakerState(endpoint);
+    if (state.state === 'HALF_OPEN') {
+        state.probesInFlight = Math.max(0, state.probesInFlight - 1);
     }
 }
 
@@ -453,24 +730,77 @@ function onCircuitBreakerFailure(endpoint: string) {
  */
 function canMakeRequest(endpoint: string): boolean {
     const state = getCircuitBreakerState(endpoint);
+    const policy = getCircuitBreakerPolicy(endpoint);
     
     switch (state.state) {
         case 'CLOSED':
             return true;
         case 'OPEN':
             // Check if timeout has passed to move to half-open
-            if (Date.now() - state.lastFailTime > CIRCUIT_BREAKER_CONFIG.timeout) {
-                state.state = 'HALF_OPEN';
+            if (Date.now() - state.lastFailTime > policy.timeout) {
+                transitionCircuitBreaker(endpoint, state, 'HALF_OPEN');
+                state.probesInFlight++;
                 return true;
             }
             return false;
         case 'HALF_OPEN':
-            return true;
+            // Only a limited number of probes at a time
+            if (state.probesInFlight < policy.halfOpenProbes) {
+                state.probesInFlight++;
+                return true;
+            }
+            return false;
         default:
             return true;
     }
 }
 
+/**
+ * Circuit breaker snapshot for diagnostics
+ */
+export interface CircuitBreakerInfo {
+    endpoint: string;
+    state: CircuitState;
+    failures: number;
+    lastFailTime: number | null;
+    policy: CircuitBreakerPolicy;
+}
+
+/**
+ * List every circuit breaker that has seen traffic
+ * @returns Snapshot of each breaker's state and effective policy
+ */
+export function getCircuitBreakers(): CircuitBreakerInfo[] {
+    return Array.from(circuitBreakers.entries()).map(([endpoint, state]) => ({
+        endpoint,
+        state: state.state,
+        failures: state.failures,
+        lastFailTime: state.lastFailTime || null,
+        policy: getCircuitBreakerPolicy(endpoint)
+    }));
+}
+
+/**
+ * Manually close circuit breakers
+ * @param endpoint - Request path of the breaker to reset; omit to reset all
+ * @returns Number of breakers reset
+ */
+export function resetCircuitBreaker(endpoint?: string): number {
+    const endpoints = endpoint ? [endpoint] : Array.from(circuitBreakers.keys());
+    let reset = 0;
+
+    for (const key of endpoints) {
+        const state = circuitBreakers.get(key);
+        if (!state) continue;
+        state.failures = 0;
+        state.lastFailTime = 0;
+        transitionCircuitBreaker(key, state, 'CLOSED');
+        reset++;
+    }
+
+    return reset;
+}
+
 /**
  * Retry configuration
  */
@@ -501,12 +831,38 @@ function isRetryableError(error: any): boolean {
     return RETRY_CONFIG.retryableErrors.includes(error.name);
 }
 
+/**
+ * Wait for a delay, rejecting early with AbortedError if the caller cancels
+ */
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AbortedError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(new AbortedError());
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
 /**
  * Creates a fetch request with timeout, retry logic, and circuit breaker
+ * Honours options.signal: cancelled requests reject with AbortedError and never count
+ * as circuit breaker failures or get retried
  */
 function createResilientFetch(timeout: number = getAPITimeout()) {
     return async function(url: string, options: RequestInit = {}, retryAttempt = 0): Promise<Response> {
         const endpoint = new URL(url).pathname;
+        const callerSignal = options.signal ?? undefined;
+
+        throwIfAborted(callerSignal);
         
         // Circuit breaker check
         if (!canMakeRequest(endpoint)) {
@@ -519,21 +875,33 @@ function createResilientFetch(timeout: number = getAPITimeout()) {
                 }
             );
         }
+
+        // Own controller so both timeouts and caller cancellation actually abort the fetch
+        const controller = new AbortController();
+        let onCallerAbort: (() => void) | undefined;
         
         try {
             const response = await new Promise<Response>((resolve, reject) => {
                 const timeoutId = setTimeout(() => {
+                    controller.abort();
                     reject(new TimeoutError());
                 }, timeout);
 
-                fetch(url, options)
+                onCallerAbort = () => {
+                    clearTimeout(timeoutId);
+                    controller.abort();
+                    reject(new AbortedError());
+                };
+                callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+
+                fetch(url, { ...options, signal: controller.signal })
                     .then(response => {
                         clearTimeout(timeoutId);
                         resolve(response);
                     })
                     .catch(error => {
                         clearTimeout(timeoutId);
-                        reject(error);
+                        reject(callerSignal?.aborted ? new AbortedError() : error);
                     });
             });
             
@@ -542,6 +910,12 @@ function createResilientFetch(timeout: number = getAPITimeout()) {
             return response;
             
         } catch (error) {
+            // Cancellation is the caller's choice, not a service failure
+            if (error instanceof AbortedError) {
+                onCircuitBreakerAbort(endpoint);
+                throw error;
+            }
+
             // Update circuit breaker on failure
             onCircuitBreakerFailure(endpoint);
             
@@ -553,11 +927,15 @@ function createResilientFetch(timeout: number = getAPITimeout()) {
                     console.warn(`[API] Retrying request to ${url} in ${delay}ms (attempt ${retryAttempt + 1}/${RETRY_CONFIG.maxRetries})`);
                 }
                 
-                await new Promise(resolve => setTimeout(resolve, delay));
+                await abortableDelay(delay, callerSignal);
                 return createResilientFetch(timeout)(url, options, retryAttempt + 1);
             }
             
             throw error;
+        } finally {
+            if (onCallerAbort) {
+                callerSignal?.removeEventListener('abort', onCallerAbort);
+            }
         }
     };
 }
@@ -572,16 +950,244 @@ function getResilientFetch() {
 }
 
 /**
- * Generic API request function with comprehensive error handling and validation
- * @param url - The API endpoint URL
- * @param options - Fetch options (method, headers, body, etc.)
- * @param schema - Zod schema for response validation
- * @returns Validated response data
+ * In-flight GET tracking for request deduplication
+ * Identical concurrent GETs share one underlying request; it is only aborted once
+ * every caller sharing it has cancelled
+ */
+interface InFlightRequest {
+    promise: Promise<unknown>;
+    controller: AbortController;
+    subscribers: number;
+}
+
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+/**
+ * Join (or start) the shared request for a key
+ */
+function shareInFlightRequest<T>(
+    key: string,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+    if (signal?.aborted) {
+        return Promise.reject(new AbortedError());
+    }
+
+    let entry = inFlightRequests.get(key);
+    if (!entry) {
+        const controller = new AbortController();
+        const created: InFlightRequest = {
+            controller,
+            subscribers: 0,
+            promise: run(controller.signal).finally(() => {
+                if (inFlightRequests.get(key) === created) {
+                    inFlightRequests.delete(key);
+                }
+            })
+        };
+        inFlightRequests.set(key, created);
+        entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+
+    return new Promise<T>((resolve, reject) => {
+        let settled = false;
+
+        const onAbort = () => {
+            if (settled) return;
+            settled = true;
+            shared.subscribers--;
+
+            // Last interested caller gone - cancel the underlying request
+            if (shared.subscribers === 0) {
+                if (inFlightRequests.get(key) === shared) {
+                    inFlightRequests.delete(key);
+                }
+                shared.controller.abort();
+            }
+            reject(new AbortedError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        shared.promise.then(
+            value => {
+                if (settled) return;
+                settled = true;
+                shared.subscribers--;
+                signal?.removeEventListener('abort', onAbort);
+                resolve(value as T);
+            },
+            error => {
+                if (settled) return;
+                settled = true;
+                shared.subscribers--;
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+/**
+ * Stale-while-revalidate response cache for GETs
+ * Fresh responses are served without a request; stale ones are served immediately and
+ * revalidated in the background with If-None-Match. Successful mutations invalidate
+ * cached responses for the same resource.
+ */
+export interface CachePolicy {
+    /** How long a response is served without revalidating (0 disables caching) */
+    ttl: number;
+    /** How long past the TTL a stale response may be served while revalidating */
+    staleWhileRevalidate: number;
+}
+
+const DEFAULT_CACHE_POLICY: CachePolicy = {
+    ttl: 30000, // 30 seconds
+    staleWhileRevalidate: 300000 // 5 minutes
+};
+
+// First matching pattern wins; matched against the URL path
+const cachePolicies: Array<{ pattern: RegExp; policy: CachePolicy }> = [
+    { pattern: /\/events\/[^/]+\/availability$/, policy: { ttl: 10000, staleWhileRevalidate: 60000 } },
+    { pattern: /\/events\/[^/]+\/availability\/history$/, policy: { ttl: 0, staleWhileRevalidate: 0 } },
+    { pattern: /\/events\/[^/]+\/items$/, policy: { ttl: 15000, staleWhileRevalidate: 120000 } },
+    { pattern: /\/user\/clubs$/, policy: { ttl: 60000, staleWhileRevalidate: 600000 } },
+    { pattern: /\/club\/[^/]+\/members$/, policy: { ttl: 60000, staleWhileRevalidate: 600000 } },
+    { pattern: /\/club\/[^/]+\/events$/, policy: { ttl: 60000, staleWhileRevalidate: 600000 } },
+    // Polled for new reminders, so never served from the cache
+    { pattern: /\/api\/notifications$/, policy: { ttl: 0, staleWhileRevalidate: 0 } },
+    // Threads change with every post; reloading a thread should show the latest replies
+    { pattern: /\/api\/clubs\/[^/]+\/threads(\/[^/]+)?$/, policy: { ttl: 0, staleWhileRevalidate: 0 } }
+];
+
+/**
+ * Override or add the cache policy for endpoints whose path matches a pattern
+ * @param pattern - Regular expression tested against the request path
+ * @param policy - TTL and stale window; a ttl of 0 disables caching for the endpoint
+ */
+export function configureCachePolicy(pattern: RegExp, policy: CachePolicy): void {
+    const existing = cachePolicies.findIndex(entry => entry.pattern.source === pattern.source);
+    if (existing >= 0) {
+        cachePolicies[existing] = { pattern, policy };
+    } else {
+        cachePolicies.unshift({ pattern, policy });
+    }
+}
+
+function stripQuery(url: string): string {
+    const index = url.indexOf('?');
+    return index === -1 ? url : url.slice(0, index);
+}
+
+function getCachePolicy(url: string): CachePolicy {
+    const path = stripQuery(url);
+    return cachePolicies.find(entry => entry.pattern.test(path))?.policy ?? DEFAULT_CACHE_POLICY;
+}
+
+/**
+ * Full URL of a backend path, as the response cache keys it
+ * e.g. invalidateApiCache(backendUrl(paths.listEventItems({ eventId })))
+ */
+export function backendUrl(path: string): string {
+    return `${getAPIBase()}${path}`;
+}
+
+/**
+ * Drop cached responses affected by a change to a resource
+ * Removes the resource itself, anything beneath it, and its parent collection
+ * @param url - Resource URL that changed; omit to clear the whole response cache
+ * @returns Number of cached responses removed
+ */
+export function invalidateApiCache(url?: string): number {
+    if (!url) {
+        const { entries } = apiCache.stats();
+        apiCache.clear();
+        return entries;
+    }
+
+    const changedPath = stripQuery(url);
+    return apiCache.deleteWhere(key => {
+        const cachedPath = stripQuery(key);
+        return cachedPath === changedPath ||
+            cachedPath.startsWith(`${changedPath}/`) ||
+            changedPath.startsWith(`${cachedPath}/`);
+    });
+}
+
+interface ApiResult<T> {
+    data: T;
+    etag: string | null;
+    /** Server answered 304 - data is undefined and the cached copy is still valid */
+    notModified: boolean;
+}
+
+/**
+ * Revalidate a stale entry in the background; failures leave the stale copy in place
+ */
+function revalidateInBackground<T>(
+    url: string,
+    options: RequestInit,
+    schema: z.ZodSchema<T> | undefined,
+    policy: CachePolicy,
+    etag?: string
+): void {
+    const headers: Record<string, string> = { ...options.headers as Record<string, string> };
+    if (etag) {
+        headers['If-None-Match'] = etag;
+    }
+
+    fetchAndCache(url, { ...options, headers, signal: undefined }, schema, policy).catch(error => {
+        if (isDevelopment()) {
+            console.warn('[API] Background revalidation failed:', url, error);
+        }
+    });
+}
+
+/**
+ * Run a deduplicated GET and store the result in the response cache
  */
+async function fetchAndCache<T>(
+    url: string,
+    options: RequestInit,
+    schema: z.ZodSchema<T> | undefined,
+    policy: CachePolicy
+): Promise<T> {
+    const result = await shareInFlightRequest(
+        url,
+        options.signal ?? undefined,
+        signal => executeApiRequest(url, { ...options, signal }, schema)
+    );
+
+    if (result.notModified) {
+        apiCache.touch(url, policy.ttl, policy.staleWhileRevalidate);
+        const cached = apiCache.get<T>(url);
+        if (cached !== null) {
+            return cached;
+        }
+        // Entry was evicted in the meantime - fetch the full body instead
+        const headers: Record<string, string> = { ...options.headers as Record<string, string> };
+        delete headers['If-None-Match'];
+        return fetchAndCache(url, { ...options, headers }, schema, policy);
+    }
+
+    if (policy.ttl > 0) {
+        apiCache.set(url, result.data, policy.ttl, {
+            staleWhileRevalidate: policy.staleWhileRevalidate,
+            etag: result.etag
+        });
+    }
+    return result.data;
+}
+
 /**
  * Generic API request function with comprehensive error handling and validation
+ * GETs without a body are served through the response cache and deduplicated while
+ * in flight; successful mutations invalidate cached responses for the same resource
  * @param url - The API endpoint URL
- * @param options - Fetch options (method, headers, body, etc.)
+ * @param options - Fetch options (method, headers, body, signal, etc.)
  * @param schema - Zod schema for response validation
  * @returns Validated response data
  */
@@ -590,6 +1196,71 @@ async function apiRequest<T>(
     options: RequestInit = {},
     schema?: z.ZodSchema<T>
 ): Promise<T> {
+    const method = (options.method ?? 'GET').toUpperCase();
+
+    if (method === 'GET' && !options.body) {
+        throwIfAborted(options.signal ?? undefined);
+
+        const policy = getCachePolicy(url);
+        const cached = policy.ttl > 0 ? apiCache.lookup<T>(url) : null;
+
+        if (cached) {
+            if (cached.isStale) {
+                revalidateInBackground(url, options, schema, policy, cached.etag);
+            }
+            return cached.value;
+        }
+
+        return fetchAndCache(url, options, schema, policy);
+    }
+
+    const { data } = await executeApiRequest(url, options, schema);
+    invalidateApiCache(url);
+    return data;
+}
+
+/**
+ * Perform a single API request inside a client span
+ * The span's traceparent is sent with the request so the backend joins the same trace
+ */
+async function executeApiRequest<T>(
+    url: string,
+    options: RequestInit = {},
+    schema?: z.ZodSchema<T>
+): Promise<ApiResult<T>> {
+    const method = (options.method ?? 'GET').toUpperCase();
+    const span = startSpan(`HTTP ${method}`, {
+        kind: 'client',
+        attributes: { 'http.method': method, 'http.url': stripQuery(url) }
+    });
+
+    try {
+        const result = await sendApiRequest(url, options, schema, span);
+        span.setStatus('ok');
+        return result;
+    } catch (error) {
+        if (error instanceof ApiError && error.statusCode > 0) {
+            span.setAttribute('http.status_code', error.statusCode);
+        }
+        // Cancellation is not a failure of the call
+        if (!(error instanceof AbortedError)) {
+            span.recordError(error);
+        }
+        throw error;
+    } finally {
+        span.end();
+    }
+}
+
+/**
+ * Send an API request: auth and trace headers, resilient fetch, error mapping and validation
+ */
+async function sendApiRequest<T>(
+    url: string,
+    options: RequestInit,
+    schema: z.ZodSchema<T> | undefined,
+    span: Span
+): Promise<ApiResult<T>> {
     try {
         // Get authentication token and build headers
         const token = await getAuthToken();
@@ -598,6 +1269,7 @@ async function apiRequest<T>(
             'Content-Type': 'application/json',
             ...options.headers as Record<string, string>,
         };
+        injectTraceHeaders(headers, span.context);
         
         // Add authorization header if token is available
         if (token) {
@@ -618,6 +1290,19 @@ async function apiRequest<T>(
             headers,
         });
 
+        span.setAttribute('http.status_code', response.status);
+        const etag = response.headers.get('ETag');
+
+        // Cached copy is still current
+        if (response.status === 304) {
+            return { data: undefined as T, etag, notModified: true };
+        }
+
+        // Nothing to parse, e.g. after a DELETE
+        if (response.status === 204) {
+            return { data: undefined as T, etag, notModified: false };
+        }
+
         // Check if response is OK
         if (!response.ok) {
             let errorData;
@@ -675,7 +1360,7 @@ async function apiRequest<T>(
         // Validate response with schema if provided
         if (schema) {
             try {
-                return schema.parse(data.data || data);
+                return { data: schema.parse(data.data || data), etag, notModified: false };
             } catch (error) {
                 if (error instanceof z.ZodError) {
                     throw new ValidationError((error as z.ZodError).issues, 'The server returned data in an unexpected format');
@@ -684,15 +1369,16 @@ async function apiRequest<T>(
             }
         }
 
-        return data.data || data;
+        return { data: data.data || data, etag, notModified: false };
     } catch (error) {
-        // Handle AbortController timeout
+        // Handle AbortController cancellation vs timeout
         if (error instanceof DOMException && error.name === 'AbortError') {
-            throw new TimeoutError();
+            throw options.signal?.aborted ? new AbortedError() : new TimeoutError();
         }
 
-        // Handle network errors (fetch failures)
-        if (error instanceof TypeError && error.message.includes('fetch')) {
+        // Handle network errors (fetch failures: "Failed to fetch", "NetworkError when attempting
+        // to fetch resource", "Load failed" depending on the browser)
+        if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) {
             throw new NetworkError(error as Error);
         }
 
@@ -704,7 +1390,8 @@ async function apiRequest<T>(
             error instanceof AuthorizationError || 
             error instanceof RateLimitError || 
             error instanceof ServerError || 
-            error instanceof TimeoutError) {
+            error instanceof TimeoutError ||
+            error instanceof AbortedError) {
             throw error;
         }
 
@@ -722,20 +1409,55 @@ async function apiRequest<T>(
 }
 
 /**
- * Club Members API
+ * Headers for a mutation that may be retried or replayed from the offline outbox
  */
+function idempotencyHeaders(idempotencyKey?: string): Record<string, string> {
+    return idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {};
+}
 
 /**
- * Fetch club members with validation
- * @param clubId - The club identifier
- * @returns Promise with validated club members array
+ * Typed client generated from the OpenAPI contract, sent through apiRequest
+ * so every call shares the cache, retry, circuit breaker and error mapping
+ */
+const apiClient = createApiClient((path, init, schema) => apiRequest(`${getAPIBase()}${path}`, init, schema));
+
+/**
+ * Clubs API
+ */
+
+/**
+ * Fetch the clubs the signed-in user belongs to, with their role in each
+ * @param signal - Optional AbortSignal to cancel the request
  */
-export async function fetchClubMembers(clubId: string): Promise<z.infer<typeof ClubMemberSchema>[]> {
+export async function fetchUserClubs(signal?: AbortSignal): Promise<UserClub[]> {
     if (isMockDataEnabled()) {
-        // Return adapted mock data when mock data is enabled
-        const mockMembers = await adaptMockClubMembers(clubId);
-        if (!mockMembers || !Array.isArray(mockMembers)) {
-            throw new ApiError(undefined, {
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const clubs: UserClub[] = await mockService.getUserClubs();
+        throwIfAborted(signal);
+        return clubs;
+    }
+
+    return apiClient.listUserClubs({ signal });
+}
+
+/**
+ * Club Members API
+ */
+
+/**
+ * Fetch club members with validation
+ * @param clubId - The club identifier
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with validated club members array
+ */
+export async function fetchClubMembers(clubId: string, signal?: AbortSignal): Promise<z.infer<typeof ClubMemberSchema>[]> {
+    if (isMockDataEnabled()) {
+        // Return adapted mock data when mock data is enabled
+        const mockMembers = await adaptMockClubMembers(clubId);
+        throwIfAborted(signal);
+        if (!mockMembers || !Array.isArray(mockMembers)) {
+            throw new ApiError(undefined, {
                 error: 'No club members found',
                 message: 'Failed to load club members (mock data returned null)',
                 code: 'NO_CLUB_MEMBERS'
@@ -744,12 +1466,7 @@ export async function fetchClubMembers(clubId: string): Promise<z.infer<typeof C
         return mockMembers;
     }
 
-    const membersSchema = z.array(ClubMemberSchema);
-    const members = await apiRequest(
-        `${getAPIBase()}/club/${clubId}/members`,
-        {},
-        membersSchema
-    );
+    const members = await apiClient.listClubMembers({ clubId }, { signal });
     if (!members || !Array.isArray(members)) {
         throw new ApiError(undefined, {
             error: 'No club members found',
@@ -760,6 +1477,254 @@ export async function fetchClubMembers(clubId: string): Promise<z.infer<typeof C
     return members;
 }
 
+/**
+ * Fetch a single page of club members with validation
+ * @param clubId - The club identifier
+ * @param params - Cursor/offset and page size
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with validated page of club members
+ */
+export async function fetchClubMembersPage(
+    clubId: string,
+    params: PaginationParams = {},
+    signal?: AbortSignal
+): Promise<PaginatedResult<z.infer<typeof ClubMemberSchema>>> {
+    if (isMockDataEnabled()) {
+        const members = await adaptMockClubMembers(clubId);
+        throwIfAborted(signal);
+        return paginateLocally(members, params);
+    }
+
+    return apiClient.listClubMembersPage({ clubId }, buildPaginationQuery(params), { signal });
+}
+
+/**
+ * Validate a request body before sending it
+ * @throws ValidationError listing the failing fields
+ */
+function parseRequestBody<T>(schema: z.ZodType<T>, body: unknown): T {
+    const result = schema.safeParse(body);
+    if (!result.success) {
+        throw new ValidationError(result.error.issues, result.error.issues[0]?.message);
+    }
+    return result.data;
+}
+
+/**
+ * Add a member to a club (club admins only)
+ * @param clubId - The club identifier
+ * @param member - Contact details plus optional role and status
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the created member
+ */
+export async function addClubMember(
+    clubId: string,
+    member: NewClubMember,
+    signal?: AbortSignal
+): Promise<ClubMember> {
+    const input = parseRequestBody(NewClubMemberSchema, member);
+
+    if (isMockDataEnabled()) {
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const created = await mockService.addClubMember({ ...input, clubId });
+        throwIfAborted(signal);
+        const now = new Date().toISOString();
+        const role = input.role ?? 'member';
+        return {
+            id: created.id,
+            name: input.name,
+            email: input.email,
+            phone: input.phone ?? null,
+            avatar: null,
+            role,
+            isActive: true,
+            lastLoginAt: null,
+            createdAt: now,
+            updatedAt: now,
+            joinedDate: now,
+            joinDate: now,
+            status: input.status ?? 'active',
+            permissions: [],
+            booksRead: 0,
+            clubRole: role,
+        };
+    }
+
+    return apiClient.addClubMember({ clubId }, input, { signal });
+}
+
+/**
+ * Update a club member
+ * Role and status changes are rejected by the server unless the caller is a club admin
+ * @param clubId - The club identifier
+ * @param memberId - The member identifier
+ * @param changes - Fields to change
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the updated member
+ */
+export async function updateClubMember(
+    clubId: string,
+    memberId: string,
+    changes: ClubMemberUpdate,
+    signal?: AbortSignal
+): Promise<ClubMember> {
+    const input = parseRequestBody(ClubMemberUpdateSchema, changes);
+
+    if (isMockDataEnabled()) {
+        const members = await adaptMockClubMembers(clubId);
+        const existing = members.find(member => member.id === memberId);
+        if (!existing) {
+            throw new ApiError(new Response(null, { status: 404 }), {
+                error: 'Member not found',
+                message: 'This member is no longer in the club',
+                code: 'MEMBER_NOT_FOUND'
+            });
+        }
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const updated = await mockService.updateClubMember(memberId, input);
+        throwIfAborted(signal);
+        return {
+            ...existing,
+            ...input,
+            clubRole: input.role ?? existing.clubRole,
+            isActive: (input.status ?? existing.status) === 'active',
+            updatedAt: updated.updatedAt,
+        };
+    }
+
+    return apiClient.updateClubMember({ clubId, memberId }, input, { signal });
+}
+
+/**
+ * Remove a member from a club (club admins only)
+ * @param clubId - The club identifier
+ * @param memberId - The member identifier
+ * @param signal - Optional AbortSignal to cancel the request
+ */
+export async function removeClubMember(clubId: string, memberId: string, signal?: AbortSignal): Promise<void> {
+    if (isMockDataEnabled()) {
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        await mockService.deleteClubMember(memberId);
+        throwIfAborted(signal);
+        return;
+    }
+
+    await apiClient.removeClubMember({ clubId, memberId }, { signal });
+}
+
+/**
+ * Club Invitations API
+ * Served by this app's own /api routes, which sign invite codes and send invitation emails
+ */
+
+function getAppApiUrl(path: string): string {
+    return `${browser ? window.location.origin : ''}/api${path}`;
+}
+
+function clubMembersUrl(clubId: string): string {
+    return `${getAPIBase()}${paths.listClubMembers({ clubId })}`;
+}
+
+/**
+ * Create an invite link, or email one when an address is given (club admins only)
+ * @param clubId - The club identifier
+ * @param invitation - Invitee email, role and days until the link expires
+ * @returns The invitation including its shareable link
+ */
+export async function createClubInvitation(clubId: string, invitation: NewInvitation, signal?: AbortSignal): Promise<ClubInvitation> {
+    const input = parseRequestBody(NewInvitationSchema, invitation);
+    return apiRequest(getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/invitations`), {
+        method: 'POST',
+        body: JSON.stringify(input),
+        signal
+    }, ClubInvitationSchema);
+}
+
+/**
+ * Fetch a club's outstanding invitations (club admins only)
+ */
+export async function fetchClubInvitations(clubId: string, signal?: AbortSignal): Promise<ClubInvitation[]> {
+    return apiRequest(getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/invitations`), { signal }, z.array(ClubInvitationSchema));
+}
+
+/**
+ * Revoke an invitation so its link stops working (club admins only)
+ */
+export async function revokeClubInvitation(clubId: string, invitationId: string, signal?: AbortSignal): Promise<ClubInvitation> {
+    return apiRequest(getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/invitations/${encodeURIComponent(invitationId)}`), {
+        method: 'DELETE',
+        signal
+    }, ClubInvitationSchema);
+}
+
+/**
+ * Look up an invite code for the acceptance page; works without signing in
+ */
+export async function fetchInvitationPreview(code: string, signal?: AbortSignal): Promise<InvitationPreview> {
+    return apiRequest(getAppApiUrl(`/invitations/${encodeURIComponent(code)}`), { signal }, InvitationPreviewSchema);
+}
+
+/**
+ * Accept an invitation as the signed-in user
+ * @returns The club joined and the new membership
+ */
+export async function acceptInvitation(code: string, signal?: AbortSignal): Promise<AcceptedInvitation> {
+    const accepted = await apiRequest(getAppApiUrl(`/invitations/${encodeURIComponent(code)}`), {
+        method: 'POST',
+        signal
+    }, AcceptedInvitationSchema);
+    invalidateApiCache(clubMembersUrl(accepted.clubId));
+    return accepted;
+}
+
+/**
+ * Ask to join a club; the request waits for a club admin
+ */
+export async function submitJoinRequest(clubId: string, request: NewJoinRequest = {}, signal?: AbortSignal): Promise<JoinRequest> {
+    const input = parseRequestBody(NewJoinRequestSchema, request);
+    return apiRequest(getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/join-requests`), {
+        method: 'POST',
+        body: JSON.stringify(input),
+        signal
+    }, JoinRequestSchema);
+}
+
+/**
+ * Fetch a club's join requests (club admins only)
+ * @param status - Which requests to list (default pending)
+ */
+export async function fetchJoinRequests(clubId: string, status: JoinRequestStatus = 'pending', signal?: AbortSignal): Promise<JoinRequest[]> {
+    return apiRequest(
+        getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/join-requests?status=${status}`),
+        { signal },
+        z.array(JoinRequestSchema)
+    );
+}
+
+/**
+ * Approve or reject a join request (club admins only)
+ * @returns The updated request, and the new membership when approved
+ */
+export async function decideJoinRequest(
+    clubId: string,
+    requestId: string,
+    decision: JoinRequestDecision,
+    signal?: AbortSignal
+): Promise<{ request: JoinRequest; member?: ClubMember }> {
+    const result = await apiRequest(getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/join-requests/${encodeURIComponent(requestId)}`), {
+        method: 'PATCH',
+        body: JSON.stringify({ decision }),
+        signal
+    }, z.object({ request: JoinRequestSchema, member: ClubMemberSchema.optional() }));
+    if (result.member) {
+        invalidateApiCache(clubMembersUrl(clubId));
+    }
+    return result;
+}
+
 /**
  * Schedule Events API
  */
@@ -767,20 +1732,127 @@ export async function fetchClubMembers(clubId: string): Promise<z.infer<typeof C
 /**
  * Fetch schedule events with validation
  * @param clubId - The club identifier
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with validated events array
  */
-export async function fetchScheduleEvents(clubId: string): Promise<z.infer<typeof EventSchema>[]> {
+export async function fetchScheduleEvents(clubId: string, signal?: AbortSignal): Promise<z.infer<typeof EventSchema>[]> {
     // Always use mock data in development or when mock data is enabled
     if (isDevelopment() || isMockDataEnabled()) {
-        return adaptMockEvents();
+        const events = await adaptMockEvents(clubId);
+        throwIfAborted(signal);
+        return events;
     }
 
-    const eventsSchema = z.array(EventSchema);
-    return apiRequest(
-        `${getAPIBase()}/club/${clubId}/events`,
-        {},
-        eventsSchema
-    );
+    return apiClient.listClubEvents({ clubId }, { signal });
+}
+
+/**
+ * Fetch a single page of schedule events with validation
+ * @param clubId - The club identifier
+ * @param params - Cursor/offset and page size
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with validated page of events
+ */
+export async function fetchScheduleEventsPage(
+    clubId: string,
+    params: PaginationParams = {},
+    signal?: AbortSignal
+): Promise<PaginatedResult<z.infer<typeof EventSchema>>> {
+    if (isDevelopment() || isMockDataEnabled()) {
+        const events = await adaptMockEvents(clubId);
+        throwIfAborted(signal);
+        return paginateLocally(events, params);
+    }
+
+    return apiClient.listClubEventsPage({ clubId }, buildPaginationQuery(params), { signal });
+}
+
+/**
+ * Schedule an event; an rrule makes it a recurring series
+ * @param clubId - The club identifier
+ * @param event - Event details
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the created event
+ */
+export async function createScheduleEvent(
+    clubId: string,
+    event: NewEvent,
+    signal?: AbortSignal
+): Promise<z.infer<typeof EventSchema>> {
+    const input = parseRequestBody(NewEventSchema, event);
+
+    if (isDevelopment() || isMockDataEnabled()) {
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const created = await mockService.addScheduleEvent({ ...input, clubId });
+        throwIfAborted(signal);
+        return { ...input, id: created.id, status: 'scheduled', organizerId: '1' };
+    }
+
+    return apiClient.createClubEvent({ clubId }, input, { signal });
+}
+
+/**
+ * Update an event or a whole recurring series
+ * Single occurrences are changed through the series' exceptions; see editOccurrence in recurrence.ts
+ * @param clubId - The club identifier
+ * @param eventId - The event (series) identifier
+ * @param changes - Fields to change; rrule null stops the event repeating
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the updated event
+ */
+export async function updateScheduleEvent(
+    clubId: string,
+    eventId: string,
+    changes: EventUpdate,
+    signal?: AbortSignal
+): Promise<z.infer<typeof EventSchema>> {
+    const input = parseRequestBody(EventUpdateSchema, changes);
+
+    if (isDevelopment() || isMockDataEnabled()) {
+        const events = await adaptMockEvents(clubId);
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        await mockService.updateScheduleEvent(eventId, input);
+        throwIfAborted(signal);
+        // Events created this session aren't in the mock list, so callers merge the result over their copy
+        const existing = events.find(event => event.id === eventId);
+        const updated = { ...existing, ...input, id: eventId };
+        if (updated.rrule === null) delete updated.rrule;
+        if (updated.capacity === null) delete updated.capacity;
+        return updated as z.infer<typeof EventSchema>;
+    }
+
+    return apiClient.updateClubEvent({ clubId, eventId }, input, { signal });
+}
+
+/**
+ * Delete an event together with every occurrence of its series
+ * @param clubId - The club identifier
+ * @param eventId - The event (series) identifier
+ * @param signal - Optional AbortSignal to cancel the request
+ */
+export async function deleteScheduleEvent(clubId: string, eventId: string, signal?: AbortSignal): Promise<void> {
+    if (isDevelopment() || isMockDataEnabled()) {
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        await mockService.deleteScheduleEvent(eventId);
+        throwIfAborted(signal);
+        return;
+    }
+
+    await apiClient.deleteClubEvent({ clubId, eventId }, { signal });
+}
+
+/**
+ * The signed-in member's subscribable calendar address for a club
+ * Served by this app's own /api routes, which sign the feed key
+ * @param clubId - The club identifier
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns The feed's https and webcal addresses
+ */
+export async function fetchCalendarFeed(clubId: string, signal?: AbortSignal): Promise<CalendarFeed> {
+    return apiRequest(getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/calendar-feed`), { signal }, CalendarFeedSchema);
 }
 
 /**
@@ -789,112 +1861,777 @@ export async function fetchScheduleEvents(clubId: string): Promise<z.infer<typeo
 
 /**
  * Update member availability for an event
+ * Events with a capacity waitlist members who say available once full; see rsvp.ts
  * @param eventId - The event identifier
  * @param userId - The user identifier
  * @param status - Availability status
- * @returns Promise with update confirmation
+ * @param note - Optional note shown with the answer; an empty string clears it, undefined keeps it
+ * @param signal - Optional AbortSignal to cancel the request
+ * @param idempotencyKey - Optional key so a replayed request is applied only once
+ * @returns Promise with update confirmation, whether the member was waitlisted and who was promoted
  */
 export async function updateAvailability(
     eventId: string, 
     userId: string, 
-    status: 'available' | 'unavailable' | 'maybe'
-): Promise<{ success: boolean; eventId: string; userId: string; status: string }> {
+    status: 'available' | 'unavailable' | 'maybe',
+    note?: string,
+    signal?: AbortSignal,
+    idempotencyKey?: string
+): Promise<{ success: boolean; eventId: string; userId: string; status: string; waitlisted?: boolean; promoted?: string[] }> {
     if (isMockDataEnabled()) {
-        return new Promise(resolve => {
-            setTimeout(() => {
-                resolve({ success: true, eventId, userId, status });
-            }, 300);
-        });
+        await abortableDelay(TIME_CONSTANTS.AVAILABILITY_UPDATE_DELAY, signal);
+        const { responses, waitlisted, promoted } = applyRsvp(
+            await adaptMockAvailability(eventId),
+            { userId, status, note },
+            { capacity: await mockEventCapacity(eventId) }
+        );
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const { waitlisted: _seating, ...response } = responses[userId];
+        await mockService.setMeetingAvailability(eventId, userId, response);
+        return { success: true, eventId, userId, status, waitlisted, promoted };
     }
     
-    const updateSchema = z.object({
-        success: z.boolean(),
-        eventId: z.string(),
-        userId: z.string(),
-        status: z.string(),
-    });
-
-    return apiRequest(
-        `${getAPIBase()}/events/${eventId}/availability`,
-        {
-            method: 'POST',
-            body: JSON.stringify({ userId, status })
-        },
-        updateSchema
+    return apiClient.updateAvailability(
+        { eventId },
+        { userId, status, ...(note !== undefined ? { note } : {}) },
+        { headers: idempotencyHeaders(idempotencyKey), signal }
     );
 }
 
 /**
  * Fetch availability data for an event
  * @param eventId - The event identifier
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with availability data
  */
-export async function fetchAvailability(eventId: string): Promise<Record<string, z.infer<typeof AvailabilitySchema>>> {
+export async function fetchAvailability(eventId: string, signal?: AbortSignal): Promise<Record<string, z.infer<typeof AvailabilitySchema>>> {
     if (isMockDataEnabled()) {
-        return adaptMockAvailability(eventId);
+        const availability = await adaptMockAvailability(eventId);
+        throwIfAborted(signal);
+        return availability;
     }
     
-    const availabilitySchema = z.record(z.string(), AvailabilitySchema);
-    return apiRequest(
-        `${getAPIBase()}/events/${eventId}/availability`,
-        {},
-        availabilitySchema
-    );
+    return apiClient.getEventAvailability({ eventId }, { signal });
+}
+
+/**
+ * Fetch every change members made to their availability for an event
+ * @param eventId - The event identifier
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the changes, newest first
+ */
+export async function fetchAvailabilityHistory(eventId: string, signal?: AbortSignal): Promise<AvailabilityChange[]> {
+    if (isMockDataEnabled()) {
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const history = await mockService.getAvailabilityHistory(eventId);
+        throwIfAborted(signal);
+        return history;
+    }
+
+    return apiClient.getAvailabilityHistory({ eventId }, { signal });
+}
+
+/**
+ * Meeting Polls API
+ * Served by this app's own /api routes; scheduling a poll creates the event in the backend
+ */
+
+function meetingPollsUrl(clubId: string, suffix = ''): string {
+    return getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/polls${suffix}`);
+}
+
+/**
+ * Fetch a club's open and scheduled meeting polls (club members only)
+ */
+export async function fetchMeetingPolls(clubId: string, signal?: AbortSignal): Promise<MeetingPoll[]> {
+    return apiRequest(meetingPollsUrl(clubId), { signal }, z.array(MeetingPollSchema));
+}
+
+/**
+ * Propose candidate meeting times to the club (club admins only)
+ * @param poll - Title, details, the zone the times were picked in and the candidate start times
+ */
+export async function createMeetingPoll(clubId: string, poll: NewMeetingPoll, signal?: AbortSignal): Promise<MeetingPoll> {
+    const input = parseRequestBody(NewMeetingPollSchema, poll);
+    return apiRequest(meetingPollsUrl(clubId), {
+        method: 'POST',
+        body: JSON.stringify(input),
+        signal
+    }, MeetingPollSchema);
+}
+
+/**
+ * Save the signed-in member's answers for some or all of a poll's slots
+ */
+export async function respondToMeetingPoll(clubId: string, pollId: string, response: PollResponse, signal?: AbortSignal): Promise<MeetingPoll> {
+    const input = parseRequestBody(PollResponseSchema, response);
+    return apiRequest(meetingPollsUrl(clubId, `/${encodeURIComponent(pollId)}/responses`), {
+        method: 'PUT',
+        body: JSON.stringify(input),
+        signal
+    }, MeetingPollSchema);
+}
+
+/**
+ * Schedule the meeting at one of a poll's slots (club admins only)
+ * @returns The closed poll and the event created for the slot
+ */
+export async function scheduleMeetingPoll(
+    clubId: string,
+    pollId: string,
+    slotId: string,
+    signal?: AbortSignal
+): Promise<{ poll: MeetingPoll; event: z.infer<typeof EventSchema> }> {
+    return apiRequest(meetingPollsUrl(clubId, `/${encodeURIComponent(pollId)}/schedule`), {
+        method: 'POST',
+        body: JSON.stringify({ slotId }),
+        signal
+    }, z.object({ poll: MeetingPollSchema, event: EventSchema }));
+}
+
+/**
+ * Close a poll without scheduling a meeting (club admins only)
+ */
+export async function closeMeetingPoll(clubId: string, pollId: string, signal?: AbortSignal): Promise<MeetingPoll> {
+    return apiRequest(meetingPollsUrl(clubId, `/${encodeURIComponent(pollId)}`), {
+        method: 'DELETE',
+        signal
+    }, MeetingPollSchema);
+}
+
+/**
+ * Book Votes API
+ * Served by this app's own /api routes; nominations name books in the club's catalog, and
+ * attaching a winner updates the meeting in the backend
+ */
+
+function clubBookVotingUrl(clubId: string, suffix: string): string {
+    return getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}${suffix}`);
+}
+
+/**
+ * Fetch the books on a club's nomination board, oldest first (club members only)
+ */
+export async function fetchNominations(clubId: string, signal?: AbortSignal): Promise<BookNomination[]> {
+    return apiRequest(clubBookVotingUrl(clubId, '/nominations'), { signal }, z.array(BookNominationSchema));
+}
+
+/**
+ * Nominate a book from the club's catalog; the same book can't be on the board twice
+ */
+export async function nominateBook(clubId: string, nomination: NewNomination, signal?: AbortSignal): Promise<BookNomination> {
+    const input = parseRequestBody(NewNominationSchema, nomination);
+    return apiRequest(clubBookVotingUrl(clubId, '/nominations'), {
+        method: 'POST',
+        body: JSON.stringify(input),
+        signal
+    }, BookNominationSchema);
+}
+
+/**
+ * Take a book off the board (whoever nominated it, or a club admin)
+ */
+export async function withdrawNomination(clubId: string, nominationId: string, signal?: AbortSignal): Promise<BookNomination> {
+    return apiRequest(clubBookVotingUrl(clubId, `/nominations/${encodeURIComponent(nominationId)}`), {
+        method: 'DELETE',
+        signal
+    }, BookNominationSchema);
+}
+
+/**
+ * Fetch a club's book votes, open ones first; closed votes include their result
+ */
+export async function fetchBookVotes(clubId: string, signal?: AbortSignal): Promise<BookVote[]> {
+    return apiRequest(clubBookVotingUrl(clubId, '/book-votes'), { signal }, z.array(BookVoteSchema));
+}
+
+/**
+ * Put nominated books to a vote (club admins only)
+ * @param vote - Counting method, closing time, tie-break rule, whether ballots are anonymous
+ * and which nominations to include (all of them when left out)
+ */
+export async function createBookVote(clubId: string, vote: NewBookVote, signal?: AbortSignal): Promise<BookVote> {
+    const input = parseRequestBody(NewBookVoteSchema, vote);
+    return apiRequest(clubBookVotingUrl(clubId, '/book-votes'), {
+        method: 'POST',
+        body: JSON.stringify(input),
+        signal
+    }, BookVoteSchema);
+}
+
+/**
+ * Cast or replace the signed-in member's ballot
+ * @param choices - Candidate IDs; first choice first for ranked votes, every approved book for approval votes
+ */
+export async function castBallot(clubId: string, voteId: string, choices: string[], signal?: AbortSignal): Promise<BookVote> {
+    const input = parseRequestBody(BallotSchema, { choices });
+    return apiRequest(clubBookVotingUrl(clubId, `/book-votes/${encodeURIComponent(voteId)}/ballot`), {
+        method: 'PUT',
+        body: JSON.stringify(input),
+        signal
+    }, BookVoteSchema);
+}
+
+/**
+ * End voting before the closing date (club admins only)
+ */
+export async function closeBookVote(clubId: string, voteId: string, signal?: AbortSignal): Promise<BookVote> {
+    return apiRequest(clubBookVotingUrl(clubId, `/book-votes/${encodeURIComponent(voteId)}/close`), {
+        method: 'POST',
+        signal
+    }, BookVoteSchema);
+}
+
+/**
+ * Set a closed vote's winning book on a meeting occurrence (club admins only)
+ * @returns The vote and the updated meeting
+ */
+export async function attachVoteWinner(
+    clubId: string,
+    voteId: string,
+    target: AttachWinner,
+    signal?: AbortSignal
+): Promise<{ vote: BookVote; event: z.infer<typeof EventSchema> }> {
+    const input = parseRequestBody(AttachWinnerSchema, target);
+    return apiRequest(clubBookVotingUrl(clubId, `/book-votes/${encodeURIComponent(voteId)}/winner`), {
+        method: 'POST',
+        body: JSON.stringify(input),
+        signal
+    }, z.object({ vote: BookVoteSchema, event: EventSchema }));
+}
+
+/**
+ * Discussions API
+ * Served by this app's own /api routes; titles and bodies are sanitized here before they are sent
+ */
+
+function clubThreadsUrl(clubId: string, suffix = ''): string {
+    return getAppApiUrl(`/clubs/${encodeURIComponent(clubId)}/threads${suffix}`);
+}
+
+/**
+ * Fetch a club's threads, pinned first then most recently active
+ * @param eventId - Only threads about this event; null for club-wide threads only; every thread when left out
+ */
+export async function fetchThreads(clubId: string, eventId?: string | null, signal?: AbortSignal): Promise<DiscussionThread[]> {
+    const query = eventId === undefined ? '' : `?eventId=${encodeURIComponent(eventId ?? '')}`;
+    return apiRequest(clubThreadsUrl(clubId, query), { signal }, z.array(DiscussionThreadSchema));
+}
+
+/**
+ * Fetch a thread with its posts, oldest first
+ */
+export async function fetchThread(clubId: string, threadId: string, signal?: AbortSignal): Promise<DiscussionThreadDetail> {
+    return apiRequest(clubThreadsUrl(clubId, `/${encodeURIComponent(threadId)}`), { signal }, DiscussionThreadDetailSchema);
+}
+
+/**
+ * Start a thread for the club, or about one of its events when eventId is given
+ * Members @mentioned in the opening post are notified.
+ */
+export async function createThread(clubId: string, thread: NewThread, signal?: AbortSignal): Promise<DiscussionThreadDetail> {
+    const input = parseRequestBody(NewThreadSchema, thread);
+    return apiRequest(clubThreadsUrl(clubId), {
+        method: 'POST',
+        body: JSON.stringify({ ...input, title: cleanThreadTitle(input.title), body: cleanPostBody(input.body) }),
+        signal
+    }, DiscussionThreadDetailSchema);
+}
+
+/**
+ * Post in a thread; locked threads only take posts from moderators
+ * @param post - The text, and the post it replies to if any
+ */
+export async function replyToThread(clubId: string, threadId: string, post: NewPost, signal?: AbortSignal): Promise<DiscussionPost> {
+    const input = parseRequestBody(NewPostSchema, post);
+    return apiRequest(clubThreadsUrl(clubId, `/${encodeURIComponent(threadId)}/posts`), {
+        method: 'POST',
+        body: JSON.stringify({ ...input, body: cleanPostBody(input.body) }),
+        signal
+    }, DiscussionPostSchema);
+}
+
+/**
+ * Add or take back the signed-in member's reaction to a post
+ */
+export async function reactToPost(
+    clubId: string,
+    threadId: string,
+    postId: string,
+    emoji: Reaction,
+    reacted: boolean,
+    signal?: AbortSignal
+): Promise<DiscussionPost> {
+    const input = parseRequestBody(SetReactionSchema, { emoji, reacted });
+    return apiRequest(clubThreadsUrl(clubId, `/${encodeURIComponent(threadId)}/posts/${encodeURIComponent(postId)}/reactions`), {
+        method: 'PUT',
+        body: JSON.stringify(input),
+        signal
+    }, DiscussionPostSchema);
+}
+
+/**
+ * Pin or lock a thread (moderators only)
+ */
+export async function moderateThread(clubId: string, threadId: string, changes: ModerateThread, signal?: AbortSignal): Promise<DiscussionThread> {
+    const input = parseRequestBody(ModerateThreadSchema, changes);
+    return apiRequest(clubThreadsUrl(clubId, `/${encodeURIComponent(threadId)}`), {
+        method: 'PATCH',
+        body: JSON.stringify(input),
+        signal
+    }, DiscussionThreadSchema);
+}
+
+/**
+ * Delete a thread (moderators, or its author while nobody else has posted)
+ */
+export async function deleteThread(clubId: string, threadId: string, signal?: AbortSignal): Promise<DiscussionThread> {
+    return apiRequest(clubThreadsUrl(clubId, `/${encodeURIComponent(threadId)}`), {
+        method: 'DELETE',
+        signal
+    }, DiscussionThreadSchema);
+}
+
+/**
+ * Delete a post (its author or moderators); it stays as a placeholder so replies keep their place
+ */
+export async function deletePost(clubId: string, threadId: string, postId: string, signal?: AbortSignal): Promise<DiscussionPost> {
+    return apiRequest(clubThreadsUrl(clubId, `/${encodeURIComponent(threadId)}/posts/${encodeURIComponent(postId)}`), {
+        method: 'DELETE',
+        signal
+    }, DiscussionPostSchema);
+}
+
+/**
+ * Notifications API
+ * Served by this app's own /api routes, where the reminder scheduler runs
+ */
+
+function notificationsUrl(suffix = ''): string {
+    return getAppApiUrl(`/notifications${suffix}`);
+}
+
+/**
+ * Fetch the signed-in member's in-app notifications, newest first
+ * @param clubId - Club to start planning reminders for, if the server isn't already
+ */
+export async function fetchNotifications(clubId?: string, signal?: AbortSignal): Promise<UserNotification[]> {
+    const query = clubId ? `?clubId=${encodeURIComponent(clubId)}` : '';
+    return apiRequest(notificationsUrl(query), { signal }, z.array(UserNotificationSchema));
+}
+
+/**
+ * Mark notifications as read
+ * @param ids - Notifications to mark; every notification when left out
+ * @returns The member's notifications after the change
+ */
+export async function markNotificationsRead(ids?: string[], signal?: AbortSignal): Promise<UserNotification[]> {
+    const input = parseRequestBody(MarkNotificationsReadSchema, { ids });
+    return apiRequest(notificationsUrl('/read'), {
+        method: 'POST',
+        body: JSON.stringify(input),
+        signal
+    }, z.array(UserNotificationSchema));
+}
+
+/**
+ * Fetch when and how the signed-in member is reminded
+ */
+export async function fetchReminderSettings(signal?: AbortSignal): Promise<ReminderSettings> {
+    return apiRequest(notificationsUrl('/settings'), { signal }, ReminderSettingsSchema);
+}
+
+/**
+ * Change the signed-in member's reminder channels and lead times
+ */
+export async function updateReminderPreferences(preferences: ReminderPreferences, signal?: AbortSignal): Promise<ReminderSettings> {
+    const input = parseRequestBody(ReminderPreferencesSchema, preferences);
+    return apiRequest(notificationsUrl('/settings'), {
+        method: 'PUT',
+        body: JSON.stringify(input),
+        signal
+    }, ReminderSettingsSchema);
+}
+
+/**
+ * Send reminders to this browser's push subscription
+ */
+export async function savePushSubscription(subscription: PushSubscriptionInput, signal?: AbortSignal): Promise<void> {
+    const input = parseRequestBody(PushSubscriptionSchema, subscription);
+    await apiRequest(notificationsUrl('/push'), {
+        method: 'PUT',
+        body: JSON.stringify(input),
+        signal
+    });
+}
+
+/**
+ * Stop pushing reminders to a browser
+ */
+export async function removePushSubscription(endpoint: string, signal?: AbortSignal): Promise<void> {
+    await apiRequest(notificationsUrl('/push'), {
+        method: 'DELETE',
+        body: JSON.stringify({ endpoint }),
+        signal
+    });
 }
 
 /**
  * Event Items API
  */
 
+/**
+ * Item stored by the mock backend, or a 404 like the real one
+ */
+async function findMockEventItem(eventId: string, itemId: string): Promise<z.infer<typeof EventItemSchema>> {
+    const item = (await adaptMockEventItems(eventId)).find(candidate => candidate.id === itemId);
+    if (!item) {
+        throw new ApiError(new Response(null, { status: 404 }), {
+            error: 'Item not found',
+            message: 'This item has been removed from the list',
+            code: 'ITEM_NOT_FOUND'
+        });
+    }
+    return item;
+}
+
+function claimConflictError(message: string): ApiError {
+    return new ApiError(new Response(null, { status: 409 }), {
+        error: 'Claim conflict',
+        message,
+        code: 'CLAIM_CONFLICT'
+    });
+}
+
 /**
  * Add an item to an event
+ * Sign-up items named like one already on the list (plurals, case, typos) are rejected with a 409; see potluck.ts
+ * Discussion guide items aren't compared, and their rich text description is sanitized.
  * @param eventId - The event identifier
- * @param item - Item data to add
+ * @param item - Item data to add; quantity is how many are needed
+ * @param claim - Optionally sign a member up for part or all of it
+ * @param signal - Optional AbortSignal to cancel the request
+ * @param idempotencyKey - Optional key so a replayed request is applied only once
  * @returns Promise with created item
  */
 export async function addEventItem(
     eventId: string, 
-    item: Omit<z.infer<typeof EventItemSchema>, 'id'>
+    item: NewEventItem,
+    claim?: ItemClaimRequest,
+    signal?: AbortSignal,
+    idempotencyKey?: string
 ): Promise<z.infer<typeof EventItemSchema>> {
+    if (isGuideItem(item)) {
+        item = { ...item, description: cleanGuideText(item.description) };
+    }
+
     if (isMockDataEnabled()) {
-        return new Promise(resolve => {
-            setTimeout(() => {
-                const newItem = {
-                    id: `item-${Date.now()}`,
-                    ...item,
-                    status: 'pending' as const
-                };
-                resolve(newItem);
-            }, 500);
-        });
+        await abortableDelay(TIME_CONSTANTS.EVENT_ITEM_ADD_DELAY, signal);
+        const signUps = (await adaptMockEventItems(eventId)).filter(listed => !isGuideItem(listed));
+        const existing = isGuideItem(item) ? undefined : findSimilarItem(signUps, item.title);
+        if (existing) {
+            throw new ApiError(new Response(null, { status: 409 }), {
+                error: 'Item already listed',
+                message: `"${existing.title}" is already on the list`,
+                code: 'ITEM_EXISTS'
+            });
+        }
+        let created: z.infer<typeof EventItemSchema> = { id: `item-${Date.now()}`, ...item, status: 'pending' as const, claims: [] };
+        if (claim && claim.quantity > 0) {
+            const conflict = claimConflict(created, claim.userId, claim.quantity);
+            if (conflict) throw claimConflictError(conflict);
+            created = setClaim(created, claim.userId, claim.quantity);
+        }
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        await mockService.addEventItem(eventId, created);
+        return created;
     }
     
-    return apiRequest(
-        `${getAPIBase()}/events/${eventId}/items`,
-        {
-            method: 'POST',
-            body: JSON.stringify({ item })
-        },
-        EventItemSchema
+    return apiClient.addEventItem(
+        { eventId },
+        { item, ...(claim ? { claim } : {}) },
+        { headers: idempotencyHeaders(idempotencyKey), signal }
+    );
+}
+
+/**
+ * Change an event item, or replace its claims to hand them to other members
+ * A null chapter clears a guide item's chapter tag
+ * @param eventId - The event identifier
+ * @param itemId - The item identifier
+ * @param changes - Fields to change
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the updated item
+ */
+export async function updateEventItem(
+    eventId: string,
+    itemId: string,
+    changes: EventItemUpdate,
+    signal?: AbortSignal
+): Promise<z.infer<typeof EventItemSchema>> {
+    const input = parseRequestBody(EventItemUpdateSchema, changes);
+
+    if (isMockDataEnabled()) {
+        const { chapter, ...rest } = input;
+        const updated = { ...await findMockEventItem(eventId, itemId), ...rest };
+        if (chapter !== undefined) updated.chapter = chapter ?? undefined;
+        if (claimedQuantity(updated) > neededQuantity(updated)) {
+            throw claimConflictError(`Members have signed up for more than ${neededQuantity(updated)}`);
+        }
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        await mockService.updateEventItem(eventId, itemId, updated);
+        throwIfAborted(signal);
+        return updated;
+    }
+
+    return apiClient.updateEventItem({ eventId, itemId }, input, { signal });
+}
+
+/**
+ * Remove an item and its claims from an event
+ * @param eventId - The event identifier
+ * @param itemId - The item identifier
+ * @param signal - Optional AbortSignal to cancel the request
+ */
+export async function deleteEventItem(eventId: string, itemId: string, signal?: AbortSignal): Promise<void> {
+    if (isMockDataEnabled()) {
+        await findMockEventItem(eventId, itemId);
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        await mockService.deleteEventItem(eventId, itemId);
+        throwIfAborted(signal);
+        return;
+    }
+
+    await apiClient.deleteEventItem({ eventId, itemId }, { signal });
+}
+
+/**
+ * Set how many of an item a member will bring
+ * Claiming more than is still needed is rejected with a 409
+ * @param eventId - The event identifier
+ * @param itemId - The item identifier
+ * @param userId - The member bringing it
+ * @param quantity - How many they will bring; 0 gives their claim up
+ * @param signal - Optional AbortSignal to cancel the request
+ * @param idempotencyKey - Optional key so a replayed request is applied only once
+ * @returns Promise with the item and its claims
+ */
+export async function claimEventItem(
+    eventId: string,
+    itemId: string,
+    userId: string,
+    quantity: number,
+    signal?: AbortSignal,
+    idempotencyKey?: string
+): Promise<z.infer<typeof EventItemSchema>> {
+    const claim = parseRequestBody(ItemClaimRequestSchema, { userId, quantity });
+
+    if (isMockDataEnabled()) {
+        await abortableDelay(TIME_CONSTANTS.EVENT_ITEM_ADD_DELAY, signal);
+        const item = await findMockEventItem(eventId, itemId);
+        const conflict = claimConflict(item, claim.userId, claim.quantity);
+        if (conflict) throw claimConflictError(conflict);
+        const updated = setClaim(item, claim.userId, claim.quantity);
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        await mockService.updateEventItem(eventId, itemId, updated);
+        return updated;
+    }
+
+    return apiClient.claimEventItem(
+        { eventId, itemId },
+        claim,
+        { headers: idempotencyHeaders(idempotencyKey), signal }
     );
 }
 
 /**
  * Fetch items for an event
  * @param eventId - The event identifier
+ * @param signal - Optional AbortSignal to cancel the request
  * @returns Promise with event items array
  */
-export async function fetchEventItems(eventId: string): Promise<z.infer<typeof EventItemSchema>[]> {
+export async function fetchEventItems(eventId: string, signal?: AbortSignal): Promise<z.infer<typeof EventItemSchema>[]> {
     if (isMockDataEnabled()) {
-        return adaptMockEventItems(eventId);
+        const items = await adaptMockEventItems(eventId);
+        throwIfAborted(signal);
+        return items;
     }
     
-    const itemsSchema = z.array(EventItemSchema);
-    return apiRequest(
-        `${getAPIBase()}/events/${eventId}/items`,
-        {},
-        itemsSchema
+    return apiClient.listEventItems({ eventId }, { signal });
+}
+
+/**
+ * Fetch a single page of items for an event
+ * @param eventId - The event identifier
+ * @param params - Cursor/offset and page size
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with validated page of event items
+ */
+export async function fetchEventItemsPage(
+    eventId: string,
+    params: PaginationParams = {},
+    signal?: AbortSignal
+): Promise<PaginatedResult<z.infer<typeof EventItemSchema>>> {
+    if (isMockDataEnabled()) {
+        const items = await adaptMockEventItems(eventId);
+        throwIfAborted(signal);
+        return paginateLocally(items, params);
+    }
+
+    return apiClient.listEventItemsPage({ eventId }, buildPaginationQuery(params), { signal });
+}
+
+/**
+ * Reading Progress API
+ */
+
+async function findMockBook(clubId: string, bookId: string): Promise<Book> {
+    const mockDataService = await import('./mockDataService');
+    const mockService = await mockDataService.getMockDataService();
+    const book = (await mockService.getBooks(clubId)).find((candidate: Book) => candidate.id === bookId);
+    if (!book) {
+        throw new ApiError(new Response(null, { status: 404 }), {
+            error: 'Book not found',
+            message: 'This book is not on the club\'s list',
+            code: 'BOOK_NOT_FOUND'
+        });
+    }
+    return book;
+}
+
+/**
+ * Fetch the books a club has read or is reading
+ * @param clubId - The club identifier
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the club's books, newest first
+ */
+export async function fetchClubBooks(clubId: string, signal?: AbortSignal): Promise<Book[]> {
+    if (isMockDataEnabled()) {
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const books: Book[] = await mockService.getBooks(clubId);
+        throwIfAborted(signal);
+        return books.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    return apiClient.listClubBooks({ clubId }, { signal });
+}
+
+/**
+ * Add a book to the club's catalog for meetings to discuss, members to nominate and track their progress on
+ * @param clubId - The club identifier
+ * @param book - Title, authors, ISBN-10 or ISBN-13 (stored as ISBN-13), cover and the page or
+ * chapter count progress is measured against
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the created book
+ */
+export async function createClubBook(clubId: string, book: NewBook, signal?: AbortSignal): Promise<Book> {
+    const input = parseRequestBody(NewCatalogBookSchema, book);
+
+    if (isMockDataEnabled()) {
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const existing = input.isbn && findCatalogBook(await mockService.getBooks(clubId), { title: input.title, isbn: input.isbn });
+        if (existing) {
+            throw new ApiError(new Response(null, { status: 409 }), {
+                error: 'Book already in catalog',
+                message: `${existing.title} is already in the club's catalog`,
+                code: 'BOOK_EXISTS'
+            });
+        }
+        const created = await mockService.addBook(clubId, input);
+        throwIfAborted(signal);
+        return created;
+    }
+
+    return apiClient.createClubBook({ clubId }, input, { signal });
+}
+
+/**
+ * Look up a book's details by ISBN to fill in a new catalog entry
+ * Served by this app's own /api routes, which ask the configured metadata providers
+ * @param isbn - ISBN-10 or ISBN-13, with or without hyphens
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with the details and which provider found them
+ */
+export async function lookupBookByIsbn(isbn: string, signal?: AbortSignal): Promise<BookMetadata> {
+    return apiRequest(getAppApiUrl(`/books/isbn/${encodeURIComponent(isbn)}`), { signal }, BookMetadataSchema);
+}
+
+/**
+ * Fetch every member's progress through a book
+ * @param clubId - The club identifier
+ * @param bookId - The book identifier
+ * @param signal - Optional AbortSignal to cancel the request
+ * @returns Promise with one entry per member who has started the book
+ */
+export async function fetchReadingProgress(clubId: string, bookId: string, signal?: AbortSignal): Promise<ReadingProgress[]> {
+    if (isMockDataEnabled()) {
+        await findMockBook(clubId, bookId);
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const progress = await mockService.getReadingProgress(bookId);
+        throwIfAborted(signal);
+        return progress;
+    }
+
+    return apiClient.listReadingProgress({ clubId, bookId }, { signal });
+}
+
+/**
+ * Record how far a member has read a book
+ * Progress past the end of the book, or given more than one way, is rejected with a 422; see reading.ts
+ * @param clubId - The club identifier
+ * @param bookId - The book identifier
+ * @param userId - The member reading it
+ * @param update - A page, chapter or percentage, or finished to mark the book read
+ * @param signal - Optional AbortSignal to cancel the request
+ * @param idempotencyKey - Optional key so a replayed request is applied only once
+ * @returns Promise with the member's progress after the update
+ */
+export async function updateReadingProgress(
+    clubId: string,
+    bookId: string,
+    userId: string,
+    update: ReadingProgressUpdate,
+    signal?: AbortSignal,
+    idempotencyKey?: string
+): Promise<ReadingProgress> {
+    const input = parseRequestBody(ReadingProgressUpdateSchema, update);
+
+    if (isMockDataEnabled()) {
+        const book = await findMockBook(clubId, bookId);
+        const conflict = progressConflict(book, input);
+        if (conflict) {
+            throw new ApiError(new Response(null, { status: 422 }), {
+                error: 'Invalid progress',
+                message: conflict,
+                code: 'INVALID_PROGRESS'
+            });
+        }
+        const mockDataService = await import('./mockDataService');
+        const mockService = await mockDataService.getMockDataService();
+        const previous = (await mockService.getReadingProgress(bookId)).find((entry: ReadingProgress) => entry.userId === userId);
+        const progress = applyProgressUpdate(previous, book, userId, input);
+        await mockService.setReadingProgress(bookId, userId, progress);
+        throwIfAborted(signal);
+        return progress;
+    }
+
+    const progress = await apiClient.updateReadingProgress(
+        { clubId, bookId, memberId: userId },
+        input,
+        { headers: idempotencyHeaders(idempotencyKey), signal }
     );
+    // Finishing (or un-finishing) a book changes the member's booksRead
+    invalidateApiCache(clubMembersUrl(clubId));
+    return progress;
 }
 
 /**
@@ -942,7 +2679,7 @@ export async function login(email: string, password: string): Promise<z.infer<ty
     // Production login
     const loginData = LoginRequestSchema.parse({ email, password });
     
-    const response = await getResilientFetch()(`${getAPIBase()}/auth/login`, {
+    const response = await getResilientFetch()(`${getAPIBase()}${paths.login()}`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -982,13 +2719,16 @@ export async function login(email: string, password: string): Promise<z.infer<ty
  * @returns Promise with logout confirmation
  */
 export async function logout(refreshToken: string): Promise<{ success: boolean }> {
+    // Cached responses belong to the session that is ending
+    invalidateApiCache();
+
     if (isMockDataEnabled()) {
         return new Promise(resolve => {
             setTimeout(() => resolve({ success: true }), 200);
         });
     }
     
-    const response = await getResilientFetch()(`${getAPIBase()}/auth/logout`, {
+    const response = await getResilientFetch()(`${getAPIBase()}${paths.logout()}`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -1038,7 +2778,7 @@ export async function validateAuthToken(token: string): Promise<z.infer<typeof U
         });
     }
     
-    const response = await getResilientFetch()(`${getAPIBase()}/auth/validate`, {
+    const response = await getResilientFetch()(`${getAPIBase()}${paths.validateToken()}`, {
         method: 'POST',
         headers: {
             'Authorization': `Bearer ${token}`,
@@ -1073,7 +2813,7 @@ export async function refreshAuthToken(refreshToken: string): Promise<{ token: s
         });
     }
 
-    const response = await getResilientFetch()(`${getAPIBase()}/auth/refresh`, {
+    const response = await getResilientFetch()(`${getAPIBase()}${paths.refreshToken()}`, {
         method: 'POST',
         headers: {
             'Content-Type': 'application/json',
@@ -1096,9 +2836,47 @@ export async function refreshAuthToken(refreshToken: string): Promise<{ token: s
 /**
  * Type exports for API consumers
  */
-export type User = z.infer<typeof UserSchema>;
-export type ClubMember = z.infer<typeof ClubMemberSchema>;
-export type Event = z.infer<typeof EventSchema>;
-export type EventItem = z.infer<typeof EventItemSchema>;
-export type Availability = z.infer<typeof AvailabilitySchema>;
-export type AuthResponse = z.infer<typeof AuthResponseSchema>;
+export type {
+    User,
+    Club,
+    UserClub,
+    ClubMember,
+    NewClubMember,
+    ClubMemberUpdate,
+    MemberStatus,
+    Event,
+    NewEvent,
+    EventUpdate,
+    EventItem,
+    NewEventItem,
+    ItemClaim,
+    ItemClaimRequest,
+    Availability,
+    AvailabilityChange,
+    Book,
+    NewBook,
+    ReadingProgress,
+    ReadingProgressUpdate,
+    AuthResponse,
+    ErrorResponse
+} from './api.generated';
+export type {
+    ClubInvitation,
+    InvitationPreview,
+    AcceptedInvitation,
+    JoinRequest,
+    JoinRequestStatus,
+    JoinRequestDecision,
+    NewInvitation,
+    NewJoinRequest
+} from './invitations';
+export type { MeetingPoll, NewMeetingPoll, PollResponse } from './meetingPolls';
+export type { BookNomination, BookVote, NewBookVote, NewNomination } from './bookVotes';
+export type { BookMetadata } from './books';
+export type { DiscussionPost, DiscussionThread, DiscussionThreadDetail, NewPost, NewThread, Reaction } from './discussions';
+export type { ReminderPreferences, ReminderSettings, UserNotification } from './reminders';
+export type PaginatedResult<T> = {
+    items: T[];
+    nextCursor: string | null;
+    total: number;
+};
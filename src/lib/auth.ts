@@ -6,28 +6,18 @@ import { browser } from '$app/environment';
 import { writable } from 'svelte/store';
 import { sessionManager } from './sessionManager';
 import { login as apiLogin, logout as apiLogout, validateAuthToken, refreshAuthToken } from './api';
+import { replayOutbox } from './offlineQueue';
 import { isDevelopment } from './env';
 import CryptoUtils from './crypto.js';
 import { TIME_CONSTANTS } from './constants';
+import type { User } from './api.generated';
 
 // Authentication configuration
 const SESSION_TIMEOUT = TIME_CONSTANTS.SESSION_TIMEOUT;
 const AUTH_DEBUG = isDevelopment();
 
-// Types - Updated to match backend User model
-export interface User {
-	id: string;
-	name: string;
-	email: string;
-	phone?: string | null;
-	avatar?: string | null;
-	role: 'admin' | 'moderator' | 'member' | 'guest';
-	isActive: boolean;
-	lastLoginAt?: string | null;
-	createdAt: string;
-	updatedAt?: string;
-	joinedDate?: string | null;
-}
+// Types - the backend User model
+export type { User };
 
 interface AuthTokenPayload {
 	userId: string;
@@ -159,6 +149,9 @@ export class AuthService {
 			
 			this.scheduleTokenRefresh(token);
 			
+			// Changes queued while the session had expired can be sent now
+			replayOutbox();
+			
 			if (AUTH_DEBUG) {
 				console.log('User logged in successfully');
 			}
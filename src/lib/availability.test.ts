@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeAvailability } from './availability';
+
+describe('summarizeAvailability', () => {
+	it('should count each answer and the members who have not answered', () => {
+		const summary = summarizeAvailability({
+			ann: { status: 'available' },
+			bob: { status: 'available', waitlisted: true },
+			cat: { status: 'maybe' },
+			dan: { status: 'unavailable' }
+		}, ['ann', 'bob', 'cat', 'dan', 'eve', 'fay']);
+
+		expect(summary).toEqual({ available: 2, maybe: 1, unavailable: 1, noResponse: 2, waitlisted: 1 });
+	});
+
+	it('should count answers from people no longer on the member list', () => {
+		const summary = summarizeAvailability({ gone: { status: 'maybe' } }, ['ann']);
+
+		expect(summary).toEqual({ available: 0, maybe: 1, unavailable: 0, noResponse: 1, waitlisted: 0 });
+	});
+
+	it('should count nobody as unanswered when the member list is unknown', () => {
+		expect(summarizeAvailability({}).noResponse).toBe(0);
+	});
+});
@@ -0,0 +1,51 @@
+/**
+ * Meeting availability
+ * Members answer available, maybe or unavailable for each event (the AvailabilitySchema
+ * statuses, used everywhere from the API to the stores), optionally with a note. Members
+ * who haven't answered have no response at all.
+ */
+
+import type { z } from 'zod';
+import type { AvailabilityStatusSchema } from './api.generated';
+
+export type AvailabilityStatus = z.infer<typeof AvailabilityStatusSchema>;
+
+/** In the order answers are offered */
+export const AVAILABILITY_STATUSES: AvailabilityStatus[] = ['available', 'maybe', 'unavailable'];
+
+export const AVAILABILITY_LABELS: Record<AvailabilityStatus, string> = {
+	available: 'Available',
+	maybe: 'Maybe',
+	unavailable: "Can't make it"
+};
+
+/** Longest note a member can add to an answer (AvailabilityNote in the API) */
+export const MAX_AVAILABILITY_NOTE_LENGTH = 500;
+
+export interface AvailabilitySummary {
+	available: number;
+	maybe: number;
+	unavailable: number;
+	/** Members who haven't answered; only counted when the member list is known */
+	noResponse: number;
+	/** Available members waiting for a seat; included in available */
+	waitlisted: number;
+}
+
+/**
+ * Count an event's answers
+ * @param memberIds - Everyone expected to answer, so silence can be counted; answers from
+ * anyone else (e.g. members who have since left) still count
+ */
+export function summarizeAvailability(
+	responses: Record<string, { status: AvailabilityStatus; waitlisted?: boolean }>,
+	memberIds: string[] = []
+): AvailabilitySummary {
+	const summary: AvailabilitySummary = { available: 0, maybe: 0, unavailable: 0, noResponse: 0, waitlisted: 0 };
+	for (const response of Object.values(responses)) {
+		summary[response.status]++;
+		if (response.waitlisted) summary.waitlisted++;
+	}
+	summary.noResponse = new Set(memberIds.filter(id => !responses[id])).size;
+	return summary;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { breakTie, suggestDiscussion, tallyVote, type BookVote, type TieBreak } from './bookVotes';
+
+function vote(method: BookVote['method'], tieBreak: TieBreak = 'earliestNomination') {
+	return {
+		id: 'vote-1',
+		method,
+		tieBreak,
+		candidates: [
+			{ id: 'a', bookId: 'book-circe', nominatedAt: '2025-06-03T00:00:00.000Z' },
+			{ id: 'b', bookId: 'book-piranesi', nominatedAt: '2025-06-01T00:00:00.000Z' },
+			{ id: 'c', bookId: 'book-beloved', nominatedAt: '2025-06-02T00:00:00.000Z' }
+		]
+	};
+}
+
+describe('tallyVote', () => {
+	it('should transfer ballots from the last-placed book until one has a majority', () => {
+		const result = tallyVote(vote('ranked'), [['a', 'c'], ['a', 'c'], ['b', 'c'], ['b', 'a'], ['c', 'b']]);
+
+		expect(result).toMatchObject({ winnerId: 'b', decidedBy: 'majority', ballots: 5 });
+		expect(result.rounds).toEqual([
+			{ tallies: { a: 2, b: 2, c: 1 }, eliminated: ['c'], exhausted: 0 },
+			{ tallies: { a: 2, b: 3 }, eliminated: [], exhausted: 0 }
+		]);
+	});
+
+	it('should drop books at the bottom together only when they can\'t catch the next one', () => {
+		const four = { ...vote('ranked'), candidates: [...vote('ranked').candidates, { id: 'd', bookId: 'book-tmc', nominatedAt: '2025-06-04T00:00:00.000Z' }] };
+		const ballots = [...Array(5).fill(['a']), ...Array(4).fill(['b']), ['c', 'b'], ['d', 'a']];
+		const result = tallyVote(four, ballots);
+
+		expect(result).toMatchObject({ winnerId: 'a', decidedBy: 'majority' });
+		expect(result.rounds).toEqual([
+			{ tallies: { a: 5, b: 4, c: 1, d: 1 }, eliminated: ['c', 'd'], exhausted: 0 },
+			{ tallies: { a: 6, b: 5 }, eliminated: [], exhausted: 0 }
+		]);
+	});
+
+	it('should drop one of the books level at the bottom by the tie-break rule', () => {
+		const ballots = [...Array(4).fill(['a']), ...Array(3).fill(['b']), ...Array(3).fill(['c', 'b'])];
+		const result = tallyVote(vote('ranked'), ballots);
+
+		// Dropping b and c together would hand a the win with 4 of 10 ballots
+		expect(result).toMatchObject({ winnerId: 'b', decidedBy: 'majority' });
+		expect(result.rounds).toEqual([
+			{ tallies: { a: 4, b: 3, c: 3 }, eliminated: ['c'], exhausted: 0 },
+			{ tallies: { a: 4, b: 6 }, eliminated: [], exhausted: 0 }
+		]);
+
+		// The organizer would have to say which book goes, so they choose from those still running
+		expect(tallyVote(vote('ranked', 'organizer'), ballots)).toMatchObject({
+			winnerId: null,
+			tied: ['a', 'b', 'c'],
+			decidedBy: 'tieBreak',
+			rounds: [{ tallies: { a: 4, b: 3, c: 3 }, eliminated: [] }]
+		});
+		expect(tallyVote(vote('ranked'), [['a'], ['a'], ['b'], ['c']])).toMatchObject({ winnerId: 'a', rounds: [{ eliminated: ['c'] }, { exhausted: 1 }] });
+	});
+
+	it('should pick the book ticked most often in approval votes', () => {
+		expect(tallyVote(vote('approval'), [['a', 'b'], ['b'], ['b', 'c']])).toMatchObject({
+			winnerId: 'b',
+			decidedBy: 'mostVotes',
+			rounds: [{ tallies: { a: 1, b: 3, c: 1 } }]
+		});
+	});
+
+	it('should settle level results with the tie-break rule', () => {
+		const level = [['a'], ['b']];
+		expect(tallyVote(vote('ranked'), level)).toMatchObject({ winnerId: 'b', tied: ['a', 'b'], decidedBy: 'tieBreak' });
+		expect(tallyVote(vote('approval', 'organizer'), level)).toMatchObject({ winnerId: null, tied: ['a', 'b'] });
+
+		const drawn = tallyVote(vote('ranked', 'random'), level).winnerId;
+		expect(['a', 'b']).toContain(drawn);
+		expect(breakTie(vote('ranked', 'random'), ['a', 'b'])).toBe(drawn);
+	});
+
+	it('should ignore unknown choices and report no winner without ballots', () => {
+		expect(tallyVote(vote('ranked'), [['x'], []])).toEqual({ winnerId: null, tied: [], decidedBy: null, rounds: [], ballots: 0 });
+		expect(tallyVote(vote('ranked'), [['x', 'c']]).winnerId).toBe('c');
+	});
+});
+
+describe('suggestDiscussion', () => {
+	it('should suggest the next meeting without a book', () => {
+		const events = [
+			{ id: 'picnic', title: 'Picnic', date: '2025-07-02T18:00:00.000Z', type: 'social' },
+			{ id: 'june', title: 'Discussion', date: '2025-07-03T18:00:00.000Z', type: 'meeting', bookId: 'book-1' },
+			{ id: 'monthly', title: 'Book Club', date: '2025-07-10T18:00:00.000Z', type: 'meeting', rrule: 'FREQ=MONTHLY' }
+		];
+
+		expect(suggestDiscussion(events, new Date(Date.UTC(2025, 6, 1)))?.occurrenceId).toMatch(/^monthly/);
+		expect(suggestDiscussion(events.slice(0, 2), new Date(Date.UTC(2025, 6, 1)))?.id).toBe('june');
+		expect(suggestDiscussion(events.slice(0, 1))).toBeNull();
+	});
+});
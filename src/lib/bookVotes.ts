@@ -0,0 +1,323 @@
+/**
+ * Book selection
+ * Members nominate books from the club's catalog on a board, then an admin puts some of them
+ * to a vote with a closing date. Votes are counted by instant runoff (members rank the candidates) or by
+ * approval (members tick every book they'd read), and the winner can be attached to an
+ * upcoming meeting so the schedule shows what will be discussed.
+ * Shapes are shared by the endpoints under /api and the client functions in api.ts.
+ */
+
+import { z } from 'zod';
+import { expandEvents, type Occurrence, type RecurringEvent } from './recurrence';
+
+/** Most books one vote can offer */
+export const MAX_VOTE_CANDIDATES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BookNominationSchema = z.object({
+	id: z.string(),
+	clubId: z.string(),
+	/** The catalog book nominated */
+	bookId: z.string(),
+	/** Why the member suggests it */
+	note: z.string().nullable(),
+	nominatedBy: z.string(),
+	nominatedAt: z.string().datetime(),
+	/** A winning nomination leaves the board once it is attached to a meeting */
+	status: z.enum(['open', 'selected'])
+});
+
+export const VotingMethodSchema = z.enum(['ranked', 'approval']);
+
+/**
+ * How a tie for the win is settled: the book nominated first, a draw seeded by the vote
+ * (so every count of the same ballots agrees), or left for an admin to pick
+ */
+export const TieBreakSchema = z.enum(['earliestNomination', 'random', 'organizer']);
+
+export const VoteCandidateSchema = z.object({
+	/** The nomination it was taken from */
+	id: z.string(),
+	bookId: z.string(),
+	nominatedAt: z.string().datetime()
+});
+
+export const VoteRoundSchema = z.object({
+	/** Ballots counting for each candidate still in the running */
+	tallies: z.record(z.number()),
+	/** Candidates dropped after this round */
+	eliminated: z.array(z.string()),
+	/** Ballots with no candidate left in the running */
+	exhausted: z.number()
+});
+
+export const VoteResultSchema = z.object({
+	winnerId: z.string().nullable(),
+	/** Candidates level at the end; more than one means the tie-break was needed */
+	tied: z.array(z.string()),
+	decidedBy: z.enum(['majority', 'mostVotes', 'tieBreak']).nullable(),
+	rounds: z.array(VoteRoundSchema),
+	ballots: z.number()
+});
+
+export const BookVoteSchema = z.object({
+	id: z.string(),
+	clubId: z.string(),
+	title: z.string(),
+	method: VotingMethodSchema,
+	/** Ballots are never shown with voters' names */
+	anonymous: z.boolean(),
+	tieBreak: TieBreakSchema,
+	candidates: z.array(VoteCandidateSchema),
+	status: z.enum(['open', 'closed']),
+	closesAt: z.string().datetime(),
+	createdBy: z.string(),
+	createdAt: z.string().datetime(),
+	ballotCount: z.number(),
+	/** Who voted for what, by user ID; null for anonymous votes */
+	ballots: z.record(z.array(z.string())).nullable(),
+	/** The signed-in member's ballot */
+	myBallot: z.array(z.string()).nullable(),
+	/** Counted once the vote closes */
+	result: VoteResultSchema.nullable(),
+	/** The candidate attached to a meeting, once an admin has, and that meeting */
+	chosenId: z.string().nullable(),
+	eventId: z.string().nullable()
+});
+
+/**
+ * Request bodies
+ */
+export const NewNominationSchema = z.object({
+	bookId: z.string().min(1, 'Choose a book from the catalog'),
+	note: z.string().trim().max(500, 'Note must be 500 characters or fewer').optional()
+});
+
+export const NewBookVoteSchema = z.object({
+	title: z.string().trim().min(1, 'Please enter a title').max(200, 'Title must be 200 characters or fewer'),
+	method: VotingMethodSchema,
+	anonymous: z.boolean(),
+	tieBreak: TieBreakSchema,
+	closesAt: z.string().datetime({ message: 'Choose when voting closes' }),
+	/** Nominations to put to the vote; every open one when left out */
+	nominationIds: z.array(z.string().min(1))
+		.min(2, 'Choose at least two books')
+		.max(MAX_VOTE_CANDIDATES, `Choose at most ${MAX_VOTE_CANDIDATES} books`)
+		.optional()
+});
+
+export const BallotSchema = z.object({
+	/** Candidate IDs, first choice first for ranked votes */
+	choices: z.array(z.string().min(1))
+		.min(1, 'Choose at least one book')
+		.refine(choices => new Set(choices).size === choices.length, 'A book is chosen twice')
+});
+
+export const AttachWinnerSchema = z.object({
+	eventId: z.string().min(1),
+	/** Occurrence of a recurring meeting, as its original date key */
+	originalDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Choose a meeting date'),
+	/** Needed only when the result is a tie left for the organizer */
+	candidateId: z.string().min(1).optional()
+});
+
+export type BookNomination = z.infer<typeof BookNominationSchema>;
+export type VotingMethod = z.infer<typeof VotingMethodSchema>;
+export type TieBreak = z.infer<typeof TieBreakSchema>;
+export type VoteCandidate = z.infer<typeof VoteCandidateSchema>;
+export type VoteRound = z.infer<typeof VoteRoundSchema>;
+export type VoteResult = z.infer<typeof VoteResultSchema>;
+export type BookVote = z.infer<typeof BookVoteSchema>;
+export type NewNomination = z.infer<typeof NewNominationSchema>;
+export type NewBookVote = z.infer<typeof NewBookVoteSchema>;
+export type Ballot = z.infer<typeof BallotSchema>;
+export type AttachWinner = z.infer<typeof AttachWinnerSchema>;
+
+export const VOTING_METHOD_LABELS: Record<VotingMethod, string> = {
+	ranked: 'Ranked choice',
+	approval: 'Approval'
+};
+
+export const TIE_BREAK_LABELS: Record<TieBreak, string> = {
+	earliestNomination: 'Earliest nomination wins',
+	random: 'Random draw',
+	organizer: 'Organizer decides'
+};
+
+// FNV-1a, so a "random" tie-break comes out the same every time the vote is counted
+function seededIndex(seed: string, length: number): number {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < seed.length; i++) {
+		hash ^= seed.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0) % length;
+}
+
+/**
+ * The candidate a tie-break rule picks from those level, or null when an admin has to
+ */
+export function breakTie(vote: Pick<BookVote, 'id' | 'tieBreak' | 'candidates'>, tied: string[]): string | null {
+	if (tied.length <= 1) return tied[0] ?? null;
+	const order = vote.candidates.filter(candidate => tied.includes(candidate.id));
+	switch (vote.tieBreak) {
+		case 'earliestNomination':
+			return [...order].sort((a, b) => a.nominatedAt.localeCompare(b.nominatedAt))[0]?.id ?? null;
+		case 'random':
+			return order[seededIndex(`${vote.id}:${order.map(candidate => candidate.id).join(',')}`, order.length)]?.id ?? null;
+		case 'organizer':
+			return null;
+	}
+}
+
+function leaders(tallies: Record<string, number>): string[] {
+	const top = Math.max(...Object.values(tallies));
+	return Object.keys(tallies).filter(id => tallies[id] === top);
+}
+
+function settle(
+	vote: Pick<BookVote, 'id' | 'tieBreak' | 'candidates'>,
+	tied: string[],
+	rounds: VoteRound[],
+	ballots: number,
+	decidedBy: 'majority' | 'mostVotes'
+): VoteResult {
+	if (tied.length === 1) return { winnerId: tied[0], tied, decidedBy, rounds, ballots };
+	return { winnerId: breakTie(vote, tied), tied, decidedBy: 'tieBreak', rounds, ballots };
+}
+
+/**
+ * The books to drop after a runoff round, fewest ballots first
+ * Books at the bottom go together when their ballots combined are fewer than the next book's,
+ * since none of them could overtake it. Otherwise a single book goes and several level at the
+ * bottom are returned for the tie-break to choose between.
+ */
+function trailing(tallies: Record<string, number>, running: string[]): { drop: string[] } | { level: string[] } {
+	const ranked = [...running].sort((a, b) => tallies[a] - tallies[b]);
+	let safe = 0;
+	let sum = 0;
+	for (let i = 0; i < ranked.length - 1; i++) {
+		sum += tallies[ranked[i]];
+		const next = tallies[ranked[i + 1]];
+		if (tallies[ranked[i]] < next && sum < next) safe = i + 1;
+	}
+	if (safe > 0) return { drop: ranked.slice(0, safe) };
+	return { level: running.filter(id => tallies[id] === tallies[ranked[0]]) };
+}
+
+/**
+ * Which of several books level at the bottom the tie-break rule drops: the one it would pick last,
+ * or null when the organizer decides
+ */
+function dropByTieBreak(vote: Pick<BookVote, 'id' | 'tieBreak' | 'candidates'>, level: string[]): string | null {
+	let remaining = level;
+	while (remaining.length > 1) {
+		const kept = breakTie(vote, remaining);
+		if (!kept) return null;
+		remaining = remaining.filter(id => id !== kept);
+	}
+	return remaining[0];
+}
+
+/**
+ * Count a vote's ballots
+ * Approval votes go to the book ticked most often. Ranked votes are an instant runoff: each
+ * ballot counts for its highest choice still in the running, and the book with the fewest
+ * ballots is dropped until one has a majority of the ballots still counting. When books are
+ * level at the bottom the tie-break rule says which goes; if the organizer decides instead,
+ * the count stops at that round and the books still in the running are left to them.
+ * Ballot choices that aren't candidates are ignored.
+ */
+export function tallyVote(
+	vote: Pick<BookVote, 'id' | 'method' | 'tieBreak' | 'candidates'>,
+	ballots: string[][]
+): VoteResult {
+	const ids = vote.candidates.map(candidate => candidate.id);
+	const valid = ballots
+		.map(ballot => [...new Set(ballot)].filter(choice => ids.includes(choice)))
+		.filter(ballot => ballot.length > 0);
+	if (valid.length === 0) {
+		return { winnerId: null, tied: [], decidedBy: null, rounds: [], ballots: 0 };
+	}
+
+	if (vote.method === 'approval') {
+		const tallies = Object.fromEntries(ids.map(id => [id, valid.filter(ballot => ballot.includes(id)).length]));
+		return settle(vote, leaders(tallies), [{ tallies, eliminated: [], exhausted: 0 }], valid.length, 'mostVotes');
+	}
+
+	return runoff(vote, valid, ids);
+}
+
+function runoff(
+	vote: Pick<BookVote, 'id' | 'tieBreak' | 'candidates'>,
+	valid: string[][],
+	candidates: string[]
+): VoteResult {
+	const rounds: VoteRound[] = [];
+	let running = candidates;
+	for (;;) {
+		const tallies: Record<string, number> = Object.fromEntries(running.map(id => [id, 0]));
+		let exhausted = 0;
+		for (const ballot of valid) {
+			const choice = ballot.find(id => running.includes(id));
+			if (choice) tallies[choice]++;
+			else exhausted++;
+		}
+		const round: VoteRound = { tallies, eliminated: [], exhausted };
+		rounds.push(round);
+
+		const counting = valid.length - exhausted;
+		const top = leaders(tallies);
+		if (top.length === 1 && tallies[top[0]] * 2 > counting) {
+			return settle(vote, top, rounds, valid.length, 'majority');
+		}
+
+		const bottom = trailing(tallies, running);
+		let dropped: string[];
+		if ('drop' in bottom) {
+			dropped = bottom.drop;
+		} else if (bottom.level.length === running.length) {
+			// Everyone left is level, so nobody can be dropped
+			return settle(vote, running, rounds, valid.length, 'mostVotes');
+		} else {
+			const loser = dropByTieBreak(vote, bottom.level);
+			if (!loser) {
+				// Counting stops here; the organizer picks from the books still in the running
+				return settle(vote, running, rounds, valid.length, 'majority');
+			}
+			dropped = [loser];
+		}
+		round.eliminated = dropped;
+		running = running.filter(id => !dropped.includes(id));
+	}
+}
+
+/**
+ * Whether a vote is past its closing time, whatever its stored status says
+ */
+export function isVoteClosed(vote: Pick<BookVote, 'status' | 'closesAt'>, now: number = Date.now()): boolean {
+	return vote.status === 'closed' || Date.parse(vote.closesAt) <= now;
+}
+
+/**
+ * Meeting occurrences a winning book could be attached to, soonest first, looking up to a year ahead
+ */
+export function upcomingDiscussions<T extends RecurringEvent & { type?: string }>(
+	events: T[],
+	after: Date = new Date()
+): Occurrence<T>[] {
+	const meetings = events.filter(event => event.type === 'meeting' || event.type === 'discussion');
+	return expandEvents(meetings, after, new Date(after.getTime() + 366 * DAY_MS));
+}
+
+/**
+ * The meeting to suggest for a winner: the next one with no book yet, or else the next one
+ */
+export function suggestDiscussion<T extends RecurringEvent & { type?: string }>(
+	events: T[],
+	after: Date = new Date()
+): Occurrence<T> | null {
+	const upcoming = upcomingDiscussions(events, after);
+	return upcoming.find(occurrence => !occurrence.bookId) ?? upcoming[0] ?? null;
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { NewCatalogBookSchema, bookLabel, fillFromMetadata, findCatalogBook, toIsbn13 } from './books';
+
+describe('toIsbn13', () => {
+	it('should accept either ISBN length in any common formatting and reject bad check digits', () => {
+		expect(toIsbn13('978-1-4000-3341-6')).toBe('9781400033416');
+		expect(toIsbn13('0-316-55634-3')).toBe('9780316556347');
+		expect(toIsbn13('080442957x')).toBe('9780804429573');
+		expect(toIsbn13('9781400033417')).toBeNull();
+		expect(toIsbn13('0316556345')).toBeNull();
+		expect(toIsbn13('not an isbn')).toBeNull();
+	});
+
+	it('should store ISBNs from forms as ISBN-13', () => {
+		const parsed = NewCatalogBookSchema.parse({ title: ' Circe ', authors: ['Madeline Miller'], isbn: '0316556343' });
+		expect(parsed).toEqual({ title: 'Circe', authors: ['Madeline Miller'], isbn: '9780316556347' });
+		expect(NewCatalogBookSchema.safeParse({ title: 'Circe', isbn: '12345' }).success).toBe(false);
+	});
+});
+
+describe('findCatalogBook', () => {
+	const catalog = [
+		{ id: 'beloved', title: 'Beloved', authors: ['Toni Morrison'], isbn: '9781400033416' },
+		{ id: 'piranesi', title: 'Piranesi', authors: ['Susanna Clarke'] }
+	];
+
+	it('should match by ISBN, or by title and first author when an ISBN is missing', () => {
+		expect(findCatalogBook(catalog, { title: 'Beloved (Vintage)', isbn: '9781400033416' })?.id).toBe('beloved');
+		expect(findCatalogBook(catalog, { title: 'Beloved', isbn: '9780593135204' })).toBeUndefined();
+		expect(findCatalogBook(catalog, { title: 'piranesi', authors: ['Susanna  Clarke'] })?.id).toBe('piranesi');
+		expect(findCatalogBook(catalog, { title: 'Piranesi', authors: ['Someone Else'] })).toBeUndefined();
+		expect(findCatalogBook(catalog, { title: 'Beloved' })?.id).toBe('beloved');
+	});
+});
+
+describe('fillFromMetadata', () => {
+	it('should keep what was typed and fill in the rest', () => {
+		const metadata = {
+			isbn: '9781635575637',
+			title: 'Piranesi',
+			authors: ['Susanna Clarke'],
+			pageCount: 272,
+			coverUrl: 'https://covers.example.com/piranesi.jpg',
+			source: 'Test'
+		};
+
+		expect(fillFromMetadata({ title: 'Piranesi (hardback)', pageCount: 245 }, metadata)).toEqual({
+			title: 'Piranesi (hardback)',
+			authors: ['Susanna Clarke'],
+			isbn: '9781635575637',
+			coverUrl: 'https://covers.example.com/piranesi.jpg',
+			pageCount: 245
+		});
+	});
+});
+
+describe('bookLabel', () => {
+	it('should list every author', () => {
+		expect(bookLabel({ title: 'Beloved', authors: ['Toni Morrison'] })).toBe('Beloved by Toni Morrison');
+		expect(bookLabel({ title: 'Good Omens', authors: ['Terry Pratchett', 'Neil Gaiman'] })).toBe('Good Omens by Terry Pratchett and Neil Gaiman');
+		expect(bookLabel({ title: 'Anthology', authors: ['A', 'B', 'C'] })).toBe('Anthology by A, B and C');
+		expect(bookLabel({ title: 'Beowulf' })).toBe('Beowulf');
+	});
+});
@@ -0,0 +1,168 @@
+/**
+ * Book catalog
+ * A club's books are the one place titles live: meetings, reading progress and nominations
+ * all refer to them by ID. Books carry an ISBN-13 (ISBN-10s are converted), and their details
+ * can be filled in from it through a BookMetadataProvider. The fixture provider here answers
+ * for a handful of well-known books so lookups work offline and in development; a real
+ * catalog service is registered with the server's bookMetadataService.
+ */
+
+import { z } from 'zod';
+import { NewBookSchema, type Book, type NewBook } from './api.generated';
+import { normalizeItemName } from './potluck';
+
+export type { Book, NewBook };
+
+/** Most authors kept for one book */
+export const MAX_AUTHORS = 10;
+
+/**
+ * An ISBN as typed, without spaces or hyphens and with a lowercase check "x" raised
+ */
+export function cleanIsbn(input: string): string {
+	return input.replace(/[\s-]/g, '').toUpperCase();
+}
+
+export function isValidIsbn10(isbn: string): boolean {
+	if (!/^\d{9}[\dX]$/.test(isbn)) return false;
+	const sum = [...isbn].reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+	return sum % 11 === 0;
+}
+
+export function isValidIsbn13(isbn: string): boolean {
+	if (!/^97[89]\d{10}$/.test(isbn)) return false;
+	const sum = [...isbn].reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+	return sum % 10 === 0;
+}
+
+/**
+ * The ISBN-13 for an ISBN-10 or ISBN-13 in any common formatting, or null when the check digit is wrong
+ */
+export function toIsbn13(input: string): string | null {
+	const isbn = cleanIsbn(input);
+	if (isValidIsbn13(isbn)) return isbn;
+	if (!isValidIsbn10(isbn)) return null;
+
+	const core = `978${isbn.slice(0, 9)}`;
+	const sum = [...core].reduce((total, char, index) => total + Number(char) * (index % 2 === 0 ? 1 : 3), 0);
+	return `${core}${(10 - sum % 10) % 10}`;
+}
+
+/**
+ * An ISBN-10 or ISBN-13 from a form, converted to the ISBN-13 the API stores
+ */
+export const IsbnInputSchema = z.string()
+	.trim()
+	.refine(value => toIsbn13(value) !== null, 'Enter a valid ISBN-10 or ISBN-13')
+	.transform(value => toIsbn13(value)!);
+
+/**
+ * A book for the catalog as entered in a form; titles and authors are trimmed and the ISBN checked
+ */
+export const NewCatalogBookSchema = NewBookSchema.extend({
+	title: z.string().trim().min(1, 'Please enter a title').max(200, 'Title must be 200 characters or fewer'),
+	authors: z.array(z.string().trim().min(1).max(200, 'Author names must be 200 characters or fewer'))
+		.max(MAX_AUTHORS, `List at most ${MAX_AUTHORS} authors`)
+		.optional(),
+	isbn: IsbnInputSchema.optional(),
+	coverUrl: z.string().url('Cover must be a web address').optional(),
+	pageCount: z.number().int().min(1, 'Pages must be at least 1').optional(),
+	chapterCount: z.number().int().min(1, 'Chapters must be at least 1').optional()
+});
+
+/**
+ * What a metadata provider knows about an ISBN
+ */
+export const BookMetadataSchema = z.object({
+	isbn: z.string(),
+	title: z.string(),
+	authors: z.array(z.string()),
+	coverUrl: z.string().url().optional(),
+	pageCount: z.number().int().min(1).optional(),
+	publishedYear: z.number().int().optional(),
+	/** Name of the provider that answered */
+	source: z.string()
+});
+
+export type BookMetadata = z.infer<typeof BookMetadataSchema>;
+
+/**
+ * Looks up book details by ISBN, e.g. a public catalog API
+ */
+export interface BookMetadataProvider {
+	readonly name: string;
+	/** Details for an ISBN-13, or null when the provider doesn't know it */
+	lookupIsbn(isbn: string, signal?: AbortSignal): Promise<Omit<BookMetadata, 'source'> | null>;
+}
+
+function cover(isbn: string): string {
+	return `https://covers.openlibrary.org/b/isbn/${isbn}-M.jpg`;
+}
+
+/** Books the fixture provider knows, by ISBN-13 */
+export const BOOK_FIXTURES: Array<Omit<BookMetadata, 'source'>> = [
+	{ isbn: '9781501161933', title: 'The Seven Husbands of Evelyn Hugo', authors: ['Taylor Jenkins Reid'], pageCount: 400, publishedYear: 2017 },
+	{ isbn: '9781984880963', title: 'The Thursday Murder Club', authors: ['Richard Osman'], pageCount: 382, publishedYear: 2020 },
+	{ isbn: '9780316556347', title: 'Circe', authors: ['Madeline Miller'], pageCount: 393, publishedYear: 2018 },
+	{ isbn: '9781635575637', title: 'Piranesi', authors: ['Susanna Clarke'], pageCount: 272, publishedYear: 2020 },
+	{ isbn: '9781400033416', title: 'Beloved', authors: ['Toni Morrison'], pageCount: 324, publishedYear: 1987 },
+	{ isbn: '9780593135204', title: 'Project Hail Mary', authors: ['Andy Weir'], pageCount: 496, publishedYear: 2021 },
+	{ isbn: '9780735219090', title: 'Where the Crawdads Sing', authors: ['Delia Owens'], pageCount: 384, publishedYear: 2018 },
+	{ isbn: '9780525559474', title: 'The Midnight Library', authors: ['Matt Haig'], pageCount: 304, publishedYear: 2020 }
+].map(book => ({ ...book, coverUrl: cover(book.isbn) }));
+
+/**
+ * Provider answering from a fixed list, for offline use, development and tests
+ */
+export function createFixtureProvider(books: Array<Omit<BookMetadata, 'source'>> = BOOK_FIXTURES): BookMetadataProvider {
+	const byIsbn = new Map(books.map(book => [book.isbn, book]));
+	return {
+		name: 'Local catalog',
+		lookupIsbn: async (isbn) => byIsbn.get(isbn) ?? null
+	};
+}
+
+/**
+ * A form's fields filled in from looked-up details; anything already typed is kept
+ */
+export function fillFromMetadata(book: NewBook, metadata: BookMetadata): NewBook {
+	return {
+		...book,
+		title: book.title || metadata.title,
+		authors: book.authors?.length ? book.authors : metadata.authors,
+		isbn: metadata.isbn,
+		...(book.coverUrl ?? metadata.coverUrl ? { coverUrl: book.coverUrl ?? metadata.coverUrl } : {}),
+		...(book.pageCount ?? metadata.pageCount ? { pageCount: book.pageCount ?? metadata.pageCount } : {})
+	};
+}
+
+/**
+ * The catalog entry for a book that is already in it: the same ISBN, or the same title and
+ * first author compared loosely when either side has no ISBN
+ */
+export function findCatalogBook<T extends Pick<Book, 'title' | 'authors' | 'isbn'>>(catalog: T[], book: Pick<NewBook, 'title' | 'authors' | 'isbn'>): T | undefined {
+	const title = normalizeItemName(book.title);
+	const author = book.authors?.[0] ? normalizeItemName(book.authors[0]) : '';
+	return catalog.find(entry => {
+		if (entry.isbn && book.isbn) return entry.isbn === book.isbn;
+		if (normalizeItemName(entry.title) !== title) return false;
+		const entryAuthor = entry.authors?.[0];
+		return !author || !entryAuthor || normalizeItemName(entryAuthor) === author;
+	});
+}
+
+/**
+ * "Toni Morrison", "A and B", "A, B and C"
+ */
+export function formatAuthors(authors: string[] | undefined): string {
+	if (!authors?.length) return '';
+	return authors.length === 1 ? authors[0] : `${authors.slice(0, -1).join(', ')} and ${authors[authors.length - 1]}`;
+}
+
+/**
+ * "Beloved by Toni Morrison", or just the title when there are no authors
+ */
+export function bookLabel(book: Pick<Book, 'title' | 'authors'>): string {
+	const authors = formatAuthors(book.authors);
+	return authors ? `${book.title} by ${authors}` : book.title;
+}
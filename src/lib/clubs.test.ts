@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+	canManageClubEvents,
+	clubPath,
+	clubRole,
+	combinedAgenda,
+	resolveClub,
+	scopeClubPath,
+	switchClubPath
+} from './clubs';
+import type { RecurringEvent } from './recurrence';
+
+type ClubEvent = RecurringEvent & { status?: string };
+
+const clubs = [
+	{ id: 'club-1', name: 'Downtown Book Club', clubRole: 'admin' as const },
+	{ id: 'club-2', name: 'Sci-Fi Circle', clubRole: 'member' as const },
+	{ id: 'club-3', name: 'Westside Classics', clubRole: 'moderator' as const }
+];
+
+describe('club URLs', () => {
+	it('should move unscoped club pages under a club and leave other URLs alone', () => {
+		expect(clubPath('club 2', 'schedule')).toBe('/clubs/club%202/schedule');
+		expect(scopeClubPath('/clubs/discussions/thread_1?x=1#post_2', 'club-2')).toBe('/clubs/club-2/discussions/thread_1?x=1#post_2');
+		expect(scopeClubPath('/clubs/schedule', 'club-2')).toBe('/clubs/club-2/schedule');
+		expect(scopeClubPath('/clubs', 'club-2')).toBe('/clubs');
+		expect(scopeClubPath('/clubs/club-1/roster', 'club-2')).toBe('/clubs/club-1/roster');
+		expect(scopeClubPath('/business/community', 'club-2')).toBe('/business/community');
+	});
+
+	it('should switch to the same section of another club, dropping anything that belongs to the old one', () => {
+		expect(switchClubPath('/clubs/club-1/discussions/thread_1', 'club-2')).toBe('/clubs/club-2/discussions');
+		expect(switchClubPath('/clubs/club-1/schedule', 'club-3')).toBe('/clubs/club-3/schedule');
+		expect(switchClubPath('/clubs/reading', 'club-3')).toBe('/clubs/club-3/reading');
+		expect(switchClubPath('/clubs', 'club-2')).toBeNull();
+		expect(switchClubPath('/business', 'club-2')).toBeNull();
+	});
+});
+
+describe('resolveClub', () => {
+	it('should prefer the first club the member belongs to, then fall back to their first club', () => {
+		expect(resolveClub(clubs, 'club-9', 'club-3')?.id).toBe('club-3');
+		expect(resolveClub(clubs, undefined, null)?.id).toBe('club-1');
+		expect(resolveClub([], 'club-1')).toBeNull();
+	});
+});
+
+describe('clubRole', () => {
+	it('should resolve the member\'s role in each club separately', () => {
+		expect(clubRole(clubs, 'club-2')).toBe('member');
+		expect(clubRole(clubs, 'club-9')).toBeNull();
+		expect(canManageClubEvents(clubRole(clubs, 'club-3'))).toBe(true);
+		expect(canManageClubEvents(clubRole(clubs, 'club-2'))).toBe(false);
+		expect(canManageClubEvents(null)).toBe(false);
+	});
+});
+
+describe('combinedAgenda', () => {
+	it('should merge every club\'s upcoming occurrences in start order, without cancelled events', () => {
+		const agenda = combinedAgenda([
+			{
+				club: clubs[0],
+				events: [
+					{ id: 'circle', title: 'Book Circle', date: '2025-07-08T23:00:00.000Z', rrule: 'FREQ=WEEKLY;COUNT=3' },
+					{ id: 'off', title: 'Cancelled social', date: '2025-07-10T18:00:00.000Z', status: 'cancelled' }
+				] as ClubEvent[]
+			},
+			{
+				club: clubs[1],
+				events: [
+					{ id: 'scifi', title: 'Sci-Fi Night', date: '2025-07-17T00:00:00.000Z' },
+					{ id: 'past', title: 'Last month', date: '2025-06-17T00:00:00.000Z' }
+				] as ClubEvent[]
+			}
+		], new Date('2025-07-01T00:00:00.000Z'), 30);
+
+		expect(agenda.map(entry => [entry.club.name, entry.title, entry.start.toISOString()])).toEqual([
+			['Downtown Book Club', 'Book Circle', '2025-07-08T23:00:00.000Z'],
+			['Downtown Book Club', 'Book Circle', '2025-07-15T23:00:00.000Z'],
+			['Sci-Fi Circle', 'Sci-Fi Night', '2025-07-17T00:00:00.000Z'],
+			['Downtown Book Club', 'Book Circle', '2025-07-22T23:00:00.000Z']
+		]);
+	});
+});
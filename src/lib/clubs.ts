@@ -0,0 +1,105 @@
+/**
+ * Multi-club membership
+ * A member can belong to several clubs, each with its own role. Club pages live under
+ * /clubs/[clubId]/<section>; the older /clubs/<section> URLs redirect to the club the member
+ * last had open. The /clubs dashboard merges every club's upcoming events into one agenda.
+ */
+
+import { expandEvents, type Occurrence, type RecurringEvent } from './recurrence';
+import type { Role, UserClub } from './api.generated';
+
+/** Pages every club has, in the order the navigation lists them */
+export const CLUB_SECTIONS = [
+	'roster',
+	'schedule',
+	'availability',
+	'reading',
+	'voting',
+	'guides',
+	'discussions',
+	'tracking'
+] as const;
+
+export type ClubSection = typeof CLUB_SECTIONS[number];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isClubSection(value: string): value is ClubSection {
+	return (CLUB_SECTIONS as readonly string[]).includes(value);
+}
+
+/**
+ * A club's page, e.g. clubPath('club-2', 'schedule') is /clubs/club-2/schedule
+ * @param rest - Anything after the section: a sub-path, query or hash
+ */
+export function clubPath(clubId: string, section: ClubSection, rest = ''): string {
+	return `/clubs/${encodeURIComponent(clubId)}/${section}${rest}`;
+}
+
+/**
+ * An unscoped club URL (/clubs/<section>...) moved under a club; other URLs are returned as they are
+ */
+export function scopeClubPath(url: string, clubId: string): string {
+	const match = /^\/clubs\/([^/?#]+)(.*)$/.exec(url);
+	return match && isClubSection(match[1]) ? clubPath(clubId, match[1], match[2]) : url;
+}
+
+/**
+ * Where switching to another club should go from the current page: the same section of that
+ * club, or null when the page isn't about one club
+ * Anything below the section (a thread, a guide) belongs to the old club, so it is dropped.
+ */
+export function switchClubPath(pathname: string, clubId: string): string | null {
+	const [, root, first, second] = pathname.split('/');
+	if (root !== 'clubs' || !first) return null;
+	if (isClubSection(first)) return clubPath(clubId, first);
+	if (second && isClubSection(second)) return clubPath(clubId, second);
+	return null;
+}
+
+/**
+ * The club to open: the first of the preferred clubs the member belongs to, otherwise their first club
+ * @param preferredIds - e.g. the club in the URL, then the one they had open last time
+ */
+export function resolveClub<T extends { id: string }>(clubs: T[], ...preferredIds: Array<string | null | undefined>): T | null {
+	for (const id of preferredIds) {
+		const club = id ? clubs.find(candidate => candidate.id === id) : undefined;
+		if (club) return club;
+	}
+	return clubs[0] ?? null;
+}
+
+/**
+ * The member's role in a club, or null if they don't belong to it
+ */
+export function clubRole(clubs: Pick<UserClub, 'id' | 'clubRole'>[], clubId: string | null | undefined): Role | null {
+	return clubs.find(club => club.id === clubId)?.clubRole ?? null;
+}
+
+/**
+ * Admins and moderators run a club's schedule
+ */
+export function canManageClubEvents(role: Role | null): boolean {
+	return role === 'admin' || role === 'moderator';
+}
+
+export type AgendaEntry<T extends RecurringEvent> = Occurrence<T> & {
+	club: Pick<UserClub, 'id' | 'name'>;
+};
+
+/**
+ * Upcoming occurrences across all of a member's clubs, soonest first; cancelled events are left out
+ * @param days - How far ahead to look from `from`
+ */
+export function combinedAgenda<T extends RecurringEvent & { status?: string }>(
+	schedules: Array<{ club: Pick<UserClub, 'id' | 'name'>; events: T[] }>,
+	from: Date,
+	days = 30
+): AgendaEntry<T>[] {
+	const until = new Date(from.getTime() + days * DAY_MS);
+	return schedules
+		.flatMap(({ club, events }) => expandEvents(events, from, until)
+			.filter(occurrence => occurrence.status !== 'cancelled')
+			.map(occurrence => ({ ...occurrence, club: { id: club.id, name: club.name } })))
+		.sort((a, b) => a.start.getTime() - b.start.getTime() || a.club.name.localeCompare(b.club.name));
+}
@@ -3,7 +3,7 @@
  * Provides unified patterns for API error handling, user feedback, and retry logic
  */
 
-import { handleApiError } from '$lib/errorHandling';
+import { handleApiError, isAbortedError } from '$lib/errorHandling';
 import { toasts } from '$lib/toast';
 import { TIME_CONSTANTS, UI_CONSTANTS } from '$lib/constants';
 
@@ -81,6 +81,11 @@ export async function handleAsyncOperation<T>(
 		return result;
 		
 	} catch (error) {
+		// Cancelled operations leave no error state behind
+		if (isAbortedError(error)) {
+			return null;
+		}
+
 		const errorMessage = extractErrorMessage(error, `Failed to complete ${context}`);
 		
 		// Set error state
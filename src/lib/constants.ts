@@ -18,12 +18,23 @@ export const TIME_CONSTANTS = {
 	AVAILABILITY_UPDATE_DELAY: 300, // 300ms
 	EVENT_ITEM_ADD_DELAY: 500, // 500ms
 	
+	// Realtime (WebSocket)
+	WS_HEARTBEAT_INTERVAL: 25000, // 25 seconds between pings
+	WS_HEARTBEAT_TIMEOUT: 10000, // 10 seconds to answer a ping before reconnecting
+	WS_RECONNECT_BASE_DELAY: 1000, // 1 second, doubled per attempt
+	WS_RECONNECT_MAX_DELAY: 30000, // 30 seconds
+
+	// Offline outbox
+	OUTBOX_RETRY_BASE_DELAY: 5000, // 5 seconds, doubled per failed replay
+	OUTBOX_RETRY_MAX_DELAY: 5 * 60 * 1000, // 5 minutes
+	
 	// UI Feedback & Notifications
 	ERROR_TOAST_DURATION: 4000, // 4 seconds
 	SUCCESS_TOAST_DURATION: 3000, // 3 seconds
 	DEFAULT_RETRY_DELAY: 1000, // 1 second
 	STATUS_RESET_DELAY: 3000, // 3 seconds
 	LAYOUT_UPDATE_INTERVAL: 1000, // 1 second
+	NOTIFICATION_POLL_INTERVAL: 5 * 60 * 1000, // 5 minutes between checks for new reminders
 	
 	// Mock Data Generation
 	MOCK_DATA_DATE_RANGE_DAYS: 30, // 30 days for random date generation
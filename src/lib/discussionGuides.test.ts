@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+	GuideItemFormSchema,
+	chaptersRead,
+	guideItems,
+	isSpoilerFor,
+	moveGuideItem,
+	nextGuidePosition,
+	toGuideItemUpdate
+} from './discussionGuides';
+import type { EventItem } from './api.generated';
+
+function item(id: string, type: EventItem['type'], position?: number): EventItem {
+	return { id, title: id, type, status: 'pending', ...(position !== undefined ? { position } : {}) };
+}
+
+const items = [
+	item('snacks', 'task'),
+	item('q2', 'question', 2),
+	item('intro', 'note', 0),
+	item('legacy-agenda', 'agenda'),
+	item('q1', 'question', 1)
+];
+
+describe('guideItems', () => {
+	it('should leave out sign-ups and order by position, with unplaced items last', () => {
+		expect(guideItems(items).map(entry => entry.id)).toEqual(['intro', 'q1', 'q2', 'legacy-agenda']);
+		expect(nextGuidePosition(items)).toBe(3);
+		expect(nextGuidePosition([item('snacks', 'task')])).toBe(0);
+	});
+});
+
+describe('moveGuideItem', () => {
+	it('should renumber the guide and return only the positions that change', () => {
+		expect(moveGuideItem(items, 'q2', -1)).toEqual([
+			{ id: 'q2', position: 1 },
+			{ id: 'q1', position: 2 },
+			{ id: 'legacy-agenda', position: 3 }
+		]);
+		expect(moveGuideItem(items, 'q2', 1)).toEqual([{ id: 'legacy-agenda', position: 2 }, { id: 'q2', position: 3 }]);
+		expect(moveGuideItem(items, 'intro', -1)).toEqual([]);
+		expect(moveGuideItem(items, 'snacks', 1)).toEqual([]);
+	});
+});
+
+describe('isSpoilerFor', () => {
+	const book = { chapterCount: 20 };
+	const reading = (progress: { chapter?: number; percent: number; finished?: boolean }) => ({
+		...progress,
+		finishedAt: progress.finished ? '2025-07-01T00:00:00.000Z' : null
+	});
+
+	it('should hide chapter-tagged items until the member has read that chapter', () => {
+		expect(isSpoilerFor({ chapter: 8 }, reading({ chapter: 7, percent: 35 }), book)).toBe(true);
+		expect(isSpoilerFor({ chapter: 8 }, reading({ chapter: 8, percent: 40 }), book)).toBe(false);
+		expect(isSpoilerFor({ chapter: 8 }, reading({ percent: 45 }), book)).toBe(false);
+		expect(isSpoilerFor({ chapter: 8 }, undefined, book)).toBe(true);
+		expect(isSpoilerFor({}, undefined, book)).toBe(false);
+	});
+
+	it('should hide spoilers, and chapters it cannot place, until the member finishes', () => {
+		expect(isSpoilerFor({ spoiler: true }, reading({ chapter: 19, percent: 95 }), book)).toBe(true);
+		expect(isSpoilerFor({ spoiler: true, chapter: 3 }, reading({ percent: 100, finished: true }), book)).toBe(false);
+		expect(isSpoilerFor({ chapter: 3 }, reading({ percent: 90 }), {})).toBe(true);
+		expect(chaptersRead(reading({ percent: 90 }), {})).toBeNull();
+	});
+});
+
+describe('GuideItemFormSchema', () => {
+	it('should sanitize rich text and drop editor markup with nothing typed', () => {
+		const parsed = GuideItemFormSchema.parse({
+			type: 'question',
+			title: '  Who is the narrator talking to? ',
+			description: '<p>See <strong>chapter 3</strong><script>alert(1)</script></p><img src=x onerror="alert(1)">'
+		});
+		expect(parsed).toEqual({
+			type: 'question',
+			title: 'Who is the narrator talking to?',
+			description: '<p>See <strong>chapter 3</strong></p>',
+			spoiler: false
+		});
+
+		const cleared = GuideItemFormSchema.parse({ type: 'note', title: 'Intro', description: '<p><br></p>', chapter: null });
+		expect(toGuideItemUpdate(cleared)).toEqual({ title: 'Intro', description: '', chapter: null, spoiler: false });
+	});
+});
@@ -0,0 +1,151 @@
+/**
+ * Discussion guides
+ * An event's guide is made of its agenda, note and question items, in the order the discussion
+ * lead arranges them. Items can be tagged with the chapter they discuss or marked as spoilers,
+ * and are hidden from members whose reading progress hasn't got that far. Descriptions are rich
+ * text and are sanitized both when saved and when shown.
+ */
+
+import { z } from 'zod';
+import type { Book, EventItem, EventItemUpdate, NewEventItem, ReadingProgress } from './api.generated';
+import { sanitizeRichContent } from './validation';
+
+export type GuideItemType = 'agenda' | 'note' | 'question';
+
+/** Item types that belong to the guide rather than the sign-up list */
+export const GUIDE_ITEM_TYPES: readonly GuideItemType[] = ['agenda', 'question', 'note'];
+
+export const GUIDE_ITEM_LABELS: Record<GuideItemType, string> = {
+	agenda: 'Section',
+	question: 'Question',
+	note: 'Note'
+};
+
+export type GuideItem = EventItem & { type: GuideItemType };
+
+export function isGuideItem(item: Pick<EventItem, 'type'>): item is GuideItem {
+	return (GUIDE_ITEM_TYPES as readonly string[]).includes(item.type);
+}
+
+/**
+ * The guide items among an event's items, in guide order
+ * Items saved without a position (e.g. agenda items added on the item tracker) go last.
+ */
+export function guideItems(items: EventItem[]): GuideItem[] {
+	return items
+		.filter(isGuideItem)
+		.map((item, index) => ({ item, index }))
+		.sort((a, b) => (a.item.position ?? Infinity) - (b.item.position ?? Infinity) || a.index - b.index)
+		.map(({ item }) => item);
+}
+
+/**
+ * Position for an item added at the end of the guide
+ */
+export function nextGuidePosition(items: EventItem[]): number {
+	return guideItems(items).reduce((last, item) => Math.max(last, (item.position ?? -1) + 1), 0);
+}
+
+/**
+ * Position changes that move a guide item up (by -1) or down (by 1)
+ * The whole guide is renumbered from 0, so only items whose position changes are returned.
+ */
+export function moveGuideItem(items: EventItem[], itemId: string, by: -1 | 1): Array<{ id: string; position: number }> {
+	const ordered = guideItems(items);
+	const from = ordered.findIndex(item => item.id === itemId);
+	const to = from + by;
+	if (from < 0 || to < 0 || to >= ordered.length) return [];
+
+	[ordered[from], ordered[to]] = [ordered[to], ordered[from]];
+	return ordered
+		.map((item, position) => ({ id: item.id, position, changed: item.position !== position }))
+		.filter(entry => entry.changed)
+		.map(({ id, position }) => ({ id, position }));
+}
+
+/**
+ * Chapters a member has finished, or null when their progress can't be put in chapters
+ * Progress recorded by page or percent is converted when the book has a chapter count.
+ */
+export function chaptersRead(
+	progress: Pick<ReadingProgress, 'chapter' | 'percent' | 'finishedAt'> | undefined,
+	book: Pick<Book, 'chapterCount'> | undefined
+): number | null {
+	if (progress?.finishedAt) return Infinity;
+	if (progress?.chapter !== undefined) return progress.chapter;
+	if (!book?.chapterCount) return null;
+	return Math.floor((progress?.percent ?? 0) / 100 * book.chapterCount);
+}
+
+/**
+ * Whether a guide item would spoil the book for a member
+ * Spoilers are hidden until the member finishes; chapter-tagged items until they have read that
+ * chapter, or until they finish when their progress can't be put in chapters.
+ */
+export function isSpoilerFor(
+	item: Pick<EventItem, 'chapter' | 'spoiler'>,
+	progress: Pick<ReadingProgress, 'chapter' | 'percent' | 'finishedAt'> | undefined,
+	book: Pick<Book, 'chapterCount'> | undefined
+): boolean {
+	if (progress?.finishedAt) return false;
+	if (item.spoiler) return true;
+	if (!item.chapter) return false;
+	const read = chaptersRead(progress, book);
+	return read === null || read < item.chapter;
+}
+
+/**
+ * "Ch. 4", "Spoiler" or "Ch. 12 · Spoiler"
+ */
+export function spoilerTag(item: Pick<EventItem, 'chapter' | 'spoiler'>): string {
+	return [item.chapter ? `Ch. ${item.chapter}` : null, item.spoiler ? 'Spoiler' : null].filter(Boolean).join(' · ');
+}
+
+/**
+ * Rich text as stored for a guide item; empty markup (an editor with nothing typed) becomes undefined
+ */
+export function cleanGuideText(html: string | undefined): string | undefined {
+	if (!html) return undefined;
+	const clean = sanitizeRichContent(html).trim();
+	return clean.replace(/<[^>]*>|&nbsp;|\s/g, '') ? clean : undefined;
+}
+
+/**
+ * A guide item as written in the editor; the description is sanitized rich text
+ */
+export const GuideItemFormSchema = z.object({
+	type: z.enum(['agenda', 'question', 'note']),
+	title: z.string().trim().min(1, 'Please write the question or heading').max(500, 'Keep it under 500 characters'),
+	description: z.string().optional().transform(cleanGuideText),
+	chapter: z.number().int().min(1, 'Chapters start at 1').nullable().optional(),
+	spoiler: z.boolean().default(false)
+});
+
+export type GuideItemForm = z.input<typeof GuideItemFormSchema>;
+
+/**
+ * A new guide item for the end of the guide, from a validated form
+ */
+export function toNewGuideItem(form: z.output<typeof GuideItemFormSchema>, position: number): NewEventItem {
+	return {
+		type: form.type,
+		title: form.title,
+		status: 'pending',
+		position,
+		spoiler: form.spoiler,
+		...(form.description ? { description: form.description } : {}),
+		...(form.chapter ? { chapter: form.chapter } : {})
+	};
+}
+
+/**
+ * Changes that save an edited guide item; clearing the chapter or description sends them empty
+ */
+export function toGuideItemUpdate(form: z.output<typeof GuideItemFormSchema>): EventItemUpdate {
+	return {
+		title: form.title,
+		description: form.description ?? '',
+		chapter: form.chapter ?? null,
+		spoiler: form.spoiler
+	};
+}
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+	NewPostSchema,
+	escapePostBody,
+	findMentions,
+	highlightMentions,
+	mentionQuery,
+	plainTitle,
+	setReaction,
+	sortThreads,
+	suggestMentions,
+	threadPosts,
+	type DiscussionPost
+} from './discussions';
+
+const members = [
+	{ id: 'ana', name: 'Ana Lima' },
+	{ id: 'ana-b', name: 'Ana Brooks' },
+	{ id: 'ben', name: 'Ben Ode' },
+	{ id: 'o', name: "Siobhan O'Neil" }
+];
+
+function post(id: string, parentId: string | null, minute: number): DiscussionPost {
+	return {
+		id,
+		threadId: 'thread-1',
+		parentId,
+		authorId: 'ana',
+		body: id,
+		mentions: [],
+		reactions: {},
+		createdAt: new Date(Date.UTC(2025, 6, 1, 18, minute)).toISOString(),
+		deleted: false
+	};
+}
+
+describe('findMentions', () => {
+	it('should match full names, and first names only when they are unique', () => {
+		expect(findMentions('Thanks @ben, and @Ana Brooks too', members)).toEqual(['ben', 'ana-b']);
+		expect(findMentions('@Ana what do you think?', members)).toEqual([]);
+		expect(findMentions("cc @Siobhan O'Neil @Ben Ode @ben", members)).toEqual(['o', 'ben']);
+	});
+
+	it('should ignore email addresses and names that run on', () => {
+		expect(findMentions('mail ben@Ben.com or @Benjamin', members)).toEqual([]);
+	});
+});
+
+describe('highlightMentions', () => {
+	it('should mark up only the mentions that were resolved', () => {
+		const html = '<p>@Ben, see @Ana Lima and @Ana Brooks</p>';
+		expect(highlightMentions(html, ['ben', 'ana'], members))
+			.toBe('<p><span class="mention">@Ben</span>, see <span class="mention">@Ana Lima</span> and @Ana Brooks</p>');
+		expect(highlightMentions(html, [], members)).toBe(html);
+	});
+
+	it('should leave mentions inside tags alone', () => {
+		const html = '<p><a title="@Ben" href="/x">@Ben</a></p>';
+		expect(highlightMentions(html, ['ben'], members))
+			.toBe('<p><a title="@Ben" href="/x"><span class="mention">@Ben</span></a></p>');
+		expect(highlightMentions('<p>@Tom &amp; Jerry</p>', ['tj'], [{ id: 'tj', name: 'Tom & Jerry' }]))
+			.toBe('<p><span class="mention">@Tom &amp; Jerry</span></p>');
+	});
+});
+
+describe('stored markup', () => {
+	it('should strip tags from titles without touching other angle brackets', () => {
+		expect(plainTitle(' <b>Ending</b>  <img src="x" alt=">" onerror="alert(1)">explained ')).toBe('Ending explained');
+		expect(plainTitle('I <3 endings')).toBe('I <3 endings');
+	});
+
+	it('should keep bare formatting tags in bodies and escape everything else', () => {
+		expect(escapePostBody('<P>Yes<BR /> <em>really</em></P>')).toBe('<p>Yes<br/> <em>really</em></p>');
+		expect(escapePostBody('<b onclick="x()">hi</b> &lt;script&gt; & 2 > 1'))
+			.toBe('&lt;b onclick="x()"&gt;hi</b> &lt;script&gt; &amp; 2 &gt; 1');
+	});
+});
+
+describe('mentionQuery', () => {
+	it('should find the mention being typed and suggest members for it', () => {
+		expect(mentionQuery('Hello @An')).toBe('An');
+		expect(mentionQuery('Hello @Ana B')).toBe('Ana B');
+		expect(mentionQuery('me@example')).toBeNull();
+		expect(mentionQuery('Hello Ana')).toBeNull();
+		expect(suggestMentions('an', members).map(member => member.id)).toEqual(['ana', 'ana-b']);
+		expect(suggestMentions('ode', members).map(member => member.id)).toEqual(['ben']);
+		expect(suggestMentions('', members, 2)).toHaveLength(2);
+	});
+});
+
+describe('threadPosts', () => {
+	it('should put replies under the post they answer and cap the indentation', () => {
+		const posts = [
+			post('opening', null, 0),
+			post('reply-2', null, 5),
+			post('reply-1', 'opening', 1),
+			post('nested', 'reply-1', 2),
+			post('orphan', 'gone', 3),
+			post('d2', 'nested', 6),
+			post('d3', 'd2', 7),
+			post('d4', 'd3', 8)
+		];
+		expect(threadPosts(posts).map(({ post, depth }) => `${post.id}:${depth}`)).toEqual([
+			'opening:0', 'reply-1:1', 'nested:2', 'd2:3', 'd3:4', 'd4:4', 'orphan:0', 'reply-2:0'
+		]);
+	});
+});
+
+describe('setReaction', () => {
+	it('should add and take back a member\'s reaction once', () => {
+		const liked = setReaction(setReaction(post('p', null, 0), '👍', 'ana', true), '👍', 'ana', true);
+		expect(liked.reactions).toEqual({ '👍': ['ana'] });
+		expect(setReaction(liked, '👍', 'ana', false).reactions).toEqual({});
+	});
+});
+
+describe('sortThreads', () => {
+	it('should put pinned threads first, then the most recently active', () => {
+		const threads = [
+			{ id: 'old', pinned: false, lastPostAt: '2025-07-01T00:00:00.000Z' },
+			{ id: 'new', pinned: false, lastPostAt: '2025-07-03T00:00:00.000Z' },
+			{ id: 'rules', pinned: true, lastPostAt: '2025-01-01T00:00:00.000Z' }
+		];
+		expect(sortThreads(threads).map(thread => thread.id)).toEqual(['rules', 'new', 'old']);
+	});
+});
+
+describe('NewPostSchema', () => {
+	it('should refuse empty posts', () => {
+		expect(NewPostSchema.safeParse({ body: '   ' }).success).toBe(false);
+	});
+});
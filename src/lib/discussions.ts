@@ -0,0 +1,270 @@
+/**
+ * Discussion board
+ * Each club has threads of its own and threads about a particular event. Posts can reply to
+ * other posts, carry emoji reactions, and @mention members by name; mentioned members get an
+ * in-app notification. Moderators (and club admins) pin, lock and delete. Titles are plain
+ * text. Post bodies keep basic formatting: the client sanitizes them with sanitizeHTML, the
+ * server escapes anything beyond bare formatting tags before storing them, and pages sanitize
+ * them again before they are shown.
+ * Shapes are shared by the endpoints under /api and the client functions in api.ts.
+ */
+
+import { z } from 'zod';
+import type { ClubMember } from './api.generated';
+import { sanitizeHTML, sanitizeText } from './validation';
+
+/** Reactions members can leave on a post */
+export const REACTIONS = ['👍', '❤️', '😂', '😮', '🤔', '📚'] as const;
+
+/** Deepest reply nesting shown; deeper replies are shown at this level */
+export const MAX_REPLY_DEPTH = 4;
+
+export const MAX_POST_LENGTH = 10000;
+
+export const ReactionSchema = z.enum(REACTIONS);
+
+export const DiscussionPostSchema = z.object({
+	id: z.string(),
+	threadId: z.string(),
+	/** The post this one replies to; null for the opening post and top-level replies */
+	parentId: z.string().nullable(),
+	authorId: z.string(),
+	/** Sanitized HTML; empty once the post is deleted */
+	body: z.string(),
+	/** Members mentioned in the post, by user ID */
+	mentions: z.array(z.string()),
+	/** Who reacted with each emoji, by user ID */
+	reactions: z.record(z.array(z.string())),
+	createdAt: z.string().datetime(),
+	/** Deleted posts stay as placeholders so their replies keep their place */
+	deleted: z.boolean()
+});
+
+export const DiscussionThreadSchema = z.object({
+	id: z.string(),
+	clubId: z.string(),
+	/** The event the thread is about; null for club-wide threads */
+	eventId: z.string().nullable(),
+	/** Sanitized, without markup */
+	title: z.string(),
+	authorId: z.string(),
+	createdAt: z.string().datetime(),
+	lastPostAt: z.string().datetime(),
+	postCount: z.number(),
+	pinned: z.boolean(),
+	/** Locked threads only take posts from moderators */
+	locked: z.boolean()
+});
+
+export const DiscussionThreadDetailSchema = DiscussionThreadSchema.extend({
+	/** Oldest first; the first is the opening post */
+	posts: z.array(DiscussionPostSchema)
+});
+
+const postBody = z.string()
+	.trim()
+	.min(1, 'Write something first')
+	.max(MAX_POST_LENGTH, `Posts must be ${MAX_POST_LENGTH} characters or fewer`);
+
+export const NewThreadSchema = z.object({
+	title: z.string().trim().min(1, 'Please give the thread a title').max(200, 'Titles must be 200 characters or fewer'),
+	body: postBody,
+	eventId: z.string().min(1).optional()
+});
+
+export const NewPostSchema = z.object({
+	body: postBody,
+	parentId: z.string().min(1).optional()
+});
+
+export const SetReactionSchema = z.object({
+	emoji: ReactionSchema,
+	/** true adds the signed-in member's reaction, false takes it back */
+	reacted: z.boolean()
+});
+
+export const ModerateThreadSchema = z.object({
+	pinned: z.boolean().optional(),
+	locked: z.boolean().optional()
+}).refine(changes => changes.pinned !== undefined || changes.locked !== undefined, 'Nothing to change');
+
+export type Reaction = z.infer<typeof ReactionSchema>;
+export type DiscussionPost = z.infer<typeof DiscussionPostSchema>;
+export type DiscussionThread = z.infer<typeof DiscussionThreadSchema>;
+export type DiscussionThreadDetail = z.infer<typeof DiscussionThreadDetailSchema>;
+export type NewThread = z.infer<typeof NewThreadSchema>;
+export type NewPost = z.infer<typeof NewPostSchema>;
+export type SetReaction = z.infer<typeof SetReactionSchema>;
+export type ModerateThread = z.infer<typeof ModerateThreadSchema>;
+
+/**
+ * A post body as sent: basic formatting only, with line breaks kept
+ */
+export function cleanPostBody(body: string): string {
+	return sanitizeHTML(body.trim(), 'basic');
+}
+
+/**
+ * A thread title as sent: plain text
+ */
+export function cleanThreadTitle(title: string): string {
+	return sanitizeText(title.trim());
+}
+
+/** An HTML tag or comment, with quoted attribute values that may contain ">" */
+const TAG = /<[a-z!/?](?:[^>"']|"[^"]*"|'[^']*')*>/gi;
+
+/** The formatting sanitizeHTML's basic level keeps, without attributes */
+const FORMATTING_TAG = /^<\/?(?:b|i|em|strong|p|br)\s*\/?>$/i;
+
+/**
+ * A thread title as stored, with any tags the sender left in taken out
+ * Works without a DOM, so the server can apply it to whatever it is sent.
+ */
+export function plainTitle(title: string): string {
+	return title.replace(TAG, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * A post body as stored: bare formatting tags are kept and every other "<", ">" and "&"
+ * is escaped, so the body is safe to show even if a page forgets to sanitize it
+ * Works without a DOM; entities sanitizeHTML already wrote are left as they are.
+ */
+export function escapePostBody(body: string): string {
+	return body.split(/(<[^<>]*>)/).map(part => FORMATTING_TAG.test(part)
+		? part.toLowerCase().replace(/\s+/g, '')
+		: escapeText(part).replace(/&amp;(#\d+|#x[\da-f]+|\w+);/gi, '&$1;')
+	).join('');
+}
+
+type MentionableMember = Pick<ClubMember, 'id' | 'name'>;
+
+function firstName(member: MentionableMember): string {
+	return member.name.trim().split(/\s+/)[0] ?? '';
+}
+
+/**
+ * Names a member can be mentioned by: their full name, and their first name when no one
+ * else in the club shares it
+ */
+export function mentionNames(members: MentionableMember[]): Array<{ name: string; memberId: string }> {
+	const firstNames = new Map<string, number>();
+	for (const member of members) {
+		const first = firstName(member).toLowerCase();
+		firstNames.set(first, (firstNames.get(first) ?? 0) + 1);
+	}
+	return members
+		.flatMap(member => {
+			const first = firstName(member);
+			const names = [member.name.trim()];
+			if (first && first !== names[0] && firstNames.get(first.toLowerCase()) === 1) names.push(first);
+			return names.map(name => ({ name, memberId: member.id }));
+		})
+		// Longest first, so "@Ana Lima" is read as Ana Lima rather than a lone "Ana"
+		.sort((a, b) => b.name.length - a.name.length);
+}
+
+/**
+ * Members @mentioned in a post, in the order they first appear
+ * A mention is "@" followed by a member's name (see mentionNames), matched without regard to
+ * case and ending at a word boundary.
+ */
+export function findMentions(body: string, members: MentionableMember[]): string[] {
+	const names = mentionNames(members);
+	const found: string[] = [];
+	for (const match of body.matchAll(/(^|[^\p{L}\p{N}_])@/gu)) {
+		const rest = body.slice((match.index ?? 0) + match[0].length);
+		const hit = names.find(({ name }) => rest.slice(0, name.length).toLowerCase() === name.toLowerCase()
+			&& !/^[\p{L}\p{N}_]/u.test(rest.slice(name.length)));
+		if (hit && !found.includes(hit.memberId)) found.push(hit.memberId);
+	}
+	return found;
+}
+
+/**
+ * Text as it appears between tags in serialized HTML
+ */
+function escapeText(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A sanitized post body with its mentions of the given members marked up for display
+ * Only text between tags is touched, never a tag or its attributes.
+ */
+export function highlightMentions(html: string, mentionIds: string[], members: MentionableMember[]): string {
+	const names = mentionNames(members).filter(({ memberId }) => mentionIds.includes(memberId));
+	if (names.length === 0) return html;
+	const pattern = new RegExp(`(^|[^\\p{L}\\p{N}_])@(${names.map(({ name }) => escapeRegExp(escapeText(name))).join('|')})(?![\\p{L}\\p{N}_])`, 'giu');
+	return html.split(/(<(?:[^>"']|"[^"]*"|'[^']*')*>)/).map(part => part.startsWith('<')
+		? part
+		: part.replace(pattern, (_, before: string, name: string) => `${before}<span class="mention">@${name}</span>`)
+	).join('');
+}
+
+/**
+ * The @mention being typed at the end of the text so far, or null
+ * Used to suggest members while writing.
+ */
+export function mentionQuery(textBeforeCursor: string): string | null {
+	const match = /(?:^|[^\p{L}\p{N}_])@([\p{L}\p{N}_'-]*(?: [\p{L}\p{N}_'-]*)?)$/u.exec(textBeforeCursor);
+	return match ? match[1] : null;
+}
+
+/**
+ * Members whose name starts with what has been typed after "@"
+ */
+export function suggestMentions<T extends MentionableMember>(query: string, members: T[], limit = 5): T[] {
+	const typed = query.trim().toLowerCase();
+	return members
+		.filter(member => member.name.toLowerCase().startsWith(typed)
+			|| member.name.toLowerCase().split(/\s+/).some(part => part.startsWith(typed)))
+		.slice(0, limit);
+}
+
+/**
+ * Posts in reading order: each reply follows the post it answers, oldest replies first
+ */
+export function threadPosts(posts: DiscussionPost[]): Array<{ post: DiscussionPost; depth: number }> {
+	const ids = new Set(posts.map(post => post.id));
+	const children = new Map<string | null, DiscussionPost[]>();
+	for (const post of posts) {
+		// Replies to a post that is gone are shown at the top level
+		const parent = post.parentId && ids.has(post.parentId) ? post.parentId : null;
+		children.set(parent, [...(children.get(parent) ?? []), post]);
+	}
+
+	const ordered: Array<{ post: DiscussionPost; depth: number }> = [];
+	const visit = (parentId: string | null, depth: number) => {
+		const replies = [...(children.get(parentId) ?? [])].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+		for (const post of replies) {
+			ordered.push({ post, depth: Math.min(depth, MAX_REPLY_DEPTH) });
+			visit(post.id, depth + 1);
+		}
+	};
+	visit(null, 0);
+	return ordered;
+}
+
+/**
+ * A post with a member's reaction added or taken back
+ */
+export function setReaction(post: DiscussionPost, emoji: Reaction, userId: string, reacted: boolean): DiscussionPost {
+	const others = (post.reactions[emoji] ?? []).filter(id => id !== userId);
+	const users = reacted ? [...others, userId] : others;
+	const reactions = { ...post.reactions };
+	if (users.length) reactions[emoji] = users;
+	else delete reactions[emoji];
+	return { ...post, reactions };
+}
+
+/**
+ * Pinned threads first, then the most recently active
+ */
+export function sortThreads<T extends Pick<DiscussionThread, 'pinned' | 'lastPostAt'>>(threads: T[]): T[] {
+	return [...threads].sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.lastPostAt.localeCompare(a.lastPostAt));
+}
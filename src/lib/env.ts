@@ -25,6 +25,8 @@ export interface Environment {
 	VITE_ENABLE_ANALYTICS: boolean;
 	VITE_WS_BASE?: string;
 	VITE_ALLOWED_ORIGINS?: string;
+	VITE_OTEL_EXPORTER_OTLP_ENDPOINT?: string;
+	VITE_OTEL_SERVICE_NAME?: string;
 }
 
 /**
@@ -43,6 +45,8 @@ function getEnvironment(): Environment {
 		VITE_ENABLE_ANALYTICS: import.meta.env.VITE_ENABLE_ANALYTICS === 'true',
 		VITE_WS_BASE: import.meta.env.VITE_WS_BASE,
 		VITE_ALLOWED_ORIGINS: import.meta.env.VITE_ALLOWED_ORIGINS,
+		VITE_OTEL_EXPORTER_OTLP_ENDPOINT: import.meta.env.VITE_OTEL_EXPORTER_OTLP_ENDPOINT,
+		VITE_OTEL_SERVICE_NAME: import.meta.env.VITE_OTEL_SERVICE_NAME,
 	};
 }
 
@@ -125,6 +129,30 @@ export function getApiConfig() {
 	};
 }
 
+/**
+ * Get WebSocket configuration
+ * Realtime updates are disabled when VITE_WS_BASE is not set
+ */
+export function getWebSocketConfig() {
+	const env = getEnv();
+	return {
+		baseUrl: env.VITE_WS_BASE || null,
+		enabled: !!env.VITE_WS_BASE,
+	};
+}
+
+/**
+ * Get tracing configuration
+ * Spans are only exported when an OTLP/HTTP collector endpoint is set
+ */
+export function getTracingConfig() {
+	const env = getEnv();
+	return {
+		otlpEndpoint: env.VITE_OTEL_EXPORTER_OTLP_ENDPOINT || null,
+		serviceName: env.VITE_OTEL_SERVICE_NAME || 'bookwork-frontend',
+	};
+}
+
 /**
  * Get allowed origins for CORS
  */
@@ -11,7 +11,8 @@ import {
     ValidationError, 
     RateLimitError, 
     ServerError, 
-    TimeoutError 
+    TimeoutError,
+    AbortedError
 } from './api';
 
 /**
@@ -20,6 +21,11 @@ import {
  * @param customMessage - Optional custom message to show instead of the default
  */
 export function handleApiError(error: unknown, customMessage?: string) {
+    // Cancelled requests were abandoned on purpose (e.g. navigation) - nothing to report
+    if (error instanceof AbortedError) {
+        return;
+    }
+
     if (error instanceof AuthenticationError) {
         toasts.add({
             message: customMessage || 'Your session has expired. Please log in again.',
@@ -133,6 +139,10 @@ export function isTimeoutError(error: unknown): error is TimeoutError {
     return error instanceof TimeoutError;
 }
 
+export function isAbortedError(error: unknown): error is AbortedError {
+    return error instanceof AbortedError;
+}
+
 /**
  * Get user-friendly message from any error
  */
@@ -1,6 +1,7 @@
 // Error handling utilities to prevent information disclosure
 import { dev } from '$app/environment';
 import { v4 as uuidv4 } from 'uuid';
+import { getActiveTraceContext } from './tracing';
 
 export interface AppError {
 	id: string;
@@ -13,6 +14,8 @@ export interface AppError {
 	url?: string;
 	stack?: string;
 	originalError?: unknown;
+	/** W3C trace ID of the request that produced the error */
+	traceId?: string;
 }
 
 // Error logging (in production, send to external service)
@@ -39,16 +42,18 @@ export function createAppError(
 	message: string,
 	statusCode: number,
 	originalError?: unknown,
-	context?: { userAgent?: string; ip?: string; url?: string }
+	context?: { userAgent?: string; ip?: string; url?: string; traceId?: string }
 ): AppError {
 	const errorId = uuidv4();
+	const traceId = context?.traceId ?? getActiveTraceContext()?.traceId;
 	const error: AppError = {
 		id: errorId,
 		message: dev ? message : PRODUCTION_ERROR_MESSAGES[type],
 		type,
 		statusCode,
 		timestamp: new Date(),
-		...context
+		...context,
+		...(traceId ? { traceId } : {})
 	};
 	
 	// Include stack trace and original error only in development
@@ -73,6 +78,7 @@ function logError(error: AppError): void {
 			message: error.message,
 			statusCode: error.statusCode,
 			timestamp: error.timestamp,
+			traceId: error.traceId,
 			stack: error.stack,
 			originalError: error.originalError
 		});
@@ -226,6 +232,7 @@ export function createErrorResponse(error: AppError): Response {
 			message: error.message,
 			type: error.type,
 			timestamp: error.timestamp.toISOString(),
+			...(error.traceId ? { traceId: error.traceId } : {}),
 			...(dev && error.stack ? { stack: error.stack } : {})
 		}
 	};
@@ -234,7 +241,8 @@ export function createErrorResponse(error: AppError): Response {
 		status: error.statusCode,
 		headers: {
 			'Content-Type': 'application/json',
-			'X-Error-ID': error.id
+			'X-Error-ID': error.id,
+			...(error.traceId ? { 'X-Trace-ID': error.traceId } : {})
 		}
 	});
 }
@@ -313,13 +321,15 @@ export function clearErrorLog(): void {
 /**
  * Sanitize error for client response
  * Removes sensitive information that shouldn't be exposed to clients
+ * The trace ID is kept so support can find the matching backend spans
  */
 export function sanitizeErrorForClient(error: AppError): Partial<AppError> {
 	return {
 		id: error.id,
 		message: error.message,
 		type: error.type,
-		timestamp: error.timestamp
+		timestamp: error.timestamp,
+		...(error.traceId ? { traceId: error.traceId } : {})
 	};
 }
 
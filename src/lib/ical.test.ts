@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+	toICalendar,
+	parseICalendar,
+	previewCalendarImport,
+	importableEvents,
+	eventUid,
+	type CalendarEvent
+} from './ical';
+import { expandEvent, toDateKey } from './recurrence';
+
+/** Local time, so results don't depend on the machine's time zone */
+function local(year: number, month: number, day: number, hours = 19, minutes = 0): Date {
+	return new Date(year, month - 1, day, hours, minutes);
+}
+
+function series(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+	return {
+		id: 'event-1',
+		title: 'Book Circle',
+		location: 'Library, Room 2',
+		date: local(2025, 7, 8).toISOString(),
+		rrule: 'FREQ=MONTHLY;BYDAY=2TU',
+		...overrides
+	};
+}
+
+function unfold(text: string): string[] {
+	return text.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('toICalendar', () => {
+	it('should write escaped, folded VEVENTs with CRLF line endings', () => {
+		const ics = toICalendar([
+			series({ rrule: undefined, description: 'Chapters 1-3; bring notes,\nsnacks. ' + 'Long discussion ✓ '.repeat(8) })
+		], { name: 'Readers', now: new Date(Date.UTC(2025, 0, 1)) });
+
+		expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+		expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+		expect(ics.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+
+		const lines = unfold(ics);
+		expect(lines).toContain('UID:event-1@bookwork');
+		expect(lines).toContain('DTSTAMP:20250101T000000Z');
+		expect(lines).toContain(`DTSTART:${local(2025, 7, 8).toISOString().replace(/[-:]/g, '').replace('.000', '')}`);
+		expect(lines).toContain('LOCATION:Library\\, Room 2');
+		expect(lines.find(line => line.startsWith('DESCRIPTION:'))).toMatch(/^DESCRIPTION:Chapters 1-3\\; bring notes\\,\\nsnacks\. Long/);
+	});
+
+	it('should write cancelled occurrences as EXDATE and changed ones as overrides', () => {
+		const lines = unfold(toICalendar([series({
+			uid: 'circle@example.com',
+			rrule: 'FREQ=MONTHLY;BYDAY=2TU;UNTIL=20251231T235959Z',
+			exceptions: [
+				{ originalDate: '2025-08-12', cancelled: true },
+				{ originalDate: '2025-09-09', date: local(2025, 9, 10, 18).toISOString(), title: 'Moved Circle' }
+			]
+		})]));
+
+		expect(lines).toContain('DTSTART:20250708T190000');
+		expect(lines.find(line => line.startsWith('RRULE:'))).toMatch(/^RRULE:FREQ=MONTHLY;BYDAY=2TU;UNTIL=\d{8}T\d{6}$/);
+		expect(lines).toContain('EXDATE:20250812T190000');
+		expect(lines).toContain('RECURRENCE-ID:20250909T190000');
+		expect(lines).toContain('DTSTART:20250910T180000');
+		expect(lines).toContain('SUMMARY:Moved Circle');
+		expect(lines.filter(line => line === 'UID:circle@example.com')).toHaveLength(2);
+	});
+
+	it('should write zoned events with TZID and a matching VTIMEZONE', () => {
+		const event = series({
+			date: '2025-10-28T23:00:00.000Z',
+			timeZone: 'America/New_York',
+			rrule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=2',
+			exceptions: [{ originalDate: '2025-11-04', cancelled: true }]
+		});
+		const ics = toICalendar([event]);
+		const lines = unfold(ics);
+
+		expect(lines).toContain('TZID:America/New_York');
+		expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+		expect(lines).toContain('DTSTART;TZID=America/New_York:20251028T190000');
+		expect(lines).toContain('EXDATE;TZID=America/New_York:20251104T190000');
+
+		const [row] = previewCalendarImport(parseICalendar(ics), []);
+		expect(row.event).toMatchObject({ date: event.date, timeZone: 'America/New_York', exceptions: event.exceptions });
+	});
+});
+
+describe('parseICalendar', () => {
+	it('should read the formats calendar apps export', () => {
+		const text = [
+			'BEGIN:VCALENDAR',
+			'X-WR-CALNAME:Other Club',
+			'BEGIN:VEVENT',
+			'UID:abc@example.com',
+			'DTSTART;TZID="America/New_York":20250115T190000',
+			'SUMMARY:Winter Meeting\\, Part 1',
+			'DESCRIPTION:Line one\\nline two that is folded acro',
+			' ss two lines',
+			'LOCATION;ALTREP="http://example.com/map:1":Hall',
+			'BEGIN:VALARM',
+			'DESCRIPTION:Reminder',
+			'END:VALARM',
+			'END:VEVENT',
+			'BEGIN:VEVENT',
+			'UID:day@example.com',
+			'DTSTART;VALUE=DATE:20250301',
+			'SUMMARY:Book Fair',
+			'END:VEVENT',
+			'END:VCALENDAR'
+		].join('\r\n');
+
+		const calendar = parseICalendar(text);
+
+		expect(calendar.name).toBe('Other Club');
+		expect(calendar.events).toHaveLength(2);
+		expect(calendar.events[0]).toMatchObject({
+			uid: 'abc@example.com',
+			summary: 'Winter Meeting, Part 1',
+			description: 'Line one\nline two that is folded across two lines',
+			location: 'Hall'
+		});
+		// 19:00 in New York in winter is midnight UTC
+		expect(calendar.events[0].start?.toISOString()).toBe('2025-01-16T00:00:00.000Z');
+		expect(calendar.events[1].start).toEqual(local(2025, 3, 1, 0));
+	});
+
+	it('should round-trip a series with its exceptions', () => {
+		const event = series({
+			exceptions: [
+				{ originalDate: '2025-08-12', cancelled: true },
+				{ originalDate: '2025-09-09', date: local(2025, 9, 10).toISOString(), location: 'Park' }
+			]
+		});
+		const [row] = previewCalendarImport(parseICalendar(toICalendar([event])), []);
+
+		expect(row.errors).toEqual([]);
+		const imported = { ...row.event!, id: 'imported' };
+		const range = [local(2025, 7, 1), local(2025, 11, 1)] as const;
+		expect(expandEvent(imported, ...range).map(occurrence => [toDateKey(occurrence.start), occurrence.location]))
+			.toEqual(expandEvent(event, ...range).map(occurrence => [toDateKey(occurrence.start), occurrence.location]));
+	});
+});
+
+describe('previewCalendarImport', () => {
+	it('should validate events and skip UIDs already on the schedule or in the file', () => {
+		const text = [
+			'BEGIN:VCALENDAR',
+			'BEGIN:VEVENT', 'UID:event-1@bookwork', 'DTSTART:20250101T180000Z', 'SUMMARY:Exported Earlier', 'END:VEVENT',
+			'BEGIN:VEVENT', 'UID:new@example.com', 'DTSTART:20250201T180000Z', 'SUMMARY:New Event', 'END:VEVENT',
+			'BEGIN:VEVENT', 'UID:new@example.com', 'DTSTART:20250202T180000Z', 'SUMMARY:New Event Copy', 'END:VEVENT',
+			'BEGIN:VEVENT', 'UID:bad@example.com', 'DTSTART:soon', 'RRULE:FREQ=MONTHLY;BYMONTHDAY=1', 'END:VEVENT',
+			'BEGIN:VEVENT', 'UID:other@example.com', 'RECURRENCE-ID:20250301T180000Z', 'DTSTART:20250302T180000Z', 'SUMMARY:Moved', 'END:VEVENT',
+			'END:VCALENDAR'
+		].join('\r\n');
+		const rows = previewCalendarImport(parseICalendar(text), [series()]);
+
+		expect(eventUid(series())).toBe('event-1@bookwork');
+		expect(rows.map(row => row.duplicate)).toEqual(['existing', null, 'file', null, null]);
+		expect(rows[1].event).toEqual({ title: 'New Event', date: '2025-02-01T18:00:00.000Z', type: 'meeting', uid: 'new@example.com' });
+		expect(rows[3].errors.map(error => error.split(':')[0])).toEqual(['Title', 'Start', 'Repeats']);
+		expect(rows[4].errors[0]).toMatch(/not in this file/);
+
+		expect(importableEvents(rows).map(event => event.uid)).toEqual(['new@example.com']);
+	});
+});
@@ -0,0 +1,537 @@
+/**
+ * iCalendar (.ics) export and import
+ * Writes club events as RFC 5545 VEVENTs, for single-event downloads and the subscribable
+ * feed, and reads .ics files from other calendars into events the schedule can create.
+ *
+ * Events with a time zone are written with TZID and a matching VTIMEZONE, so calendars
+ * repeat them on the same wall-clock time as the schedule does. Older events without one
+ * are written in floating local time when they repeat and in UTC otherwise.
+ */
+
+import { z } from 'zod';
+import {
+	parseRRule,
+	formatRRule,
+	eventStart,
+	WEEKDAYS,
+	originalStart,
+	toDateKey,
+	type RecurringEvent
+} from './recurrence';
+import { wallClock, fromWallClock, zoneOffsetMinutes, isValidTimeZone } from './timezones';
+import type { EventException } from './stores';
+import type { NewEvent } from './api';
+
+/**
+ * A club's feed address, returned by /api/clubs/[clubId]/calendar-feed
+ */
+export const CalendarFeedSchema = z.object({
+	url: z.string().url(),
+	/** The same address with the webcal: scheme, which calendar apps open as a subscription */
+	webcalUrl: z.string()
+});
+
+export type CalendarFeed = z.infer<typeof CalendarFeedSchema>;
+
+/**
+ * The fields of an event written to a calendar
+ */
+export type CalendarEvent = RecurringEvent & {
+	uid?: string;
+	status?: string;
+};
+
+/**
+ * One VEVENT read from a file; overrides of a single occurrence carry a recurrenceId
+ */
+export interface ICalendarEvent {
+	uid: string;
+	summary: string;
+	description: string;
+	location: string;
+	/** Null when DTSTART is missing or unreadable */
+	start: Date | null;
+	/** DTSTART's TZID, when it names an IANA zone */
+	timeZone?: string;
+	rrule?: string;
+	exdates: Date[];
+	recurrenceId?: Date;
+	status?: string;
+}
+
+export interface ParsedCalendar {
+	/** X-WR-CALNAME, when the file has one */
+	name: string;
+	events: ICalendarEvent[];
+}
+
+/**
+ * One event in an import preview
+ */
+export interface CalendarImportRow {
+	uid: string;
+	title: string;
+	start: Date | null;
+	rrule?: string;
+	/** Set when the event is valid */
+	event?: NewEvent;
+	errors: string[];
+	/** UID already on the schedule, or repeated earlier in the file */
+	duplicate: 'existing' | 'file' | null;
+}
+
+const PRODID = '-//BookWork//Club Schedule//EN';
+/** The schedule has no end times, so calendars show each meeting as two hours long */
+const EVENT_DURATION = 'PT2H';
+const MAX_LINE_OCTETS = 75;
+const MAX_UID_LENGTH = 255;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * UID written for an event: the one it was imported with, or one derived from its id
+ */
+export function eventUid(event: Pick<CalendarEvent, 'id' | 'uid'>): string {
+	return event.uid ?? `${event.id}@bookwork`;
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, '0');
+}
+
+function formatUtc(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Wall-clock time without a zone marker: in a zone for TZID values, else local (floating)
+ */
+function formatWallClock(date: Date, timeZone?: string): string {
+	const wall = wallClock(date, timeZone);
+	return `${wall.year}${pad(wall.month + 1)}${pad(wall.day)}T${pad(wall.hours)}${pad(wall.minutes)}${pad(wall.seconds)}`;
+}
+
+function formatOffset(minutes: number): string {
+	const sign = minutes < 0 ? '-' : '+';
+	const absolute = Math.abs(minutes);
+	return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+}
+
+/**
+ * Offset changes in a zone during a year, found by sampling daily and narrowing to the minute
+ */
+function zoneTransitions(timeZone: string, year: number): Array<{ at: Date; from: number; to: number }> {
+	const transitions: Array<{ at: Date; from: number; to: number }> = [];
+	let previous = zoneOffsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone);
+
+	for (let day = 1; ; day++) {
+		const sample = Date.UTC(year, 0, 1 + day);
+		const offset = zoneOffsetMinutes(new Date(sample), timeZone);
+		if (offset !== previous) {
+			let low = sample - DAY_MS;
+			let high = sample;
+			while (high - low > MINUTE_MS) {
+				const middle = low + Math.floor((high - low) / (2 * MINUTE_MS)) * MINUTE_MS;
+				if (zoneOffsetMinutes(new Date(middle), timeZone) === previous) low = middle;
+				else high = middle;
+			}
+			transitions.push({ at: new Date(high), from: previous, to: offset });
+			previous = offset;
+		}
+		if (new Date(sample).getUTCFullYear() > year) return transitions;
+	}
+}
+
+/**
+ * VTIMEZONE for a zone, with yearly rules taken from its changes in the given year
+ * Zones whose rules don't fit "nth weekday of the month" come out approximate, which
+ * calendar apps that know the IANA name ignore in favour of their own data
+ */
+function timeZoneComponent(timeZone: string, year: number): string[] {
+	const transitions = zoneTransitions(timeZone, year);
+	if (transitions.length === 0) {
+		const offset = formatOffset(zoneOffsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone));
+		return [
+			'BEGIN:VTIMEZONE',
+			`TZID:${timeZone}`,
+			'BEGIN:STANDARD',
+			'DTSTART:19700101T000000',
+			`TZOFFSETFROM:${offset}`,
+			`TZOFFSETTO:${offset}`,
+			'END:STANDARD',
+			'END:VTIMEZONE'
+		];
+	}
+
+	const observances = transitions.flatMap(({ at, from, to }) => {
+		// DTSTART is the wall-clock time the change happens at, before it takes effect
+		const before = new Date(at.getTime() + from * MINUTE_MS);
+		const day = before.getUTCDate();
+		const lastWeek = day + 7 > new Date(Date.UTC(before.getUTCFullYear(), before.getUTCMonth() + 1, 0)).getUTCDate();
+		const kind = to > from ? 'DAYLIGHT' : 'STANDARD';
+		return [
+			`BEGIN:${kind}`,
+			`DTSTART:${formatWallClock(before, 'UTC')}`,
+			`RRULE:FREQ=YEARLY;BYMONTH=${before.getUTCMonth() + 1};BYDAY=${lastWeek ? -1 : Math.ceil(day / 7)}${WEEKDAYS[before.getUTCDay()]}`,
+			`TZOFFSETFROM:${formatOffset(from)}`,
+			`TZOFFSETTO:${formatOffset(to)}`,
+			`END:${kind}`
+		];
+	});
+	return ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observances, 'END:VTIMEZONE'];
+}
+
+function escapeText(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(value: string): string {
+	return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Split a content line into 75-octet lines, never inside a multi-byte character (RFC 5545 §3.1)
+ */
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	const lines: string[] = [];
+	let current = '';
+	let octets = 0;
+
+	for (const char of line) {
+		const size = encoder.encode(char).length;
+		if (octets + size > MAX_LINE_OCTETS) {
+			lines.push(current);
+			// Continuation lines start with a space, which counts towards their length
+			current = ' ';
+			octets = 1;
+		}
+		current += char;
+		octets += size;
+	}
+	lines.push(current);
+	return lines.join('\r\n');
+}
+
+/**
+ * RRULE as written; UNTIL has to be floating as well when DTSTART is, and UTC otherwise
+ */
+function calendarRRule(rrule: string, floating: boolean): string | null {
+	try {
+		const rule = parseRRule(rrule);
+		if (!floating) return formatRRule(rule);
+		const value = formatRRule({ ...rule, until: undefined });
+		return rule.until ? `${value};UNTIL=${formatWallClock(rule.until)}` : value;
+	} catch {
+		// Written as a one-off event, which is also how the schedule shows it
+		return null;
+	}
+}
+
+function textLines(fields: { summary: string; description?: string; location?: string }): string[] {
+	return [
+		`SUMMARY:${escapeText(fields.summary)}`,
+		...(fields.description ? [`DESCRIPTION:${escapeText(fields.description)}`] : []),
+		...(fields.location ? [`LOCATION:${escapeText(fields.location)}`] : [])
+	];
+}
+
+function changedOccurrence(exception: EventException): boolean {
+	return !exception.cancelled && (!!exception.date || exception.title !== undefined || exception.description !== undefined || exception.location !== undefined);
+}
+
+function eventComponents(event: CalendarEvent, stamp: string): string[][] {
+	const start = eventStart(event);
+	const uid = escapeText(eventUid(event));
+	const timeZone = event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : undefined;
+	const rrule = event.rrule ? calendarRRule(event.rrule, !timeZone) : null;
+	const exceptions = rrule ? event.exceptions ?? [] : [];
+	const dateProperty = (name: string, dates: Date[]) => {
+		if (timeZone) return `${name};TZID=${timeZone}:${dates.map(date => formatWallClock(date, timeZone)).join(',')}`;
+		return `${name}:${dates.map(date => rrule ? formatWallClock(date) : formatUtc(date)).join(',')}`;
+	};
+
+	const cancelled = exceptions.filter(exception => exception.cancelled);
+	const master = [
+		'BEGIN:VEVENT',
+		`UID:${uid}`,
+		`DTSTAMP:${stamp}`,
+		dateProperty('DTSTART', [start]),
+		`DURATION:${EVENT_DURATION}`,
+		...textLines({ summary: event.title, description: event.description, location: event.location }),
+		...(rrule ? [`RRULE:${rrule}`] : []),
+		...(cancelled.length > 0 ? [dateProperty('EXDATE', cancelled.map(exception => originalStart(event, exception.originalDate)))] : []),
+		...(event.status === 'cancelled' ? ['STATUS:CANCELLED'] : []),
+		'END:VEVENT'
+	];
+
+	// Moved or retitled occurrences are separate VEVENTs pointing back at the series
+	const overrides = exceptions.filter(changedOccurrence).map(exception => {
+		const original = originalStart(event, exception.originalDate);
+		return [
+			'BEGIN:VEVENT',
+			`UID:${uid}`,
+			`DTSTAMP:${stamp}`,
+			dateProperty('RECURRENCE-ID', [original]),
+			dateProperty('DTSTART', [exception.date ? new Date(exception.date) : original]),
+			`DURATION:${EVENT_DURATION}`,
+			...textLines({
+				summary: exception.title ?? event.title,
+				description: exception.description ?? event.description,
+				location: exception.location ?? event.location
+			}),
+			'END:VEVENT'
+		];
+	});
+
+	return [master, ...overrides];
+}
+
+/**
+ * Write events as an iCalendar file
+ * @param options.name - Calendar name shown by subscribing apps
+ * @param options.now - DTSTAMP for every event (overridable for tests)
+ */
+export function toICalendar(events: CalendarEvent[], options: { name?: string; now?: Date } = {}): string {
+	const stamp = formatUtc(options.now ?? new Date());
+
+	// One VTIMEZONE per zone, with rules from the year of its earliest event
+	const zoneYears = new Map<string, number>();
+	for (const event of events) {
+		if (!event.timeZone || !isValidTimeZone(event.timeZone)) continue;
+		const year = wallClock(eventStart(event), event.timeZone).year;
+		zoneYears.set(event.timeZone, Math.min(year, zoneYears.get(event.timeZone) ?? year));
+	}
+
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		`PRODID:${PRODID}`,
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		...(options.name ? [`X-WR-CALNAME:${escapeText(options.name)}`] : []),
+		...[...zoneYears].flatMap(([timeZone, year]) => timeZoneComponent(timeZone, year)),
+		...events.flatMap(event => eventComponents(event, stamp).flat()),
+		'END:VCALENDAR'
+	];
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+interface ContentLine {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+}
+
+/**
+ * Split "NAME;PARAM=value;PARAM="quoted:value":VALUE" at separators outside quotes
+ */
+function parseContentLine(line: string): ContentLine | null {
+	const segments: string[] = [];
+	let segment = '';
+	let inQuotes = false;
+	let index = 0;
+
+	for (; index < line.length; index++) {
+		const char = line[index];
+		if (char === '"') {
+			inQuotes = !inQuotes;
+		} else if (!inQuotes && (char === ';' || char === ':')) {
+			segments.push(segment);
+			segment = '';
+			if (char === ':') break;
+			continue;
+		}
+		segment += char;
+	}
+	if (index >= line.length) return null;
+
+	const [name, ...rawParams] = segments;
+	const params: Record<string, string> = {};
+	for (const raw of rawParams) {
+		const separator = raw.indexOf('=');
+		if (separator === -1) continue;
+		params[raw.slice(0, separator).toUpperCase()] = raw.slice(separator + 1).replace(/"/g, '');
+	}
+	return { name: name.toUpperCase(), params, value: line.slice(index + 1) };
+}
+
+/**
+ * The IANA zone named by a TZID parameter, if it names one
+ * Outlook writes Windows names such as "W. Europe Standard Time", which are read as local time
+ */
+function paramTimeZone(params: Record<string, string>): string | undefined {
+	const timeZone = params.TZID?.replace(/^\//, '');
+	return timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+}
+
+/**
+ * Read a DATE or DATE-TIME value: UTC ("Z"), in a TZID zone, floating, or a whole day
+ */
+function parseDateValue(value: string, params: Record<string, string>): Date | null {
+	const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+	if (!match) return null;
+
+	const [, y, m, d, hh = '0', mm = '0', ss = '0', utc] = match;
+	const fields = { year: Number(y), month: Number(m) - 1, day: Number(d), hours: Number(hh), minutes: Number(mm), seconds: Number(ss) };
+	if (utc) return new Date(Date.UTC(fields.year, fields.month, fields.day, fields.hours, fields.minutes, fields.seconds));
+	return fromWallClock(fields, params.VALUE === 'DATE' ? undefined : paramTimeZone(params));
+}
+
+/**
+ * Read the events from an iCalendar file
+ * Properties of nested components such as VALARM are ignored
+ */
+export function parseICalendar(text: string): ParsedCalendar {
+	// Continuation lines start with a space or tab (RFC 5545 §3.1)
+	const lines = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+	const calendar: ParsedCalendar = { name: '', events: [] };
+	const components: string[] = [];
+	let event: ICalendarEvent | null = null;
+
+	for (const line of lines) {
+		const content = parseContentLine(line);
+		if (!content) continue;
+		const { name, params, value } = content;
+
+		if (name === 'BEGIN') {
+			components.push(value.toUpperCase());
+			if (value.toUpperCase() === 'VEVENT') {
+				event = { uid: '', summary: '', description: '', location: '', start: null, exdates: [] };
+			}
+			continue;
+		}
+		if (name === 'END') {
+			if (components.pop() === 'VEVENT' && event) {
+				calendar.events.push(event);
+				event = null;
+			}
+			continue;
+		}
+
+		const current = components[components.length - 1];
+		if (current === 'VCALENDAR' && name === 'X-WR-CALNAME') {
+			calendar.name = unescapeText(value);
+		}
+		if (current !== 'VEVENT' || !event) continue;
+
+		switch (name) {
+			case 'UID': event.uid = value.trim(); break;
+			case 'SUMMARY': event.summary = unescapeText(value).trim(); break;
+			case 'DESCRIPTION': event.description = unescapeText(value).trim(); break;
+			case 'LOCATION': event.location = unescapeText(value).trim(); break;
+			case 'DTSTART':
+				event.start = parseDateValue(value, params);
+				event.timeZone = params.VALUE === 'DATE' ? undefined : paramTimeZone(params);
+				break;
+			case 'RRULE': event.rrule = value.trim(); break;
+			case 'RECURRENCE-ID': event.recurrenceId = parseDateValue(value, params) ?? undefined; break;
+			case 'STATUS': event.status = value.trim().toUpperCase(); break;
+			case 'EXDATE':
+				for (const date of value.split(',')) {
+					const parsed = parseDateValue(date, params);
+					if (parsed) event.exdates.push(parsed);
+				}
+				break;
+		}
+	}
+
+	return calendar;
+}
+
+/**
+ * Exception for one occurrence override, or null when it changes nothing the schedule keeps
+ */
+function overrideException(master: ICalendarEvent, override: ICalendarEvent & { recurrenceId: Date }): EventException | null {
+	const exception: EventException = { originalDate: toDateKey(override.recurrenceId, master.timeZone) };
+	if (override.status === 'CANCELLED') {
+		exception.cancelled = true;
+		return exception;
+	}
+	if (override.start && override.start.getTime() !== override.recurrenceId.getTime()) {
+		exception.date = override.start.toISOString();
+	}
+	if (override.summary && override.summary !== master.summary) exception.title = override.summary;
+	if (override.description !== master.description) exception.description = override.description;
+	if (override.location !== master.location) exception.location = override.location;
+	return Object.keys(exception).length > 1 ? exception : null;
+}
+
+/**
+ * Turn parsed VEVENTs into events ready to create, validating each and flagging UIDs
+ * that are already on the schedule or repeated in the file
+ * @param existing - Events already on the schedule, matched by eventUid
+ */
+export function previewCalendarImport(parsed: ParsedCalendar, existing: Array<Pick<CalendarEvent, 'id' | 'uid'>>): CalendarImportRow[] {
+	const existingUids = new Set(existing.map(eventUid));
+	const masters = parsed.events.filter(event => !event.recurrenceId);
+	const overrides = parsed.events.filter((event): event is ICalendarEvent & { recurrenceId: Date } => !!event.recurrenceId);
+	const masterUids = new Set(masters.map(event => event.uid));
+	const seen = new Set<string>();
+
+	const rows = masters.map((master): CalendarImportRow => {
+		const errors: string[] = [];
+		if (!master.summary) errors.push('Title: missing');
+		if (!master.start) errors.push('Start: missing or not a date');
+		if (master.uid.length > MAX_UID_LENGTH) errors.push(`UID: longer than ${MAX_UID_LENGTH} characters`);
+		if (master.status === 'CANCELLED') errors.push('Cancelled in the source calendar');
+
+		let rrule: string | undefined;
+		if (master.rrule) {
+			try {
+				rrule = formatRRule(parseRRule(master.rrule));
+			} catch (error) {
+				errors.push(`Repeats: ${error instanceof Error ? error.message : 'rule not supported'}`);
+			}
+		}
+
+		const duplicate = !master.uid ? null : existingUids.has(master.uid) ? 'existing' : seen.has(master.uid) ? 'file' : null;
+		if (master.uid) seen.add(master.uid);
+
+		const row: CalendarImportRow = { uid: master.uid, title: master.summary, start: master.start, rrule, errors, duplicate };
+		if (errors.length === 0 && master.start) {
+			const exceptions = rrule
+				? [
+					...master.exdates.map(date => ({ originalDate: toDateKey(date, master.timeZone), cancelled: true })),
+					...overrides
+						.filter(override => override.uid === master.uid)
+						.map(override => overrideException(master, override))
+						.filter((exception): exception is EventException => exception !== null)
+				]
+				: [];
+
+			row.event = {
+				title: master.summary,
+				date: master.start.toISOString(),
+				type: 'meeting',
+				...(master.description ? { description: master.description } : {}),
+				...(master.location ? { location: master.location } : {}),
+				...(master.timeZone ? { timeZone: master.timeZone } : {}),
+				...(master.uid ? { uid: master.uid } : {}),
+				...(rrule ? { rrule } : {}),
+				...(exceptions.length > 0 ? { exceptions } : {})
+			};
+		}
+		return row;
+	});
+
+	// Changes to single occurrences of a series that isn't in the file can't be imported alone
+	const orphans = overrides
+		.filter(override => !masterUids.has(override.uid))
+		.map((override): CalendarImportRow => ({
+			uid: override.uid,
+			title: override.summary,
+			start: override.start,
+			errors: ['Changes one occurrence of a repeating event that is not in this file'],
+			duplicate: null
+		}));
+
+	return [...rows, ...orphans];
+}
+
+/**
+ * Rows that can be imported: valid and not already on the schedule or earlier in the file
+ */
+export function importableEvents(rows: CalendarImportRow[]): NewEvent[] {
+	return rows.filter(row => row.event && !row.duplicate).map(row => row.event!);
+}
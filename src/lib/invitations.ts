@@ -0,0 +1,89 @@
+/**
+ * Club invitations and join requests
+ * Shapes shared by the invitation endpoints under /api and the client functions in api.ts.
+ * Invite codes are signed and verified on the server only (see $lib/server/inviteCodes).
+ */
+
+import { z } from 'zod';
+import { RoleSchema, ClubMemberSchema } from './api.generated';
+
+export const InvitationStatusSchema = z.enum(['pending', 'accepted', 'revoked']);
+export const JoinRequestStatusSchema = z.enum(['pending', 'approved', 'rejected']);
+
+/**
+ * An outstanding invite; email invitations are single-use, link invitations can be
+ * shared until they expire or are revoked
+ */
+export const ClubInvitationSchema = z.object({
+	id: z.string(),
+	clubId: z.string(),
+	email: z.string().email().nullable(),
+	role: RoleSchema,
+	status: InvitationStatusSchema,
+	createdBy: z.string(),
+	createdAt: z.string().datetime(),
+	expiresAt: z.string().datetime(),
+	acceptedCount: z.number().int().min(0),
+	link: z.string().url()
+});
+
+/**
+ * What the acceptance page can show before the visitor signs in
+ */
+export const InvitationPreviewSchema = z.object({
+	clubId: z.string(),
+	/** Masked, e.g. j***@example.com */
+	email: z.string().nullable(),
+	role: RoleSchema,
+	expiresAt: z.string().datetime(),
+	state: z.enum(['valid', 'expired', 'used', 'revoked', 'invalid'])
+});
+
+export const AcceptedInvitationSchema = z.object({
+	clubId: z.string(),
+	member: ClubMemberSchema
+});
+
+export const JoinRequestSchema = z.object({
+	id: z.string(),
+	clubId: z.string(),
+	userId: z.string(),
+	name: z.string(),
+	email: z.string().email(),
+	message: z.string().nullable(),
+	status: JoinRequestStatusSchema,
+	createdAt: z.string().datetime(),
+	decidedAt: z.string().datetime().nullable(),
+	decidedBy: z.string().nullable()
+});
+
+/**
+ * Request bodies
+ */
+export const NewInvitationSchema = z.object({
+	/** Omit to create a shareable link */
+	email: z.string().trim().toLowerCase().email('Please enter a valid email address').optional(),
+	role: RoleSchema.optional(),
+	expiresInDays: z.number().int().min(1).max(30).optional()
+});
+
+export const NewJoinRequestSchema = z.object({
+	message: z.string().trim().max(500, 'Message must be 500 characters or fewer').optional()
+});
+
+export const JoinRequestDecisionSchema = z.object({
+	decision: z.enum(['approve', 'reject'])
+});
+
+export type InvitationStatus = z.infer<typeof InvitationStatusSchema>;
+export type ClubInvitation = z.infer<typeof ClubInvitationSchema>;
+export type InvitationPreview = z.infer<typeof InvitationPreviewSchema>;
+export type AcceptedInvitation = z.infer<typeof AcceptedInvitationSchema>;
+export type JoinRequestStatus = z.infer<typeof JoinRequestStatusSchema>;
+export type JoinRequest = z.infer<typeof JoinRequestSchema>;
+export type NewInvitation = z.input<typeof NewInvitationSchema>;
+export type NewJoinRequest = z.input<typeof NewJoinRequestSchema>;
+export type JoinRequestDecision = z.infer<typeof JoinRequestDecisionSchema>['decision'];
+
+/** Days an invitation stays valid when no expiry is given */
+export const DEFAULT_INVITATION_TTL_DAYS = 7;
@@ -163,10 +163,10 @@ export const lazyRoutes = {
 
   // Club routes
   clubs: () => import('../routes/clubs/+page.svelte'),
-  clubsSchedule: () => import('../routes/clubs/schedule/+page.svelte'),
-  clubsRoster: () => import('../routes/clubs/roster/+page.svelte'),
-  clubsTracking: () => import('../routes/clubs/tracking/+page.svelte'),
-  clubsAvailability: () => import('../routes/clubs/availability/+page.svelte'),
+  clubsSchedule: () => import('../routes/clubs/[clubId]/schedule/+page.svelte'),
+  clubsRoster: () => import('../routes/clubs/[clubId]/roster/+page.svelte'),
+  clubsTracking: () => import('../routes/clubs/[clubId]/tracking/+page.svelte'),
+  clubsAvailability: () => import('../routes/clubs/[clubId]/availability/+page.svelte'),
 };
 
 /**
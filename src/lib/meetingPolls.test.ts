@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { rankSlots, recommendSlot, NewMeetingPollSchema, type MeetingPoll } from './meetingPolls';
+
+function poll(overrides: Partial<MeetingPoll> = {}): Pick<MeetingPoll, 'slots' | 'responses' | 'requiredMemberIds'> {
+	return {
+		slots: [
+			{ id: 'slot-1', start: '2025-09-02T23:00:00.000Z' },
+			{ id: 'slot-2', start: '2025-09-03T23:00:00.000Z' },
+			{ id: 'slot-3', start: '2025-09-04T23:00:00.000Z' }
+		],
+		requiredMemberIds: [],
+		responses: {},
+		...overrides
+	};
+}
+
+describe('rankSlots', () => {
+	it('should rank by available answers, counting maybe as half', () => {
+		const rankings = rankSlots(poll({
+			responses: {
+				ann: { 'slot-1': 'available', 'slot-2': 'maybe', 'slot-3': 'available' },
+				bob: { 'slot-1': 'maybe', 'slot-2': 'maybe', 'slot-3': 'available' },
+				cat: { 'slot-1': 'unavailable', 'slot-2': 'maybe', 'slot-3': 'unavailable' }
+			}
+		}), ['ann', 'bob', 'cat', 'dan']);
+
+		expect(rankings.map(ranking => [ranking.slot.id, ranking.score])).toEqual([['slot-3', 2], ['slot-2', 1.5], ['slot-1', 1.5]]);
+		expect(rankings[0]).toMatchObject({ available: 2, maybe: 0, unavailable: 1, noResponse: 1 });
+		// Tied on score, nobody has ruled out slot-2
+		expect(rankings.map(ranking => ranking.unavailable)).toEqual([1, 0, 1]);
+		expect(recommendSlot(rankings)?.slot.id).toBe('slot-3');
+	});
+
+	it('should put slots required members can make first and weight their answers', () => {
+		const rankings = rankSlots(poll({
+			requiredMemberIds: ['lead'],
+			responses: {
+				lead: { 'slot-1': 'maybe', 'slot-2': 'available', 'slot-3': 'unavailable' },
+				ann: { 'slot-1': 'available', 'slot-2': 'unavailable', 'slot-3': 'available' },
+				bob: { 'slot-1': 'available', 'slot-2': 'maybe', 'slot-3': 'available' }
+			}
+		}));
+
+		expect(rankings.map(ranking => ranking.slot.id)).toEqual(['slot-1', 'slot-2', 'slot-3']);
+		expect(rankings[1].score).toBe(2.5);
+		expect(rankings[0].requiredMaybe).toEqual(['lead']);
+		expect(rankings[2]).toMatchObject({ viable: false, requiredUnavailable: ['lead'] });
+	});
+
+	it('should not recommend a slot when no time works for required members', () => {
+		const rankings = rankSlots(poll({
+			requiredMemberIds: ['lead'],
+			responses: { lead: { 'slot-1': 'unavailable', 'slot-2': 'unavailable', 'slot-3': 'unavailable' } }
+		}));
+
+		expect(recommendSlot(rankings)).toBeNull();
+		expect(recommendSlot(rankSlots(poll()))).toBeNull();
+		expect(rankSlots(poll({ requiredMemberIds: ['lead'] }))[0].requiredNoResponse).toEqual(['lead']);
+	});
+});
+
+describe('NewMeetingPollSchema', () => {
+	it('should need two distinct proposed times', () => {
+		const base = { title: 'Book Circle', timeZone: 'Europe/London' };
+
+		expect(NewMeetingPollSchema.safeParse({ ...base, slots: ['2025-09-02T18:00:00.000Z'] }).success).toBe(false);
+		const repeated = NewMeetingPollSchema.safeParse({ ...base, slots: ['2025-09-02T18:00:00.000Z', '2025-09-02T18:00:00Z'] });
+		expect(repeated.success ? null : repeated.error.issues[0].message).toBe('The same time is proposed twice');
+		expect(NewMeetingPollSchema.safeParse({ ...base, slots: ['2025-09-02T18:00:00.000Z', '2025-09-03T18:00:00.000Z'] }).success).toBe(true);
+	});
+});
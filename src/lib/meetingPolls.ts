@@ -0,0 +1,163 @@
+/**
+ * Meeting time polls
+ * Organizers propose candidate slots, members answer available/maybe/unavailable for each
+ * (the AvailabilitySchema statuses), and slots are ranked to recommend the best time.
+ * Shapes are shared by the poll endpoints under /api and the client functions in api.ts.
+ */
+
+import { z } from 'zod';
+import { AvailabilityStatusSchema, TimeZoneSchema } from './api.generated';
+import type { AvailabilityStatus } from './availability';
+
+export type { AvailabilityStatus };
+
+/** Most candidate slots one poll can offer */
+export const MAX_POLL_SLOTS = 12;
+
+/** How much a "maybe" counts towards a slot, relative to "available" */
+export const MAYBE_WEIGHT = 0.5;
+
+/** How much more a required member's answer counts than anyone else's */
+export const REQUIRED_WEIGHT = 2;
+
+export const PollSlotSchema = z.object({
+	id: z.string(),
+	start: z.string().datetime()
+});
+
+export const MeetingPollStatusSchema = z.enum(['open', 'scheduled', 'closed']);
+
+export const MeetingPollSchema = z.object({
+	id: z.string(),
+	clubId: z.string(),
+	title: z.string(),
+	description: z.string().nullable(),
+	location: z.string().nullable(),
+	/** Zone the organizer proposed the slots in; the scheduled event keeps it */
+	timeZone: TimeZoneSchema,
+	slots: z.array(PollSlotSchema),
+	/** Members the meeting can't go ahead without, e.g. the discussion lead */
+	requiredMemberIds: z.array(z.string()),
+	/** Answers by user ID, then slot ID */
+	responses: z.record(z.record(AvailabilityStatusSchema)),
+	status: MeetingPollStatusSchema,
+	createdBy: z.string(),
+	createdAt: z.string().datetime(),
+	scheduledSlotId: z.string().nullable(),
+	/** The event created from the chosen slot */
+	eventId: z.string().nullable()
+});
+
+/**
+ * Request bodies
+ */
+export const NewMeetingPollSchema = z.object({
+	title: z.string().trim().min(1, 'Please enter a title').max(200, 'Title must be 200 characters or fewer'),
+	description: z.string().trim().max(2000, 'Description must be 2000 characters or fewer').optional(),
+	location: z.string().trim().max(200, 'Location must be 200 characters or fewer').optional(),
+	timeZone: TimeZoneSchema,
+	slots: z.array(z.string().datetime({ message: 'Each proposed time needs a date and time' }))
+		.min(2, 'Propose at least two times')
+		.max(MAX_POLL_SLOTS, `Propose at most ${MAX_POLL_SLOTS} times`)
+		.refine(slots => new Set(slots.map(slot => Date.parse(slot))).size === slots.length, 'The same time is proposed twice'),
+	requiredMemberIds: z.array(z.string().min(1)).optional()
+});
+
+export const PollResponseSchema = z.object({
+	/** Answers by slot ID; slots left out keep their previous answer */
+	responses: z.record(AvailabilityStatusSchema)
+});
+
+export const SchedulePollSchema = z.object({
+	slotId: z.string().min(1)
+});
+
+export type PollSlot = z.infer<typeof PollSlotSchema>;
+export type MeetingPollStatus = z.infer<typeof MeetingPollStatusSchema>;
+export type MeetingPoll = z.infer<typeof MeetingPollSchema>;
+export type NewMeetingPoll = z.infer<typeof NewMeetingPollSchema>;
+export type PollResponse = z.infer<typeof PollResponseSchema>;
+
+/**
+ * How one slot stands, from every member's answers
+ */
+export interface SlotRanking {
+	slot: PollSlot;
+	/** Available counts 1 and maybe MAYBE_WEIGHT, with required members' answers weighted by REQUIRED_WEIGHT */
+	score: number;
+	available: number;
+	maybe: number;
+	unavailable: number;
+	noResponse: number;
+	/** Required members who can't make it; the slot isn't recommended while there are any */
+	requiredUnavailable: string[];
+	requiredMaybe: string[];
+	requiredNoResponse: string[];
+	viable: boolean;
+}
+
+const STATUS_SCORE: Record<AvailabilityStatus, number> = {
+	available: 1,
+	maybe: MAYBE_WEIGHT,
+	unavailable: 0
+};
+
+/**
+ * Rank a poll's slots, best first
+ * Slots every required member can (or might) make come first, then by score, then by
+ * fewest unavailable, then earliest.
+ * @param memberIds - Everyone expected to answer, so silence can be counted; defaults to
+ * the members who answered plus the required ones
+ */
+export function rankSlots(poll: Pick<MeetingPoll, 'slots' | 'responses' | 'requiredMemberIds'>, memberIds?: string[]): SlotRanking[] {
+	const required = new Set(poll.requiredMemberIds);
+	const voters = [...new Set([...(memberIds ?? Object.keys(poll.responses)), ...required])];
+
+	const rankings = poll.slots.map(slot => {
+		const ranking: SlotRanking = {
+			slot,
+			score: 0,
+			available: 0,
+			maybe: 0,
+			unavailable: 0,
+			noResponse: 0,
+			requiredUnavailable: [],
+			requiredMaybe: [],
+			requiredNoResponse: [],
+			viable: true
+		};
+
+		for (const voter of voters) {
+			const status = poll.responses[voter]?.[slot.id];
+			const isRequired = required.has(voter);
+			if (!status) {
+				ranking.noResponse++;
+				if (isRequired) ranking.requiredNoResponse.push(voter);
+				continue;
+			}
+
+			ranking[status]++;
+			ranking.score += STATUS_SCORE[status] * (isRequired ? REQUIRED_WEIGHT : 1);
+			if (isRequired && status === 'unavailable') ranking.requiredUnavailable.push(voter);
+			if (isRequired && status === 'maybe') ranking.requiredMaybe.push(voter);
+		}
+
+		ranking.viable = ranking.requiredUnavailable.length === 0;
+		return ranking;
+	});
+
+	return rankings.sort((a, b) =>
+		Number(b.viable) - Number(a.viable) ||
+		b.score - a.score ||
+		a.unavailable - b.unavailable ||
+		Date.parse(a.slot.start) - Date.parse(b.slot.start)
+	);
+}
+
+/**
+ * The slot to suggest, or null when no slot works for the required members or nobody is available
+ */
+export function recommendSlot(rankings: SlotRanking[]): SlotRanking | null {
+	const best = rankings[0];
+	return best && best.viable && best.score > 0 ? best : null;
+}
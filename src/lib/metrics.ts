@@ -104,6 +104,21 @@ export class ApplicationMetrics {
     registers: [register]
   });
 
+  // Circuit breaker metrics
+  private static circuitBreakerState = new Gauge({
+    name: 'bookwork_frontend_circuit_breaker_state',
+    help: 'Circuit breaker state per API endpoint (0 = closed, 1 = half-open, 2 = open)',
+    labelNames: ['endpoint'] as const,
+    registers: [register]
+  });
+
+  private static circuitBreakerTransitions = new Counter({
+    name: 'bookwork_frontend_circuit_breaker_transitions_total',
+    help: 'Total number of circuit breaker state transitions',
+    labelNames: ['endpoint', 'from', 'to'] as const,
+    registers: [register]
+  });
+
   // Session metrics
   private static activeSessions = new Gauge({
     name: 'bookwork_frontend_active_sessions',
@@ -184,6 +199,21 @@ export class ApplicationMetrics {
     this.rateLimitHits.labels(endpoint).inc();
   }
 
+  /**
+   * Set the current circuit breaker state for an endpoint
+   */
+  static setCircuitBreakerState(endpoint: string, state: 'CLOSED' | 'HALF_OPEN' | 'OPEN') {
+    const values = { CLOSED: 0, HALF_OPEN: 1, OPEN: 2 };
+    this.circuitBreakerState.labels(endpoint).set(values[state]);
+  }
+
+  /**
+   * Record a circuit breaker state transition
+   */
+  static recordCircuitBreakerTransition(endpoint: string, from: string, to: string) {
+    this.circuitBreakerTransitions.labels(endpoint, from, to).inc();
+  }
+
   /**
    * Update active sessions count
    */
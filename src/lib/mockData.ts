@@ -3,7 +3,8 @@
  * TypeScript version with proper type definitions
  */
 
-import type { ClubMember, ScheduleEvent, EventItem, MeetingAvailability, Club } from './stores.ts';
+import type { ClubMember, ScheduleEvent, MeetingAvailability, User } from './stores.ts';
+import type { Book, ReadingProgress, UserClub } from './api.generated';
 
 // Mock club members data
 export const mockClubMembers: ClubMember[] = [
@@ -16,7 +17,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'member',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-01-15T12:00:00.000Z',
-    booksRead: 12,
     isActive: true,
     createdAt: '2023-01-15T12:00:00.000Z',
     joinDate: '2023-01-15T12:00:00.000Z',
@@ -32,7 +32,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'member',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-02-20T12:00:00.000Z',
-    booksRead: 8,
     isActive: true,
     createdAt: '2023-02-20T12:00:00.000Z',
     joinDate: '2023-02-20T12:00:00.000Z',
@@ -48,7 +47,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'member',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-03-10T12:00:00.000Z',
-    booksRead: 15,
     isActive: true,
     createdAt: '2023-03-10T12:00:00.000Z',
     joinDate: '2023-03-10T12:00:00.000Z',
@@ -64,7 +62,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'member',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-04-05T12:00:00.000Z',
-    booksRead: 6,
     isActive: true,
     createdAt: '2023-04-05T12:00:00.000Z',
     joinDate: '2023-04-05T12:00:00.000Z',
@@ -80,7 +77,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'moderator',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-01-25T12:00:00.000Z',
-    booksRead: 10,
     isActive: true,
     createdAt: '2023-01-25T12:00:00.000Z',
     joinDate: '2023-01-25T12:00:00.000Z',
@@ -96,7 +92,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'admin',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-05-10T12:00:00.000Z',
-    booksRead: 86819,
     isActive: true,
     createdAt: '2023-05-10T12:00:00.000Z',
     joinDate: '2023-05-10T12:00:00.000Z',
@@ -112,7 +107,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'moderator',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-06-15T12:00:00.000Z',
-    booksRead: 1000,
     isActive: true,
     createdAt: '2023-06-15T12:00:00.000Z',
     joinDate: '2023-06-15T12:00:00.000Z',
@@ -128,7 +122,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'member',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-07-20T12:00:00.000Z',
-    booksRead: 6,
     isActive: true,
     createdAt: '2023-07-20T12:00:00.000Z',
     joinDate: '2023-07-20T12:00:00.000Z',
@@ -144,7 +137,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'member',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-08-25T12:00:00.000Z',
-    booksRead: 95,
     isActive: true,
     createdAt: '2023-08-25T12:00:00.000Z',
     joinDate: '2023-08-25T12:00:00.000Z',
@@ -160,7 +152,6 @@ export const mockClubMembers: ClubMember[] = [
     role: 'member',
     avatar: 'https://www.bookwork-demo.com/default-avatar.png',
     joinedDate: '2023-09-30T12:00:00.000Z',
-    booksRead: 50,
     isActive: true,
     createdAt: '2023-09-30T12:00:00.000Z',
     joinDate: '2023-09-30T12:00:00.000Z',
@@ -181,7 +172,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'member',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2024-01-01T12:00:00.000Z',
-            booksRead: 5,
             isActive: true,
             createdAt: '2024-01-01T12:00:00.000Z',
             joinDate: '2024-01-01T12:00:00.000Z',
@@ -199,7 +189,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'member',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2024-01-02T12:00:00.000Z',
-            booksRead: 10,
             isActive: true,
             createdAt: '2024-01-02T12:00:00.000Z',
             joinDate: '2024-01-02T12:00:00.000Z',
@@ -217,7 +206,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'member',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2024-09-02T12:00:00.000Z',
-            booksRead: 50,
             isActive: true,
             createdAt: '2024-09-02T12:00:00.000Z',
             joinDate: '2024-09-02T12:00:00.000Z',
@@ -235,7 +223,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'member',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2025-02-27T12:00:00.000Z',
-            booksRead: 6,
             isActive: true,
             createdAt: '2025-02-27T12:00:00.000Z',
             joinDate: '2025-02-27T12:00:00.000Z',
@@ -253,7 +240,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'moderator',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2024-12-23T12:00:00.000Z',
-            booksRead: 95,
             isActive: true,
             createdAt: '2024-12-23T12:00:00.000Z',
             joinDate: '2024-12-23T12:00:00.000Z',
@@ -271,7 +257,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'admin',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2024-11-28T12:00:00.000Z',
-            booksRead: 86819,
             isActive: true,
             createdAt: '2024-11-28T12:00:00.000Z',
             joinDate: '2024-11-28T12:00:00.000Z',
@@ -289,7 +274,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'moderator',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2025-04-16T12:00:00.000Z',
-            booksRead: 1000,
             isActive: true,
             createdAt: '2025-04-16T12:00:00.000Z',
             joinDate: '2025-04-16T12:00:00.000Z',
@@ -300,6 +284,96 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             updatedAt: '2025-04-16T12:00:00.000Z'
         }
     ],
+    // Members of the demo user's other clubs; some belong to more than one
+    'club-2': [
+        {
+            id: 'c4c2d3e4-5f6a-7890-1234-567890abcdef',
+            name: 'Jane Smith',
+            email: 'janesmith@example.com',
+            phone: '(111)111-1111',
+            role: 'admin',
+            avatar: 'https://www.bookwork-demo.com/default-avatar.png',
+            joinedDate: '2024-03-01T12:00:00.000Z',
+            isActive: true,
+            createdAt: '2024-03-01T12:00:00.000Z',
+            joinDate: '2024-03-01T12:00:00.000Z',
+            status: 'active',
+            permissions: [],
+            clubRole: 'admin',
+            lastLoginAt: null,
+            updatedAt: '2024-03-01T12:00:00.000Z'
+        },
+        {
+            id: 'a1b2c3d4-1111-4a5b-8c9d-0e1f2a3b4c5d',
+            name: 'Priya Natarajan',
+            email: 'priya@example.com',
+            phone: '(111)111-1111',
+            role: 'member',
+            avatar: 'https://www.bookwork-demo.com/default-avatar.png',
+            joinedDate: '2024-03-04T12:00:00.000Z',
+            isActive: true,
+            createdAt: '2024-03-04T12:00:00.000Z',
+            joinDate: '2024-03-04T12:00:00.000Z',
+            status: 'active',
+            permissions: [],
+            clubRole: 'member',
+            lastLoginAt: null,
+            updatedAt: '2024-03-04T12:00:00.000Z'
+        },
+        {
+            id: 'a1b2c3d4-2222-4a5b-8c9d-0e1f2a3b4c5d',
+            name: 'Tomás Ruiz',
+            email: 'tomas@example.com',
+            phone: '(111)111-1111',
+            role: 'member',
+            avatar: 'https://www.bookwork-demo.com/default-avatar.png',
+            joinedDate: '2024-05-20T12:00:00.000Z',
+            isActive: true,
+            createdAt: '2024-05-20T12:00:00.000Z',
+            joinDate: '2024-05-20T12:00:00.000Z',
+            status: 'active',
+            permissions: [],
+            clubRole: 'member',
+            lastLoginAt: null,
+            updatedAt: '2024-05-20T12:00:00.000Z'
+        }
+    ],
+    'club-3': [
+        {
+            id: 'b3b1c2d3-4e5f-6789-0123-456789abcdef',
+            name: 'John Doe',
+            email: 'johndoe@example.com',
+            phone: '(111)111-1111',
+            role: 'admin',
+            avatar: 'https://www.bookwork-demo.com/default-avatar.png',
+            joinedDate: '2024-09-10T12:00:00.000Z',
+            isActive: true,
+            createdAt: '2024-09-10T12:00:00.000Z',
+            joinDate: '2024-09-10T12:00:00.000Z',
+            status: 'active',
+            permissions: [],
+            clubRole: 'admin',
+            lastLoginAt: null,
+            updatedAt: '2024-09-10T12:00:00.000Z'
+        },
+        {
+            id: 'a1b2c3d4-3333-4a5b-8c9d-0e1f2a3b4c5d',
+            name: 'Grace Okafor',
+            email: 'grace@example.com',
+            phone: '(111)111-1111',
+            role: 'member',
+            avatar: 'https://www.bookwork-demo.com/default-avatar.png',
+            joinedDate: '2024-09-12T12:00:00.000Z',
+            isActive: true,
+            createdAt: '2024-09-12T12:00:00.000Z',
+            joinDate: '2024-09-12T12:00:00.000Z',
+            status: 'active',
+            permissions: [],
+            clubRole: 'member',
+            lastLoginAt: null,
+            updatedAt: '2024-09-12T12:00:00.000Z'
+        }
+    ],
     // Add mock data for the UUID club ID as well for robustness
     '9e1db325-8d5a-4b1b-be9f-d97fe2f59ae5': [
         {
@@ -310,7 +384,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'member',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2024-01-01T12:00:00.000Z',
-            booksRead: 5,
             isActive: true,
             createdAt: '2024-01-01T12:00:00.000Z',
             joinDate: '2024-01-01T12:00:00.000Z',
@@ -328,7 +401,6 @@ export const MockClubMembersByClub: Record<string, ClubMember[]> = {
             role: 'admin',
             avatar: 'https://www.bookwork-demo.com/default-avatar.png',
             joinedDate: '2024-01-02T12:00:00.000Z',
-            booksRead: 10,
             isActive: true,
             createdAt: '2024-01-02T12:00:00.000Z',
             joinDate: '2024-01-02T12:00:00.000Z',
@@ -347,15 +419,16 @@ export function getMockClubMembersByClubId(clubId: string): ClubMember[] {
 }
 
 // Mock schedule events data
-export const mockScheduleEvents: (ScheduleEvent & { book?: string; attendees: string[] })[] = [
+export const mockScheduleEvents: (ScheduleEvent & { attendees: string[] })[] = [
   {
     id: 'event-1',
     title: 'Monthly Book Discussion',
     date: '2025-07-25',
     time: '19:00',
     location: 'Central Library - Meeting Room A',
+    capacity: 4,
     type: 'discussion',
-    book: 'The Seven Husbands of Evelyn Hugo',
+    bookId: 'book-1',
     description: 'Our monthly discussion of this captivating novel about a reclusive Hollywood icon.',
     attendees: [
       'b3b1c2d3-4e5f-6789-0123-456789abcdef',
@@ -371,7 +444,6 @@ export const mockScheduleEvents: (ScheduleEvent & { book?: string; attendees: st
     time: '18:30',
     location: 'Coffee Corner Café',
     type: 'meeting',
-    book: '',
     description: 'Choose our next book and discuss reading timeline.',
     attendees: [
       'b3b1c2d3-4e5f-6789-0123-456789abcdef',
@@ -386,7 +458,7 @@ export const mockScheduleEvents: (ScheduleEvent & { book?: string; attendees: st
     time: '15:00',
     location: 'Downtown Bookstore',
     type: 'social',
-    book: 'The Thursday Murder Club',
+    bookId: 'book-2',
     description: 'Special event with local author discussing mystery writing.',
     attendees: [
       'b3b1c2d3-4e5f-6789-0123-456789abcdef',
@@ -395,12 +467,70 @@ export const mockScheduleEvents: (ScheduleEvent & { book?: string; attendees: st
       'e6e4f5g6-7b8c-9012-3456-789012abcdef',
       'f7f5g6h7-8c9d-0123-4567-890123abcdef'
     ]
+  },
+  {
+    id: 'event-4',
+    title: 'Second Tuesday Book Circle',
+    date: '2025-07-08',
+    time: '19:00',
+    location: 'Riverside Community Center',
+    timeZone: 'America/New_York',
+    type: 'discussion',
+    description: 'Our regular circle on the second Tuesday of every month.',
+    rrule: 'FREQ=MONTHLY;BYDAY=2TU',
+    exceptions: [
+      { originalDate: '2025-12-09', cancelled: true }
+    ],
+    attendees: [
+      'b3b1c2d3-4e5f-6789-0123-456789abcdef',
+      'd5d3e4f5-6a7b-8901-2345-678901abcdef'
+    ]
   }
 ];
 
-// Extended EventItem interface for mock data
-interface MockEventItem extends Omit<EventItem, 'status'> {
+// Mock schedules of every club the demo user belongs to; club-1's is mockScheduleEvents
+export const mockScheduleEventsByClub: Record<string, (ScheduleEvent & { attendees: string[] })[]> = {
+  'club-1': mockScheduleEvents,
+  'club-2': [
+    {
+      id: 'event-c2-1',
+      title: 'Sci-Fi Night',
+      date: '2025-07-17',
+      time: '20:00',
+      location: 'The Orbit Bar',
+      type: 'discussion',
+      description: 'Third Thursday of the month, science fiction only.',
+      rrule: 'FREQ=MONTHLY;BYDAY=3TH',
+      attendees: [
+        'c4c2d3e4-5f6a-7890-1234-567890abcdef',
+        'a1b2c3d4-1111-4a5b-8c9d-0e1f2a3b4c5d'
+      ]
+    }
+  ],
+  'club-3': [
+    {
+      id: 'event-c3-1',
+      title: 'Classics Reading Group',
+      date: '2025-08-02',
+      time: '10:30',
+      location: 'Westside Library',
+      type: 'meeting',
+      description: 'Saturday morning classics, every other week.',
+      rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=SA',
+      attendees: [
+        'b3b1c2d3-4e5f-6789-0123-456789abcdef'
+      ]
+    }
+  ]
+};
+
+// Event items in the legacy mock backend shape; api.ts adapts them to EventItem
+interface MockEventItem {
+  id: string;
+  name: string;
+  assignedTo: string;
   status: 'assigned' | 'confirmed' | 'pending';
+  category: string;
   notes: string;
 }
 
@@ -495,24 +625,97 @@ export const mockMeetingAvailability: Record<string, Record<string, 'available'
   }
 };
 
-// Mock user clubs data
-export const mockUserClubs: (Club & { isOwner: boolean })[] = [
+// Club book catalog; events, reading progress and nominations refer to books by ID
+export const mockBooks: Book[] = [
+  {
+    id: 'book-1',
+    clubId: 'club-1',
+    title: 'The Seven Husbands of Evelyn Hugo',
+    authors: ['Taylor Jenkins Reid'],
+    isbn: '9781501161933',
+    coverUrl: 'https://covers.openlibrary.org/b/isbn/9781501161933-M.jpg',
+    pageCount: 400,
+    createdAt: '2025-06-20T12:00:00.000Z'
+  },
+  {
+    id: 'book-2',
+    clubId: 'club-1',
+    title: 'The Thursday Murder Club',
+    authors: ['Richard Osman'],
+    isbn: '9781984880963',
+    coverUrl: 'https://covers.openlibrary.org/b/isbn/9781984880963-M.jpg',
+    pageCount: 382,
+    createdAt: '2025-06-10T12:00:00.000Z'
+  },
+  {
+    id: 'book-3',
+    clubId: 'club-1',
+    title: 'Circe',
+    authors: ['Madeline Miller'],
+    isbn: '9780316556347',
+    coverUrl: 'https://covers.openlibrary.org/b/isbn/9780316556347-M.jpg',
+    chapterCount: 27,
+    createdAt: '2025-05-01T12:00:00.000Z'
+  }
+];
+
+// Reading progress by book; finished entries are what members' booksRead counts
+export const mockReadingProgress: Record<string, ReadingProgress[]> = {
+  'book-1': [
+    { userId: 'b3b1c2d3-4e5f-6789-0123-456789abcdef', bookId: 'book-1', page: 400, percent: 100, startedAt: '2025-06-21T12:00:00.000Z', updatedAt: '2025-07-14T12:00:00.000Z', finishedAt: '2025-07-14T12:00:00.000Z' },
+    { userId: 'c4c2d3e4-5f6a-7890-1234-567890abcdef', bookId: 'book-1', page: 310, percent: 78, startedAt: '2025-06-22T12:00:00.000Z', updatedAt: '2025-07-15T12:00:00.000Z', finishedAt: null },
+    { userId: 'd5d3e4f5-6a7b-8901-2345-678901abcdef', bookId: 'book-1', page: 120, percent: 30, startedAt: '2025-07-01T12:00:00.000Z', updatedAt: '2025-07-10T12:00:00.000Z', finishedAt: null },
+    { userId: 'a8a6h7i8-9d0e-1234-5678-901234abcdef', bookId: 'book-1', page: 400, percent: 100, startedAt: '2025-06-20T12:00:00.000Z', updatedAt: '2025-07-05T12:00:00.000Z', finishedAt: '2025-07-05T12:00:00.000Z' }
+  ],
+  'book-2': [
+    { userId: 'f7f5g6h7-8c9d-0123-4567-890123abcdef', bookId: 'book-2', percent: 40, startedAt: '2025-07-02T12:00:00.000Z', updatedAt: '2025-07-12T12:00:00.000Z', finishedAt: null }
+  ],
+  'book-3': [
+    { userId: 'b3b1c2d3-4e5f-6789-0123-456789abcdef', bookId: 'book-3', chapter: 27, percent: 100, startedAt: '2025-05-02T12:00:00.000Z', updatedAt: '2025-05-30T12:00:00.000Z', finishedAt: '2025-05-30T12:00:00.000Z' },
+    { userId: 'c4c2d3e4-5f6a-7890-1234-567890abcdef', bookId: 'book-3', chapter: 27, percent: 100, startedAt: '2025-05-03T12:00:00.000Z', updatedAt: '2025-06-02T12:00:00.000Z', finishedAt: '2025-06-02T12:00:00.000Z' },
+    { userId: 'e6e4f5g6-7b8c-9012-3456-789012abcdef', bookId: 'book-3', chapter: 27, percent: 100, startedAt: '2025-05-01T12:00:00.000Z', updatedAt: '2025-05-25T12:00:00.000Z', finishedAt: '2025-05-25T12:00:00.000Z' },
+    { userId: 'a8a6h7i8-9d0e-1234-5678-901234abcdef', bookId: 'book-3', chapter: 27, percent: 100, startedAt: '2025-05-01T12:00:00.000Z', updatedAt: '2025-05-20T12:00:00.000Z', finishedAt: '2025-05-20T12:00:00.000Z' },
+    { userId: 'd5d3e4f5-6a7b-8901-2345-678901abcdef', bookId: 'book-3', chapter: 12, percent: 44, startedAt: '2025-05-05T12:00:00.000Z', updatedAt: '2025-05-28T12:00:00.000Z', finishedAt: null }
+  ]
+};
+
+// Mock user clubs data: the demo user belongs to three clubs with a different role in each
+export const mockUserClubs: UserClub[] = [
   {
     id: 'club-1',
     name: 'Downtown Book Club',
     description: 'A friendly neighborhood book club meeting every Tuesday',
     memberCount: 7,
-    createdAt: '2023-01-01',
+    createdAt: '2023-01-01T00:00:00.000Z',
+    clubRole: 'admin',
     isOwner: true
+  },
+  {
+    id: 'club-2',
+    name: 'Sci-Fi Circle',
+    description: 'Spaceships, time travel and the occasional dragon',
+    memberCount: 3,
+    createdAt: '2024-03-01T00:00:00.000Z',
+    clubRole: 'member',
+    isOwner: false
+  },
+  {
+    id: 'club-3',
+    name: 'Westside Classics',
+    description: 'Reading the classics, slowly',
+    memberCount: 2,
+    createdAt: '2024-09-10T00:00:00.000Z',
+    clubRole: 'moderator',
+    isOwner: false
   }
 ];
 
 // Mock user data for authentication
-export const mockUser = {
+export const mockUser: User = {
   id: 'user-1',
   name: 'Demo User',
   email: 'demo@bookwork.com',
-  role: 'Club Lead',
+  role: 'member',
   avatar: '/default-avatar.png'
 };
 
@@ -603,6 +806,8 @@ export const mockData = {
   scheduleEvents: mockScheduleEvents,
   eventItems: mockEventItems,
   meetingAvailability: mockMeetingAvailability,
+  books: mockBooks,
+  readingProgress: mockReadingProgress,
   userClubs: mockUserClubs,
   user: mockUser,
   builderModules: mockBuilderModules,
@@ -13,6 +13,16 @@ import type { IMockDataService, MockDataServiceConfig } from './mockDataService.
  */
 class DevMockDataService implements IMockDataService {
     private config: MockDataServiceConfig;
+    // Answers saved this session, by event then user, layered over the seeded ones
+    private savedAvailability = new Map<string, Record<string, any>>();
+    // Newest first, by event
+    private availabilityHistory = new Map<string, any[]>();
+    // Each event's items once any have been read, so additions and claims stick for the session
+    private savedItems = new Map<string, any[]>();
+    // Books added this session, by club
+    private addedBooks = new Map<string, any[]>();
+    // Progress saved this session, by book then user, layered over the seeded entries
+    private savedProgress = new Map<string, Record<string, any>>();
 
     constructor(config: MockDataServiceConfig) {
         this.config = config;
@@ -30,21 +40,32 @@ class DevMockDataService implements IMockDataService {
         return this.delay([...MockClubMembersByClub[clubId] || []]);
     }
 
-    async getScheduleEvents(): Promise<any[]> {
-        const { mockScheduleEvents } = await import('./mockData');
-        return this.delay([...mockScheduleEvents]);
+    async getUserClubs(): Promise<any[]> {
+        const { mockUserClubs } = await import('./mockData');
+        return this.delay([...mockUserClubs]);
+    }
+
+    async getScheduleEvents(clubId?: string): Promise<any[]> {
+        const { mockScheduleEventsByClub } = await import('./mockData');
+        return this.delay(clubId ? [...mockScheduleEventsByClub[clubId] || []] : Object.values(mockScheduleEventsByClub).flat());
+    }
+
+    private async itemsFor(eventId: string): Promise<any[]> {
+        if (!this.savedItems.has(eventId)) {
+            const { mockEventItems } = await import('./mockData');
+            this.savedItems.set(eventId, [...mockEventItems[eventId as keyof typeof mockEventItems] || []]);
+        }
+        return this.savedItems.get(eventId)!;
     }
 
     async getEventItems(eventId: string): Promise<any[]> {
-        const { mockEventItems } = await import('./mockData');
-        const items = mockEventItems[eventId as keyof typeof mockEventItems] || [];
-        return this.delay([...items]);
+        return this.delay([...await this.itemsFor(eventId)]);
     }
 
     async getMeetingAvailability(eventId: string): Promise<Record<string, any>> {
         const { mockMeetingAvailability } = await import('./mockData');
         const availability = mockMeetingAvailability[eventId as keyof typeof mockMeetingAvailability] || {};
-        return this.delay({ ...availability });
+        return this.delay({ ...availability, ...this.savedAvailability.get(eventId) });
     }
 
     async addClubMember(member: any): Promise<any> {
@@ -93,30 +114,75 @@ class DevMockDataService implements IMockDataService {
 
     async addEventItem(eventId: string, item: any): Promise<any> {
         const newItem = {
-            ...item,
             id: `item-${Date.now()}`,
+            ...item,
             eventId,
             createdAt: new Date().toISOString()
         };
+        this.savedItems.set(eventId, [...await this.itemsFor(eventId), newItem]);
         return this.delay(newItem);
     }
 
     async updateEventItem(eventId: string, itemId: string, item: any): Promise<any> {
+        const items = await this.itemsFor(eventId);
         const updatedItem = {
+            ...items.find(existing => existing.id === itemId),
             ...item,
             id: itemId,
             eventId,
             updatedAt: new Date().toISOString()
         };
+        this.savedItems.set(eventId, items.map(existing => existing.id === itemId ? updatedItem : existing));
         return this.delay(updatedItem);
     }
 
     async deleteEventItem(eventId: string, itemId: string): Promise<void> {
+        this.savedItems.set(eventId, (await this.itemsFor(eventId)).filter(existing => existing.id !== itemId));
+        await this.delay(undefined);
+    }
+
+    async setMeetingAvailability(eventId: string, userId: string, availability: any): Promise<void> {
+        this.savedAvailability.set(eventId, { ...this.savedAvailability.get(eventId), [userId]: availability });
+        this.availabilityHistory.set(eventId, [
+            {
+                userId,
+                status: availability.status,
+                ...(availability.note ? { note: availability.note } : {}),
+                changedAt: availability.updatedAt ?? new Date().toISOString()
+            },
+            ...this.availabilityHistory.get(eventId) ?? []
+        ]);
         await this.delay(undefined);
     }
 
-    async setMeetingAvailability(eventId: string, userId: string, availability: string): Promise<void> {
-        // Mock setting availability - would update storage in real implementation
+    async getAvailabilityHistory(eventId: string): Promise<any[]> {
+        return this.delay([...this.availabilityHistory.get(eventId) ?? []]);
+    }
+
+    async getBooks(clubId: string): Promise<any[]> {
+        const { mockBooks } = await import('./mockData');
+        return this.delay([...mockBooks.filter(book => book.clubId === clubId), ...this.addedBooks.get(clubId) ?? []]);
+    }
+
+    async addBook(clubId: string, book: any): Promise<any> {
+        const newBook = {
+            ...book,
+            id: `book-${Date.now()}`,
+            clubId,
+            createdAt: new Date().toISOString()
+        };
+        this.addedBooks.set(clubId, [...this.addedBooks.get(clubId) ?? [], newBook]);
+        return this.delay(newBook);
+    }
+
+    async getReadingProgress(bookId: string): Promise<any[]> {
+        const { mockReadingProgress } = await import('./mockData');
+        const seeded = Object.fromEntries((mockReadingProgress[bookId] ?? []).map(entry => [entry.userId, entry]));
+        return this.delay(Object.values({ ...seeded, ...this.savedProgress.get(bookId) }));
+    }
+
+    async setReadingProgress(bookId: string, userId: string, progress: any): Promise<void> {
+        this.savedProgress.set(bookId, { ...this.savedProgress.get(bookId), [userId]: progress });
         await this.delay(undefined);
     }
 }
@@ -14,7 +14,11 @@ class ProdMockDataService implements IMockDataService {
         return [];
     }
 
-    async getScheduleEvents(): Promise<any[]> {
+    async getUserClubs(): Promise<any[]> {
+        return [];
+    }
+
+    async getScheduleEvents(clubId?: string): Promise<any[]> {
         return [];
     }
 
@@ -62,7 +66,27 @@ class ProdMockDataService implements IMockDataService {
         // No-op
     }
 
-    async setMeetingAvailability(eventId: string, userId: string, availability: string): Promise<void> {
+    async setMeetingAvailability(eventId: string, userId: string, availability: any): Promise<void> {
+        // No-op
+    }
+
+    async getAvailabilityHistory(eventId: string): Promise<any[]> {
+        return [];
+    }
+
+    async getBooks(clubId: string): Promise<any[]> {
+        return [];
+    }
+
+    async addBook(clubId: string, book: any): Promise<any> {
+        return null;
+    }
+
+    async getReadingProgress(bookId: string): Promise<any[]> {
+        return [];
+    }
+
+    async setReadingProgress(bookId: string, userId: string, progress: any): Promise<void> {
         // No-op
     }
 }
@@ -55,9 +55,13 @@ export const mockDataService = {
         const service = await getMockDataService();
         return service.getClubMembers(clubId);
     },
-    async getScheduleEvents() {
+    async getUserClubs() {
         const service = await getMockDataService();
-        return service.getScheduleEvents();
+        return service.getUserClubs();
+    },
+    async getScheduleEvents(clubId?: string) {
+        const service = await getMockDataService();
+        return service.getScheduleEvents(clubId);
     },
     async getEventItems(eventId: string) {
         const service = await getMockDataService();
@@ -103,9 +107,29 @@ export const mockDataService = {
         const service = await getMockDataService();
         return service.deleteEventItem(eventId, itemId);
     },
-    async setMeetingAvailability(eventId: string, userId: string, availability: string) {
+    async setMeetingAvailability(eventId: string, userId: string, availability: any) {
         const service = await getMockDataService();
         return service.setMeetingAvailability(eventId, userId, availability);
+    },
+    async getAvailabilityHistory(eventId: string) {
+        const service = await getMockDataService();
+        return service.getAvailabilityHistory(eventId);
+    },
+    async getBooks(clubId: string) {
+        const service = await getMockDataService();
+        return service.getBooks(clubId);
+    },
+    async addBook(clubId: string, book: any) {
+        const service = await getMockDataService();
+        return service.addBook(clubId, book);
+    },
+    async getReadingProgress(bookId: string) {
+        const service = await getMockDataService();
+        return service.getReadingProgress(bookId);
+    },
+    async setReadingProgress(bookId: string, userId: string, progress: any) {
+        const service = await getMockDataService();
+        return service.setReadingProgress(bookId, userId, progress);
     }
 };
 
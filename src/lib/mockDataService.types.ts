@@ -10,7 +10,9 @@ export interface MockDataServiceConfig {
 
 export interface IMockDataService {
     getClubMembers(clubId: string): Promise<any[]>;
-    getScheduleEvents(): Promise<any[]>;
+    getUserClubs(): Promise<any[]>;
+    /** A club's events, or every club's when no club is given */
+    getScheduleEvents(clubId?: string): Promise<any[]>;
     getEventItems(eventId: string): Promise<any[]>;
     getMeetingAvailability(eventId: string): Promise<Record<string, any>>;
     addClubMember(member: any): Promise<any>;
@@ -22,5 +24,10 @@ export interface IMockDataService {
     addEventItem(eventId: string, item: any): Promise<any>;
     updateEventItem(eventId: string, itemId: string, item: any): Promise<any>;
     deleteEventItem(eventId: string, itemId: string): Promise<void>;
-    setMeetingAvailability(eventId: string, userId: string, availability: string): Promise<void>;
+    setMeetingAvailability(eventId: string, userId: string, availability: any): Promise<void>;
+    getAvailabilityHistory(eventId: string): Promise<any[]>;
+    getBooks(clubId: string): Promise<any[]>;
+    addBook(clubId: string, book: any): Promise<any>;
+    getReadingProgress(bookId: string): Promise<any[]>;
+    setReadingProgress(bookId: string, userId: string, progress: any): Promise<void>;
 }
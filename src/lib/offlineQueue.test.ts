@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import { submitMutation, replayOutbox, clearOutbox, outbox, isOnline } from './offlineQueue';
+import { toasts } from './toast';
+import { TIME_CONSTANTS } from './constants';
+
+vi.mock('$app/environment', () => ({
+	browser: false,
+	dev: true,
+	building: false,
+	version: 'test'
+}));
+
+function jsonResponse(status: number, body: unknown) {
+	return {
+		ok: status >= 200 && status < 300,
+		status,
+		statusText: '',
+		headers: new Headers(),
+		json: async () => body
+	};
+}
+
+const availabilityBody = (eventId: string) => ({
+	success: true,
+	eventId,
+	userId: 'user-1',
+	status: 'available'
+});
+
+describe('offline mutation outbox', () => {
+	let fetchMock: ReturnType<typeof vi.fn>;
+
+	beforeEach(async () => {
+		await clearOutbox();
+		isOnline.set(true);
+		toasts.clear();
+		fetchMock = vi.fn();
+		(globalThis as any).fetch = fetchMock;
+	});
+
+	it('should queue a mutation when the network is unreachable', async () => {
+		fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+		const result = await submitMutation('updateAvailability', {
+			eventId: 'event-offline',
+			userId: 'user-1',
+			status: 'available'
+		});
+
+		expect(result.queued).toBe(true);
+		expect(get(outbox)).toHaveLength(1);
+	});
+
+	it('should rethrow errors that are not connectivity failures', async () => {
+		fetchMock.mockResolvedValueOnce(jsonResponse(403, { error: 'Forbidden', code: 'FORBIDDEN', message: 'Not allowed' }));
+
+		await expect(submitMutation('updateAvailability', {
+			eventId: 'event-forbidden',
+			userId: 'user-1',
+			status: 'maybe'
+		})).rejects.toThrow();
+		expect(get(outbox)).toHaveLength(0);
+	});
+
+	it('should replay in order with the original idempotency key', async () => {
+		isOnline.set(false);
+		const first = await submitMutation('updateAvailability', { eventId: 'event-a', userId: 'user-1', status: 'available' });
+		const second = await submitMutation('updateAvailability', { eventId: 'event-b', userId: 'user-1', status: 'unavailable' });
+		expect(fetchMock).not.toHaveBeenCalled();
+
+		fetchMock.mockImplementation(async (url: string) =>
+			jsonResponse(200, availabilityBody(url.includes('event-a') ? 'event-a' : 'event-b'))
+		);
+		isOnline.set(true);
+		await replayOutbox();
+
+		const replayed = fetchMock.mock.calls.map(([url, init]) => ({
+			url: String(url),
+			key: (init.headers as Record<string, string>)['Idempotency-Key']
+		}));
+		expect(replayed.map(call => call.url.includes('event-a') ? 'a' : 'b')).toEqual(['a', 'b']);
+		expect(replayed[0].key).toBe(first.queued ? first.id : undefined);
+		expect(replayed[1].key).toBe(second.queued ? second.id : undefined);
+		expect(get(outbox)).toHaveLength(0);
+	});
+
+	it('should try again on its own while the server is unavailable', async () => {
+		vi.useFakeTimers();
+		try {
+			fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+			await submitMutation('updateAvailability', { eventId: 'event-retry', userId: 'user-1', status: 'maybe' });
+
+			fetchMock.mockResolvedValue(jsonResponse(503, { error: 'Service Unavailable', code: 'UNAVAILABLE', message: 'Down for maintenance' }));
+			await replayOutbox();
+			expect(get(outbox)[0].attempts).toBe(1);
+
+			const calls = fetchMock.mock.calls.length;
+			fetchMock.mockResolvedValue(jsonResponse(200, availabilityBody('event-retry')));
+			await vi.advanceTimersByTimeAsync(TIME_CONSTANTS.OUTBOX_RETRY_BASE_DELAY * 1.1);
+
+			expect(fetchMock.mock.calls.length).toBeGreaterThan(calls);
+			expect(get(outbox)).toHaveLength(0);
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('should drop conflicting mutations and report them', async () => {
+		fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+		await submitMutation('updateAvailability', { eventId: 'event-conflict', userId: 'user-1', status: 'available' });
+
+		fetchMock.mockResolvedValueOnce(jsonResponse(409, {
+			error: 'Conflict',
+			code: 'CONFLICT',
+			message: 'This event has been cancelled'
+		}));
+		await replayOutbox();
+
+		expect(get(outbox)).toHaveLength(0);
+		expect(get(toasts).some(toast => toast.type === 'error' && toast.message.includes('This event has been cancelled'))).toBe(true);
+	});
+});
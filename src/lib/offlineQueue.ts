@@ -0,0 +1,374 @@
+/**
+ * Offline mutation outbox
+ * Club mutations that fail because the server cannot be reached are persisted to IndexedDB
+ * and replayed in order, with their original idempotency key, once connectivity returns
+ */
+
+import { writable, derived, get } from 'svelte/store';
+import { browser } from '$app/environment';
+import {
+	updateAvailability,
+	addEventItem,
+	claimEventItem,
+	updateReadingProgress,
+	ApiError,
+	NetworkError,
+	TimeoutError,
+	ServerError,
+	AuthenticationError,
+	type NewEventItem,
+	type ItemClaimRequest,
+	type ReadingProgressUpdate
+} from './api';
+import { toasts } from './toast';
+import { TIME_CONSTANTS } from './constants';
+
+/**
+ * Arguments for each mutation that can be queued, keyed by mutation kind
+ */
+export interface QueueableMutations {
+	updateAvailability: {
+		eventId: string;
+		userId: string;
+		status: 'available' | 'unavailable' | 'maybe';
+		note?: string;
+	};
+	addEventItem: {
+		eventId: string;
+		item: NewEventItem;
+		claim?: ItemClaimRequest;
+	};
+	claimEventItem: {
+		eventId: string;
+		itemId: string;
+		userId: string;
+		quantity: number;
+	};
+	updateReadingProgress: {
+		clubId: string;
+		bookId: string;
+		userId: string;
+		update: ReadingProgressUpdate;
+	};
+}
+
+export type MutationKind = keyof QueueableMutations;
+
+export interface QueuedMutation<K extends MutationKind = MutationKind> {
+	/** Also sent as the Idempotency-Key header so replays are applied once */
+	id: string;
+	kind: K;
+	args: QueueableMutations[K];
+	createdAt: string;
+	attempts: number;
+	lastError?: string;
+}
+
+export type SubmitResult<T> =
+	| { queued: false; result: T }
+	| { queued: true; id: string };
+
+type MutationResults = {
+	updateAvailability: Awaited<ReturnType<typeof updateAvailability>>;
+	addEventItem: Awaited<ReturnType<typeof addEventItem>>;
+	claimEventItem: Awaited<ReturnType<typeof claimEventItem>>;
+	updateReadingProgress: Awaited<ReturnType<typeof updateReadingProgress>>;
+};
+
+const executors: {
+	[K in MutationKind]: (args: QueueableMutations[K], idempotencyKey: string) => Promise<MutationResults[K]>;
+} = {
+	updateAvailability: (args, key) => updateAvailability(args.eventId, args.userId, args.status, args.note, undefined, key),
+	addEventItem: (args, key) => addEventItem(args.eventId, args.item, args.claim, undefined, key),
+	claimEventItem: (args, key) => claimEventItem(args.eventId, args.itemId, args.userId, args.quantity, undefined, key),
+	updateReadingProgress: (args, key) => updateReadingProgress(args.clubId, args.bookId, args.userId, args.update, undefined, key)
+};
+
+const describeMutation: Record<MutationKind, string> = {
+	updateAvailability: 'availability update',
+	addEventItem: 'potluck item',
+	claimEventItem: 'potluck sign-up',
+	updateReadingProgress: 'reading progress update'
+};
+
+// Only the latest of these mutations for the same target matters
+const supersedeKeys: { [K in MutationKind]?: (args: QueueableMutations[K]) => string } = {
+	updateAvailability: args => `${args.eventId}:${args.userId}`,
+	claimEventItem: args => `${args.eventId}:${args.itemId}:${args.userId}`,
+	updateReadingProgress: args => `${args.clubId}:${args.bookId}:${args.userId}`
+};
+
+/**
+ * Errors that mean the request never reached a working server, so it is safe to retry later
+ */
+export function isQueueableError(error: unknown): boolean {
+	if (error instanceof NetworkError || error instanceof TimeoutError) {
+		return true;
+	}
+	// Gateway errors and an open circuit breaker are transient
+	if (error instanceof ServerError) {
+		return [502, 503, 504].includes(error.statusCode);
+	}
+	return false;
+}
+
+/**
+ * IndexedDB persistence
+ * Falls back to memory only when IndexedDB is unavailable (SSR, private browsing)
+ */
+const DB_NAME = 'bookwork-offline';
+const STORE_NAME = 'outbox';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDatabase(): Promise<IDBDatabase | null> {
+	if (!browser || typeof indexedDB === 'undefined') {
+		return Promise.resolve(null);
+	}
+	if (!dbPromise) {
+		dbPromise = new Promise(resolve => {
+			const request = indexedDB.open(DB_NAME, 1);
+			request.onupgradeneeded = () => {
+				request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => {
+				console.warn('Offline outbox unavailable, queued changes will not survive a reload:', request.error);
+				resolve(null);
+			};
+		});
+	}
+	return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> {
+	const db = await openDatabase();
+	if (!db) return undefined;
+
+	return new Promise((resolve, reject) => {
+		const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+const persist = (mutation: QueuedMutation) => withStore('readwrite', store => store.put(mutation));
+const unpersist = (id: string) => withStore('readwrite', store => store.delete(id));
+
+/**
+ * Outbox store, oldest mutation first
+ */
+const queue = writable<QueuedMutation[]>([]);
+
+export const outbox = { subscribe: queue.subscribe };
+export const pendingMutationCount = derived(queue, $queue => $queue.length);
+export const isOnline = writable(browser ? navigator.onLine : true);
+
+/**
+ * Queued mutations of one kind, with their arguments typed for that kind
+ */
+export function queuedOfKind<K extends MutationKind>(queued: QueuedMutation[], kind: K): QueuedMutation<K>[] {
+	return queued.filter((mutation): mutation is QueuedMutation<K> => mutation.kind === kind);
+}
+
+async function enqueue<K extends MutationKind>(kind: K, args: QueueableMutations[K], id: string, error?: unknown): Promise<void> {
+	const mutation: QueuedMutation<K> = {
+		id,
+		kind,
+		args,
+		createdAt: new Date().toISOString(),
+		attempts: 0,
+		lastError: error instanceof ApiError ? error.userMessage : undefined
+	};
+
+	const keyOf = supersedeKeys[kind] as ((args: QueueableMutations[K]) => string) | undefined;
+	const superseded = keyOf
+		? get(queue).filter(queued => queued.kind === kind && keyOf(queued.args as QueueableMutations[K]) === keyOf(args))
+		: [];
+
+	queue.update(items => [...items.filter(queued => !superseded.includes(queued)), mutation]);
+
+	await Promise.all(superseded.map(queued => unpersist(queued.id)));
+	await persist(mutation);
+}
+
+async function remove(id: string): Promise<void> {
+	queue.update(items => items.filter(queued => queued.id !== id));
+	await unpersist(id);
+}
+
+/**
+ * Send a mutation now, or queue it if the server cannot be reached
+ * Errors other than connectivity failures are rethrown unchanged
+ * @param kind - Which API mutation to run
+ * @param args - Arguments for the mutation
+ * @returns The API result, or the outbox id when the mutation was queued
+ */
+export async function submitMutation<K extends MutationKind>(
+	kind: K,
+	args: QueueableMutations[K]
+): Promise<SubmitResult<MutationResults[K]>> {
+	const id = crypto.randomUUID();
+
+	// Keep order: never let a new mutation overtake ones already waiting
+	if (!get(isOnline) || get(queue).length > 0) {
+		await enqueue(kind, args, id);
+		if (get(isOnline)) {
+			replayOutbox();
+		}
+		return { queued: true, id };
+	}
+
+	try {
+		const execute = executors[kind] as (args: QueueableMutations[K], key: string) => Promise<MutationResults[K]>;
+		return { queued: false, result: await execute(args, id) };
+	} catch (error) {
+		if (!isQueueableError(error)) {
+			throw error;
+		}
+		await enqueue(kind, args, id, error);
+		toasts.add({
+			message: `You're offline. Your ${describeMutation[kind]} will be sent when the connection returns.`,
+			type: 'info',
+			duration: 5000
+		});
+		return { queued: true, id };
+	}
+}
+
+let replaying: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Replay queued mutations in order
+ * Stops at the first connectivity failure and tries again later, backing off while the server
+ * stays unreachable; mutations the server rejects are dropped and reported
+ */
+export function replayOutbox(): Promise<void> {
+	if (!replaying) {
+		replaying = runReplay().finally(() => {
+			replaying = null;
+		});
+	}
+	return replaying;
+}
+
+async function runReplay(): Promise<void> {
+	let synced = 0;
+
+	// Take the head each time so mutations queued during replay are picked up too
+	let mutation: QueuedMutation | undefined;
+	while ((mutation = get(queue)[0])) {
+		try {
+			const execute = executors[mutation.kind] as (args: QueuedMutation['args'], key: string) => Promise<unknown>;
+			await execute(mutation.args, mutation.id);
+			await remove(mutation.id);
+			synced++;
+		} catch (error) {
+			if (isQueueableError(error)) {
+				const updated: QueuedMutation = {
+					...mutation,
+					attempts: mutation.attempts + 1,
+					lastError: (error as ApiError).userMessage
+				};
+				queue.update(items => items.map(queued => queued.id === updated.id ? updated : queued));
+				await persist(updated);
+				// Offline, the online event replays instead
+				if (get(isOnline)) {
+					scheduleRetry(updated.attempts);
+				}
+				break;
+			}
+
+			// Resumed by the next sign-in (see AuthService.login)
+			if (error instanceof AuthenticationError) {
+				toasts.add({
+					message: 'Sign in again to send your offline changes.',
+					type: 'warning',
+					duration: 5000
+				});
+				break;
+			}
+
+			// Conflict or rejected by the server - replaying again would not help
+			await remove(mutation.id);
+			const reason = error instanceof ApiError ? error.userMessage : 'An unexpected error occurred.';
+			toasts.add({
+				message: `Your offline ${describeMutation[mutation.kind]} could not be applied. ${reason}`,
+				type: 'error',
+				duration: 8000
+			});
+		}
+	}
+
+	if (synced > 0) {
+		toasts.add({
+			message: `Synced ${synced} offline ${synced === 1 ? 'change' : 'changes'}.`,
+			type: 'success'
+		});
+	}
+}
+
+/**
+ * Replay again once the server has had time to recover
+ * Exponential backoff with 10% jitter, from the number of failed attempts at the head mutation
+ */
+function scheduleRetry(attempts: number): void {
+	cancelRetry();
+	const delay = TIME_CONSTANTS.OUTBOX_RETRY_BASE_DELAY * Math.pow(2, attempts - 1);
+	const jitter = Math.random() * 0.1 * delay;
+	retryTimer = setTimeout(() => {
+		retryTimer = null;
+		replayOutbox();
+	}, Math.min(delay + jitter, TIME_CONSTANTS.OUTBOX_RETRY_MAX_DELAY));
+}
+
+function cancelRetry(): void {
+	if (retryTimer) {
+		clearTimeout(retryTimer);
+		retryTimer = null;
+	}
+}
+
+/**
+ * Discard every queued mutation (e.g. on logout, so they are not replayed as another user)
+ */
+export async function clearOutbox(): Promise<void> {
+	cancelRetry();
+	const ids = get(queue).map(queued => queued.id);
+	queue.set([]);
+	await Promise.all(ids.map(id => unpersist(id)));
+}
+
+/**
+ * Load persisted mutations and replay them whenever the browser comes back online
+ * @returns Cleanup function removing the connectivity listeners
+ */
+export async function initOfflineQueue(): Promise<() => void> {
+	if (!browser) return () => {};
+
+	const stored = (await withStore<QueuedMutation[]>('readonly', store => store.getAll())) ?? [];
+	queue.set(stored.sort((a, b) => a.createdAt.localeCompare(b.createdAt)));
+
+	const handleOnline = () => {
+		isOnline.set(true);
+		replayOutbox();
+	};
+	const handleOffline = () => {
+		isOnline.set(false);
+		cancelRetry();
+	};
+
+	window.addEventListener('online', handleOnline);
+	window.addEventListener('offline', handleOffline);
+
+	if (navigator.onLine && stored.length > 0) {
+		replayOutbox();
+	}
+
+	return () => {
+		window.removeEventListener('online', handleOnline);
+		window.removeEventListener('offline', handleOffline);
+		cancelRetry();
+	};
+}
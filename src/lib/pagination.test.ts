@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { get } from 'svelte/store';
+import { createPagedStore } from './pagination';
+import type { PaginationParams } from './api';
+
+function createFetcher(total: number) {
+	const all = Array.from({ length: total }, (_, i) => i);
+	return vi.fn(async (params: PaginationParams) => {
+		const offset = params.cursor ? parseInt(params.cursor, 10) : 0;
+		const end = offset + (params.limit ?? 20);
+		return {
+			items: all.slice(offset, end),
+			nextCursor: end < total ? String(end) : null,
+			total
+		};
+	});
+}
+
+describe('createPagedStore', () => {
+	it('should append pages in order until the cursor runs out', async () => {
+		const fetcher = createFetcher(5);
+		const store = createPagedStore(fetcher, { pageSize: 2 });
+
+		await store.loadMore();
+		await store.loadMore();
+		await store.loadMore();
+
+		const state = get(store);
+		expect(state.items).toEqual([0, 1, 2, 3, 4]);
+		expect(state.total).toBe(5);
+		expect(store.hasMore()).toBe(false);
+
+		await store.loadMore();
+		expect(fetcher).toHaveBeenCalledTimes(3);
+	});
+
+	it('should collapse concurrent loadMore calls into one request', async () => {
+		const fetcher = createFetcher(10);
+		const store = createPagedStore(fetcher, { pageSize: 4 });
+
+		await Promise.all([store.loadMore(), store.loadMore()]);
+
+		expect(fetcher).toHaveBeenCalledTimes(1);
+		expect(get(store).items).toHaveLength(4);
+	});
+
+	it('should keep loaded items and expose the error when a page fails', async () => {
+		const fetcher = createFetcher(10);
+		const store = createPagedStore(fetcher, { pageSize: 4 });
+
+		await store.loadMore();
+		fetcher.mockRejectedValueOnce(new Error('Network down'));
+		await store.loadMore();
+
+		const state = get(store);
+		expect(state.items).toHaveLength(4);
+		expect(state.error).toBe('Network down');
+		expect(state.loading).toBe(false);
+	});
+
+	it('should retry the first page after it fails', async () => {
+		const fetcher = createFetcher(6);
+		const store = createPagedStore(fetcher, { pageSize: 4 });
+
+		fetcher.mockRejectedValueOnce(new Error('Network down'));
+		await store.loadMore();
+
+		expect(get(store)).toMatchObject({ started: false, error: 'Network down' });
+		expect(store.hasMore()).toBe(true);
+
+		await store.loadMore();
+
+		expect(get(store)).toMatchObject({ started: true, error: null, total: 6 });
+		expect(get(store).items).toHaveLength(4);
+		expect(fetcher).toHaveBeenLastCalledWith({ cursor: null, limit: 4 }, expect.anything());
+	});
+
+	it('should discard in-flight pages after a reset', async () => {
+		const fetcher = createFetcher(10);
+		const store = createPagedStore(fetcher, { pageSize: 4 });
+
+		const inFlight = store.loadMore();
+		store.reset();
+		await inFlight;
+
+		expect(get(store).items).toEqual([]);
+		expect(get(store).started).toBe(false);
+	});
+});
@@ -0,0 +1,126 @@
+/**
+ * Paged list store for infinite scroll
+ * Accumulates pages from any cursor-paginated fetcher in api.ts
+ */
+
+import { writable, get } from 'svelte/store';
+import type { PaginatedResult, PaginationParams } from './api';
+import { UI_CONSTANTS } from './constants';
+import { extractErrorMessage } from './components/StandardErrorHandler';
+import { isAbortedError } from './errorHandling';
+
+export interface PagedState<T> {
+	items: T[];
+	nextCursor: string | null;
+	total: number;
+	loading: boolean;
+	error: string | null;
+	/** True once a page has been requested, unless the first one failed */
+	started: boolean;
+}
+
+export interface PagedStoreOptions {
+	/** Page size sent with every request (clamped by the API layer) */
+	pageSize?: number;
+}
+
+export type PageFetcher<T> = (params: PaginationParams, signal: AbortSignal) => Promise<PaginatedResult<T>>;
+
+function initialState<T>(): PagedState<T> {
+	return {
+		items: [],
+		nextCursor: null,
+		total: 0,
+		loading: false,
+		error: null,
+		started: false
+	};
+}
+
+/**
+ * Create a store that loads pages on demand and appends them in order
+ * Concurrent loadMore calls are collapsed into one request; reset/refresh abort it
+ */
+export function createPagedStore<T>(fetchPage: PageFetcher<T>, options: PagedStoreOptions = {}) {
+	const pageSize = options.pageSize ?? UI_CONSTANTS.DEFAULT_PAGE_SIZE;
+	const store = writable<PagedState<T>>(initialState<T>());
+	const { subscribe, set, update } = store;
+
+	// Bumped on reset so responses from a previous generation are discarded
+	let generation = 0;
+	let pending: Promise<void> | null = null;
+	let controller = new AbortController();
+
+	function startNewGeneration() {
+		generation++;
+		pending = null;
+		controller.abort();
+		controller = new AbortController();
+		set(initialState<T>());
+	}
+
+	function hasMore(state: PagedState<T>): boolean {
+		return !state.started || state.nextCursor !== null;
+	}
+
+	async function loadMore(): Promise<void> {
+		if (pending) return pending;
+
+		const state = get(store);
+		if (!hasMore(state)) return;
+
+		const requestGeneration = generation;
+		update(s => ({ ...s, loading: true, error: null, started: true }));
+
+		pending = (async () => {
+			try {
+				const page = await fetchPage({ cursor: state.nextCursor, limit: pageSize }, controller.signal);
+				if (requestGeneration !== generation) return;
+
+				update(s => ({
+					...s,
+					items: [...s.items, ...page.items],
+					nextCursor: page.nextCursor,
+					total: page.total,
+					loading: false
+				}));
+			} catch (error) {
+				if (requestGeneration !== generation || isAbortedError(error)) return;
+
+				// A failed first page leaves the store unstarted so loadMore can retry it
+				update(s => ({
+					...s,
+					loading: false,
+					started: state.started,
+					error: extractErrorMessage(error, 'Failed to load more results')
+				}));
+			} finally {
+				if (requestGeneration === generation) {
+					pending = null;
+				}
+			}
+		})();
+
+		return pending;
+	}
+
+	return {
+		subscribe,
+		loadMore,
+		hasMore: () => hasMore(get(store)),
+		/** Edit loaded items in place (e.g. optimistic updates); total follows added or removed items */
+		updateItems: (updater: (items: T[]) => T[]) => update(s => {
+			const items = updater(s.items);
+			return { ...s, items, total: Math.max(0, s.total + items.length - s.items.length) };
+		}),
+		/** Abort any in-flight page and clear loaded items */
+		reset: startNewGeneration,
+		/** Reset and load the first page again */
+		refresh: async () => {
+			startNewGeneration();
+			await loadMore();
+		}
+	};
+}
+
+export type PagedStore<T> = ReturnType<typeof createPagedStore<T>>;
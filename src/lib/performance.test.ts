@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { CacheManager } from './performance';
+
+describe('CacheManager', () => {
+	it('should evict the least recently used entry when full', () => {
+		const cache = new CacheManager(2);
+		cache.set('a', 1);
+		cache.set('b', 2);
+
+		cache.get('a');
+		cache.set('c', 3);
+
+		expect(cache.has('a')).toBe(true);
+		expect(cache.has('b')).toBe(false);
+		expect(cache.has('c')).toBe(true);
+	});
+
+	it('should stay within its memory budget', () => {
+		const cache = new CacheManager(100, 100);
+		cache.set('a', 'x'.repeat(30));
+		cache.set('b', 'y'.repeat(30));
+
+		expect(cache.has('a')).toBe(false);
+		expect(cache.stats().bytes).toBeLessThanOrEqual(100);
+
+		cache.set('huge', 'z'.repeat(200));
+		expect(cache.has('huge')).toBe(false);
+		expect(cache.has('b')).toBe(true);
+	});
+
+	it('should report stale entries until the stale window ends', () => {
+		const cache = new CacheManager();
+		cache.set('key', 'value', -1, { staleWhileRevalidate: 60000, etag: '"abc"' });
+
+		expect(cache.lookup('key')).toEqual({ value: 'value', isStale: true, etag: '"abc"' });
+
+		cache.set('gone', 'value', -1);
+		expect(cache.get('gone')).toBeNull();
+	});
+});
@@ -6,55 +6,152 @@
 import { ApplicationMetrics } from './metrics';
 
 /**
- * Simple cache implementation for API responses and computed values
+ * LRU cache implementation for API responses and computed values
+ * Entries are fresh until their TTL, then stale (still servable) for the
+ * stale-while-revalidate window, then evicted. Eviction is least-recently-used,
+ * bounded by both entry count and an approximate memory budget.
  */
 interface CacheEntry<T = any> {
     value: T;
+    /** Fresh until this timestamp */
+    freshUntil: number;
+    /** Servable (stale) until this timestamp, then dropped */
     expires: number;
+    /** Approximate size in bytes */
+    size: number;
+    etag?: string;
 }
 
-class CacheManager {
+export interface CacheSetOptions {
+    /** How long past the TTL a stale value may still be served while revalidating */
+    staleWhileRevalidate?: number;
+    /** Validator from the response, sent back as If-None-Match */
+    etag?: string | null;
+}
+
+export interface CacheLookup<T> {
+    value: T;
+    isStale: boolean;
+    etag?: string;
+}
+
+/**
+ * Rough byte size of a value (UTF-16 length of its JSON form)
+ */
+function estimateSize(value: unknown): number {
+    try {
+        return (JSON.stringify(value)?.length ?? 0) * 2;
+    } catch {
+        return 1024;
+    }
+}
+
+export class CacheManager {
     private cache = new Map<string, CacheEntry>();
-    private maxSize: number = 100;
-
-    set<T>(key: string, value: T, ttl: number = 300000): void { // 5 minutes default TTL
-        // Simple LRU: remove oldest if at capacity
-        if (this.cache.size >= this.maxSize) {
-            const firstKey = this.cache.keys().next().value;
-            if (firstKey) {
-                this.cache.delete(firstKey);
-            }
-        }
+    private maxSize: number;
+    private maxBytes: number;
+    private totalBytes = 0;
+
+    constructor(maxSize: number = 100, maxBytes: number = 5 * 1024 * 1024) { // 5 MB default budget
+        this.maxSize = maxSize;
+        this.maxBytes = maxBytes;
+    }
+
+    set<T>(key: string, value: T, ttl: number = 300000, options: CacheSetOptions = {}): void { // 5 minutes default TTL
+        const size = estimateSize(value);
         
+        // Never let a single oversized value flush the whole cache
+        if (size > this.maxBytes) {
+            this.delete(key);
+            return;
+        }
+
+        this.delete(key);
+        this.evictFor(size);
+
+        const now = Date.now();
         this.cache.set(key, {
             value,
-            expires: Date.now() + ttl
+            freshUntil: now + ttl,
+            expires: now + ttl + (options.staleWhileRevalidate ?? 0),
+            size,
+            etag: options.etag ?? undefined
         });
+        this.totalBytes += size;
     }
 
     get<T>(key: string): T | null {
+        return this.lookup<T>(key)?.value ?? null;
+    }
+
+    /**
+     * Look up an entry along with its freshness and validator
+     * Counts as a use for LRU ordering
+     */
+    lookup<T>(key: string): CacheLookup<T> | null {
         const entry = this.cache.get(key);
         if (!entry) {
             ApplicationMetrics.recordCacheMiss('api');
             return null;
         }
         
-        if (Date.now() > entry.expires) {
-            this.cache.delete(key);
+        const now = Date.now();
+        if (now > entry.expires) {
+            this.delete(key);
             ApplicationMetrics.recordCacheMiss('api');
             return null;
         }
         
+        // Move to most-recently-used position
+        this.cache.delete(key);
+        this.cache.set(key, entry);
+
         ApplicationMetrics.recordCacheHit('api');
-        return entry.value;
+        return {
+            value: entry.value,
+            isStale: now > entry.freshUntil,
+            etag: entry.etag
+        };
+    }
+
+    /**
+     * Extend an entry's lifetime without replacing its value (e.g. after a 304)
+     */
+    touch(key: string, ttl: number = 300000, staleWhileRevalidate: number = 0): boolean {
+        const entry = this.cache.get(key);
+        if (!entry) return false;
+
+        const now = Date.now();
+        entry.freshUntil = now + ttl;
+        entry.expires = now + ttl + staleWhileRevalidate;
+        return true;
     }
 
     delete(key: string): boolean {
+        const entry = this.cache.get(key);
+        if (!entry) return false;
+
+        this.totalBytes -= entry.size;
         return this.cache.delete(key);
     }
 
+    /**
+     * Delete every entry whose key matches the predicate
+     * @returns Number of entries removed
+     */
+    deleteWhere(predicate: (key: string) => boolean): number {
+        let removed = 0;
+        for (const key of [...this.cache.keys()]) {
+            if (predicate(key) && this.delete(key)) {
+                removed++;
+            }
+        }
+        return removed;
+    }
+
     clear(): void {
         this.cache.clear();
+        this.totalBytes = 0;
     }
 
     has(key: string): boolean {
@@ -62,12 +159,38 @@ class CacheManager {
         if (!entry) return false;
         
         if (Date.now() > entry.expires) {
-            this.cache.delete(key);
+            this.delete(key);
             return false;
         }
         
         return true;
     }
+
+    /**
+     * Current entry count and approximate memory use
+     */
+    stats(): { entries: number; bytes: number; maxEntries: number; maxBytes: number } {
+        return {
+            entries: this.cache.size,
+            bytes: this.totalBytes,
+            maxEntries: this.maxSize,
+            maxBytes: this.maxBytes
+        };
+    }
+
+    /**
+     * Evict least-recently-used entries until there is room for an entry of the given size
+     */
+    private evictFor(size: number): void {
+        while (
+            this.cache.size > 0 &&
+            (this.cache.size >= this.maxSize || this.totalBytes + size > this.maxBytes)
+        ) {
+            const oldestKey = this.cache.keys().next().value;
+            if (oldestKey === undefined) break;
+            this.delete(oldestKey);
+        }
+    }
 }
 
 // Export a singleton cache for API responses
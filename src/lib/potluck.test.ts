@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+	claimConflict,
+	findSimilarItem,
+	normalizeItemName,
+	reassignClaim,
+	remainingQuantity,
+	setClaim,
+	summarizePotluck
+} from './potluck';
+import type { EventItem } from './api';
+
+function item(id: string, title: string, quantity?: number, claims: Array<[string, number]> = []): EventItem {
+	return {
+		id,
+		title,
+		type: 'task',
+		status: 'pending',
+		...(quantity ? { quantity } : {}),
+		claims: claims.map(([userId, amount], index) => ({
+			userId,
+			quantity: amount,
+			claimedAt: new Date(Date.UTC(2025, 6, 1, 12, index)).toISOString()
+		}))
+	};
+}
+
+const now = new Date(Date.UTC(2025, 6, 2, 9, 0));
+
+describe('findSimilarItem', () => {
+	const items = [item('cups', 'Paper Cups', 20), item('cookies', 'Cookies', 24), item('tea', 'Tea')];
+
+	it('should match names that differ only in case, plurals or punctuation', () => {
+		expect(findSimilarItem(items, 'paper cup')?.id).toBe('cups');
+		expect(findSimilarItem(items, 'COOKIE!')?.id).toBe('cookies');
+		expect(normalizeItemName('Berries')).toBe(normalizeItemName('berry'));
+	});
+
+	it('should match small typos in longer names', () => {
+		expect(findSimilarItem(items, 'Cookeis')?.id).toBe('cookies');
+		expect(findSimilarItem(items, 'Papr Cups')?.id).toBe('cups');
+	});
+
+	it('should keep short names that differ by a letter apart', () => {
+		expect(findSimilarItem(items, 'Pea')).toBeUndefined();
+		expect(findSimilarItem(items, 'Napkins')).toBeUndefined();
+	});
+
+	it('should not match an item with itself when it is renamed', () => {
+		expect(findSimilarItem(items, 'Cookie', 'cookies')).toBeUndefined();
+	});
+});
+
+describe('claims', () => {
+	it('should let members claim part of an item until it is covered', () => {
+		let cupcakes = item('cupcakes', 'Cupcakes', 12);
+		cupcakes = setClaim(cupcakes, 'ann', 5, now);
+		cupcakes = setClaim(cupcakes, 'bob', 4, now);
+
+		expect(remainingQuantity(cupcakes)).toBe(3);
+		expect(claimConflict(cupcakes, 'cat', 4)).toBe('Only 3 still need bringing');
+		expect(claimConflict(cupcakes, 'cat', 3)).toBeNull();
+	});
+
+	it('should count a member\'s own claim toward raising it', () => {
+		const cupcakes = item('cupcakes', 'Cupcakes', 12, [['ann', 5], ['bob', 7]]);
+
+		expect(claimConflict(cupcakes, 'ann', 5)).toBeNull();
+		expect(claimConflict(cupcakes, 'ann', 6)).toBe('Only 5 still need bringing');
+		expect(claimConflict(cupcakes, 'cat', 1)).toBe('Someone has already signed up for all of this');
+	});
+
+	it('should keep sign-up order when a claim changes and drop it at zero', () => {
+		const cupcakes = item('cupcakes', 'Cupcakes', 12, [['ann', 5], ['bob', 4]]);
+
+		expect(setClaim(cupcakes, 'ann', 2, now).claims?.map(claim => [claim.userId, claim.quantity])).toEqual([['ann', 2], ['bob', 4]]);
+		expect(setClaim(cupcakes, 'ann', 0, now).claims?.map(claim => claim.userId)).toEqual(['bob']);
+	});
+
+	it('should hand a claim to another member, merging with theirs', () => {
+		const cupcakes = item('cupcakes', 'Cupcakes', 12, [['ann', 5], ['bob', 4]]);
+
+		expect(reassignClaim(cupcakes, 'ann', 'bob').claims?.map(claim => [claim.userId, claim.quantity])).toEqual([['bob', 9]]);
+		expect(reassignClaim(cupcakes, 'ann', 'cat').claims?.map(claim => [claim.userId, claim.quantity])).toEqual([['bob', 4], ['cat', 5]]);
+	});
+});
+
+describe('summarizePotluck', () => {
+	it('should list what is still missing and leave out cancelled items', () => {
+		const summary = summarizePotluck([
+			item('cupcakes', 'Cupcakes', 12, [['ann', 12]]),
+			item('cups', 'Cups', 20, [['bob', 8]]),
+			item('questions', 'Discussion Questions'),
+			{ ...item('ice', 'Ice', 2), status: 'cancelled' }
+		]);
+
+		expect(summary).toEqual({
+			items: 3,
+			covered: 1,
+			missing: [
+				{ id: 'cups', title: 'Cups', remaining: 12 },
+				{ id: 'questions', title: 'Discussion Questions', remaining: 1 }
+			]
+		});
+	});
+});
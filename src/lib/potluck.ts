@@ -0,0 +1,146 @@
+/**
+ * Potluck sign-ups
+ * Organizers post what a meeting needs with a target quantity; members claim all or part of
+ * it, and organizers can hand a claim to someone else. Names are compared loosely (case,
+ * plurals, small typos) so "Cookie" and "cookies" end up as one entry.
+ */
+
+import type { EventItem, ItemClaim } from './api.generated';
+
+/**
+ * Comparison key for an item name: lowercase, singular and free of punctuation
+ * Words ending in y/ie/ies share a stem so "berry", "cookie" and "cookies" match their plurals.
+ */
+export function normalizeItemName(name: string): string {
+	return name
+		.toLowerCase()
+		.replace(/&/g, ' and ')
+		.replace(/[^\p{L}\p{N}\s]/gu, '')
+		.split(/\s+/)
+		.filter(Boolean)
+		.map(singular)
+		.join(' ');
+}
+
+function singular(word: string): string {
+	if (word.length > 4 && word.endsWith('ies')) return word.slice(0, -2);
+	if (word.length > 3 && word.endsWith('ie')) return word.slice(0, -1);
+	if (word.length > 2 && /[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}i`;
+	if (/(ches|shes|xes|zes|sses|oes)$/.test(word)) return word.slice(0, -2);
+	if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+	return word;
+}
+
+// Levenshtein distance, with adjacent swaps counted as one edit
+function editDistance(a: string, b: string): number {
+	const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+	for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+	for (let i = 1; i <= a.length; i++) {
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return rows[a.length][b.length];
+}
+
+// Short names must match exactly; "tea" and "pea" are different things
+function typoAllowance(length: number): number {
+	return length < 4 ? 0 : length < 8 ? 1 : 2;
+}
+
+/**
+ * An item that is probably the same thing as a new name, if there is one
+ * @param ignoreId - Item being renamed, so it isn't matched with itself
+ */
+export function findSimilarItem<T extends Pick<EventItem, 'id' | 'title'>>(items: T[], name: string, ignoreId?: string): T | undefined {
+	const wanted = normalizeItemName(name);
+	if (!wanted) return undefined;
+	const allowance = typoAllowance(wanted.length);
+	return items.find(item => {
+		if (item.id === ignoreId) return false;
+		const existing = normalizeItemName(item.title);
+		return existing === wanted || editDistance(existing, wanted) <= Math.min(allowance, typoAllowance(existing.length));
+	});
+}
+
+/** How many are needed; items without a quantity need one person */
+export function neededQuantity(item: Pick<EventItem, 'quantity'>): number {
+	return item.quantity ?? 1;
+}
+
+export function claimedQuantity(item: Pick<EventItem, 'claims'>): number {
+	return (item.claims ?? []).reduce((total, claim) => total + claim.quantity, 0);
+}
+
+export function remainingQuantity(item: Pick<EventItem, 'quantity' | 'claims'>): number {
+	return Math.max(0, neededQuantity(item) - claimedQuantity(item));
+}
+
+/**
+ * Why a member can't claim this many, or null when they can
+ * A member's existing claim counts toward what they may take, so raising 2 to 3 needs one free.
+ */
+export function claimConflict(item: Pick<EventItem, 'quantity' | 'claims' | 'status'>, userId: string, quantity: number): string | null {
+	if (item.status === 'cancelled') return 'This item is no longer needed';
+	const own = item.claims?.find(claim => claim.userId === userId)?.quantity ?? 0;
+	const available = remainingQuantity(item) + own;
+	if (quantity <= available) return null;
+	return available === 0
+		? 'Someone has already signed up for all of this'
+		: `Only ${available} still ${available === 1 ? 'needs' : 'need'} bringing`;
+}
+
+/**
+ * Set a member's claim; a quantity of 0 gives it up
+ * Changing an amount keeps the member's place in the sign-up order.
+ */
+export function setClaim<T extends Pick<EventItem, 'claims'>>(item: T, userId: string, quantity: number, now: Date = new Date()): T {
+	const claims = item.claims ?? [];
+	const existing = claims.find(claim => claim.userId === userId);
+	if (quantity === 0) {
+		return { ...item, claims: claims.filter(claim => claim.userId !== userId) };
+	}
+	if (existing) {
+		return { ...item, claims: claims.map(claim => claim.userId === userId ? { ...claim, quantity } : claim) };
+	}
+	return { ...item, claims: [...claims, { userId, quantity, claimedAt: now.toISOString() }] };
+}
+
+/**
+ * Hand one member's claim to another, adding to whatever the new member already claimed
+ */
+export function reassignClaim<T extends Pick<EventItem, 'claims'>>(item: T, fromUserId: string, toUserId: string): T {
+	const claims = item.claims ?? [];
+	const moving = claims.find(claim => claim.userId === fromUserId);
+	if (!moving || fromUserId === toUserId) return item;
+
+	const receiving = claims.find(claim => claim.userId === toUserId);
+	const reassigned: ItemClaim[] = claims
+		.filter(claim => claim.userId !== fromUserId)
+		.map(claim => claim.userId === toUserId ? { ...claim, quantity: claim.quantity + moving.quantity } : claim);
+	return { ...item, claims: receiving ? reassigned : [...reassigned, { ...moving, userId: toUserId }] };
+}
+
+export interface PotluckSummary {
+	/** Items still wanted */
+	items: number;
+	/** Items every portion of which someone is bringing */
+	covered: number;
+	/** What still needs a volunteer, in list order */
+	missing: Array<{ id: string; title: string; remaining: number }>;
+}
+
+/**
+ * What an event's list still needs; cancelled items are left out
+ */
+export function summarizePotluck(items: EventItem[]): PotluckSummary {
+	const wanted = items.filter(item => item.status !== 'cancelled');
+	const missing = wanted
+		.map(item => ({ id: item.id, title: item.title, remaining: remainingQuantity(item) }))
+		.filter(item => item.remaining > 0);
+	return { items: wanted.length, covered: wanted.length - missing.length, missing };
+}
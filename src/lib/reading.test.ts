@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+	applyProgressUpdate,
+	clubReadingStatus,
+	countBooksRead,
+	describeProgress,
+	nextDiscussion,
+	progressConflict,
+	type Book,
+	type ReadingProgress
+} from './reading';
+
+const novel: Book = { id: 'book-1', clubId: 'club-1', title: 'Circe', pageCount: 400, chapterCount: 20, createdAt: '2025-06-01T00:00:00.000Z' };
+const untracked: Book = { id: 'book-2', clubId: 'club-1', title: 'Essays', createdAt: '2025-06-01T00:00:00.000Z' };
+
+function entry(userId: string, bookId: string, percent: number, finishedAt: string | null = null): ReadingProgress {
+	return { userId, bookId, percent, startedAt: '2025-06-02T00:00:00.000Z', updatedAt: '2025-06-03T00:00:00.000Z', finishedAt };
+}
+
+describe('progressConflict', () => {
+	it('should accept one measure the book has a count for', () => {
+		expect(progressConflict(novel, { page: 120 })).toBeNull();
+		expect(progressConflict(novel, { chapter: 20 })).toBeNull();
+		expect(progressConflict(untracked, { percent: 50 })).toBeNull();
+		expect(progressConflict(untracked, { finished: true })).toBeNull();
+	});
+
+	it('should reject progress past the end, without a count, or given twice', () => {
+		expect(progressConflict(novel, { page: 401 })).toBe('This book only has 400 pages');
+		expect(progressConflict(untracked, { page: 10 })).toMatch(/no page count/);
+		expect(progressConflict(novel, { page: 10, percent: 5 })).toMatch(/not more than one/);
+		expect(progressConflict(novel, {})).toBe('Say how far you have read');
+	});
+});
+
+describe('applyProgressUpdate', () => {
+	const now = new Date(Date.UTC(2025, 6, 1, 12));
+
+	it('should work out the percentage from pages or chapters and keep the start date', () => {
+		const started = applyProgressUpdate(undefined, novel, 'ana', { page: 100 }, now);
+		expect(started).toMatchObject({ page: 100, percent: 25, startedAt: now.toISOString(), finishedAt: null });
+
+		const later = new Date(Date.UTC(2025, 6, 5, 12));
+		const byChapter = applyProgressUpdate(started, novel, 'ana', { chapter: 15 }, later);
+		expect(byChapter).toMatchObject({ chapter: 15, percent: 75, startedAt: now.toISOString(), updatedAt: later.toISOString() });
+		expect(byChapter.page).toBeUndefined();
+	});
+
+	it('should finish the book at 100% and un-finish it when progress goes back', () => {
+		const finished = applyProgressUpdate(undefined, novel, 'ana', { finished: true }, now);
+		expect(finished).toMatchObject({ page: 400, percent: 100, finishedAt: now.toISOString() });
+		expect(applyProgressUpdate(finished, novel, 'ana', { page: 400 }).finishedAt).toBe(now.toISOString());
+		expect(applyProgressUpdate(finished, novel, 'ana', { page: 20 }).finishedAt).toBeNull();
+	});
+});
+
+describe('countBooksRead', () => {
+	it('should count each finished book once per member', () => {
+		const done = '2025-06-10T00:00:00.000Z';
+		expect(countBooksRead([
+			entry('ana', 'book-1', 100, done),
+			entry('ana', 'book-1', 100, done),
+			entry('ana', 'book-2', 100, done),
+			entry('ben', 'book-1', 60),
+			entry('cy', 'book-2', 100, done)
+		])).toEqual({ ana: 2, cy: 1 });
+	});
+});
+
+describe('clubReadingStatus', () => {
+	it('should list members furthest along first and count who is caught up', () => {
+		const members = [{ id: 'ana', name: 'Ana' }, { id: 'ben', name: 'Ben' }, { id: 'cy', name: 'Cy' }];
+		const status = clubReadingStatus(members, [entry('ben', 'book-1', 100, '2025-06-10T00:00:00.000Z'), entry('cy', 'book-1', 40)]);
+
+		expect(status.members.map(row => [row.userId, row.caughtUp])).toEqual([['ben', true], ['cy', false], ['ana', false]]);
+		expect(status).toMatchObject({ caughtUp: 1, reading: 1, notStarted: 1 });
+		expect(clubReadingStatus(members, [entry('cy', 'book-1', 40)], 40).caughtUp).toBe(1);
+	});
+
+	it('should describe progress in the unit it was given', () => {
+		expect(describeProgress(undefined, novel)).toBe('Not started');
+		expect(describeProgress({ ...entry('ana', 'book-1', 30), page: 120 }, novel)).toBe('Page 120 of 400');
+		expect(describeProgress({ ...entry('ana', 'book-1', 50), chapter: 10 }, novel)).toBe('Chapter 10 of 20');
+		expect(describeProgress(entry('ana', 'book-2', 50), untracked)).toBe('50%');
+	});
+});
+
+describe('nextDiscussion', () => {
+	it('should find the next occurrence discussing a book, including per-occurrence books', () => {
+		const events = [
+			{ id: 'one-off', title: 'Essay Night', date: '2025-07-10T18:00:00.000Z', bookId: 'book-2' },
+			{
+				id: 'circle',
+				title: 'Book Circle',
+				date: '2025-07-03T18:00:00.000Z',
+				rrule: 'FREQ=WEEKLY',
+				bookId: 'book-2',
+				exceptions: [{ originalDate: '2025-07-17', bookId: 'book-1' }]
+			}
+		];
+		const after = new Date(Date.UTC(2025, 6, 1));
+
+		expect(nextDiscussion(events, 'book-1', after)?.start.toISOString()).toBe('2025-07-17T18:00:00.000Z');
+		expect(nextDiscussion(events, 'book-2', after)?.id).toBe('circle');
+		expect(nextDiscussion(events, 'book-3', after)).toBeNull();
+	});
+});
@@ -0,0 +1,147 @@
+/**
+ * Reading progress
+ * Members report how far they are through a club book by page, chapter or percent. A book
+ * counts towards a member's booksRead once their progress reaches the end, and the club view
+ * shows who is caught up before the meeting that discusses it.
+ */
+
+import type { Book, ReadingProgress, ReadingProgressUpdate } from './api.generated';
+import { expandEvents, type RecurringEvent, type Occurrence } from './recurrence';
+
+export type { Book, ReadingProgress, ReadingProgressUpdate };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Why an update can't be recorded for a book, or null when it can
+ */
+export function progressConflict(book: Pick<Book, 'pageCount' | 'chapterCount'>, update: ReadingProgressUpdate): string | null {
+	const given = [update.page, update.chapter, update.percent].filter(value => value !== undefined).length;
+	if (given > 1) return 'Give a page, a chapter or a percentage, not more than one';
+	if (given === 0 && !update.finished) return 'Say how far you have read';
+	if (update.page !== undefined && !book.pageCount) return 'This book has no page count; give a percentage instead';
+	if (update.chapter !== undefined && !book.chapterCount) return 'This book has no chapter count; give a percentage instead';
+	if (update.page !== undefined && book.pageCount && update.page > book.pageCount) {
+		return `This book only has ${book.pageCount} pages`;
+	}
+	if (update.chapter !== undefined && book.chapterCount && update.chapter > book.chapterCount) {
+		return `This book only has ${book.chapterCount} chapters`;
+	}
+	return null;
+}
+
+/**
+ * Share of a book an update amounts to, rounded to a whole percent
+ */
+export function progressPercent(book: Pick<Book, 'pageCount' | 'chapterCount'>, update: ReadingProgressUpdate): number {
+	if (update.finished) return 100;
+	const fraction = update.page !== undefined && book.pageCount ? update.page / book.pageCount
+		: update.chapter !== undefined && book.chapterCount ? update.chapter / book.chapterCount
+		: (update.percent ?? 0) / 100;
+	return Math.round(Math.min(1, Math.max(0, fraction)) * 100);
+}
+
+/**
+ * A member's progress after an update; check it with progressConflict first
+ * Reaching 100% finishes the book, and going back below it (a re-read) un-finishes it.
+ */
+export function applyProgressUpdate(
+	previous: ReadingProgress | undefined,
+	book: Pick<Book, 'id' | 'pageCount' | 'chapterCount'>,
+	userId: string,
+	update: ReadingProgressUpdate,
+	now: Date = new Date()
+): ReadingProgress {
+	const at = now.toISOString();
+	const percent = progressPercent(book, update);
+	const finished = percent === 100;
+	return {
+		userId,
+		bookId: book.id,
+		...(update.page !== undefined ? { page: update.page } : {}),
+		...(update.chapter !== undefined ? { chapter: update.chapter } : {}),
+		...(update.finished && book.pageCount ? { page: book.pageCount } : {}),
+		percent,
+		startedAt: previous?.startedAt ?? at,
+		updatedAt: at,
+		finishedAt: finished ? previous?.finishedAt ?? at : null
+	};
+}
+
+/**
+ * "Page 120 of 320", "Chapter 5 of 20", "45%" or "Finished"
+ */
+export function describeProgress(progress: ReadingProgress | undefined, book: Pick<Book, 'pageCount' | 'chapterCount'>): string {
+	if (!progress) return 'Not started';
+	if (progress.finishedAt) return 'Finished';
+	if (progress.page !== undefined && book.pageCount) return `Page ${progress.page} of ${book.pageCount}`;
+	if (progress.chapter !== undefined && book.chapterCount) return `Chapter ${progress.chapter} of ${book.chapterCount}`;
+	return `${progress.percent}%`;
+}
+
+/**
+ * Books each member has finished, by user ID; members who finished none are left out
+ */
+export function countBooksRead(progress: ReadingProgress[]): Record<string, number> {
+	const finished = new Map<string, Set<string>>();
+	for (const entry of progress) {
+		if (!entry.finishedAt) continue;
+		finished.set(entry.userId, (finished.get(entry.userId) ?? new Set()).add(entry.bookId));
+	}
+	return Object.fromEntries([...finished].map(([userId, books]) => [userId, books.size]));
+}
+
+export interface MemberReadingStatus {
+	userId: string;
+	name: string;
+	progress?: ReadingProgress;
+	percent: number;
+	caughtUp: boolean;
+}
+
+export interface ClubReadingStatus {
+	/** Furthest along first, then by name */
+	members: MemberReadingStatus[];
+	caughtUp: number;
+	reading: number;
+	notStarted: number;
+}
+
+/**
+ * Where every member is with a book
+ * @param targetPercent - How far members need to be to count as caught up; the whole book by default
+ */
+export function clubReadingStatus(
+	members: Array<{ id: string; name: string }>,
+	progress: ReadingProgress[],
+	targetPercent = 100
+): ClubReadingStatus {
+	const byUser = new Map(progress.map(entry => [entry.userId, entry]));
+	const rows = members.map(member => {
+		const entry = byUser.get(member.id);
+		const percent = entry?.percent ?? 0;
+		return {
+			userId: member.id,
+			name: member.name,
+			...(entry ? { progress: entry } : {}),
+			percent,
+			caughtUp: entry?.finishedAt != null || (entry !== undefined && percent >= targetPercent)
+		};
+	}).sort((a, b) => b.percent - a.percent || a.name.localeCompare(b.name));
+
+	const caughtUp = rows.filter(row => row.caughtUp).length;
+	const notStarted = rows.filter(row => !row.progress).length;
+	return { members: rows, caughtUp, reading: rows.length - caughtUp - notStarted, notStarted };
+}
+
+/**
+ * The next meeting discussing a book, looking up to a year ahead
+ */
+export function nextDiscussion<T extends RecurringEvent & { bookId?: string | null }>(
+	events: T[],
+	bookId: string,
+	after: Date = new Date()
+): Occurrence<T> | null {
+	const occurrences = expandEvents(events, after, new Date(after.getTime() + 366 * DAY_MS));
+	return occurrences.find(occurrence => occurrence.bookId === bookId) ?? null;
+}
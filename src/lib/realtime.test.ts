@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { get } from 'svelte/store';
+import { createRealtimeClient } from './realtime';
+import { fetchAvailability, fetchClubMembers, fetchEventItems, invalidateApiCache } from './api';
+import { currentClub, clubMembers, eventItems, meetingAvailability, chatMessages, notifications, scheduleEvents, user } from './stores';
+import { TIME_CONSTANTS } from './constants';
+
+vi.mock('$app/environment', () => ({
+	browser: false,
+	dev: true,
+	building: false,
+	version: 'test'
+}));
+
+/**
+ * In-memory stand-in for a WebSocket server connection
+ */
+class FakeSocket {
+	readyState = 0;
+	sent: any[] = [];
+	onopen: (() => void) | null = null;
+	onmessage: ((event: { data: string }) => void) | null = null;
+	onclose: (() => void) | null = null;
+	onerror: (() => void) | null = null;
+
+	send(data: string) {
+		this.sent.push(JSON.parse(data));
+	}
+
+	close() {
+		this.readyState = 3;
+		this.onclose?.();
+	}
+
+	serverOpen() {
+		this.readyState = 1;
+		this.onopen?.();
+	}
+
+	serverSend(message: unknown) {
+		this.onmessage?.({ data: JSON.stringify(message) });
+	}
+}
+
+async function flush() {
+	await vi.advanceTimersByTimeAsync(0);
+}
+
+describe('realtime client', () => {
+	let sockets: FakeSocket[];
+	let client: ReturnType<typeof createRealtimeClient>;
+
+	async function connectAndAuthenticate() {
+		client.connect();
+		const socket = sockets[sockets.length - 1];
+		socket.serverOpen();
+		await flush();
+		socket.serverSend({ type: 'auth_ok' });
+		return socket;
+	}
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		sockets = [];
+		currentClub.set({ id: 'club-1', name: 'Test Club', memberCount: 0, createdAt: '2025-01-01' } as any);
+		clubMembers.set([]);
+		eventItems.set({});
+		meetingAvailability.set({});
+		chatMessages.set([]);
+		notifications.set([]);
+		user.set(null);
+		client = createRealtimeClient({
+			url: 'ws://realtime.test',
+			createSocket: () => {
+				const socket = new FakeSocket();
+				sockets.push(socket);
+				return socket as unknown as WebSocket;
+			},
+			getToken: async () => 'token-123'
+		});
+	});
+
+	afterEach(() => {
+		client.disconnect();
+		vi.useRealTimers();
+	});
+
+	it('should authenticate and subscribe to the current club', async () => {
+		const socket = await connectAndAuthenticate();
+
+		expect(socket.sent).toEqual([
+			{ type: 'auth', token: 'token-123' },
+			{ type: 'subscribe', clubId: 'club-1' }
+		]);
+		expect(get(client.status)).toBe('open');
+	});
+
+	it('should push server updates into the matching stores', async () => {
+		const socket = await connectAndAuthenticate();
+		const item = { id: 'item-1', title: 'Lemonade', type: 'task', status: 'pending', quantity: 2, claims: [] };
+		const claimed = { ...item, claims: [{ userId: 'user-2', quantity: 2, claimedAt: '2025-01-01T00:00:00Z' }] };
+
+		socket.serverSend({ type: 'availability.updated', eventId: 'event-1', userId: 'user-2', userName: 'Jane', status: 'available' });
+		socket.serverSend({ type: 'event_item.added', eventId: 'event-1', item });
+		socket.serverSend({ type: 'event_item.added', eventId: 'event-1', item });
+		socket.serverSend({
+			type: 'member.upserted',
+			clubId: 'club-1',
+			member: { id: 'm-1', name: 'Jane', email: 'jane@example.com', role: 'member', isActive: true, createdAt: '2025-01-01', joinDate: '2025-01-01', status: 'active' }
+		});
+		socket.serverSend({ type: 'chat.message', message: { id: 'c-1', message: 'Hi', sender: 'support', timestamp: '2025-01-01T00:00:00Z' } });
+
+		expect(get(meetingAvailability)['event-1'].responses['user-2']).toEqual({ name: 'Jane', status: 'available' });
+		expect(get(eventItems)['event-1']).toEqual([item]);
+
+		socket.serverSend({ type: 'event_item.updated', eventId: 'event-1', item: claimed });
+		expect(get(eventItems)['event-1']).toEqual([claimed]);
+		socket.serverSend({ type: 'event_item.removed', eventId: 'event-1', itemId: 'item-1' });
+		expect(get(eventItems)['event-1']).toEqual([]);
+		expect(get(clubMembers).map(member => member.id)).toEqual(['m-1']);
+		expect(get(chatMessages)).toHaveLength(1);
+
+		socket.serverSend({ type: 'member.removed', clubId: 'club-1', memberId: 'm-1' });
+		expect(get(clubMembers)).toEqual([]);
+	});
+
+	it('should tell a waitlisted member when someone else\'s answer gives them a seat', async () => {
+		const socket = await connectAndAuthenticate();
+		user.set({ id: 'user-3', name: 'Sam' } as any);
+		scheduleEvents.set([{ id: 'event-1', title: 'Book Circle' } as any]);
+		meetingAvailability.set({
+			'event-1': {
+				userId: 'user-3',
+				status: 'available',
+				waitlisted: true,
+				responses: {
+					'user-2': { name: 'Jane', status: 'available' },
+					'user-3': { name: 'Sam', status: 'available', waitlisted: true }
+				}
+			}
+		});
+
+		socket.serverSend({ type: 'availability.updated', eventId: 'event-1', userId: 'user-2', userName: 'Jane', status: 'unavailable', promoted: ['user-3'] });
+
+		const entry = get(meetingAvailability)['event-1'];
+		expect(entry.waitlisted).toBe(false);
+		expect(entry.responses['user-3']).toEqual({ name: 'Sam', status: 'available' });
+		expect(get(notifications)).toMatchObject([{
+			title: 'You have a seat',
+			message: expect.stringContaining('Book Circle'),
+			link: '/clubs/club-1/availability'
+		}]);
+
+		// Other members' promotions only update the list
+		socket.serverSend({ type: 'availability.updated', eventId: 'event-1', userId: 'user-4', userName: 'Lee', status: 'available', waitlisted: true });
+		socket.serverSend({ type: 'availability.updated', eventId: 'event-1', userId: 'user-3', status: 'unavailable', promoted: ['user-4'] });
+		expect(get(meetingAvailability)['event-1'].responses['user-4']).toEqual({ name: 'Lee', status: 'available' });
+		expect(get(notifications)).toHaveLength(1);
+	});
+
+	it('should drop cached responses for whatever a push changed', async () => {
+		const socket = await connectAndAuthenticate();
+		invalidateApiCache();
+		const fetchMock = vi.fn(async (url: string) => new Response(url.endsWith('/availability') ? '{}' : '[]', { status: 200 }));
+		const originalFetch = globalThis.fetch;
+		globalThis.fetch = fetchMock as unknown as typeof fetch;
+
+		try {
+			await fetchEventItems('event-1');
+			await fetchAvailability('event-1');
+			await fetchClubMembers('club-1');
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+
+			// Still cached until a push says otherwise
+			await fetchEventItems('event-1');
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+
+			socket.serverSend({ type: 'event_item.removed', eventId: 'event-1', itemId: 'item-1' });
+			socket.serverSend({ type: 'availability.updated', eventId: 'event-1', userId: 'user-2', status: 'maybe' });
+			socket.serverSend({ type: 'member.removed', clubId: 'club-1', memberId: 'm-1' });
+
+			await fetchEventItems('event-1');
+			await fetchAvailability('event-1');
+			await fetchClubMembers('club-1');
+			expect(fetchMock.mock.calls.slice(3).map(([url]) => url)).toEqual([
+				expect.stringMatching(/\/events\/event-1\/items$/),
+				expect.stringMatching(/\/events\/event-1\/availability$/),
+				expect.stringMatching(/\/club\/club-1\/members$/)
+			]);
+		} finally {
+			globalThis.fetch = originalFetch;
+		}
+	});
+
+	it('should reconnect with backoff after the connection drops', async () => {
+		const socket = await connectAndAuthenticate();
+
+		socket.close();
+		expect(get(client.status)).toBe('reconnecting');
+		expect(sockets).toHaveLength(1);
+
+		await vi.advanceTimersByTimeAsync(TIME_CONSTANTS.WS_RECONNECT_BASE_DELAY * 1.1);
+		expect(sockets).toHaveLength(2);
+	});
+
+	it('should reconnect when a ping goes unanswered', async () => {
+		const socket = await connectAndAuthenticate();
+
+		await vi.advanceTimersByTimeAsync(TIME_CONSTANTS.WS_HEARTBEAT_INTERVAL);
+		expect(socket.sent.at(-1)).toEqual({ type: 'ping' });
+
+		await vi.advanceTimersByTimeAsync(TIME_CONSTANTS.WS_HEARTBEAT_TIMEOUT);
+		expect(socket.readyState).toBe(3);
+		expect(get(client.status)).toBe('reconnecting');
+	});
+
+	it('should stop reconnecting when authentication is rejected', async () => {
+		client.connect();
+		sockets[0].serverOpen();
+		await flush();
+		sockets[0].serverSend({ type: 'auth_error', message: 'Token expired' });
+
+		await vi.advanceTimersByTimeAsync(TIME_CONSTANTS.WS_RECONNECT_MAX_DELAY);
+		expect(sockets).toHaveLength(1);
+		expect(get(client.status)).toBe('closed');
+	});
+});
@@ -0,0 +1,426 @@
+/**
+ * Realtime club updates over WebSocket
+ * Connects to VITE_WS_BASE, authenticates with the session token, subscribes to the
+ * current club and applies pushed changes to the matching stores. Dropped connections
+ * are retried with exponential backoff; a ping/pong heartbeat detects dead sockets.
+ */
+
+import { writable, get } from 'svelte/store';
+import { z } from 'zod';
+import { browser } from '$app/environment';
+import { backendUrl, getAuthToken, invalidateApiCache } from './api';
+import { EventItemSchema, paths } from './api.generated';
+import { getWebSocketConfig, isDevelopment } from './env';
+import { TIME_CONSTANTS } from './constants';
+import { promotionNotification } from './rsvp';
+import {
+	meetingAvailability,
+	eventItems,
+	clubMembers,
+	chatMessages,
+	currentClub,
+	notifications,
+	scheduleEvents,
+	user,
+	type ClubMember
+} from './stores';
+
+/**
+ * Messages pushed by the server
+ */
+const ServerMessageSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('auth_ok') }),
+	z.object({ type: z.literal('auth_error'), message: z.string().optional() }),
+	z.object({ type: z.literal('pong') }),
+	z.object({
+		type: z.literal('availability.updated'),
+		eventId: z.string().min(1),
+		userId: z.string().min(1),
+		userName: z.string().optional(),
+		status: z.enum(['available', 'unavailable', 'maybe']),
+		note: z.string().optional(),
+		/** The member said available but the event is full */
+		waitlisted: z.boolean().optional(),
+		/** Members the change moved from the waitlist to a seat */
+		promoted: z.array(z.string().min(1)).optional()
+	}),
+	z.object({
+		type: z.literal('event_item.added'),
+		eventId: z.string().min(1),
+		item: EventItemSchema
+	}),
+	z.object({
+		type: z.literal('event_item.updated'),
+		eventId: z.string().min(1),
+		item: EventItemSchema
+	}),
+	z.object({
+		type: z.literal('event_item.removed'),
+		eventId: z.string().min(1),
+		itemId: z.string().min(1)
+	}),
+	z.object({
+		type: z.literal('member.upserted'),
+		clubId: z.string().min(1),
+		member: z.object({
+			id: z.string().min(1),
+			name: z.string(),
+			email: z.string(),
+			role: z.enum(['admin', 'moderator', 'member', 'guest']),
+			isActive: z.boolean(),
+			createdAt: z.string(),
+			joinDate: z.string(),
+			status: z.enum(['active', 'inactive', 'pending'])
+		}).passthrough()
+	}),
+	z.object({
+		type: z.literal('member.removed'),
+		clubId: z.string().min(1),
+		memberId: z.string().min(1)
+	}),
+	z.object({
+		type: z.literal('chat.message'),
+		message: z.object({
+			id: z.string().min(1),
+			message: z.string(),
+			sender: z.enum(['user', 'support']),
+			timestamp: z.string()
+		})
+	})
+]);
+
+type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+type ClientMessage =
+	| { type: 'auth'; token: string | null }
+	| { type: 'subscribe'; clubId: string }
+	| { type: 'unsubscribe'; clubId: string }
+	| { type: 'ping' };
+
+export type RealtimeStatus = 'idle' | 'connecting' | 'authenticating' | 'open' | 'reconnecting' | 'closed';
+
+export interface RealtimeClientOptions {
+	/** WebSocket endpoint; defaults to VITE_WS_BASE */
+	url?: string | null;
+	/** Socket factory, replaceable for tests */
+	createSocket?: (url: string) => WebSocket;
+	/** Token sent in the auth handshake */
+	getToken?: () => Promise<string | null>;
+}
+
+/**
+ * Apply a pushed change to the matching store
+ * Cached responses for the resource are dropped too, so a page that fetches it again doesn't
+ * overwrite the pushed change with the copy from before it.
+ */
+function applyServerMessage(message: ServerMessage): void {
+	switch (message.type) {
+		case 'availability.updated': {
+			invalidateApiCache(backendUrl(paths.getEventAvailability({ eventId: message.eventId })));
+			const { status, note, waitlisted } = message;
+			const promoted = message.promoted ?? [];
+			const name = message.userName
+				?? get(clubMembers).find(member => member.id === message.userId)?.name
+				?? 'Member';
+			const userId = get(user)?.id;
+			const seated = userId !== undefined && promoted.includes(userId);
+
+			meetingAvailability.update(availability => {
+				const current = availability[message.eventId] ?? { userId: '', status: null, responses: {} };
+				const own = current.userId === message.userId;
+				const responses = {
+					...current.responses,
+					[message.userId]: { name, status, ...(note ? { note } : {}), ...(waitlisted ? { waitlisted } : {}) }
+				};
+				for (const promotedId of promoted) {
+					if (!responses[promotedId]) continue;
+					const { waitlisted: _waiting, ...response } = responses[promotedId];
+					responses[promotedId] = response;
+				}
+				return {
+					...availability,
+					[message.eventId]: {
+						...current,
+						// Our own answer changed from another tab or device
+						status: own ? status : current.status,
+						note: own ? note : current.note,
+						waitlisted: own ? waitlisted : seated ? false : current.waitlisted,
+						responses
+					}
+				};
+			});
+
+			// Someone dropped out and we're off the waitlist, whichever page is open
+			const clubId = get(currentClub)?.id;
+			if (seated && clubId) {
+				const title = get(scheduleEvents).find(event => event.id === message.eventId)?.title ?? 'your meeting';
+				notifications.update(list => [promotionNotification(clubId, message.eventId, title), ...list]);
+			}
+			break;
+		}
+		case 'event_item.added':
+			invalidateApiCache(backendUrl(paths.listEventItems({ eventId: message.eventId })));
+			eventItems.update(items => {
+				const list = items[message.eventId] ?? [];
+				// Our own additions arrive here too
+				if (list.some(item => item.id === message.item.id)) return items;
+				return { ...items, [message.eventId]: [...list, message.item] };
+			});
+			break;
+		case 'event_item.updated':
+			invalidateApiCache(backendUrl(paths.listEventItems({ eventId: message.eventId })));
+			// Claims and edits made by other members
+			eventItems.update(items => ({
+				...items,
+				[message.eventId]: (items[message.eventId] ?? []).map(item => item.id === message.item.id ? message.item : item)
+			}));
+			break;
+		case 'event_item.removed':
+			invalidateApiCache(backendUrl(paths.listEventItems({ eventId: message.eventId })));
+			eventItems.update(items => ({
+				...items,
+				[message.eventId]: (items[message.eventId] ?? []).filter(item => item.id !== message.itemId)
+			}));
+			break;
+		case 'member.upserted': {
+			invalidateApiCache(backendUrl(paths.listClubMembers({ clubId: message.clubId })));
+			if (message.clubId !== get(currentClub)?.id) break;
+			const member = message.member as ClubMember;
+			clubMembers.update(members => members.some(existing => existing.id === member.id)
+				? members.map(existing => existing.id === member.id ? { ...existing, ...member } : existing)
+				: [...members, member]);
+			break;
+		}
+		case 'member.removed':
+			invalidateApiCache(backendUrl(paths.listClubMembers({ clubId: message.clubId })));
+			if (message.clubId !== get(currentClub)?.id) break;
+			clubMembers.update(members => members.filter(member => member.id !== message.memberId));
+			break;
+		case 'chat.message':
+			chatMessages.update(messages => messages.some(existing => existing.id === message.message.id)
+				? messages
+				: [...messages, message.message]);
+			break;
+	}
+}
+
+/**
+ * Exponential backoff with 10% jitter
+ */
+function calculateReconnectDelay(attempt: number): number {
+	const delay = TIME_CONSTANTS.WS_RECONNECT_BASE_DELAY * Math.pow(2, attempt);
+	const jitter = Math.random() * 0.1 * delay;
+	return Math.min(delay + jitter, TIME_CONSTANTS.WS_RECONNECT_MAX_DELAY);
+}
+
+/**
+ * Create a realtime client
+ * Nothing connects until connect() is called; disconnect() stops reconnecting
+ */
+export function createRealtimeClient(options: RealtimeClientOptions = {}) {
+	const status = writable<RealtimeStatus>('idle');
+	const createSocket = options.createSocket ?? ((url: string) => new WebSocket(url));
+	const getToken = options.getToken ?? getAuthToken;
+
+	let url: string | null = null;
+	let socket: WebSocket | null = null;
+	let running = false;
+	let authenticated = false;
+	let reconnectAttempt = 0;
+	let subscribedClubId: string | null = null;
+	let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+	let pongTimer: ReturnType<typeof setTimeout> | null = null;
+	let stopWatchingClub: (() => void) | null = null;
+
+	function send(message: ClientMessage): void {
+		if (socket?.readyState === WebSocket.OPEN) {
+			socket.send(JSON.stringify(message));
+		}
+	}
+
+	function syncClubSubscription(clubId: string | null): void {
+		if (!authenticated || clubId === subscribedClubId) return;
+
+		if (subscribedClubId) {
+			send({ type: 'unsubscribe', clubId: subscribedClubId });
+		}
+		if (clubId) {
+			send({ type: 'subscribe', clubId });
+		}
+		subscribedClubId = clubId;
+	}
+
+	function stopHeartbeat(): void {
+		if (heartbeatTimer) clearInterval(heartbeatTimer);
+		if (pongTimer) clearTimeout(pongTimer);
+		heartbeatTimer = null;
+		pongTimer = null;
+	}
+
+	function startHeartbeat(ws: WebSocket): void {
+		stopHeartbeat();
+		heartbeatTimer = setInterval(() => {
+			if (pongTimer) return;
+			send({ type: 'ping' });
+			pongTimer = setTimeout(() => {
+				// No pong - the connection is dead even if the socket has not noticed
+				if (isDevelopment()) {
+					console.warn('[Realtime] Heartbeat timed out, reconnecting');
+				}
+				ws.close(4000, 'Heartbeat timeout');
+			}, TIME_CONSTANTS.WS_HEARTBEAT_TIMEOUT);
+		}, TIME_CONSTANTS.WS_HEARTBEAT_INTERVAL);
+	}
+
+	function handleMessage(data: unknown): void {
+		let parsed: ServerMessage;
+		try {
+			const result = ServerMessageSchema.safeParse(JSON.parse(String(data)));
+			if (!result.success) {
+				if (isDevelopment()) {
+					console.warn('[Realtime] Ignoring unrecognised message:', data);
+				}
+				return;
+			}
+			parsed = result.data;
+		} catch {
+			return;
+		}
+
+		switch (parsed.type) {
+			case 'auth_ok':
+				authenticated = true;
+				reconnectAttempt = 0;
+				status.set('open');
+				if (socket) startHeartbeat(socket);
+				syncClubSubscription(get(currentClub)?.id ?? null);
+				break;
+			case 'auth_error':
+				// A rejected token will not get better by retrying
+				console.warn('[Realtime] Authentication rejected:', parsed.message);
+				disconnect();
+				break;
+			case 'pong':
+				if (pongTimer) clearTimeout(pongTimer);
+				pongTimer = null;
+				break;
+			default:
+				applyServerMessage(parsed);
+		}
+	}
+
+	function scheduleReconnect(): void {
+		const delay = calculateReconnectDelay(reconnectAttempt++);
+		status.set('reconnecting');
+		if (isDevelopment()) {
+			console.log(`[Realtime] Reconnecting in ${Math.round(delay)}ms (attempt ${reconnectAttempt})`);
+		}
+		reconnectTimer = setTimeout(() => {
+			reconnectTimer = null;
+			openSocket();
+		}, delay);
+	}
+
+	function openSocket(): void {
+		if (!url) return;
+
+		status.set(reconnectAttempt === 0 ? 'connecting' : 'reconnecting');
+		authenticated = false;
+		subscribedClubId = null;
+
+		const ws = createSocket(url);
+		socket = ws;
+
+		ws.onopen = async () => {
+			if (socket !== ws) return;
+			status.set('authenticating');
+			const token = await getToken();
+			if (socket !== ws) return;
+			send({ type: 'auth', token });
+		};
+		ws.onmessage = event => {
+			if (socket === ws) handleMessage(event.data);
+		};
+		ws.onerror = () => {
+			// A close event always follows; reconnection is handled there
+			if (isDevelopment()) {
+				console.warn('[Realtime] Connection error');
+			}
+		};
+		ws.onclose = () => {
+			if (socket !== ws) return;
+			socket = null;
+			authenticated = false;
+			stopHeartbeat();
+			if (running) {
+				scheduleReconnect();
+			} else {
+				status.set('closed');
+			}
+		};
+	}
+
+	// Skip the remaining backoff as soon as the browser is back online
+	function handleOnline(): void {
+		if (!running || !reconnectTimer) return;
+		clearTimeout(reconnectTimer);
+		reconnectTimer = null;
+		openSocket();
+	}
+
+	/**
+	 * Start connecting; does nothing if already running or VITE_WS_BASE is not set
+	 */
+	function connect(): void {
+		if (running) return;
+
+		url = options.url !== undefined ? options.url : getWebSocketConfig().baseUrl;
+		if (!url) {
+			if (isDevelopment()) {
+				console.log('[Realtime] VITE_WS_BASE not set, realtime updates disabled');
+			}
+			return;
+		}
+
+		running = true;
+		reconnectAttempt = 0;
+		stopWatchingClub = currentClub.subscribe(club => syncClubSubscription(club?.id ?? null));
+		if (browser) {
+			window.addEventListener('online', handleOnline);
+		}
+		openSocket();
+	}
+
+	/**
+	 * Close the connection and stop reconnecting
+	 */
+	function disconnect(): void {
+		running = false;
+		authenticated = false;
+		subscribedClubId = null;
+		stopHeartbeat();
+		if (reconnectTimer) clearTimeout(reconnectTimer);
+		reconnectTimer = null;
+		stopWatchingClub?.();
+		stopWatchingClub = null;
+		if (browser) {
+			window.removeEventListener('online', handleOnline);
+		}
+
+		const ws = socket;
+		socket = null;
+		ws?.close(1000, 'Client disconnect');
+		status.set('closed');
+	}
+
+	return {
+		status: { subscribe: status.subscribe },
+		connect,
+		disconnect
+	};
+}
+
+export type RealtimeClient = ReturnType<typeof createRealtimeClient>;
+
+export const realtime = createRealtimeClient();
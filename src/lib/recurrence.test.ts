@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import {
+	parseRRule,
+	formatRRule,
+	expandEvent,
+	editOccurrence,
+	cancelOccurrence,
+	describeRecurrence,
+	rulePreset,
+	toDateKey,
+	type RecurringEvent
+} from './recurrence';
+
+/** Local time, so results don't depend on the machine's time zone */
+function local(year: number, month: number, day: number, hours = 19, minutes = 0): Date {
+	return new Date(year, month - 1, day, hours, minutes);
+}
+
+function series(overrides: Partial<RecurringEvent> = {}): RecurringEvent {
+	return {
+		id: 'event-1',
+		title: 'Book Circle',
+		location: 'Library',
+		// Tuesday 8 July 2025, 19:00
+		date: local(2025, 7, 8).toISOString(),
+		rrule: 'FREQ=MONTHLY;BYDAY=2TU',
+		...overrides
+	};
+}
+
+function dates(event: RecurringEvent, from: Date, to: Date): string[] {
+	return expandEvent(event, from, to).map(occurrence => toDateKey(occurrence.start));
+}
+
+describe('RRULE parsing', () => {
+	it('should round-trip the supported parts', () => {
+		const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10');
+
+		expect(rule).toEqual({
+			freq: 'WEEKLY',
+			interval: 2,
+			byDay: [{ day: 'TU' }, { day: 'TH' }],
+			count: 10
+		});
+		expect(formatRRule(rule)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH;COUNT=10');
+		expect(parseRRule('FREQ=MONTHLY;BYDAY=-1FR').byDay).toEqual([{ day: 'FR', ordinal: -1 }]);
+		expect(formatRRule(parseRRule('FREQ=DAILY;UNTIL=20250301T120000Z'))).toBe('FREQ=DAILY;UNTIL=20250301T120000Z');
+	});
+
+	it('should reject rules outside the supported subset', () => {
+		expect(() => parseRRule('INTERVAL=2')).toThrow('FREQ');
+		expect(() => parseRRule('FREQ=MONTHLY;BYMONTHDAY=15')).toThrow('not supported');
+		expect(() => parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20250101')).toThrow('both');
+		expect(() => parseRRule('FREQ=WEEKLY;BYDAY=XX')).toThrow('BYDAY');
+	});
+
+	it('should describe rules for people', () => {
+		expect(describeRecurrence(parseRRule('FREQ=MONTHLY;BYDAY=2TU'))).toBe('Monthly on the second Tuesday');
+		expect(describeRecurrence(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=6'))).toBe('Every 2 weeks on Monday and Wednesday, 6 times');
+		expect(rulePreset('FREQ=WEEKLY;INTERVAL=2;BYDAY=TU', local(2025, 7, 8))).toBe('biweekly');
+		expect(rulePreset('FREQ=MONTHLY;BYDAY=2TU;UNTIL=20251231', local(2025, 7, 8))).toBe('monthly-weekday');
+		expect(rulePreset('FREQ=WEEKLY;BYDAY=MO,WE', local(2025, 7, 8))).toBe('custom');
+	});
+});
+
+describe('expandEvent', () => {
+	it('should place monthly occurrences on the nth weekday at the series time', () => {
+		const occurrences = expandEvent(series(), local(2025, 8, 1, 0), local(2025, 11, 1, 0));
+
+		expect(occurrences.map(occurrence => toDateKey(occurrence.start))).toEqual(['2025-08-12', '2025-09-09', '2025-10-14']);
+		expect(occurrences.every(occurrence => occurrence.start.getHours() === 19)).toBe(true);
+		expect(occurrences[0]).toMatchObject({ id: 'event-1', occurrenceId: 'event-1:2025-08-12', recurring: true, moved: false });
+	});
+
+	it('should stop after COUNT or UNTIL and skip months without the date', () => {
+		const biweekly = series({ date: local(2025, 1, 7).toISOString(), rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=3' });
+		expect(dates(biweekly, local(2025, 1, 1), local(2026, 1, 1))).toEqual(['2025-01-07', '2025-01-21', '2025-02-04']);
+
+		const monthEnd = series({ date: local(2025, 1, 31).toISOString(), rrule: 'FREQ=MONTHLY;UNTIL=20250531' });
+		expect(dates(monthEnd, local(2025, 1, 1), local(2026, 1, 1))).toEqual(['2025-01-31', '2025-03-31', '2025-05-31']);
+	});
+
+	it('should apply cancelled and moved occurrences', () => {
+		const event = series({
+			exceptions: [
+				{ originalDate: '2025-08-12', cancelled: true },
+				// Moved from November into October
+				{ originalDate: '2025-11-11', date: local(2025, 10, 30).toISOString(), title: 'Halloween Special' }
+			]
+		});
+		const occurrences = expandEvent(event, local(2025, 8, 1, 0), local(2025, 11, 1, 0));
+
+		expect(occurrences.map(occurrence => toDateKey(occurrence.start))).toEqual(['2025-09-09', '2025-10-14', '2025-10-30']);
+		expect(occurrences[2]).toMatchObject({ title: 'Halloween Special', originalDate: '2025-11-11', moved: true });
+		expect(dates(event, local(2025, 11, 1, 0), local(2025, 12, 1, 0))).toEqual([]);
+	});
+
+	it('should keep the wall-clock time of the series zone across daylight-saving changes', () => {
+		// Tuesdays at 19:00 in New York, whatever zone the tests run in; clocks go back on 2 November
+		const event = series({ date: '2025-10-28T23:00:00.000Z', timeZone: 'America/New_York', rrule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=2' });
+		const occurrences = expandEvent(event, new Date('2025-10-01T00:00:00Z'), new Date('2025-12-01T00:00:00Z'));
+
+		expect(occurrences.map(occurrence => occurrence.start.toISOString()))
+			.toEqual(['2025-10-28T23:00:00.000Z', '2025-11-05T00:00:00.000Z']);
+		// Weekdays and original dates are read in New York, where the second is still a Tuesday
+		expect(occurrences.map(occurrence => occurrence.originalDate)).toEqual(['2025-10-28', '2025-11-04']);
+	});
+
+	it('should treat one-off events as a single occurrence', () => {
+		const event = series({ rrule: undefined });
+
+		expect(dates(event, local(2025, 7, 1), local(2025, 8, 1))).toEqual(['2025-07-08']);
+		expect(dates(event, local(2025, 8, 1), local(2025, 9, 1))).toEqual([]);
+	});
+});
+
+describe('editing occurrences', () => {
+	it('should change a single occurrence through an exception', () => {
+		const change = editOccurrence(series(), '2025-09-09', { location: 'Park', start: local(2025, 9, 10) }, 'occurrence');
+
+		expect(change.update?.exceptions).toEqual([
+			{ originalDate: '2025-09-09', location: 'Park', date: local(2025, 9, 10).toISOString() }
+		]);
+		expect(change.create).toBeUndefined();
+	});
+
+	it('should split the series for this and following occurrences', () => {
+		const event = series({
+			rrule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=10',
+			exceptions: [{ originalDate: '2025-07-15', cancelled: true }, { originalDate: '2025-08-05', cancelled: true }]
+		});
+		// Move from the fourth Tuesday (29 July) onwards to Wednesdays at 18:30
+		const change = editOccurrence(event, '2025-07-29', { start: local(2025, 7, 30, 18, 30) }, 'following');
+
+		expect(change.update).toEqual({
+			rrule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3',
+			exceptions: [{ originalDate: '2025-07-15', cancelled: true }]
+		});
+		expect(change.create).toMatchObject({
+			title: 'Book Circle',
+			date: local(2025, 7, 30, 18, 30).toISOString(),
+			rrule: 'FREQ=WEEKLY;BYDAY=WE;COUNT=7',
+			exceptions: [{ originalDate: '2025-08-06', cancelled: true }]
+		});
+
+		const following = { ...event, ...change.create!, id: 'event-2' };
+		expect(dates(following, local(2025, 7, 1), local(2025, 8, 20, 0))).toEqual(['2025-07-30', '2025-08-13']);
+	});
+
+	it('should shift the whole series when every occurrence moves', () => {
+		const change = editOccurrence(series(), '2025-09-09', { title: 'Circle', start: local(2025, 9, 11) }, 'series');
+
+		expect(change.update).toEqual({
+			title: 'Circle',
+			date: local(2025, 7, 10).toISOString(),
+			rrule: 'FREQ=MONTHLY;BYDAY=2TH'
+		});
+	});
+
+	it('should change the seat limit for the series or the following occurrences only', () => {
+		const event = series({ capacity: 12 });
+
+		expect(editOccurrence(event, '2025-09-09', { capacity: 20 }, 'series').update).toEqual({ capacity: 20 });
+		expect(editOccurrence(event, '2025-09-09', { capacity: null }, 'series').update).toEqual({ capacity: null });
+		expect(editOccurrence(event, '2025-09-09', { capacity: 8 }, 'following').create).toMatchObject({ capacity: 8 });
+		expect(editOccurrence(event, '2025-09-09', { location: 'Park' }, 'following').create).toMatchObject({ capacity: 12 });
+	});
+
+	it('should cancel one occurrence, the rest of the series or all of it', () => {
+		const event = series();
+
+		expect(cancelOccurrence(event, '2025-09-09', 'occurrence').update?.exceptions).toEqual([{ originalDate: '2025-09-09', cancelled: true }]);
+		const ended = { ...event, ...cancelOccurrence(event, '2025-09-09', 'following').update };
+		expect(dates(ended, local(2025, 7, 1), local(2026, 1, 1))).toEqual(['2025-07-08', '2025-08-12']);
+		expect(cancelOccurrence(event, '2025-07-08', 'following')).toEqual({ remove: true });
+		expect(cancelOccurrence(event, '2025-09-09', 'series')).toEqual({ remove: true });
+	});
+});
@@ -0,0 +1,607 @@
+/**
+ * Recurring events
+ * Parses and writes the RFC 5545 RRULE subset the schedule supports (FREQ, INTERVAL, BYDAY,
+ * UNTIL, COUNT), expands a series into dated occurrences with cancelled or moved exceptions
+ * applied, and turns "this occurrence / this and following / all" edits into API changes.
+ *
+ * Occurrences keep the series' wall-clock time in its time zone (the runtime's local zone
+ * when the event has none), so a 19:00 meeting stays at 19:00 across daylight-saving changes.
+ * Date keys such as originalDate are calendar dates in that zone.
+ */
+
+import type { EventException } from './stores';
+import { wallClock, fromWallClock } from './timezones';
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type WeekdayCode = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+/**
+ * A BYDAY entry; the ordinal picks e.g. the second (2) or last (-1) weekday of the month
+ */
+export interface ByDay {
+	day: WeekdayCode;
+	ordinal?: number;
+}
+
+export interface RecurrenceRule {
+	freq: Frequency;
+	interval: number;
+	byDay: ByDay[];
+	/** Last moment an occurrence may start (inclusive) */
+	until?: Date;
+	/** Total number of occurrences, counting the first */
+	count?: number;
+}
+
+/**
+ * The fields of an event that recurrence reads and edits
+ */
+export interface RecurringEvent {
+	id: string;
+	title: string;
+	description?: string;
+	location?: string;
+	/** ISO start of the event, or of the first occurrence of a series */
+	date: string;
+	/** HH:MM, only for events whose date is a bare calendar date */
+	time?: string;
+	/** IANA zone the series repeats in */
+	timeZone?: string;
+	/** Seats at each occurrence; null or missing for no limit */
+	capacity?: number | null;
+	rrule?: string | null;
+	/** Club book the meeting discusses */
+	bookId?: string | null;
+	exceptions?: EventException[];
+}
+
+/**
+ * One dated instance of an event; one-off events have a single occurrence
+ */
+export type Occurrence<T extends RecurringEvent> = T & {
+	/** Unique per occurrence: the series id plus its original date */
+	occurrenceId: string;
+	/** Calendar date the rule placed this occurrence on, before any move */
+	originalDate: string;
+	start: Date;
+	recurring: boolean;
+	moved: boolean;
+};
+
+export type EditScope = 'occurrence' | 'following' | 'series';
+
+export interface OccurrenceChanges {
+	title?: string;
+	description?: string;
+	location?: string;
+	start?: Date;
+	/** New zone for the series or the following occurrences */
+	timeZone?: string;
+	/** New seat limit for the series or the following occurrences; null removes it */
+	capacity?: number | null;
+	/** New rule for the series or the following occurrences; null stops repeating */
+	rrule?: string | null;
+	/** Book discussed; null clears it */
+	bookId?: string | null;
+}
+
+export type EventPatch = Partial<Pick<RecurringEvent, 'title' | 'description' | 'location' | 'date' | 'timeZone' | 'capacity' | 'rrule' | 'bookId' | 'exceptions'>>;
+
+/**
+ * What an edit means for the API: patch the series, start a new series for the
+ * following occurrences, or delete the series
+ */
+export interface SeriesChange {
+	update?: EventPatch;
+	create?: Required<Pick<RecurringEvent, 'title' | 'date'>> & EventPatch;
+	remove?: boolean;
+}
+
+export const WEEKDAYS: WeekdayCode[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Upper bound on periods walked while expanding, in case a rule never matches */
+const MAX_PERIODS = 10000;
+
+/**
+ * Parse an RRULE value such as "FREQ=MONTHLY;BYDAY=2TU"
+ * @throws Error when the rule is malformed or uses parts outside the supported subset
+ */
+export function parseRRule(value: string): RecurrenceRule {
+	const parts = value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+	const fields = new Map<string, string>();
+	for (const part of parts) {
+		const [key, raw] = part.split('=');
+		if (!key || raw === undefined) throw new Error(`Malformed RRULE part "${part}"`);
+		fields.set(key.toUpperCase(), raw.toUpperCase());
+	}
+
+	const freq = fields.get('FREQ') as Frequency | undefined;
+	if (!freq || !FREQUENCIES.includes(freq)) {
+		throw new Error('RRULE needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY');
+	}
+
+	const rule: RecurrenceRule = { freq, interval: 1, byDay: [] };
+
+	for (const [key, raw] of fields) {
+		switch (key) {
+			case 'FREQ':
+			case 'WKST':
+				break;
+			case 'INTERVAL':
+				rule.interval = Number(raw);
+				if (!Number.isInteger(rule.interval) || rule.interval < 1) throw new Error(`Invalid INTERVAL "${raw}"`);
+				break;
+			case 'COUNT':
+				rule.count = Number(raw);
+				if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error(`Invalid COUNT "${raw}"`);
+				break;
+			case 'UNTIL':
+				rule.until = parseUntil(raw);
+				break;
+			case 'BYDAY':
+				rule.byDay = raw.split(',').map(parseByDay);
+				break;
+			default:
+				throw new Error(`RRULE part ${key} is not supported`);
+		}
+	}
+
+	if (rule.count !== undefined && rule.until) {
+		throw new Error('RRULE cannot have both COUNT and UNTIL');
+	}
+	return rule;
+}
+
+function parseByDay(value: string): ByDay {
+	const match = /^([+-]?[1-5])?(MO|TU|WE|TH|FR|SA|SU)$/.exec(value);
+	if (!match) throw new Error(`Invalid BYDAY "${value}"`);
+	return match[1] ? { day: match[2] as WeekdayCode, ordinal: Number(match[1]) } : { day: match[2] as WeekdayCode };
+}
+
+function parseUntil(value: string): Date {
+	const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+	if (!match) throw new Error(`Invalid UNTIL "${value}"`);
+	const [, y, m, d, hh, mm, ss, utc] = match;
+	if (!hh) {
+		// A bare date includes the whole day
+		return new Date(Number(y), Number(m) - 1, Number(d), 23, 59, 59);
+	}
+	const parts = [Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)] as const;
+	return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+function formatUntil(date: Date): string {
+	return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Write a rule back out as an RRULE value
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+	const parts = [`FREQ=${rule.freq}`];
+	if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+	if (rule.byDay.length > 0) {
+		parts.push(`BYDAY=${rule.byDay.map(entry => `${entry.ordinal ?? ''}${entry.day}`).join(',')}`);
+	}
+	if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`);
+	if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+	return parts.join(';');
+}
+
+/**
+ * Calendar date as YYYY-MM-DD, in a zone or else local time
+ */
+export function toDateKey(date: Date, timeZone?: string): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	const { year, month, day } = wallClock(date, timeZone);
+	return `${year}-${pad(month + 1)}-${pad(day)}`;
+}
+
+/**
+ * The moment on a YYYY-MM-DD date with the wall-clock time of another moment
+ */
+function fromDateKey(key: string, timeOf: Date, timeZone?: string): Date {
+	const [year, month, day] = key.split('-').map(Number);
+	const { hours, minutes, seconds } = wallClock(timeOf, timeZone);
+	return fromWallClock({ year, month: month - 1, day, hours, minutes, seconds }, timeZone);
+}
+
+/**
+ * Start of an event; bare dates are combined with the event's HH:MM time in its zone
+ */
+export function eventStart(event: Pick<RecurringEvent, 'date' | 'time' | 'timeZone'>): Date {
+	if (event.time && /^\d{4}-\d{2}-\d{2}$/.test(event.date)) {
+		const [year, month, day] = event.date.split('-').map(Number);
+		const [hours, minutes] = event.time.split(':').map(Number);
+		return fromWallClock({ year, month: month - 1, day, hours, minutes, seconds: 0 }, event.timeZone);
+	}
+	return new Date(event.date);
+}
+
+/**
+ * Where the rule placed an occurrence, before any exception moved it
+ * @param originalDate - The occurrence's YYYY-MM-DD key
+ */
+export function originalStart(event: Pick<RecurringEvent, 'date' | 'time' | 'timeZone'>, originalDate: string): Date {
+	return fromDateKey(originalDate, eventStart(event), event.timeZone);
+}
+
+function weekdayIndex(code: WeekdayCode): number {
+	return WEEKDAYS.indexOf(code);
+}
+
+/**
+ * Dates of a weekday within a month; an ordinal picks one of them (negative counts from the end)
+ */
+function weekdaysInMonth(year: number, month: number, entry: ByDay): number[] {
+	const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+	const daysInMonth = daysIn(year, month);
+	const days: number[] = [];
+	for (let day = 1 + ((weekdayIndex(entry.day) - first + 7) % 7); day <= daysInMonth; day += 7) {
+		days.push(day);
+	}
+	if (entry.ordinal === undefined) return days;
+	const picked = entry.ordinal > 0 ? days[entry.ordinal - 1] : days[days.length + entry.ordinal];
+	return picked === undefined ? [] : [picked];
+}
+
+function daysIn(year: number, month: number): number {
+	return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * Candidate start times for the nth period of the rule, in order
+ * Calendar arithmetic runs on the start's wall clock in the series' zone
+ */
+function periodCandidates(rule: RecurrenceRule, start: Date, period: number, timeZone?: string): Date[] {
+	const wall = wallClock(start, timeZone);
+	const at = (year: number, month: number, day: number) =>
+		fromWallClock({ year, month, day, hours: wall.hours, minutes: wall.minutes, seconds: wall.seconds }, timeZone);
+	const step = period * rule.interval;
+	const { year, month, day: date } = wall;
+
+	switch (rule.freq) {
+		case 'DAILY': {
+			const weekday = new Date(Date.UTC(year, month, date + step)).getUTCDay();
+			const allowed = rule.byDay.length === 0 || rule.byDay.some(entry => weekdayIndex(entry.day) === weekday);
+			return allowed ? [at(year, month, date + step)] : [];
+		}
+		case 'WEEKLY': {
+			// Weeks start on Monday (the RFC 5545 default WKST)
+			const mondayOffset = (wall.weekday + 6) % 7;
+			const weekStart = date - mondayOffset + step * 7;
+			const offsets = rule.byDay.length > 0
+				? rule.byDay.map(entry => (weekdayIndex(entry.day) + 6) % 7)
+				: [mondayOffset];
+			return [...new Set(offsets)].sort((a, b) => a - b).map(offset => at(year, month, weekStart + offset));
+		}
+		case 'MONTHLY':
+		case 'YEARLY': {
+			const target = new Date(rule.freq === 'MONTHLY' ? Date.UTC(year, month + step, 1) : Date.UTC(year + step, month, 1));
+			const y = target.getUTCFullYear();
+			const m = target.getUTCMonth();
+			if (rule.byDay.length > 0) {
+				const days = rule.byDay.flatMap(entry => weekdaysInMonth(y, m, entry));
+				return [...new Set(days)].sort((a, b) => a - b).map(day => at(y, m, day));
+			}
+			// Months without the start's day (e.g. the 31st, or 29 February) are skipped
+			return date <= daysIn(y, m) ? [at(y, m, date)] : [];
+		}
+	}
+}
+
+/**
+ * Start times produced by a rule from the first occurrence up to a limit (inclusive)
+ * The first occurrence always counts, as DTSTART does in RFC 5545
+ * @param timeZone - Zone whose wall clock the series keeps; local time when omitted
+ */
+export function occurrenceStarts(rule: RecurrenceRule, start: Date, limit: Date, timeZone?: string): Date[] {
+	const starts: Date[] = [];
+	const withinBounds = (candidate: Date) =>
+		candidate <= limit && (!rule.until || candidate <= rule.until) && (rule.count === undefined || starts.length < rule.count);
+
+	if (!withinBounds(start)) return starts;
+	starts.push(start);
+
+	for (let period = 0; period < MAX_PERIODS; period++) {
+		const candidates = periodCandidates(rule, start, period, timeZone);
+		for (const candidate of candidates) {
+			if (candidate <= start) continue;
+			if (!withinBounds(candidate)) return starts;
+			starts.push(candidate);
+		}
+	}
+	return starts;
+}
+
+function safeParseRRule(value: string | null | undefined): RecurrenceRule | null {
+	if (!value) return null;
+	try {
+		return parseRRule(value);
+	} catch {
+		// A rule the schedule can't read still shows its first occurrence
+		return null;
+	}
+}
+
+/**
+ * Occurrences of an event starting in [rangeStart, rangeEnd), with exceptions applied
+ */
+export function expandEvent<T extends RecurringEvent>(event: T, rangeStart: Date, rangeEnd: Date): Occurrence<T>[] {
+	const start = eventStart(event);
+	const timeZone = event.timeZone;
+	const rule = safeParseRRule(event.rrule);
+	const exceptions = new Map((rule ? event.exceptions ?? [] : []).map(exception => [exception.originalDate, exception]));
+
+	// Moved occurrences can land in the range from outside it, so walk far enough to see them
+	const limit = new Date(Math.max(
+		rangeEnd.getTime(),
+		...[...exceptions.values()].filter(exception => exception.date).map(exception => fromDateKey(exception.originalDate, start, timeZone).getTime())
+	));
+	const starts = rule ? occurrenceStarts(rule, start, limit, timeZone) : [start];
+
+	const occurrences: Occurrence<T>[] = [];
+	for (const original of starts) {
+		const originalDate = toDateKey(original, timeZone);
+		const exception = exceptions.get(originalDate);
+		if (exception?.cancelled) continue;
+
+		const occurrenceStart = exception?.date ? new Date(exception.date) : original;
+		if (occurrenceStart < rangeStart || occurrenceStart >= rangeEnd) continue;
+
+		occurrences.push({
+			...event,
+			title: exception?.title ?? event.title,
+			description: exception?.description ?? event.description,
+			location: exception?.location ?? event.location,
+			bookId: exception?.bookId !== undefined ? exception.bookId : event.bookId,
+			occurrenceId: rule ? `${event.id}:${originalDate}` : event.id,
+			originalDate,
+			start: occurrenceStart,
+			recurring: rule !== null,
+			moved: occurrenceStart.getTime() !== original.getTime()
+		});
+	}
+	return occurrences;
+}
+
+/**
+ * Occurrences of many events in a range, in start order
+ */
+export function expandEvents<T extends RecurringEvent>(events: T[], rangeStart: Date, rangeEnd: Date): Occurrence<T>[] {
+	return events
+		.flatMap(event => expandEvent(event, rangeStart, rangeEnd))
+		.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * The first occurrence starting at or after a moment, looking up to a year ahead
+ */
+export function nextOccurrence<T extends RecurringEvent>(event: T, after = new Date()): Occurrence<T> | null {
+	return expandEvent(event, after, new Date(after.getTime() + 366 * DAY_MS))[0] ?? null;
+}
+
+const WEEKDAY_NAMES: Record<WeekdayCode, string> = {
+	MO: 'Monday', TU: 'Tuesday', WE: 'Wednesday', TH: 'Thursday', FR: 'Friday', SA: 'Saturday', SU: 'Sunday'
+};
+const ORDINAL_NAMES: Record<string, string> = {
+	'1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '5': 'fifth', '-1': 'last', '-2': 'second-to-last'
+};
+const UNITS: Record<Frequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Tuesday" or "Monthly on the second Tuesday"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+	const unit = UNITS[rule.freq];
+	let text = rule.interval > 1
+		? `Every ${rule.interval} ${unit}s`
+		: { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }[rule.freq];
+
+	if (rule.byDay.length > 0) {
+		const days = rule.byDay.map(entry => entry.ordinal
+			? `the ${ORDINAL_NAMES[String(entry.ordinal)] ?? `${entry.ordinal}th`} ${WEEKDAY_NAMES[entry.day]}`
+			: WEEKDAY_NAMES[entry.day]);
+		text += ` on ${days.length > 1 ? `${days.slice(0, -1).join(', ')} and ${days[days.length - 1]}` : days[0]}`;
+	}
+	if (rule.count !== undefined) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+	if (rule.until) text += `, until ${rule.until.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' })}`;
+	return text;
+}
+
+/**
+ * Repeat options offered by the event form
+ */
+export type RepeatPreset = 'none' | 'daily' | 'weekly' | 'biweekly' | 'monthly-weekday' | 'monthly-date' | 'yearly' | 'custom';
+
+/**
+ * Rule for a repeat preset anchored on the event's start; null for 'none' and 'custom'
+ * @param timeZone - Zone the weekday and date are read in; local time when omitted
+ */
+export function presetRule(preset: RepeatPreset, start: Date, timeZone?: string): RecurrenceRule | null {
+	const wall = wallClock(start, timeZone);
+	const day = WEEKDAYS[wall.weekday];
+	switch (preset) {
+		case 'daily': return { freq: 'DAILY', interval: 1, byDay: [] };
+		case 'weekly': return { freq: 'WEEKLY', interval: 1, byDay: [{ day }] };
+		case 'biweekly': return { freq: 'WEEKLY', interval: 2, byDay: [{ day }] };
+		case 'monthly-weekday': {
+			// The fifth weekday doesn't exist in every month, so call it the last one
+			const ordinal = Math.ceil(wall.day / 7);
+			return { freq: 'MONTHLY', interval: 1, byDay: [{ day, ordinal: ordinal === 5 ? -1 : ordinal }] };
+		}
+		case 'monthly-date': return { freq: 'MONTHLY', interval: 1, byDay: [] };
+		case 'yearly': return { freq: 'YEARLY', interval: 1, byDay: [] };
+		default: return null;
+	}
+}
+
+/**
+ * The preset matching a stored rule (ignoring its end), or 'custom' when none does
+ */
+export function rulePreset(rrule: string | null | undefined, start: Date, timeZone?: string): RepeatPreset {
+	const rule = safeParseRRule(rrule);
+	if (!rule) return rrule ? 'custom' : 'none';
+	const bare = formatRRule({ ...rule, until: undefined, count: undefined });
+	const presets: RepeatPreset[] = ['daily', 'weekly', 'biweekly', 'monthly-weekday', 'monthly-date', 'yearly'];
+	return presets.find(preset => {
+		const candidate = presetRule(preset, start, timeZone);
+		return candidate && formatRRule(candidate) === bare;
+	}) ?? 'custom';
+}
+
+function upsertException(exceptions: EventException[] = [], exception: EventException): EventException[] {
+	const existing = exceptions.find(item => item.originalDate === exception.originalDate);
+	const merged = { ...existing, ...exception };
+	return [...exceptions.filter(item => item.originalDate !== exception.originalDate), merged]
+		.sort((a, b) => a.originalDate.localeCompare(b.originalDate));
+}
+
+function daysBetween(from: Date, to: Date, timeZone?: string): number {
+	const calendarDay = (date: Date) => {
+		const { year, month, day } = wallClock(date, timeZone);
+		return Date.UTC(year, month, day);
+	};
+	return Math.round((calendarDay(to) - calendarDay(from)) / DAY_MS);
+}
+
+/**
+ * Move BYDAY weekdays along with a series whose start moved by whole days
+ */
+function shiftRule(rule: RecurrenceRule, days: number): RecurrenceRule {
+	if (days === 0 || rule.byDay.length === 0) return rule;
+	const shift = ((days % 7) + 7) % 7;
+	return {
+		...rule,
+		byDay: rule.byDay.map(entry => ({ ...entry, day: WEEKDAYS[(weekdayIndex(entry.day) + shift) % 7] }))
+	};
+}
+
+function shiftDateKey(key: string, days: number): string {
+	const [year, month, day] = key.split('-').map(Number);
+	return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+function contentChanges(changes: OccurrenceChanges): EventPatch {
+	const patch: EventPatch = {};
+	if (changes.title !== undefined) patch.title = changes.title;
+	if (changes.description !== undefined) patch.description = changes.description;
+	if (changes.location !== undefined) patch.location = changes.location;
+	if (changes.bookId !== undefined) patch.bookId = changes.bookId;
+	return patch;
+}
+
+/**
+ * The rule cut short so its last occurrence is the one before a given start
+ */
+function endBefore(
+	rule: RecurrenceRule,
+	seriesStart: Date,
+	occurrence: Date,
+	timeZone?: string
+): { truncated: RecurrenceRule; earlierCount: number } {
+	const lastMoment = new Date(occurrence.getTime() - 1000);
+	const earlierCount = occurrenceStarts(rule, seriesStart, lastMoment, timeZone).length;
+	const truncated = rule.count !== undefined ? { ...rule, count: earlierCount } : { ...rule, until: lastMoment };
+	return { truncated, earlierCount };
+}
+
+/**
+ * Turn an edit of one occurrence into changes to its series
+ * @param originalDate - The occurrence's original date (Occurrence.originalDate)
+ * @param scope - Only this occurrence, this and every later one, or the whole series
+ */
+export function editOccurrence(
+	series: RecurringEvent,
+	originalDate: string,
+	changes: OccurrenceChanges,
+	scope: EditScope
+): SeriesChange {
+	const seriesStart = eventStart(series);
+	const timeZone = series.timeZone;
+	const rule = safeParseRRule(series.rrule);
+	const originalStart = fromDateKey(originalDate, seriesStart, timeZone);
+	const isFirst = toDateKey(seriesStart, timeZone) === originalDate;
+
+	if (rule && scope === 'occurrence') {
+		const exception: EventException = { originalDate, ...contentChanges(changes) };
+		if (changes.start) exception.date = changes.start.toISOString();
+		return { update: { exceptions: upsertException(series.exceptions, exception) } };
+	}
+
+	// Moving an occurrence shifts the series it belongs to by the same amount
+	const offset = changes.start ? changes.start.getTime() - originalStart.getTime() : 0;
+	const dayShift = changes.start ? daysBetween(originalStart, changes.start, changes.timeZone ?? timeZone) : 0;
+	const shiftExceptions = (exceptions: EventException[]) => exceptions.map(exception => ({
+		...exception,
+		originalDate: shiftDateKey(exception.originalDate, dayShift)
+	}));
+	const zoneChanged = changes.timeZone !== undefined && changes.timeZone !== timeZone;
+	const capacityChanged = changes.capacity !== undefined && changes.capacity !== (series.capacity ?? null);
+	const capacity = changes.capacity !== undefined ? changes.capacity : series.capacity;
+	const nextRule = (base: RecurrenceRule) =>
+		changes.rrule !== undefined ? changes.rrule : formatRRule(shiftRule(base, dayShift));
+
+	if (!rule || scope === 'series' || isFirst) {
+		const update: EventPatch = { ...contentChanges(changes) };
+		if (offset !== 0) update.date = new Date(seriesStart.getTime() + offset).toISOString();
+		if (zoneChanged) update.timeZone = changes.timeZone;
+		if (capacityChanged) update.capacity = changes.capacity;
+		if (rule) {
+			const rrule = nextRule(rule);
+			if (rrule !== series.rrule) update.rrule = rrule;
+			if (dayShift !== 0 && series.exceptions?.length) update.exceptions = shiftExceptions(series.exceptions);
+		} else if (changes.rrule !== undefined) {
+			update.rrule = changes.rrule;
+		}
+		return { update };
+	}
+
+	// This and following: end the series before the occurrence and start a new one from it
+	const { truncated, earlierCount } = endBefore(rule, seriesStart, originalStart, timeZone);
+	const remaining: RecurrenceRule = rule.count !== undefined ? { ...rule, count: rule.count - earlierCount } : rule;
+	const exceptions = series.exceptions ?? [];
+
+	return {
+		update: {
+			rrule: formatRRule(truncated),
+			exceptions: exceptions.filter(exception => exception.originalDate < originalDate)
+		},
+		create: {
+			title: series.title,
+			description: series.description,
+			location: series.location,
+			...(series.bookId ? { bookId: series.bookId } : {}),
+			...contentChanges(changes),
+			...(changes.timeZone ?? timeZone ? { timeZone: changes.timeZone ?? timeZone } : {}),
+			...(capacity ? { capacity } : {}),
+			date: new Date(originalStart.getTime() + offset).toISOString(),
+			rrule: nextRule(remaining),
+			exceptions: shiftExceptions(exceptions.filter(exception => exception.originalDate >= originalDate))
+		}
+	};
+}
+
+/**
+ * Cancel an occurrence, end the series before it, or delete the whole series
+ */
+export function cancelOccurrence(series: RecurringEvent, originalDate: string, scope: EditScope): SeriesChange {
+	const seriesStart = eventStart(series);
+	const rule = safeParseRRule(series.rrule);
+
+	if (rule && scope === 'occurrence') {
+		return { update: { exceptions: upsertException(series.exceptions, { originalDate, cancelled: true }) } };
+	}
+	if (!rule || scope === 'series' || toDateKey(seriesStart, series.timeZone) === originalDate) {
+		return { remove: true };
+	}
+
+	const { truncated } = endBefore(rule, seriesStart, fromDateKey(originalDate, seriesStart, series.timeZone), series.timeZone);
+	return {
+		update: {
+			rrule: formatRRule(truncated),
+			exceptions: (series.exceptions ?? []).filter(exception => exception.originalDate < originalDate)
+		}
+	};
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+	DEFAULT_REMINDER_PREFERENCES,
+	ReminderPreferencesSchema,
+	describeReminder,
+	formatLeadTime,
+	planReminders,
+	type ReminderPlanInput
+} from './reminders';
+
+const DAY = 24 * 60;
+const WEEK = 7 * DAY;
+
+// Tuesdays at 19:00 in New York from 2 September
+const bookClub = {
+	id: 'event-1',
+	title: 'Book Circle',
+	location: 'Library',
+	date: '2025-09-02T23:00:00.000Z',
+	timeZone: 'America/New_York',
+	rrule: 'FREQ=WEEKLY;BYDAY=TU;COUNT=3'
+};
+
+function input(overrides: Partial<ReminderPlanInput> = {}): ReminderPlanInput {
+	return {
+		clubId: 'club-1',
+		events: [bookClub],
+		members: [{ id: 'ann', email: 'ann@example.com' }, { id: 'bob', email: 'bob@example.com' }],
+		availability: { 'event-1': { ann: { status: 'available' } } },
+		preferences: () => DEFAULT_REMINDER_PREFERENCES,
+		from: new Date('2025-08-26T00:00:00Z'),
+		until: new Date('2025-09-03T00:00:00Z'),
+		...overrides
+	};
+}
+
+describe('planReminders', () => {
+	it('should remind each member a week and a day before, and nudge those who have not answered', () => {
+		const jobs = planReminders(input());
+
+		expect(jobs.map(job => [job.kind, job.userId, job.start, job.leadTime])).toEqual([
+			['event', 'ann', '2025-09-02T23:00:00.000Z', WEEK],
+			['event', 'bob', '2025-09-02T23:00:00.000Z', WEEK],
+			['availability', 'bob', '2025-09-02T23:00:00.000Z', 3 * DAY],
+			['event', 'ann', '2025-09-02T23:00:00.000Z', DAY],
+			['event', 'bob', '2025-09-02T23:00:00.000Z', DAY],
+			['event', 'ann', '2025-09-09T23:00:00.000Z', WEEK],
+			['event', 'bob', '2025-09-09T23:00:00.000Z', WEEK]
+		]);
+		expect(jobs[0]).toMatchObject({ runAt: Date.parse('2025-08-26T23:00:00Z'), email: 'ann@example.com', timeZone: 'America/New_York' });
+		expect(new Set(jobs.map(job => job.key)).size).toBe(jobs.length);
+	});
+
+	it('should skip members who can\'t come and reminders that are already late', () => {
+		const jobs = planReminders(input({
+			availability: { 'event-1': { ann: { status: 'unavailable' }, bob: { status: 'maybe' } } },
+			from: new Date('2025-08-31T00:00:00Z')
+		}));
+
+		// The week-before reminder for 2 September was due on 26 August
+		expect(jobs.map(job => [job.kind, job.userId, job.start, job.leadTime])).toEqual([
+			['event', 'bob', '2025-09-02T23:00:00.000Z', DAY],
+			['event', 'bob', '2025-09-09T23:00:00.000Z', WEEK]
+		]);
+	});
+
+	it('should follow each member\'s own lead times and send nothing to members who turned reminders off', () => {
+		const jobs = planReminders(input({
+			preferences: userId => userId === 'ann'
+				? { channels: ['email'], eventLeadTimes: [2 * 60], availabilityLeadTimes: [] }
+				: { ...DEFAULT_REMINDER_PREFERENCES, channels: [] }
+		}));
+
+		expect(jobs.map(job => [job.userId, job.runAt])).toEqual([['ann', Date.parse('2025-09-02T21:00:00Z')]]);
+	});
+});
+
+describe('reminder text', () => {
+	it('should describe lead times in the largest whole unit', () => {
+		expect([WEEK, 3 * DAY, DAY, 120, 90].map(formatLeadTime))
+			.toEqual(['in 1 week', 'in 3 days', 'in 1 day', 'in 2 hours', 'in 90 minutes']);
+	});
+
+	it('should show the time in the event\'s zone', () => {
+		const [job] = planReminders(input());
+
+		expect(describeReminder(job)).toEqual({
+			title: 'Book Circle is in 1 week',
+			message: expect.stringMatching(/7:00 PM EDT at Library\.$/)
+		});
+		expect(describeReminder({ ...job, kind: 'availability' }).title).toBe('Can you make Book Circle?');
+	});
+
+	it('should reject duplicate or out-of-range lead times', () => {
+		expect(ReminderPreferencesSchema.safeParse({ ...DEFAULT_REMINDER_PREFERENCES, eventLeadTimes: [DAY, DAY] }).success).toBe(false);
+		expect(ReminderPreferencesSchema.safeParse({ ...DEFAULT_REMINDER_PREFERENCES, eventLeadTimes: [5 * WEEK] }).success).toBe(false);
+		expect(ReminderPreferencesSchema.safeParse(DEFAULT_REMINDER_PREFERENCES).success).toBe(true);
+	});
+});
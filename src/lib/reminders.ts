@@ -0,0 +1,221 @@
+/**
+ * Event reminders
+ * Members are reminded ahead of each occurrence they haven't ruled out, and nudged to answer
+ * when they haven't said whether they can come. Each member picks the lead times and the
+ * channels (in-app, email, browser push) reminders reach them on.
+ * Shapes are shared by the notification endpoints under /api and the client functions in api.ts.
+ */
+
+import { z } from 'zod';
+import type { AvailabilityStatusSchema } from './api.generated';
+import { expandEvents, type RecurringEvent } from './recurrence';
+import { timeZoneAbbreviation } from './timezones';
+import { formatDate, formatTime } from './utils';
+
+type AvailabilityStatus = z.infer<typeof AvailabilityStatusSchema>;
+
+const MINUTES_PER_HOUR = 60;
+const MINUTES_PER_DAY = 24 * MINUTES_PER_HOUR;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+/** Most lead times a member can pick for each kind of reminder */
+export const MAX_LEAD_TIMES = 4;
+
+/** Longest lead time, in minutes; also how far ahead reminders are planned */
+export const MAX_LEAD_TIME = 4 * MINUTES_PER_WEEK;
+
+/** Lead times offered in the reminder settings, in minutes */
+export const LEAD_TIME_OPTIONS = [MINUTES_PER_WEEK, 3 * MINUTES_PER_DAY, MINUTES_PER_DAY, 2 * MINUTES_PER_HOUR];
+
+export const ReminderChannelSchema = z.enum(['inApp', 'email', 'push']);
+
+export const ReminderKindSchema = z.enum(['event', 'availability']);
+
+const LeadTimesSchema = z.array(z.number().int().min(5, 'Reminders must be at least 5 minutes before').max(MAX_LEAD_TIME, 'Reminders can be at most 4 weeks before'))
+	.max(MAX_LEAD_TIMES, `Pick at most ${MAX_LEAD_TIMES} reminder times`)
+	.refine(times => new Set(times).size === times.length, 'The same reminder time is picked twice');
+
+export const ReminderPreferencesSchema = z.object({
+	/** Where reminders are delivered; none turns reminders off */
+	channels: z.array(ReminderChannelSchema).refine(channels => new Set(channels).size === channels.length, 'The same channel is picked twice'),
+	/** Minutes before each occurrence to remind members who haven't ruled it out */
+	eventLeadTimes: LeadTimesSchema,
+	/** Minutes before each occurrence to ask members who haven't answered yet */
+	availabilityLeadTimes: LeadTimesSchema
+});
+
+export const UserNotificationSchema = z.object({
+	id: z.string(),
+	type: z.enum(['success', 'error', 'warning', 'info']),
+	title: z.string(),
+	message: z.string(),
+	timestamp: z.string().datetime(),
+	read: z.boolean(),
+	clubId: z.string().optional(),
+	eventId: z.string().optional(),
+	/** Page the notification is about */
+	link: z.string().optional()
+});
+
+export const PushSubscriptionSchema = z.object({
+	endpoint: z.string().url(),
+	keys: z.object({
+		p256dh: z.string().min(1),
+		auth: z.string().min(1)
+	})
+});
+
+export const ReminderSettingsSchema = z.object({
+	preferences: ReminderPreferencesSchema,
+	/** Key the browser subscribes with; null when this server can't send push messages */
+	vapidPublicKey: z.string().nullable()
+});
+
+/**
+ * Request bodies
+ */
+export const MarkNotificationsReadSchema = z.object({
+	/** Notifications to mark; every notification when left out */
+	ids: z.array(z.string()).optional()
+});
+
+export const RemovePushSubscriptionSchema = z.object({
+	endpoint: z.string().url()
+});
+
+export type ReminderChannel = z.infer<typeof ReminderChannelSchema>;
+export type ReminderKind = z.infer<typeof ReminderKindSchema>;
+export type ReminderPreferences = z.infer<typeof ReminderPreferencesSchema>;
+export type UserNotification = z.infer<typeof UserNotificationSchema>;
+export type PushSubscriptionInput = z.infer<typeof PushSubscriptionSchema>;
+export type ReminderSettings = z.infer<typeof ReminderSettingsSchema>;
+
+/** Reminders a week and a day before, by email and in the app, plus a nudge three days out */
+export const DEFAULT_REMINDER_PREFERENCES: ReminderPreferences = {
+	channels: ['inApp', 'email'],
+	eventLeadTimes: [MINUTES_PER_WEEK, MINUTES_PER_DAY],
+	availabilityLeadTimes: [3 * MINUTES_PER_DAY]
+};
+
+/**
+ * One reminder for one member about one occurrence
+ */
+export interface ReminderJob {
+	/** Identifies the reminder so it is queued and delivered once */
+	key: string;
+	kind: ReminderKind;
+	/** When to deliver, in epoch milliseconds */
+	runAt: number;
+	userId: string;
+	email: string;
+	clubId: string;
+	eventId: string;
+	eventTitle: string;
+	location: string | null;
+	/** ISO start of the occurrence */
+	start: string;
+	timeZone?: string;
+	/** Minutes between delivery and the start */
+	leadTime: number;
+}
+
+export interface ReminderPlanInput {
+	clubId: string;
+	events: RecurringEvent[];
+	members: Array<{ id: string; email: string }>;
+	/** Answers by event ID, then user ID */
+	availability: Record<string, Record<string, { status: AvailabilityStatus }>>;
+	preferences: (userId: string) => ReminderPreferences;
+	/** Plan reminders due at or after this time... */
+	from: Date;
+	/** ...and before this one */
+	until: Date;
+}
+
+/**
+ * Every reminder due in a window, in delivery order
+ * Reminders whose time has already passed are left out rather than sent late, so a member
+ * added two days before a meeting gets the one-day reminder but not the one-week one.
+ */
+export function planReminders(input: ReminderPlanInput): ReminderJob[] {
+	const from = input.from.getTime();
+	const until = input.until.getTime();
+	const occurrences = expandEvents(input.events, input.from, new Date(until + MAX_LEAD_TIME * 60_000));
+	const jobs: ReminderJob[] = [];
+
+	for (const occurrence of occurrences) {
+		const start = occurrence.start.getTime();
+		for (const member of input.members) {
+			const answer = input.availability[occurrence.id]?.[member.id];
+			const preferences = input.preferences(member.id);
+			if (preferences.channels.length === 0) continue;
+
+			const plan = (kind: ReminderKind, leadTimes: number[]) => {
+				for (const leadTime of leadTimes) {
+					const runAt = start - leadTime * 60_000;
+					if (runAt < from || runAt >= until) continue;
+					jobs.push({
+						key: [kind, input.clubId, occurrence.id, occurrence.originalDate, member.id, leadTime].join(':'),
+						kind,
+						runAt,
+						userId: member.id,
+						email: member.email,
+						clubId: input.clubId,
+						eventId: occurrence.id,
+						eventTitle: occurrence.title,
+						location: occurrence.location || null,
+						start: occurrence.start.toISOString(),
+						...(occurrence.timeZone ? { timeZone: occurrence.timeZone } : {}),
+						leadTime
+					});
+				}
+			};
+
+			if (answer?.status !== 'unavailable') plan('event', preferences.eventLeadTimes);
+			if (!answer) plan('availability', preferences.availabilityLeadTimes);
+		}
+	}
+
+	return jobs.sort((a, b) => a.runAt - b.runAt || a.key.localeCompare(b.key));
+}
+
+function leadTimeAmount(minutes: number): string {
+	const [amount, unit] = minutes % MINUTES_PER_WEEK === 0 ? [minutes / MINUTES_PER_WEEK, 'week']
+		: minutes % MINUTES_PER_DAY === 0 ? [minutes / MINUTES_PER_DAY, 'day']
+		: minutes % MINUTES_PER_HOUR === 0 ? [minutes / MINUTES_PER_HOUR, 'hour']
+		: [minutes, 'minute'];
+	return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
+
+/**
+ * "in 1 week", "in 3 days", "in 2 hours"
+ */
+export function formatLeadTime(minutes: number): string {
+	return `in ${leadTimeAmount(minutes)}`;
+}
+
+/**
+ * "1 week before", for the reminder settings
+ */
+export function leadTimeLabel(minutes: number): string {
+	return `${leadTimeAmount(minutes)} before`;
+}
+
+/**
+ * Title and text of a reminder, with the time shown in the event's zone
+ */
+export function describeReminder(job: ReminderJob): { title: string; message: string } {
+	const start = new Date(job.start);
+	const when = `${formatDate(start, job.timeZone)} at ${formatTime(start, job.timeZone)} ${timeZoneAbbreviation(start, job.timeZone)}`;
+
+	if (job.kind === 'availability') {
+		return {
+			title: `Can you make ${job.eventTitle}?`,
+			message: `${job.eventTitle} is ${formatLeadTime(job.leadTime)} (${when}) and you haven't said whether you're coming yet.`
+		};
+	}
+	return {
+		title: `${job.eventTitle} is ${formatLeadTime(job.leadTime)}`,
+		message: `${when}${job.location ? ` at ${job.location}` : ''}.`
+	};
+}
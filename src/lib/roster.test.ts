@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createRosterActions, isClubAdmin, canEditMember } from './roster';
+import { invalidateApiCache, type ClubMember } from './api';
+
+vi.mock('$app/environment', () => ({
+	browser: false,
+	dev: true,
+	building: false,
+	version: 'test'
+}));
+
+const uuid = (id: string) => `00000000-0000-4000-8000-${id.padStart(12, '0')}`;
+
+/**
+ * Member fixture; short IDs are padded into the UUIDs the response schema requires
+ */
+function member(id: string, overrides: Partial<ClubMember> = {}): ClubMember {
+	return {
+		id: uuid(id),
+		name: `Member ${id}`,
+		email: `reader${id}@example.com`,
+		phone: null,
+		avatar: null,
+		role: 'member',
+		isActive: true,
+		createdAt: '2024-01-01T00:00:00.000Z',
+		joinDate: '2024-01-01T00:00:00.000Z',
+		status: 'active',
+		...overrides
+	};
+}
+
+/**
+ * In-memory member list wired up the way the roster page wires its paged store
+ */
+function memberList(initial: ClubMember[]) {
+	let members = initial;
+	const snapshots: ClubMember[][] = [];
+	return {
+		update: (updater: (members: ClubMember[]) => ClubMember[]) => {
+			members = updater(members);
+			snapshots.push(members);
+		},
+		get: () => members,
+		snapshots
+	};
+}
+
+function respondWith(status: number, body: unknown = null) {
+	return vi.fn(async () => ({
+		ok: status < 400,
+		status,
+		statusText: status < 400 ? 'OK' : 'Forbidden',
+		headers: new Headers({ 'Content-Type': 'application/json' }),
+		json: async () => body
+	}));
+}
+
+describe('roster actions', () => {
+	beforeEach(() => {
+		invalidateApiCache();
+	});
+
+	it('should apply an update immediately and keep the server version', async () => {
+		const list = memberList([member('1'), member('2')]);
+		(globalThis as any).fetch = respondWith(200, member('1', { name: 'Server Name', updatedAt: '2024-02-01T00:00:00.000Z' }));
+		const actions = createRosterActions('club-update', list.update);
+
+		const updated = await actions.update(uuid('1'), { name: 'Typed Name' });
+
+		expect(list.snapshots[0][0].name).toBe('Typed Name');
+		expect(updated.name).toBe('Server Name');
+		expect(list.get().map(m => m.name)).toEqual(['Server Name', 'Member 2']);
+	});
+
+	it('should roll back an update the API rejects', async () => {
+		const original = member('1', { role: 'member' });
+		const list = memberList([original, member('2')]);
+		(globalThis as any).fetch = respondWith(403, { message: 'Not a club admin' });
+		const actions = createRosterActions('club-forbidden', list.update);
+
+		await expect(actions.update(uuid('1'), { role: 'admin' })).rejects.toThrow();
+
+		expect(list.snapshots[0][0].role).toBe('admin');
+		expect(list.get()[0]).toEqual(original);
+	});
+
+	it('should restore a removed member to their old position on failure', async () => {
+		const list = memberList([member('1'), member('2'), member('3')]);
+		(globalThis as any).fetch = respondWith(403, { message: 'Not a club admin' });
+		const actions = createRosterActions('club-remove', list.update);
+
+		await expect(actions.remove(uuid('2'))).rejects.toThrow();
+
+		expect(list.snapshots[0].map(m => m.id)).toEqual([uuid('1'), uuid('3')]);
+		expect(list.get().map(m => m.id)).toEqual([uuid('1'), uuid('2'), uuid('3')]);
+	});
+
+	it('should replace the placeholder with the created member, or drop it on failure', async () => {
+		const list = memberList([member('1')]);
+		(globalThis as any).fetch = respondWith(201, member('42', { name: 'New Reader', email: 'new@example.com' }));
+		const actions = createRosterActions('club-add', list.update);
+
+		await actions.add({ name: 'New Reader', email: 'new@example.com' });
+
+		expect(list.snapshots[0][1].id).toMatch(/^pending-/);
+		expect(list.get().map(m => m.id)).toEqual([uuid('1'), uuid('42')]);
+
+		(globalThis as any).fetch = respondWith(403, { message: 'Not a club admin' });
+		await expect(actions.add({ name: 'Second Reader', email: 'second@example.com' })).rejects.toThrow();
+		expect(list.get().map(m => m.id)).toEqual([uuid('1'), uuid('42')]);
+	});
+
+	it('should reject invalid input before calling the API', async () => {
+		const list = memberList([member('1')]);
+		const fetchMock = respondWith(200);
+		(globalThis as any).fetch = fetchMock;
+		const actions = createRosterActions('club-invalid', list.update);
+
+		await expect(actions.add({ name: 'No Email', email: 'not-an-email' })).rejects.toThrow();
+
+		expect(fetchMock).not.toHaveBeenCalled();
+		expect(list.get().map(m => m.id)).toEqual([uuid('1')]);
+	});
+});
+
+describe('roster permissions', () => {
+	const members = [member('1', { clubRole: 'admin' }), member('2')];
+
+	it('should let club admins edit anyone and members only themselves', () => {
+		expect(isClubAdmin({ id: uuid('1') }, members)).toBe(true);
+		expect(isClubAdmin({ id: uuid('2') }, members)).toBe(false);
+		expect(isClubAdmin({ id: uuid('9'), role: 'admin' }, members)).toBe(true);
+
+		expect(canEditMember({ id: uuid('2') }, members[1], members)).toBe(true);
+		expect(canEditMember({ id: uuid('2') }, members[0], members)).toBe(false);
+		expect(canEditMember(null, members[1], members)).toBe(false);
+	});
+});
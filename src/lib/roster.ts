@@ -0,0 +1,164 @@
+/**
+ * Club roster editing
+ * Member changes are applied to the loaded list straight away and undone if the API
+ * rejects them. Each rollback only touches the member it changed, so edits made in the
+ * meantime (other requests, realtime pushes) are kept.
+ */
+
+import {
+	addClubMember,
+	updateClubMember,
+	removeClubMember,
+	type ClubMember,
+	type NewClubMember,
+	type ClubMemberUpdate
+} from './api';
+
+/**
+ * Applies a change to whatever list holds the loaded members
+ */
+export type MemberListUpdater = (updater: (members: ClubMember[]) => ClubMember[]) => void;
+
+/**
+ * The signed-in user looking at the roster
+ */
+export interface RosterViewer {
+	id: string;
+	role?: string;
+}
+
+/**
+ * Site admins and members with the admin club role manage the roster
+ */
+export function isClubAdmin(viewer: RosterViewer | null, members: ClubMember[]): boolean {
+	if (!viewer) return false;
+	if (viewer.role === 'admin') return true;
+
+	const membership = members.find(member => member.id === viewer.id);
+	return (membership?.clubRole ?? membership?.role) === 'admin';
+}
+
+/**
+ * Moderators and anyone who can manage the roster look after the discussion board
+ */
+export function isClubModerator(viewer: RosterViewer | null, members: ClubMember[]): boolean {
+	if (!viewer) return false;
+	if (viewer.role === 'moderator' || isClubAdmin(viewer, members)) return true;
+
+	const membership = members.find(member => member.id === viewer.id);
+	return (membership?.clubRole ?? membership?.role) === 'moderator';
+}
+
+/**
+ * Members may edit their own contact details; admins may edit anyone
+ */
+export function canEditMember(viewer: RosterViewer | null, member: ClubMember, members: ClubMember[]): boolean {
+	return !!viewer && (viewer.id === member.id || isClubAdmin(viewer, members));
+}
+
+function replaceMember(members: ClubMember[], id: string, replacement: ClubMember): ClubMember[] {
+	return members.map(member => member.id === id ? replacement : member);
+}
+
+/**
+ * Create optimistic add/update/remove actions for a club's roster
+ * @param clubId - Club the members belong to
+ * @param updateMembers - Applies changes to the loaded member list
+ */
+export function createRosterActions(clubId: string, updateMembers: MemberListUpdater) {
+	/**
+	 * Add a member; a placeholder is shown until the server assigns the real ID
+	 */
+	async function add(input: NewClubMember): Promise<ClubMember> {
+		const now = new Date().toISOString();
+		const role = input.role ?? 'member';
+		const placeholder: ClubMember = {
+			id: `pending-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+			name: input.name,
+			email: input.email,
+			phone: input.phone ?? null,
+			avatar: null,
+			role,
+			clubRole: role,
+			isActive: true,
+			createdAt: now,
+			joinDate: now,
+			joinedDate: now,
+			status: input.status ?? 'active',
+			booksRead: 0
+		};
+
+		updateMembers(members => [...members, placeholder]);
+
+		try {
+			const created = await addClubMember(clubId, input);
+			updateMembers(members => replaceMember(members, placeholder.id, created));
+			return created;
+		} catch (error) {
+			updateMembers(members => members.filter(member => member.id !== placeholder.id));
+			throw error;
+		}
+	}
+
+	/**
+	 * Update a member, restoring the previous version if the request fails
+	 */
+	async function update(memberId: string, changes: ClubMemberUpdate): Promise<ClubMember> {
+		let previous: ClubMember | undefined;
+
+		updateMembers(members => members.map(member => {
+			if (member.id !== memberId) return member;
+			previous = member;
+			return {
+				...member,
+				...changes,
+				...(changes.role ? { clubRole: changes.role } : {}),
+				...(changes.status ? { isActive: changes.status === 'active' } : {})
+			};
+		}));
+
+		try {
+			const updated = await updateClubMember(clubId, memberId, changes);
+			updateMembers(members => replaceMember(members, memberId, updated));
+			return updated;
+		} catch (error) {
+			if (previous) {
+				const restored = previous;
+				updateMembers(members => replaceMember(members, memberId, restored));
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Remove a member, putting them back in their old position if the request fails
+	 */
+	async function remove(memberId: string): Promise<void> {
+		let removed: ClubMember | undefined;
+		let index = -1;
+
+		updateMembers(members => {
+			index = members.findIndex(member => member.id === memberId);
+			removed = members[index];
+			return index === -1 ? members : members.filter(member => member.id !== memberId);
+		});
+
+		try {
+			await removeClubMember(clubId, memberId);
+		} catch (error) {
+			if (removed) {
+				const restored = removed;
+				updateMembers(members => {
+					if (members.some(member => member.id === memberId)) return members;
+					const position = Math.min(index, members.length);
+					return [...members.slice(0, position), restored, ...members.slice(position)];
+				});
+			}
+			throw error;
+		}
+	}
+
+	return { add, update, remove };
+}
+
+export type RosterActions = ReturnType<typeof createRosterActions>;
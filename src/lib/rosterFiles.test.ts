@@ -0,0 +1,122 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+	parseCsv,
+	parseVCards,
+	parseRosterFile,
+	guessColumnMapping,
+	previewImport,
+	importableMembers,
+	membersToCsv,
+	membersToVCards
+} from './rosterFiles';
+import type { ClubMember } from './api';
+
+vi.mock('$app/environment', () => ({
+	browser: false,
+	dev: true,
+	building: false,
+	version: 'test'
+}));
+
+function member(overrides: Partial<ClubMember>): ClubMember {
+	return {
+		id: '00000000-0000-4000-8000-000000000001',
+		name: 'Ada Lovelace',
+		email: 'ada@example.com',
+		role: 'member',
+		status: 'active',
+		joinDate: '2024-02-01T00:00:00Z',
+		createdAt: '2024-02-01T00:00:00Z',
+		...overrides
+	} as ClubMember;
+}
+
+describe('parseCsv', () => {
+	it('should handle quoted fields, doubled quotes and embedded line breaks', () => {
+		const rows = parseCsv('Name,Notes\r\n"Lovelace, Ada","Said ""hi""\nthen left"\r\n\r\n');
+
+		expect(rows).toEqual([
+			['Name', 'Notes'],
+			['Lovelace, Ada', 'Said "hi"\nthen left']
+		]);
+	});
+
+	it('should detect semicolon and tab delimiters', () => {
+		expect(parseCsv('Name;Email\nAda;ada@example.com')[1]).toEqual(['Ada', 'ada@example.com']);
+		expect(parseCsv('Name\tEmail\nAda\tada@example.com')[1]).toEqual(['Ada', 'ada@example.com']);
+	});
+});
+
+describe('parseVCards', () => {
+	it('should read names, the first email and phone from each card', () => {
+		const text = [
+			'BEGIN:VCARD',
+			'VERSION:3.0',
+			'N:Hopper;Grace;;;',
+			'item1.EMAIL;TYPE=work:grace@example.com',
+			'EMAIL:other@example.com',
+			'TEL;TYPE=cell:+1 555 0100',
+			'END:VCARD',
+			'BEGIN:VCARD',
+			'VERSION:4.0',
+			'FN:Ada',
+			'  Lovelace',
+			'EMAIL:ada@example.com',
+			'END:VCARD'
+		].join('\r\n');
+
+		expect(parseVCards(text)).toEqual([
+			['Grace Hopper', 'grace@example.com', '+1 555 0100', ''],
+			['Ada Lovelace', 'ada@example.com', '', '']
+		]);
+		expect(parseRosterFile(text, 'contacts.txt').format).toBe('vcard');
+	});
+});
+
+describe('import preview', () => {
+	it('should guess column mappings from common headers', () => {
+		expect(guessColumnMapping(['Full Name', 'E-mail Address', 'Mobile', 'Notes', 'Role']))
+			.toEqual(['name', 'email', 'phone', null, 'role']);
+	});
+
+	it('should validate each row and flag duplicates', () => {
+		const parsed = parseRosterFile([
+			'Name,Email,Phone,Role',
+			'Grace Hopper,grace@example.com,555-010-0100,moderator',
+			'Ada Again,ADA@example.com,,',
+			',not-an-email,abc,captain',
+			'Grace H,grace@example.com,,'
+		].join('\n'), 'members.csv');
+		const rows = previewImport(parsed, guessColumnMapping(parsed.headers), [member({})]);
+
+		expect(rows.map(row => row.line)).toEqual([2, 3, 4, 5]);
+		expect(rows[0]).toMatchObject({
+			errors: [],
+			duplicate: null,
+			member: { name: 'Grace Hopper', email: 'grace@example.com', phone: '555-010-0100', role: 'moderator' }
+		});
+		expect(rows[1].duplicate).toBe('existing');
+		expect(rows[2].errors.map(error => error.split(':')[0])).toEqual(['Name', 'Email', 'Phone', 'Role']);
+		expect(rows[3].duplicate).toBe('file');
+
+		expect(importableMembers(rows).map(m => m.email)).toEqual(['grace@example.com']);
+	});
+});
+
+describe('roster export', () => {
+	it('should quote CSV cells and neutralise formulas', () => {
+		const csv = membersToCsv([member({ name: 'Lovelace, Ada', phone: '=HYPERLINK("x")' })]);
+		const [header, row] = csv.trim().split('\r\n');
+
+		expect(header).toBe('Name,Email,Phone,Role,Status,Joined');
+		expect(row).toBe('"Lovelace, Ada",ada@example.com,"\'=HYPERLINK(""x"")",member,active,2024-02-01');
+		expect(parseCsv(csv)[1][0]).toBe('Lovelace, Ada');
+	});
+
+	it('should write vCards that import back', () => {
+		const vcf = membersToVCards([member({ name: 'Grace Brewster Hopper', phone: '555-0100' })]);
+
+		expect(vcf).toContain('N:Hopper;Grace Brewster;;;');
+		expect(parseVCards(vcf)).toEqual([['Grace Brewster Hopper', 'ada@example.com', '555-0100', 'member']]);
+	});
+});
@@ -0,0 +1,286 @@
+/**
+ * Roster import and export
+ * Reads member lists from CSV or vCard files, maps spreadsheet columns onto member fields,
+ * validates each row and flags duplicates before anything is sent to the API. Exports
+ * write the same two formats.
+ */
+
+import { validateEmail, validateName, validatePhone } from './validation';
+import type { ClubMember, NewClubMember } from './api';
+
+export type RosterField = 'name' | 'email' | 'phone' | 'role' | 'status';
+export type RosterFileFormat = 'csv' | 'vcard';
+
+export const ROSTER_FIELDS: RosterField[] = ['name', 'email', 'phone', 'role', 'status'];
+
+const ROLES = ['admin', 'moderator', 'member', 'guest'] as const;
+const STATUSES = ['active', 'inactive', 'pending'] as const;
+
+/**
+ * A file split into a header row and data rows
+ */
+export interface ParsedRoster {
+	format: RosterFileFormat;
+	headers: string[];
+	rows: string[][];
+}
+
+/**
+ * Which member field each column feeds; null ignores the column
+ */
+export type ColumnMapping = Array<RosterField | null>;
+
+/**
+ * One data row after mapping and validation
+ */
+export interface ImportRow {
+	/** 1-based row number in the file, counting the header */
+	line: number;
+	values: Record<RosterField, string>;
+	/** Set when the row is valid */
+	member?: NewClubMember;
+	errors: string[];
+	/** Email already on the roster, or repeated earlier in the file */
+	duplicate: 'existing' | 'file' | null;
+}
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, line breaks inside quotes)
+ * The delimiter is detected from the first line: comma, semicolon or tab
+ */
+export function parseCsv(text: string): string[][] {
+	const input = text.replace(/^\uFEFF/, '');
+	const firstLine = input.slice(0, input.search(/\r?\n|$/));
+	const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+		firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+	);
+
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let inQuotes = false;
+
+	for (let i = 0; i < input.length; i++) {
+		const char = input[i];
+
+		if (inQuotes) {
+			if (char === '"' && input[i + 1] === '"') {
+				field += '"';
+				i++;
+			} else if (char === '"') {
+				inQuotes = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && field === '') {
+			inQuotes = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			if (char === '\r' && input[i + 1] === '\n') i++;
+			row.push(field);
+			rows.push(row);
+			row = [];
+			field = '';
+		} else {
+			field += char;
+		}
+	}
+
+	if (field !== '' || row.length > 0) {
+		row.push(field);
+		rows.push(row);
+	}
+
+	// Spreadsheets often leave blank lines at the end
+	return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function unescapeVCardValue(value: string): string {
+	return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+/**
+ * Parse one or more vCards (versions 2.1, 3.0 and 4.0) into name/email/phone rows
+ * The first EMAIL and TEL of each card are used; FN is preferred over N for the name
+ */
+export function parseVCards(text: string): string[][] {
+	// Continuation lines start with a space or tab (RFC 6350 §3.2)
+	const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+	const cards: string[][] = [];
+	let card: { fn?: string; n?: string; email?: string; tel?: string; role?: string } | null = null;
+
+	for (const line of lines) {
+		const separator = line.indexOf(':');
+		if (separator === -1) continue;
+
+		// Property names may carry a group prefix ("item1.EMAIL") and parameters (";TYPE=work")
+		const property = line.slice(0, separator).split(';')[0].split('.').pop()!.toUpperCase();
+		const value = unescapeVCardValue(line.slice(separator + 1).trim());
+
+		if (property === 'BEGIN' && value.toUpperCase() === 'VCARD') {
+			card = {};
+		} else if (property === 'END' && card) {
+			const name = card.fn || (card.n ? card.n.split(';').slice(0, 2).reverse().join(' ').trim() : '');
+			cards.push([name, card.email ?? '', card.tel ?? '', card.role ?? '']);
+			card = null;
+		} else if (card) {
+			if (property === 'FN') card.fn ??= value;
+			if (property === 'N') card.n ??= line.slice(separator + 1).trim();
+			if (property === 'EMAIL') card.email ??= value;
+			if (property === 'TEL') card.tel ??= value.replace(/^tel:/i, '');
+			if (property === 'ROLE') card.role ??= value;
+		}
+	}
+
+	return cards;
+}
+
+/**
+ * Parse an uploaded roster file, picking the format from its name or contents
+ */
+export function parseRosterFile(text: string, fileName = ''): ParsedRoster {
+	const isVCard = /\.(vcf|vcard)$/i.test(fileName) || /^\s*BEGIN:VCARD/i.test(text);
+	if (isVCard) {
+		return { format: 'vcard', headers: ['Name', 'Email', 'Phone', 'Role'], rows: parseVCards(text) };
+	}
+
+	const [headers = [], ...rows] = parseCsv(text);
+	return { format: 'csv', headers: headers.map(header => header.trim()), rows };
+}
+
+const HEADER_SYNONYMS: Record<RosterField, RegExp> = {
+	name: /^(full ?name|name|member|display ?name|contact)$/i,
+	email: /^(e-?mail( address)?|mail)$/i,
+	phone: /^(phone( number)?|mobile|cell|tel(ephone)?)$/i,
+	role: /^(role|club ?role|position)$/i,
+	status: /^(status|membership( status)?)$/i
+};
+
+/**
+ * Guess the field for each column from its header; unrecognised columns are ignored
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+	const used = new Set<RosterField>();
+	return headers.map(header => {
+		const field = ROSTER_FIELDS.find(candidate => !used.has(candidate) && HEADER_SYNONYMS[candidate].test(header.trim()));
+		if (!field) return null;
+		used.add(field);
+		return field;
+	});
+}
+
+function normalizeEmail(email: string): string {
+	return email.trim().toLowerCase();
+}
+
+/**
+ * Map, validate and de-duplicate rows ready for import
+ * @param existing - Members already on the roster, matched by email
+ */
+export function previewImport(parsed: ParsedRoster, mapping: ColumnMapping, existing: ClubMember[]): ImportRow[] {
+	const existingEmails = new Set(existing.map(member => normalizeEmail(member.email)));
+	const seen = new Set<string>();
+
+	return parsed.rows.map((cells, index) => {
+		const values = { name: '', email: '', phone: '', role: '', status: '' } as Record<RosterField, string>;
+		mapping.forEach((field, column) => {
+			if (field && !values[field]) values[field] = (cells[column] ?? '').trim();
+		});
+
+		const errors: string[] = [];
+		const name = validateName(values.name);
+		const email = validateEmail(values.email);
+		if (!name.isValid) errors.push(`Name: ${name.error}`);
+		if (!email.isValid) errors.push(`Email: ${email.error}`);
+		if (values.phone) {
+			const phone = validatePhone(values.phone);
+			if (!phone.isValid) errors.push(`Phone: ${phone.error}`);
+		}
+
+		const role = values.role.toLowerCase();
+		if (role && !ROLES.includes(role as typeof ROLES[number])) {
+			errors.push(`Role: "${values.role}" is not one of ${ROLES.join(', ')}`);
+		}
+		const status = values.status.toLowerCase();
+		if (status && !STATUSES.includes(status as typeof STATUSES[number])) {
+			errors.push(`Status: "${values.status}" is not one of ${STATUSES.join(', ')}`);
+		}
+
+		const key = normalizeEmail(values.email);
+		const duplicate = !key ? null : existingEmails.has(key) ? 'existing' : seen.has(key) ? 'file' : null;
+		if (key) seen.add(key);
+
+		const row: ImportRow = { line: parsed.format === 'csv' ? index + 2 : index + 1, values, errors, duplicate };
+		if (errors.length === 0) {
+			row.member = {
+				name: name.name!,
+				email: email.email!,
+				phone: values.phone || null,
+				...(role ? { role: role as NewClubMember['role'] } : {}),
+				...(status ? { status: status as NewClubMember['status'] } : {})
+			};
+		}
+		return row;
+	});
+}
+
+/**
+ * Rows that can be imported: valid and not already on the roster or earlier in the file
+ */
+export function importableMembers(rows: ImportRow[]): NewClubMember[] {
+	return rows.filter(row => row.member && !row.duplicate).map(row => row.member!);
+}
+
+function csvCell(value: string): string {
+	// Keep spreadsheets from evaluating cells that look like formulas
+	const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+	return /[",;\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function joinedDate(member: ClubMember): string {
+	const value = member.joinedDate ?? member.joinDate;
+	return value ? value.slice(0, 10) : '';
+}
+
+/**
+ * Write members as CSV with a header row
+ */
+export function membersToCsv(members: ClubMember[]): string {
+	const header = ['Name', 'Email', 'Phone', 'Role', 'Status', 'Joined'];
+	const rows = members.map(member => [
+		member.name,
+		member.email,
+		member.phone ?? '',
+		member.clubRole ?? member.role,
+		member.status ?? '',
+		joinedDate(member)
+	]);
+	return [header, ...rows].map(row => row.map(cell => csvCell(String(cell))).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeVCardValue(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1');
+}
+
+/**
+ * Write members as vCard 3.0 contacts
+ */
+export function membersToVCards(members: ClubMember[]): string {
+	return members.map(member => {
+		const parts = member.name.trim().split(/\s+/);
+		const family = parts.length > 1 ? parts.pop()! : '';
+		const lines = [
+			'BEGIN:VCARD',
+			'VERSION:3.0',
+			`FN:${escapeVCardValue(member.name)}`,
+			`N:${escapeVCardValue(family)};${escapeVCardValue(parts.join(' '))};;;`,
+			`EMAIL;TYPE=INTERNET:${escapeVCardValue(member.email)}`,
+			...(member.phone ? [`TEL;TYPE=CELL:${escapeVCardValue(member.phone)}`] : []),
+			`ROLE:${escapeVCardValue(member.clubRole ?? member.role)}`,
+			'END:VCARD'
+		];
+		return lines.join('\r\n');
+	}).join('\r\n') + '\r\n';
+}
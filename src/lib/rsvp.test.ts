@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { applyRsvp, markWaitlist, promotionNotification, seatRsvps } from './rsvp';
+import type { Availability } from './api';
+
+function answer(userId: string, status: Availability['status'], minute: number): Availability {
+	const at = new Date(Date.UTC(2025, 6, 1, 12, minute)).toISOString();
+	return { userId, status, updatedAt: at, ...(status === 'available' ? { availableSince: at } : {}) };
+}
+
+function responses(...answers: Availability[]): Record<string, Availability> {
+	return Object.fromEntries(answers.map(response => [response.userId, response]));
+}
+
+const now = new Date(Date.UTC(2025, 6, 2, 9, 0));
+
+describe('seatRsvps', () => {
+	it('should seat available members in the order they said so', () => {
+		const seating = seatRsvps(responses(
+			answer('cat', 'available', 3),
+			answer('ann', 'available', 1),
+			answer('dan', 'maybe', 0),
+			answer('bob', 'available', 2)
+		), 2);
+
+		expect(seating.attending.map(response => response.userId)).toEqual(['ann', 'bob']);
+		expect(seating.waitlist.map(response => response.userId)).toEqual(['cat']);
+		expect(seating.seatsLeft).toBe(0);
+	});
+
+	it('should seat everyone available when the event has no limit', () => {
+		const seating = seatRsvps(responses(answer('ann', 'available', 1), answer('bob', 'available', 2)));
+
+		expect(seating.attending).toHaveLength(2);
+		expect(seating.waitlist).toEqual([]);
+		expect(seating.seatsLeft).toBeNull();
+	});
+
+	it('should clear waitlist flags once a seat is free', () => {
+		const marked = markWaitlist(responses(answer('ann', 'available', 1), { ...answer('bob', 'available', 2), waitlisted: true }), 2);
+
+		expect(marked.ann.waitlisted).toBeUndefined();
+		expect(marked.bob.waitlisted).toBeUndefined();
+	});
+});
+
+describe('applyRsvp', () => {
+	const full = responses(answer('ann', 'available', 1), answer('bob', 'available', 2), answer('cat', 'available', 3));
+
+	it('should waitlist a member who says yes once every seat is taken', () => {
+		const result = applyRsvp(full, { userId: 'dan', status: 'available' }, { capacity: 3, now });
+
+		expect(result.waitlisted).toBe(true);
+		expect(result.promoted).toEqual([]);
+		expect(result.responses.dan).toMatchObject({ waitlisted: true, availableSince: now.toISOString() });
+	});
+
+	it('should promote the longest waiting member when someone drops out', () => {
+		const waiting = applyRsvp(full, { userId: 'dan', status: 'available' }, { capacity: 2, now }).responses;
+		expect(seatRsvps(waiting, 2).waitlist.map(response => response.userId)).toEqual(['cat', 'dan']);
+
+		const result = applyRsvp(waiting, { userId: 'ann', status: 'unavailable' }, { capacity: 2, now });
+
+		expect(result.promoted).toEqual(['cat']);
+		expect(result.responses.cat.waitlisted).toBeUndefined();
+		expect(result.responses.dan.waitlisted).toBe(true);
+		expect(result.responses.ann.availableSince).toBeUndefined();
+	});
+
+	it('should keep a member\'s place in the queue when they only change their note', () => {
+		const result = applyRsvp(full, { userId: 'cat', status: 'available', note: 'Bringing snacks' }, { capacity: 2, now });
+
+		expect(result.waitlisted).toBe(true);
+		expect(result.responses.cat).toMatchObject({ note: 'Bringing snacks', availableSince: full.cat.availableSince, updatedAt: now.toISOString() });
+	});
+
+	it('should not hold a seat for a maybe', () => {
+		const result = applyRsvp(full, { userId: 'bob', status: 'maybe' }, { capacity: 2, now });
+
+		expect(result.promoted).toEqual(['cat']);
+		expect(seatRsvps(result.responses, 2).attending.map(response => response.userId)).toEqual(['ann', 'cat']);
+	});
+});
+
+describe('promotionNotification', () => {
+	it('should tell the member which event they have a seat at', () => {
+		expect(promotionNotification('club-1', 'event-1', 'Monthly Book Discussion', now)).toMatchObject({
+			type: 'success',
+			message: expect.stringContaining('Monthly Book Discussion'),
+			timestamp: now.toISOString(),
+			read: false,
+			link: '/clubs/club-1/availability'
+		});
+	});
+});
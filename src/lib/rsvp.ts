@@ -0,0 +1,113 @@
+/**
+ * RSVP seating for events with limited capacity
+ * Members who say they are available take seats in the order they said so (availableSince);
+ * once every seat is taken the rest are waitlisted, and when someone drops out the longest
+ * waiting member is promoted. "Maybe" answers never hold a seat.
+ */
+
+import type { Availability } from './api';
+import type { AppNotification } from './stores';
+import { clubPath } from './clubs';
+
+export interface SeatedRsvps {
+	attending: Availability[];
+	waitlist: Availability[];
+	/** Seats still free; null when the event has no limit */
+	seatsLeft: number | null;
+}
+
+export interface RsvpChange {
+	userId: string;
+	status: Availability['status'];
+	note?: string;
+}
+
+export interface RsvpResult {
+	/** Every response after the change, with waitlisted flags updated */
+	responses: Record<string, Availability>;
+	/** Whether the member who changed their answer is on the waitlist */
+	waitlisted: boolean;
+	/** Members moved from the waitlist to a seat by the change */
+	promoted: string[];
+}
+
+function queuedAt(response: Availability): number {
+	return Date.parse(response.availableSince ?? response.updatedAt);
+}
+
+/**
+ * Split available members into those with a seat and those waiting, each in queue order
+ * @param capacity - Seats available; null or undefined for no limit
+ */
+export function seatRsvps(responses: Record<string, Availability>, capacity?: number | null): SeatedRsvps {
+	const available = Object.values(responses)
+		.filter(response => response.status === 'available')
+		.sort((a, b) => queuedAt(a) - queuedAt(b) || a.userId.localeCompare(b.userId));
+
+	if (capacity == null) {
+		return { attending: available, waitlist: [], seatsLeft: null };
+	}
+	return {
+		attending: available.slice(0, capacity),
+		waitlist: available.slice(capacity),
+		seatsLeft: Math.max(0, capacity - available.length)
+	};
+}
+
+/**
+ * Set each response's waitlisted flag from the current seating
+ */
+export function markWaitlist(responses: Record<string, Availability>, capacity?: number | null): Record<string, Availability> {
+	const waiting = new Set(seatRsvps(responses, capacity).waitlist.map(response => response.userId));
+	return Object.fromEntries(Object.entries(responses).map(([userId, response]) => {
+		const { waitlisted: _previous, ...rest } = response;
+		return [userId, waiting.has(userId) ? { ...rest, waitlisted: true } : rest];
+	}));
+}
+
+/**
+ * Apply one member's answer and work out who it seats or promotes
+ * Changing a note or answering available again keeps the member's place in the queue.
+ */
+export function applyRsvp(
+	responses: Record<string, Availability>,
+	change: RsvpChange,
+	options: { capacity?: number | null; now?: Date } = {}
+): RsvpResult {
+	const now = (options.now ?? new Date()).toISOString();
+	const previous = responses[change.userId];
+	const stillAvailable = previous?.status === 'available' && change.status === 'available';
+
+	const response: Availability = {
+		userId: change.userId,
+		status: change.status,
+		updatedAt: now,
+		...(change.note !== undefined ? { note: change.note } : previous?.note !== undefined ? { note: previous.note } : {}),
+		...(change.status === 'available' ? { availableSince: stillAvailable ? previous.availableSince ?? previous.updatedAt : now } : {})
+	};
+
+	const before = seatRsvps(responses, options.capacity);
+	const updated = markWaitlist({ ...responses, [change.userId]: response }, options.capacity);
+	const seated = new Set(seatRsvps(updated, options.capacity).attending.map(attendee => attendee.userId));
+
+	return {
+		responses: updated,
+		waitlisted: updated[change.userId].waitlisted === true,
+		promoted: before.waitlist.map(waiting => waiting.userId).filter(userId => seated.has(userId))
+	};
+}
+
+/**
+ * In-app notification telling a member they have a seat after waiting
+ */
+export function promotionNotification(clubId: string, eventId: string, eventTitle: string, now: Date = new Date()): AppNotification {
+	return {
+		id: `waitlist-${eventId}-${now.getTime()}`,
+		type: 'success',
+		title: 'You have a seat',
+		message: `A place opened up at ${eventTitle}, so you've been moved off the waitlist.`,
+		timestamp: now.toISOString(),
+		read: false,
+		link: clubPath(clubId, 'availability')
+	};
+}
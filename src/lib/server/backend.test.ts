@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import { assertClubAdmin, assertClubMember, createBackendDirectory } from './backend';
+import { clubMembers, fakeDirectory, requester } from './testing';
+
+describe('createBackendDirectory', () => {
+	it('should create events in the backend with the caller\'s credentials unless mock data is on, even in development', async () => {
+		const fetch = vi.mocked(globalThis.fetch);
+		const created = { id: 'event-9', title: 'Book Circle', date: '2025-09-02T23:00:00.000Z', type: 'meeting', status: 'scheduled', organizerId: 'lead' };
+		fetch.mockResolvedValueOnce(new Response(JSON.stringify(created), { status: 201 }));
+
+		const event = await createBackendDirectory().createEvent('club-1', {
+			title: 'Book Circle',
+			date: '2025-09-02T23:00:00.000Z',
+			type: 'meeting'
+		}, 'Bearer lead-session');
+
+		expect(event).toEqual(created);
+		expect(fetch).toHaveBeenCalledWith(expect.stringMatching(/\/club\/club-1\/events$/), expect.objectContaining({
+			method: 'POST',
+			headers: expect.objectContaining({ 'Authorization': 'Bearer lead-session' })
+		}));
+	});
+});
+
+describe('club guards', () => {
+	it('should let members through, admins further, and site admins everywhere', async () => {
+		const directory = fakeDirectory(clubMembers({ lead: 'admin', ana: 'member' }));
+
+		await expect(assertClubMember(directory, 'club-1', requester('ana'), 'Members only')).resolves.toHaveLength(2);
+		await expect(assertClubMember(directory, 'club-1', requester('stranger'), 'Members only'))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_CLUB_MEMBER', message: 'Members only' });
+		await expect(assertClubAdmin(directory, 'club-1', requester('ana'), 'Admins only'))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_CLUB_ADMIN', message: 'Admins only' });
+		await expect(assertClubAdmin(directory, 'club-1', requester('lead'), 'Admins only')).resolves.toHaveLength(2);
+		await expect(assertClubAdmin(directory, 'club-1', requester('site', { role: 'admin' }), 'Admins only')).resolves.toHaveLength(2);
+	});
+});
@@ -0,0 +1,192 @@
+/**
+ * Backend access shared by the club services
+ * Invitations, polls, votes, reminders, feeds and discussions keep their own state in memory
+ * on this server and read members, events and books from the backend, with the requesting
+ * member's credentials or a service key. Calls go straight to fetch rather than through the
+ * browser-oriented client in api.ts with its shared response cache.
+ */
+
+import { json, type RequestEvent } from '@sveltejs/kit';
+import type { z } from 'zod';
+import { createErrorResponse, normalizeError } from '$lib/errors';
+import { getApiConfig, isDevelopment, isMockDataEnabled } from '$lib/env';
+import { createApiClient, type Availability, type Book, type Event, type EventUpdate, type NewEvent } from '$lib/api.generated';
+import {
+	ApiError,
+	addClubMember,
+	createScheduleEvent,
+	fetchAvailability,
+	fetchClubBooks,
+	fetchClubMembers,
+	fetchScheduleEvents,
+	updateScheduleEvent,
+	type ClubMember,
+	type NewClubMember
+} from '$lib/api';
+import { isClubAdmin } from '$lib/roster';
+
+/**
+ * The signed-in user making a request, with the credentials to forward to the backend
+ */
+export interface Requester {
+	user: { id: string; name: string; email: string; role?: string };
+	authorization: string;
+}
+
+/**
+ * Everything the club services read from and write to the backend
+ * Each service depends on the few methods it uses, so tests only fake those.
+ */
+export interface BackendDirectory {
+	listMembers(clubId: string, authorization: string): Promise<ClubMember[]>;
+	addMember(clubId: string, member: NewClubMember, authorization: string): Promise<ClubMember>;
+	listBooks(clubId: string, authorization: string): Promise<Book[]>;
+	listEvents(clubId: string, authorization: string): Promise<Event[]>;
+	createEvent(clubId: string, event: NewEvent, authorization: string): Promise<Event>;
+	updateEvent(clubId: string, eventId: string, changes: EventUpdate, authorization: string): Promise<Event>;
+	getAvailability(eventId: string, authorization: string): Promise<Record<string, Availability>>;
+}
+
+/**
+ * An error a club service reports to the client as { error, code, message }
+ */
+export class ServiceError extends Error {
+	constructor(readonly status: number, readonly code: string, message: string) {
+		super(message);
+		this.name = 'ServiceError';
+	}
+}
+
+/**
+ * Credentials for work the server does on its own behalf, from a backend key in the environment
+ * Development and mock data run without one.
+ * @param variable - Environment variable holding the key, e.g. REMINDER_API_KEY
+ * @param purpose - What needs the key, for the error when it's missing
+ */
+export function serviceAuthorization(variable: string, purpose: string): string {
+	const key = process.env[variable];
+	if (key) return `Bearer ${key}`;
+	if (isMockDataEnabled() || isDevelopment()) return '';
+	throw new Error(`${variable} must be set to ${purpose}`);
+}
+
+/**
+ * Generated API client that sends the given credentials
+ */
+export function createBackendClient(authorization: string) {
+	return createApiClient(async (path, init, schema) => {
+		const response = await fetch(`${getApiConfig().baseUrl}${path}`, {
+			...init,
+			headers: {
+				'Accept': 'application/json',
+				'Content-Type': 'application/json',
+				'Authorization': authorization
+			}
+		});
+		const body = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+		if (!response.ok) {
+			throw new ApiError(response, body);
+		}
+		return schema.parse(body);
+	});
+}
+
+/**
+ * Directory backed by the API, or by the mock data when VITE_ENABLE_MOCK_DATA is set
+ */
+export function createBackendDirectory(): BackendDirectory {
+	return {
+		listMembers: (clubId, authorization) => isMockDataEnabled()
+			? fetchClubMembers(clubId)
+			: createBackendClient(authorization).listClubMembers({ clubId }),
+		addMember: (clubId, member, authorization) => isMockDataEnabled()
+			? addClubMember(clubId, member)
+			: createBackendClient(authorization).addClubMember({ clubId }, member),
+		listBooks: (clubId, authorization) => isMockDataEnabled()
+			? fetchClubBooks(clubId)
+			: createBackendClient(authorization).listClubBooks({ clubId }),
+		listEvents: (clubId, authorization) => isMockDataEnabled()
+			? fetchScheduleEvents(clubId)
+			: createBackendClient(authorization).listClubEvents({ clubId }),
+		createEvent: (clubId, event, authorization) => isMockDataEnabled()
+			? createScheduleEvent(clubId, event)
+			: createBackendClient(authorization).createClubEvent({ clubId }, event),
+		updateEvent: (clubId, eventId, changes, authorization) => isMockDataEnabled()
+			? updateScheduleEvent(clubId, eventId, changes)
+			: createBackendClient(authorization).updateClubEvent({ clubId, eventId }, changes),
+		getAvailability: (eventId, authorization) => isMockDataEnabled()
+			? fetchAvailability(eventId)
+			: createBackendClient(authorization).getEventAvailability({ eventId })
+	};
+}
+
+/**
+ * The club's members, when the requester is one of them (site admins always are)
+ * @param message - What members can do that others can't, shown with the 403
+ */
+export async function assertClubMember(
+	directory: Pick<BackendDirectory, 'listMembers'>,
+	clubId: string,
+	requester: Requester,
+	message: string
+): Promise<ClubMember[]> {
+	const members = await directory.listMembers(clubId, requester.authorization);
+	if (requester.user.role !== 'admin' && !members.some(member => member.id === requester.user.id)) {
+		throw new ServiceError(403, 'NOT_CLUB_MEMBER', message);
+	}
+	return members;
+}
+
+/**
+ * The club's members, when the requester administers the club
+ * @param message - What only admins can do, shown with the 403
+ */
+export async function assertClubAdmin(
+	directory: Pick<BackendDirectory, 'listMembers'>,
+	clubId: string,
+	requester: Requester,
+	message: string
+): Promise<ClubMember[]> {
+	const members = await directory.listMembers(clubId, requester.authorization);
+	if (!isClubAdmin(requester.user, members)) {
+		throw new ServiceError(403, 'NOT_CLUB_ADMIN', message);
+	}
+	return members;
+}
+
+/**
+ * The signed-in user for an /api request, or a ServiceError when there is none
+ */
+export function requireRequester(event: RequestEvent): Requester {
+	const session = event.locals.session;
+	const user = session?.metadata?.user as Requester['user'] | undefined;
+	if (!session || !user) {
+		throw new ServiceError(401, 'AUTHENTICATION_REQUIRED', 'Please sign in to continue');
+	}
+	return { user, authorization: `Bearer ${session.id}` };
+}
+
+/**
+ * Parse and validate a JSON request body
+ */
+export async function readBody<T>(event: RequestEvent, schema: z.ZodType<T, z.ZodTypeDef, unknown>): Promise<T> {
+	const body = await event.request.json().catch(() => ({}));
+	const result = schema.safeParse(body);
+	if (!result.success) {
+		throw new ServiceError(400, 'VALIDATION_ERROR', result.error.issues[0]?.message ?? 'Invalid request');
+	}
+	return result.data;
+}
+
+/**
+ * Error response in the backend's { error, code, message } format so api.ts surfaces the message
+ */
+export function serviceErrorResponse(error: unknown): Response {
+	if (error instanceof ServiceError) {
+		return json({ error: error.name, code: error.code, message: error.message }, { status: error.status });
+	}
+	if (error instanceof ApiError && error.statusCode > 0) {
+		return json({ error: error.name, code: error.code ?? 'BACKEND_ERROR', message: error.userMessage }, { status: error.statusCode });
+	}
+	return createErrorResponse(normalizeError(error));
+}
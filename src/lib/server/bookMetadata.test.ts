@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BookMetadataService } from './bookMetadata';
+import { createFixtureProvider, type BookMetadataProvider } from '$lib/books';
+
+describe('BookMetadataService', () => {
+	it('should ask providers in order and skip ones that fail', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const offline: BookMetadataProvider = {
+			name: 'Offline',
+			lookupIsbn: async () => { throw new Error('network down'); }
+		};
+		const unknown: BookMetadataProvider = { name: 'Empty', lookupIsbn: async () => null };
+		const books = new BookMetadataService({ providers: [createFixtureProvider()] });
+		books.use(unknown);
+		books.use(offline);
+
+		await expect(books.lookupIsbn('0-316-55634-3')).resolves.toMatchObject({
+			isbn: '9780316556347',
+			title: 'Circe',
+			authors: ['Madeline Miller'],
+			source: 'Local catalog'
+		});
+		expect(warn).toHaveBeenCalledTimes(1);
+		warn.mockRestore();
+	});
+
+	it('should reject invalid ISBNs and report books nobody knows', async () => {
+		const books = new BookMetadataService();
+		await expect(books.lookupIsbn('12345')).rejects.toMatchObject({ status: 400, code: 'INVALID_ISBN' });
+		await expect(books.lookupIsbn('9780804429573')).rejects.toMatchObject({ status: 404, code: 'BOOK_NOT_FOUND' });
+	});
+});
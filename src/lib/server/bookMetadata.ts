@@ -0,0 +1,62 @@
+/**
+ * Book details by ISBN
+ * Providers are asked in order until one knows the book. The bundled fixture provider is
+ * always last, so development and offline use still find the fixture books; a real catalog
+ * service goes in front of it with bookMetadataService.use().
+ */
+
+import { createFixtureProvider, toIsbn13, type BookMetadata, type BookMetadataProvider } from '$lib/books';
+import { ServiceError } from './backend';
+
+export class BookMetadataError extends ServiceError {
+	constructor(status: number, code: string, message: string) {
+		super(status, code, message);
+		this.name = 'BookMetadataError';
+	}
+}
+
+export interface BookMetadataServiceOptions {
+	providers?: BookMetadataProvider[];
+}
+
+/**
+ * Looks books up by ISBN across the registered providers
+ */
+export class BookMetadataService {
+	private providers: BookMetadataProvider[];
+
+	constructor(options: BookMetadataServiceOptions = {}) {
+		this.providers = options.providers ?? [createFixtureProvider()];
+	}
+
+	/**
+	 * Ask a provider before the ones already registered
+	 */
+	use(provider: BookMetadataProvider): void {
+		this.providers = [provider, ...this.providers];
+	}
+
+	/**
+	 * Details for an ISBN-10 or ISBN-13
+	 * A provider that fails is skipped, so an unreachable catalog service falls back to the next one.
+	 */
+	async lookupIsbn(input: string, signal?: AbortSignal): Promise<BookMetadata> {
+		const isbn = toIsbn13(input);
+		if (!isbn) {
+			throw new BookMetadataError(400, 'INVALID_ISBN', 'That is not a valid ISBN-10 or ISBN-13');
+		}
+
+		for (const provider of this.providers) {
+			try {
+				const found = await provider.lookupIsbn(isbn, signal);
+				if (found) return { ...found, isbn, source: provider.name };
+			} catch (error) {
+				console.warn(`Book lookup with ${provider.name} failed:`, error);
+			}
+		}
+		throw new BookMetadataError(404, 'BOOK_NOT_FOUND', 'No details found for that ISBN; enter them by hand');
+	}
+}
+
+export const bookMetadataService = new BookMetadataService();
+
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { BookVoteService } from './bookVotes';
+import { clubMembers, fakeDirectory, requester } from './testing';
+import type { Book, Event, EventUpdate } from '$lib/api';
+
+const monthly = {
+	id: 'event-1',
+	title: 'Book Club',
+	date: '2025-07-10T18:00:00.000Z',
+	type: 'meeting',
+	status: 'scheduled',
+	organizerId: 'lead',
+	rrule: 'FREQ=MONTHLY'
+} as Event;
+
+const catalog = [
+	{ id: 'book-circe', clubId: 'club-1', title: 'Circe', createdAt: '2025-06-01T00:00:00.000Z' },
+	{ id: 'book-piranesi', clubId: 'club-1', title: 'Piranesi', createdAt: '2025-06-01T00:00:00.000Z' },
+	{ id: 'book-tmc', clubId: 'club-1', title: 'The Thursday Murder Club', createdAt: '2025-06-01T00:00:00.000Z' }
+] as Book[];
+
+/**
+ * Club where "lead" is an admin and "ana" and "ben" are members, with one monthly meeting
+ */
+function club() {
+	const updates: Array<{ eventId: string; changes: EventUpdate }> = [];
+	const directory = fakeDirectory(clubMembers({ lead: 'admin', ana: 'member', ben: 'member' }), {
+		listBooks: async () => catalog,
+		listEvents: async () => [monthly],
+		updateEvent: async (clubId, eventId, changes) => {
+			updates.push({ eventId, changes });
+			return { ...monthly, ...changes } as Event;
+		}
+	});
+	return { directory, updates };
+}
+
+async function boardWithVote(options: { anonymous?: boolean; tieBreak?: 'earliestNomination' | 'organizer' } = {}) {
+	let now = Date.UTC(2025, 6, 1);
+	const fake = club();
+	const votes = new BookVoteService({ directory: fake.directory, now: () => now });
+	const circe = await votes.nominate('club-1', { bookId: 'book-circe', note: 'Greek myth, retold' }, requester('ana'));
+	now += 1000;
+	const piranesi = await votes.nominate('club-1', { bookId: 'book-piranesi' }, requester('ben'));
+	const vote = await votes.createVote('club-1', {
+		title: 'August pick',
+		method: 'ranked',
+		anonymous: options.anonymous ?? false,
+		tieBreak: options.tieBreak ?? 'earliestNomination',
+		closesAt: '2025-07-05T00:00:00.000Z'
+	}, requester('lead'));
+	return { ...fake, votes, vote, circe, piranesi, advance: (ms: number) => { now += ms; } };
+}
+
+describe('BookVoteService', () => {
+	it('should keep one nomination per catalog book and let only the nominator or an admin withdraw it', async () => {
+		const { directory } = club();
+		const votes = new BookVoteService({ directory });
+		const nomination = await votes.nominate('club-1', { bookId: 'book-tmc' }, requester('ana'));
+
+		await expect(votes.nominate('club-1', { bookId: 'book-tmc' }, requester('ben')))
+			.rejects.toMatchObject({ status: 409, code: 'ALREADY_NOMINATED' });
+		await expect(votes.nominate('club-1', { bookId: 'book-unknown' }, requester('ben')))
+			.rejects.toMatchObject({ status: 404, code: 'BOOK_NOT_FOUND' });
+		await expect(votes.withdrawNomination('club-1', nomination.id, requester('ben')))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_NOMINATOR' });
+		await expect(votes.nominate('club-1', { bookId: 'book-circe' }, requester('stranger')))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_CLUB_MEMBER' });
+
+		await votes.withdrawNomination('club-1', nomination.id, requester('lead'));
+		expect(await votes.listNominations('club-1', requester('ana'))).toEqual([]);
+	});
+
+	it('should only count ballots once voting closes and hide who voted on anonymous votes', async () => {
+		const { votes, vote, circe, piranesi, advance } = await boardWithVote({ anonymous: true });
+		expect(vote.candidates.map(candidate => candidate.id)).toEqual([circe.id, piranesi.id]);
+
+		await votes.castBallot('club-1', vote.id, [piranesi.id, circe.id], requester('ana'));
+		const cast = await votes.castBallot('club-1', vote.id, [piranesi.id], requester('ben'));
+		expect(cast).toMatchObject({ ballotCount: 2, ballots: null, myBallot: [piranesi.id], result: null });
+		await expect(votes.castBallot('club-1', vote.id, ['nomination_other'], requester('ana')))
+			.rejects.toMatchObject({ status: 400, code: 'UNKNOWN_CANDIDATE' });
+		await expect(votes.withdrawNomination('club-1', circe.id, requester('ana')))
+			.rejects.toMatchObject({ status: 409, code: 'NOMINATION_IN_VOTE' });
+
+		advance(5 * 24 * 60 * 60 * 1000);
+		const [closed] = await votes.listVotes('club-1', requester('ana'));
+		expect(closed).toMatchObject({ status: 'closed', ballots: null, result: { winnerId: piranesi.id, decidedBy: 'majority' } });
+		await expect(votes.castBallot('club-1', vote.id, [circe.id], requester('lead')))
+			.rejects.toMatchObject({ status: 409, code: 'VOTE_CLOSED' });
+	});
+
+	it('should set the winning book on the chosen occurrence only', async () => {
+		const { votes, vote, circe, piranesi, updates } = await boardWithVote();
+		await votes.castBallot('club-1', vote.id, [circe.id], requester('ana'));
+		await expect(votes.attachWinner('club-1', vote.id, { eventId: 'event-1', originalDate: '2025-08-10' }, requester('lead')))
+			.rejects.toMatchObject({ status: 409, code: 'VOTE_OPEN' });
+
+		await votes.closeVote('club-1', vote.id, requester('lead'));
+		await expect(votes.attachWinner('club-1', vote.id, { eventId: 'event-1', originalDate: '2025-08-10', candidateId: piranesi.id }, requester('lead')))
+			.rejects.toMatchObject({ status: 400, code: 'NOT_THE_WINNER' });
+		await expect(votes.attachWinner('club-1', vote.id, { eventId: 'event-1', originalDate: '2025-08-11' }, requester('lead')))
+			.rejects.toMatchObject({ status: 400, code: 'UNKNOWN_OCCURRENCE' });
+
+		const attached = await votes.attachWinner('club-1', vote.id, { eventId: 'event-1', originalDate: '2025-08-10' }, requester('lead'));
+		expect(updates).toEqual([{ eventId: 'event-1', changes: { exceptions: [{ originalDate: '2025-08-10', bookId: 'book-circe' }] } }]);
+		expect(attached.vote).toMatchObject({ chosenId: circe.id, eventId: 'event-1' });
+		expect(await votes.listNominations('club-1', requester('ana'))).toEqual([expect.objectContaining({ id: piranesi.id })]);
+	});
+
+	it('should let the organizer pick between tied books', async () => {
+		const { votes, vote, circe, piranesi } = await boardWithVote({ tieBreak: 'organizer' });
+		await votes.castBallot('club-1', vote.id, [circe.id], requester('ana'));
+		await votes.castBallot('club-1', vote.id, [piranesi.id], requester('ben'));
+		const closed = await votes.closeVote('club-1', vote.id, requester('lead'));
+		expect(closed.result).toMatchObject({ winnerId: null, tied: [circe.id, piranesi.id] });
+		expect(closed.ballots).toEqual({ ana: [circe.id], ben: [piranesi.id] });
+
+		await expect(votes.attachWinner('club-1', vote.id, { eventId: 'event-1', originalDate: '2025-08-10' }, requester('lead')))
+			.rejects.toMatchObject({ status: 400, code: 'NOT_THE_WINNER' });
+		const { vote: attached } = await votes.attachWinner(
+			'club-1', vote.id, { eventId: 'event-1', originalDate: '2025-08-10', candidateId: piranesi.id }, requester('lead')
+		);
+		expect(attached.chosenId).toBe(piranesi.id);
+	});
+});
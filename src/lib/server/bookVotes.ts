@@ -0,0 +1,305 @@
+/**
+ * Book selection
+ * Nominations and votes are held in memory on this server, like meeting polls. Nominated
+ * books come from the club's catalog in the backend, and attaching a winner sets it on the
+ * chosen meeting there.
+ */
+
+import type { Event, EventUpdate } from '$lib/api.generated';
+import type { ClubMember } from '$lib/api';
+import { isClubAdmin } from '$lib/roster';
+import { editOccurrence, expandEvent } from '$lib/recurrence';
+import {
+	MAX_VOTE_CANDIDATES,
+	isVoteClosed,
+	tallyVote,
+	type AttachWinner,
+	type BookNomination,
+	type BookVote,
+	type NewBookVote,
+	type NewNomination
+} from '$lib/bookVotes';
+import {
+	ServiceError,
+	assertClubAdmin,
+	assertClubMember,
+	createBackendDirectory,
+	type BackendDirectory,
+	type Requester
+} from './backend';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Backend access needed to check membership and the catalog, and to update the meeting
+ */
+export type BookVoteDirectory = Pick<BackendDirectory, 'listMembers' | 'listBooks' | 'listEvents' | 'updateEvent'>;
+
+export class BookVoteError extends ServiceError {
+	constructor(status: number, code: string, message: string) {
+		super(status, code, message);
+		this.name = 'BookVoteError';
+	}
+}
+
+/** A vote as held here; ballots are only given out through BookVoteService.view */
+type StoredVote = Omit<BookVote, 'ballotCount' | 'ballots' | 'myBallot' | 'result'> & {
+	ballots: Map<string, string[]>;
+};
+
+export interface BookVoteServiceOptions {
+	directory?: BookVoteDirectory;
+	now?: () => number;
+}
+
+/**
+ * Runs a club's nomination board and book votes
+ */
+export class BookVoteService {
+	private nominations = new Map<string, BookNomination>();
+	private votes = new Map<string, StoredVote>();
+	private readonly directory: BookVoteDirectory;
+	private readonly now: () => number;
+
+	constructor(options: BookVoteServiceOptions = {}) {
+		this.directory = options.directory ?? createBackendDirectory();
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * Books on a club's board that haven't won a vote yet, oldest first (club members only)
+	 */
+	async listNominations(clubId: string, requester: Requester): Promise<BookNomination[]> {
+		await this.assertClubMember(clubId, requester);
+		return this.openNominations(clubId);
+	}
+
+	/**
+	 * Put a book from the club's catalog on the board (club members only)
+	 */
+	async nominate(clubId: string, input: NewNomination, requester: Requester): Promise<BookNomination> {
+		await this.assertClubMember(clubId, requester);
+
+		const books = await this.directory.listBooks(clubId, requester.authorization);
+		const book = books.find(candidate => candidate.id === input.bookId);
+		if (!book) {
+			throw new BookVoteError(404, 'BOOK_NOT_FOUND', 'That book is not in the club\'s catalog');
+		}
+		if (this.openNominations(clubId).some(nomination => nomination.bookId === book.id)) {
+			throw new BookVoteError(409, 'ALREADY_NOMINATED', `"${book.title}" is already nominated`);
+		}
+
+		const nomination: BookNomination = {
+			id: `nomination_${crypto.randomUUID()}`,
+			clubId,
+			bookId: book.id,
+			note: input.note || null,
+			nominatedBy: requester.user.id,
+			nominatedAt: new Date(this.now()).toISOString(),
+			status: 'open'
+		};
+		this.nominations.set(nomination.id, nomination);
+		return nomination;
+	}
+
+	/**
+	 * Take a book off the board (whoever nominated it, or a club admin)
+	 */
+	async withdrawNomination(clubId: string, nominationId: string, requester: Requester): Promise<BookNomination> {
+		const members = await this.assertClubMember(clubId, requester);
+		const nomination = this.nominations.get(nominationId);
+		if (!nomination || nomination.clubId !== clubId || nomination.status !== 'open') {
+			throw new BookVoteError(404, 'NOMINATION_NOT_FOUND', 'Nomination not found');
+		}
+		if (nomination.nominatedBy !== requester.user.id && !isClubAdmin(requester.user, members)) {
+			throw new BookVoteError(403, 'NOT_NOMINATOR', 'Only whoever nominated a book or a club admin can withdraw it');
+		}
+		const inVote = [...this.votes.values()].some(vote =>
+			vote.clubId === clubId &&
+			!isVoteClosed(vote, this.now()) &&
+			vote.candidates.some(candidate => candidate.id === nominationId)
+		);
+		if (inVote) {
+			throw new BookVoteError(409, 'NOMINATION_IN_VOTE', 'This book is in a vote that is still open');
+		}
+
+		this.nominations.delete(nominationId);
+		return nomination;
+	}
+
+	/**
+	 * A club's votes, open ones first, then newest first (club members only)
+	 */
+	async listVotes(clubId: string, requester: Requester): Promise<BookVote[]> {
+		await this.assertClubMember(clubId, requester);
+		return [...this.votes.values()]
+			.filter(vote => vote.clubId === clubId)
+			.map(vote => this.view(vote, requester))
+			.sort((a, b) => Number(a.status === 'closed') - Number(b.status === 'closed') || b.createdAt.localeCompare(a.createdAt));
+	}
+
+	/**
+	 * Put nominated books to a vote (club admins only)
+	 */
+	async createVote(clubId: string, input: NewBookVote, requester: Requester): Promise<BookVote> {
+		await this.assertClubAdmin(clubId, requester);
+
+		if (Date.parse(input.closesAt) <= this.now()) {
+			throw new BookVoteError(400, 'INVALID_CLOSE_DATE', 'Voting has to close in the future');
+		}
+
+		const open = this.openNominations(clubId);
+		const ids = input.nominationIds ? [...new Set(input.nominationIds)] : open.map(nomination => nomination.id);
+		const chosen = ids.map(id => open.find(nomination => nomination.id === id));
+		if (chosen.some(nomination => !nomination)) {
+			throw new BookVoteError(400, 'UNKNOWN_NOMINATION', 'Every book in the vote must be nominated first');
+		}
+		if (chosen.length < 2) {
+			throw new BookVoteError(400, 'NOT_ENOUGH_NOMINATIONS', 'A vote needs at least two nominated books');
+		}
+		if (chosen.length > MAX_VOTE_CANDIDATES) {
+			throw new BookVoteError(400, 'TOO_MANY_NOMINATIONS', `A vote can offer at most ${MAX_VOTE_CANDIDATES} books`);
+		}
+
+		const vote: StoredVote = {
+			id: `vote_${crypto.randomUUID()}`,
+			clubId,
+			title: input.title,
+			method: input.method,
+			anonymous: input.anonymous,
+			tieBreak: input.tieBreak,
+			candidates: (chosen as BookNomination[]).map(({ id, bookId, nominatedAt }) => ({ id, bookId, nominatedAt })),
+			status: 'open',
+			closesAt: new Date(input.closesAt).toISOString(),
+			createdBy: requester.user.id,
+			createdAt: new Date(this.now()).toISOString(),
+			ballots: new Map(),
+			chosenId: null,
+			eventId: null
+		};
+		this.votes.set(vote.id, vote);
+		return this.view(vote, requester);
+	}
+
+	/**
+	 * Cast or replace the requester's ballot (club members only)
+	 */
+	async castBallot(clubId: string, voteId: string, choices: string[], requester: Requester): Promise<BookVote> {
+		await this.assertClubMember(clubId, requester);
+		const vote = this.findVote(clubId, voteId);
+		if (isVoteClosed(vote, this.now())) {
+			throw new BookVoteError(409, 'VOTE_CLOSED', 'Voting has closed');
+		}
+		if (choices.some(choice => !vote.candidates.some(candidate => candidate.id === choice))) {
+			throw new BookVoteError(400, 'UNKNOWN_CANDIDATE', 'That book is not part of this vote');
+		}
+
+		vote.ballots.set(requester.user.id, [...choices]);
+		return this.view(vote, requester);
+	}
+
+	/**
+	 * End voting before the closing date (club admins only)
+	 */
+	async closeVote(clubId: string, voteId: string, requester: Requester): Promise<BookVote> {
+		await this.assertClubAdmin(clubId, requester);
+		const vote = this.findVote(clubId, voteId);
+		if (isVoteClosed(vote, this.now())) {
+			throw new BookVoteError(409, 'VOTE_CLOSED', 'Voting has already closed');
+		}
+		vote.status = 'closed';
+		return this.view(vote, requester);
+	}
+
+	/**
+	 * Set a closed vote's winning book on a meeting (club admins only)
+	 * Only the chosen occurrence of a recurring meeting changes. When the tie-break leaves a tie
+	 * to the organizer, candidateId says which of the tied books to take.
+	 */
+	async attachWinner(
+		clubId: string,
+		voteId: string,
+		input: AttachWinner,
+		requester: Requester
+	): Promise<{ vote: BookVote; event: Event }> {
+		await this.assertClubAdmin(clubId, requester);
+		const vote = this.findVote(clubId, voteId);
+		if (!isVoteClosed(vote, this.now())) {
+			throw new BookVoteError(409, 'VOTE_OPEN', 'Voting is still open');
+		}
+
+		const result = tallyVote(vote, [...vote.ballots.values()]);
+		const winnerId = result.winnerId ?? vote.chosenId;
+		if (!winnerId && result.tied.length === 0) {
+			throw new BookVoteError(409, 'NO_BALLOTS', 'Nobody voted, so there is no winner');
+		}
+		const candidateId = input.candidateId ?? winnerId;
+		if (!candidateId || (winnerId ? candidateId !== winnerId : !result.tied.includes(candidateId))) {
+			throw new BookVoteError(400, 'NOT_THE_WINNER', winnerId
+				? 'Only the winning book can be attached'
+				: 'Choose one of the tied books');
+		}
+
+		const events = await this.directory.listEvents(clubId, requester.authorization);
+		const event = events.find(candidate => candidate.id === input.eventId);
+		if (!event) {
+			throw new BookVoteError(404, 'EVENT_NOT_FOUND', 'Meeting not found');
+		}
+		const from = new Date(this.now());
+		const upcoming = expandEvent(event, from, new Date(from.getTime() + 366 * DAY_MS));
+		if (!upcoming.some(occurrence => occurrence.originalDate === input.originalDate)) {
+			throw new BookVoteError(400, 'UNKNOWN_OCCURRENCE', 'That meeting is not coming up on the schedule');
+		}
+
+		const candidate = vote.candidates.find(entry => entry.id === candidateId)!;
+		const change = editOccurrence(event, input.originalDate, { bookId: candidate.bookId }, 'occurrence');
+		const updated = await this.directory.updateEvent(clubId, event.id, change.update as EventUpdate, requester.authorization);
+
+		const nomination = this.nominations.get(candidateId);
+		if (nomination) nomination.status = 'selected';
+		Object.assign(vote, { chosenId: candidateId, eventId: event.id });
+		return { vote: this.view(vote, requester), event: updated };
+	}
+
+	/**
+	 * What a member sees of a vote: the count once it has closed, and who voted for what
+	 * only when the vote isn't anonymous
+	 */
+	private view(vote: StoredVote, requester: Requester): BookVote {
+		const closed = isVoteClosed(vote, this.now());
+		const { ballots, ...details } = vote;
+		return {
+			...details,
+			status: closed ? 'closed' : 'open',
+			ballotCount: ballots.size,
+			ballots: vote.anonymous ? null : Object.fromEntries(ballots),
+			myBallot: ballots.get(requester.user.id) ?? null,
+			result: closed ? tallyVote(vote, [...ballots.values()]) : null
+		};
+	}
+
+	private openNominations(clubId: string): BookNomination[] {
+		return [...this.nominations.values()]
+			.filter(nomination => nomination.clubId === clubId && nomination.status === 'open')
+			.sort((a, b) => a.nominatedAt.localeCompare(b.nominatedAt));
+	}
+
+	private findVote(clubId: string, voteId: string): StoredVote {
+		const vote = this.votes.get(voteId);
+		if (!vote || vote.clubId !== clubId) {
+			throw new BookVoteError(404, 'VOTE_NOT_FOUND', 'Vote not found');
+		}
+		return vote;
+	}
+
+	private assertClubMember(clubId: string, requester: Requester): Promise<ClubMember[]> {
+		return assertClubMember(this.directory, clubId, requester, 'Only club members can nominate and vote on books');
+	}
+
+	private assertClubAdmin(clubId: string, requester: Requester): Promise<ClubMember[]> {
+		return assertClubAdmin(this.directory, clubId, requester, 'Only club admins can run book votes');
+	}
+}
+
+export const bookVoteService = new BookVoteService();
+
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { CalendarFeedService, CalendarFeedError, signFeedKey, verifyFeedKey, type CalendarSource } from './calendarFeeds';
+import { clubMembers, fakeDirectory, requester } from './testing';
+import type { Event } from '$lib/api';
+
+const SECRET = 'test-feed-secret';
+
+/**
+ * Club where "member" belongs to club-1, recording the credentials each call used
+ */
+function fakeSource() {
+	const calls: string[] = [];
+	let members = clubMembers({ member: 'member' });
+	const source = fakeDirectory(members, {
+		listMembers: async (_clubId, authorization) => {
+			calls.push(authorization);
+			return members;
+		},
+		listEvents: async () => [
+			{ id: 'event-1', title: 'Book Circle', date: '2025-07-08T19:00:00.000Z', type: 'meeting', status: 'scheduled', organizerId: '1' } as Event
+		]
+	});
+	return { source, calls, removeMember: () => { members = []; } };
+}
+
+function service(source: CalendarSource) {
+	return new CalendarFeedService({ source, getSecret: () => SECRET, getAuthorization: () => 'Bearer service-key' });
+}
+
+describe('feed keys', () => {
+	it('should round-trip a signed key and reject tampering', () => {
+		const key = signFeedKey({ clubId: 'club-1', sub: 'member' }, SECRET);
+
+		expect(verifyFeedKey(key, SECRET)).toEqual({ clubId: 'club-1', sub: 'member' });
+
+		const [, signature] = key.split('.');
+		const forged = Buffer.from(JSON.stringify({ clubId: 'club-2', sub: 'member' })).toString('base64url');
+		expect(() => verifyFeedKey(`${forged}.${signature}`, SECRET)).toThrow(CalendarFeedError);
+		expect(() => verifyFeedKey(key, 'another-secret')).toThrow(CalendarFeedError);
+	});
+});
+
+describe('CalendarFeedService', () => {
+	it('should issue feeds to club members only', async () => {
+		const { source } = fakeSource();
+		const feeds = service(source);
+
+		const feed = await feeds.getFeed('club-1', requester('member'), 'https://bookwork.example');
+		expect(feed.url).toMatch(/^https:\/\/bookwork\.example\/api\/calendar\/[\w-]+\.[\w-]+\.ics$/);
+		expect(feed.webcalUrl).toBe(feed.url.replace('https:', 'webcal:'));
+
+		await expect(feeds.getFeed('club-1', requester('stranger'), 'https://bookwork.example'))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_CLUB_MEMBER' });
+	});
+
+	it('should render the schedule with the service key until the member leaves', async () => {
+		const { source, calls, removeMember } = fakeSource();
+		const feeds = service(source);
+		const key = signFeedKey({ clubId: 'club-1', sub: 'member' }, SECRET);
+
+		const calendar = await feeds.renderFeed(key);
+		expect(calendar).toContain('SUMMARY:Book Circle');
+		expect(calendar).toContain('DTSTART:20250708T190000Z');
+		expect(calls).toEqual(['Bearer service-key']);
+
+		removeMember();
+		await expect(feeds.renderFeed(key)).rejects.toMatchObject({ status: 404 });
+	});
+});
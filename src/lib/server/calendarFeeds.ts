@@ -0,0 +1,154 @@
+/**
+ * Subscribable club calendar feeds
+ * A feed address carries a signed key naming the club and the member it was issued to,
+ * so calendar apps can poll it without a session. Keys don't expire: a feed stops working
+ * when its member leaves the club, and changing CALENDAR_FEED_SECRET revokes every feed.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { dev } from '$app/environment';
+import { toICalendar, type CalendarFeed } from '$lib/ical';
+import {
+	ServiceError,
+	assertClubMember,
+	createBackendDirectory,
+	serviceAuthorization,
+	type BackendDirectory,
+	type Requester
+} from './backend';
+
+export interface CalendarFeedKey {
+	clubId: string;
+	/** ID of the member the feed was issued to */
+	sub: string;
+}
+
+/**
+ * Backend access needed to check membership and read a club's events
+ */
+export type CalendarSource = Pick<BackendDirectory, 'listMembers' | 'listEvents'>;
+
+export class CalendarFeedError extends ServiceError {
+	constructor(status: number, code: string, message: string) {
+		super(status, code, message);
+		this.name = 'CalendarFeedError';
+	}
+}
+
+let devSecret: string | null = null;
+
+/**
+ * Secret used to sign feed keys (CALENDAR_FEED_SECRET)
+ * Development falls back to a per-process secret, so feeds stop working on restart
+ */
+export function getCalendarFeedSecret(): string {
+	const secret = process.env.CALENDAR_FEED_SECRET;
+	if (secret) return secret;
+
+	if (!dev) {
+		throw new Error('CALENDAR_FEED_SECRET must be set to serve club calendar feeds');
+	}
+	if (!devSecret) {
+		devSecret = randomBytes(32).toString('hex');
+		console.warn('[Calendar] CALENDAR_FEED_SECRET is not set; using a temporary development secret');
+	}
+	return devSecret;
+}
+
+/**
+ * Credentials the feed uses to read the backend (CALENDAR_FEED_API_KEY)
+ * Calendar apps poll without a session, so feeds read events with a service key instead
+ */
+export function getCalendarFeedAuthorization(): string {
+	return serviceAuthorization('CALENDAR_FEED_API_KEY', 'serve club calendar feeds');
+}
+
+function sign(data: string, secret: string): Buffer {
+	return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Create the key for a member's club feed
+ */
+export function signFeedKey(payload: CalendarFeedKey, secret: string): string {
+	const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+	return `${data}.${sign(data, secret).toString('base64url')}`;
+}
+
+/**
+ * Check a feed key's signature
+ * @throws CalendarFeedError (404) when the key is malformed or tampered with
+ */
+export function verifyFeedKey(key: string, secret: string): CalendarFeedKey {
+	const notFound = new CalendarFeedError(404, 'FEED_NOT_FOUND', 'This calendar feed does not exist');
+	const [data, signature, ...rest] = key.split('.');
+	if (!data || !signature || rest.length > 0) throw notFound;
+
+	const expected = sign(data, secret);
+	const actual = Buffer.from(signature, 'base64url');
+	if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) throw notFound;
+
+	try {
+		const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+		if (typeof payload?.clubId === 'string' && typeof payload.sub === 'string') {
+			return { clubId: payload.clubId, sub: payload.sub };
+		}
+	} catch {
+		// Fall through to not found
+	}
+	throw notFound;
+}
+
+export interface CalendarFeedServiceOptions {
+	source?: CalendarSource;
+	getSecret?: () => string;
+	getAuthorization?: () => string;
+}
+
+/**
+ * Issues feed addresses to club members and renders the feeds calendar apps poll
+ */
+export class CalendarFeedService {
+	private readonly source: CalendarSource;
+	private readonly getSecret: () => string;
+	private readonly getAuthorization: () => string;
+
+	constructor(options: CalendarFeedServiceOptions = {}) {
+		this.source = options.source ?? createBackendDirectory();
+		this.getSecret = options.getSecret ?? getCalendarFeedSecret;
+		this.getAuthorization = options.getAuthorization ?? getCalendarFeedAuthorization;
+	}
+
+	/**
+	 * The requesting member's feed address for a club (club members only)
+	 * @param origin - Site origin used to build the address
+	 */
+	async getFeed(clubId: string, requester: Requester, origin: string): Promise<CalendarFeed> {
+		await assertClubMember(this.source, clubId, requester, 'Only club members can subscribe to the club calendar');
+
+		const key = signFeedKey({ clubId, sub: requester.user.id }, this.getSecret());
+		const url = `${origin}/api/calendar/${key}.ics`;
+		return { url, webcalUrl: url.replace(/^https?:/, 'webcal:') };
+	}
+
+	/**
+	 * The iCalendar file for a feed key
+	 * @param now - DTSTAMP for the events (overridable for tests)
+	 */
+	async renderFeed(key: string, now: Date = new Date()): Promise<string> {
+		const { clubId, sub } = verifyFeedKey(key, this.getSecret());
+		const authorization = this.getAuthorization();
+
+		const members = await this.source.listMembers(clubId, authorization);
+		if (!members.some(member => member.id === sub)) {
+			// Former members keep the address but no longer see the schedule
+			throw new CalendarFeedError(404, 'FEED_NOT_FOUND', 'This calendar feed does not exist');
+		}
+
+		const events = await this.source.listEvents(clubId, authorization);
+		return toICalendar(events, { name: 'BookWork club schedule', now });
+	}
+}
+
+export const calendarFeedService = new CalendarFeedService();
+
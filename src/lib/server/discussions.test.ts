@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { DiscussionService } from './discussions';
+import { clubMembers, fakeDirectory, requester as member } from './testing';
+import type { Event } from '$lib/api';
+import type { UserNotification } from '$lib/reminders';
+
+const names: Record<string, string> = { lead: 'Lena Park', mod: 'Mo Diaz', ana: 'Ana Lima', ben: 'Ben Ode' };
+
+function requester(id: string) {
+	return member(id, names[id] ? { name: names[id] } : {});
+}
+
+/**
+ * Club where "lead" is an admin, "mod" a moderator, and "ana" and "ben" members, with one meeting
+ */
+function board() {
+	const notified: Array<{ userId: string; notification: UserNotification }> = [];
+	const members = clubMembers(
+		{ lead: 'admin', mod: 'moderator', ana: 'member', ben: 'member' },
+		Object.fromEntries(Object.entries(names).map(([id, name]) => [id, { name }]))
+	);
+	const directory = fakeDirectory(members, {
+		listEvents: async () => [{ id: 'event-1', title: 'July meeting' } as Event]
+	});
+	let now = Date.UTC(2025, 6, 1);
+	const discussions = new DiscussionService({
+		directory,
+		notify: (userId, notification) => notified.push({ userId, notification }),
+		now: () => now += 1000
+	});
+	return { discussions, notified };
+}
+
+describe('DiscussionService', () => {
+	it('should thread replies and notify the members mentioned, but not the author', async () => {
+		const { discussions, notified } = board();
+		const thread = await discussions.createThread('club-1', { title: 'Ending?', body: 'What did @Ben make of it, @Ana Lima?' }, requester('ana'));
+		const reply = await discussions.reply('club-1', thread.id, { body: 'Loved it', parentId: thread.posts[0].id }, requester('ben'));
+
+		expect(thread.posts[0].mentions).toEqual(['ben', 'ana']);
+		expect(notified).toEqual([{
+			userId: 'ben',
+			notification: expect.objectContaining({
+				title: 'You were mentioned',
+				message: 'Ana Lima mentioned you in "Ending?"',
+				clubId: 'club-1',
+				link: `/clubs/club-1/discussions/${thread.id}#${thread.posts[0].id}`
+			})
+		}]);
+		expect(reply.parentId).toBe(thread.posts[0].id);
+		await expect(discussions.reply('club-1', thread.id, { body: 'Hm', parentId: 'post_gone' }, requester('ben')))
+			.rejects.toMatchObject({ status: 404, code: 'POST_NOT_FOUND' });
+	});
+
+	it('should store titles as plain text and bodies without markup beyond formatting', async () => {
+		const { discussions } = board();
+		const thread = await discussions.createThread('club-1', {
+			title: '<img src=x onerror="alert(1)">Ending?</b>',
+			body: '<p>I <3 <b>this</b> &amp; <img src=x onerror=alert(1)></p>'
+		}, requester('ana'));
+
+		expect(thread.title).toBe('Ending?');
+		expect(thread.posts[0].body).toBe('<p>I &lt;3 <b>this</b> &amp; &lt;img src=x onerror=alert(1)&gt;</p>');
+		await expect(discussions.createThread('club-1', { title: '<script></script>', body: 'Hello' }, requester('ana')))
+			.rejects.toMatchObject({ status: 400, code: 'VALIDATION_ERROR' });
+	});
+
+	it('should keep threads to club members and to events on the schedule', async () => {
+		const { discussions } = board();
+		await expect(discussions.createThread('club-1', { title: 'Hi', body: 'Hello' }, requester('stranger')))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_CLUB_MEMBER' });
+		await expect(discussions.createThread('club-1', { title: 'Hi', body: 'Hello', eventId: 'event-9' }, requester('ana')))
+			.rejects.toMatchObject({ status: 404, code: 'EVENT_NOT_FOUND' });
+
+		const club = await discussions.createThread('club-1', { title: 'Next picks', body: 'Ideas?' }, requester('ana'));
+		const meeting = await discussions.createThread('club-1', { title: 'Snacks', body: 'Who brings what?', eventId: 'event-1' }, requester('ben'));
+		await discussions.moderateThread('club-1', club.id, { pinned: true }, requester('mod'));
+
+		expect((await discussions.listThreads('club-1', undefined, requester('ana'))).map(thread => thread.id)).toEqual([club.id, meeting.id]);
+		expect((await discussions.listThreads('club-1', 'event-1', requester('ana'))).map(thread => thread.id)).toEqual([meeting.id]);
+		expect((await discussions.listThreads('club-1', null, requester('ana'))).map(thread => thread.id)).toEqual([club.id]);
+	});
+
+	it('should leave pinning, locking and locked threads to moderators', async () => {
+		const { discussions } = board();
+		const thread = await discussions.createThread('club-1', { title: 'Ending?', body: 'Thoughts?' }, requester('ana'));
+
+		await expect(discussions.moderateThread('club-1', thread.id, { locked: true }, requester('ana')))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_MODERATOR' });
+		expect(await discussions.moderateThread('club-1', thread.id, { locked: true }, requester('mod'))).toMatchObject({ locked: true });
+
+		await expect(discussions.reply('club-1', thread.id, { body: 'One more thing' }, requester('ben')))
+			.rejects.toMatchObject({ status: 409, code: 'THREAD_LOCKED' });
+		expect(await discussions.reply('club-1', thread.id, { body: 'Closing this one' }, requester('lead'))).toMatchObject({ authorId: 'lead' });
+	});
+
+	it('should let authors delete their own posts and moderators anyone\'s', async () => {
+		const { discussions } = board();
+		const thread = await discussions.createThread('club-1', { title: 'Ending?', body: 'Thoughts?' }, requester('ana'));
+		const reply = await discussions.reply('club-1', thread.id, { body: 'Spoilers!' }, requester('ben'));
+		await discussions.react('club-1', thread.id, reply.id, { emoji: '😮', reacted: true }, requester('ana'));
+
+		await expect(discussions.deletePost('club-1', thread.id, reply.id, requester('ana')))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_MODERATOR' });
+		expect(await discussions.deletePost('club-1', thread.id, reply.id, requester('mod')))
+			.toMatchObject({ body: '', reactions: {}, deleted: true });
+		await expect(discussions.react('club-1', thread.id, reply.id, { emoji: '👍', reacted: true }, requester('ana')))
+			.rejects.toMatchObject({ status: 409, code: 'POST_DELETED' });
+
+		// Ben has posted, so the thread is no longer Ana's alone to delete
+		await expect(discussions.deleteThread('club-1', thread.id, requester('ana')))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_MODERATOR' });
+		await discussions.deleteThread('club-1', thread.id, requester('mod'));
+		await expect(discussions.getThread('club-1', thread.id, requester('ana')))
+			.rejects.toMatchObject({ status: 404, code: 'THREAD_NOT_FOUND' });
+	});
+});
@@ -0,0 +1,280 @@
+/**
+ * Discussion board
+ * Threads and posts are held in memory on this server, like book votes. Membership and
+ * events come from the backend; mentions are delivered through the reminder service's in-app
+ * notifications, which the notifications menu polls. DOMPurify needs a DOM, so the client
+ * sanitizes what it sends and pages sanitize what they show; here titles are reduced to plain
+ * text and bodies to bare formatting tags before they are stored.
+ */
+
+import type { ClubMember } from '$lib/api';
+import { isClubModerator } from '$lib/roster';
+import { clubPath } from '$lib/clubs';
+import {
+	escapePostBody,
+	findMentions,
+	plainTitle,
+	setReaction,
+	sortThreads,
+	type DiscussionPost,
+	type DiscussionThread,
+	type DiscussionThreadDetail,
+	type ModerateThread,
+	type NewPost,
+	type NewThread,
+	type SetReaction
+} from '$lib/discussions';
+import type { UserNotification } from '$lib/reminders';
+import { reminderService } from './reminders';
+import {
+	ServiceError,
+	assertClubMember,
+	createBackendDirectory,
+	type BackendDirectory,
+	type Requester
+} from './backend';
+
+/**
+ * Backend access needed to check membership and the events threads are about
+ */
+export type DiscussionDirectory = Pick<BackendDirectory, 'listMembers' | 'listEvents'>;
+
+export class DiscussionError extends ServiceError {
+	constructor(status: number, code: string, message: string) {
+		super(status, code, message);
+		this.name = 'DiscussionError';
+	}
+}
+
+type StoredThread = Omit<DiscussionThread, 'postCount' | 'lastPostAt'>;
+
+export interface DiscussionServiceOptions {
+	directory?: DiscussionDirectory;
+	/** Delivers a mention notification; defaults to the reminder service's in-app inbox */
+	notify?: (userId: string, notification: UserNotification) => void;
+	now?: () => number;
+}
+
+/**
+ * Runs the clubs' discussion threads
+ */
+export class DiscussionService {
+	private threads = new Map<string, StoredThread>();
+	private posts = new Map<string, DiscussionPost[]>();
+	private readonly directory: DiscussionDirectory;
+	private readonly notify: (userId: string, notification: UserNotification) => void;
+	private readonly now: () => number;
+
+	constructor(options: DiscussionServiceOptions = {}) {
+		this.directory = options.directory ?? createBackendDirectory();
+		this.notify = options.notify ?? ((userId, notification) => reminderService.notify(userId, notification));
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * A club's threads, pinned first then most recently active (club members only)
+	 * @param eventId - Only the threads about this event; null for club-wide threads only
+	 */
+	async listThreads(clubId: string, eventId: string | null | undefined, requester: Requester): Promise<DiscussionThread[]> {
+		await this.assertClubMember(clubId, requester);
+		const threads = [...this.threads.values()]
+			.filter(thread => thread.clubId === clubId && (eventId === undefined || thread.eventId === eventId))
+			.map(thread => this.summary(thread));
+		return sortThreads(threads);
+	}
+
+	/**
+	 * A thread with all its posts (club members only)
+	 */
+	async getThread(clubId: string, threadId: string, requester: Requester): Promise<DiscussionThreadDetail> {
+		await this.assertClubMember(clubId, requester);
+		return this.detail(this.findThread(clubId, threadId));
+	}
+
+	/**
+	 * Start a thread for the club or one of its events (club members only)
+	 */
+	async createThread(clubId: string, input: NewThread, requester: Requester): Promise<DiscussionThreadDetail> {
+		const members = await this.assertClubMember(clubId, requester);
+		if (input.eventId) {
+			const events = await this.directory.listEvents(clubId, requester.authorization);
+			if (!events.some(event => event.id === input.eventId)) {
+				throw new DiscussionError(404, 'EVENT_NOT_FOUND', 'That event is not on the club\'s schedule');
+			}
+		}
+
+		const title = plainTitle(input.title);
+		if (!title) {
+			throw new DiscussionError(400, 'VALIDATION_ERROR', 'Please give the thread a title');
+		}
+
+		const thread: StoredThread = {
+			id: `thread_${crypto.randomUUID()}`,
+			clubId,
+			eventId: input.eventId ?? null,
+			title,
+			authorId: requester.user.id,
+			createdAt: new Date(this.now()).toISOString(),
+			pinned: false,
+			locked: false
+		};
+		this.threads.set(thread.id, thread);
+		this.posts.set(thread.id, []);
+		this.addPost(thread, { body: input.body }, requester, members);
+		return this.detail(thread);
+	}
+
+	/**
+	 * Post in a thread, optionally as a reply to one of its posts (club members only)
+	 * Locked threads only take posts from moderators.
+	 */
+	async reply(clubId: string, threadId: string, input: NewPost, requester: Requester): Promise<DiscussionPost> {
+		const members = await this.assertClubMember(clubId, requester);
+		const thread = this.findThread(clubId, threadId);
+		if (thread.locked && !isClubModerator(requester.user, members)) {
+			throw new DiscussionError(409, 'THREAD_LOCKED', 'This thread is locked; only moderators can post in it');
+		}
+		if (input.parentId && !this.postsOf(thread).some(post => post.id === input.parentId)) {
+			throw new DiscussionError(404, 'POST_NOT_FOUND', 'The post you are replying to has been removed');
+		}
+		return this.addPost(thread, input, requester, members);
+	}
+
+	/**
+	 * Add or take back the requester's reaction to a post (club members only)
+	 */
+	async react(clubId: string, threadId: string, postId: string, input: SetReaction, requester: Requester): Promise<DiscussionPost> {
+		await this.assertClubMember(clubId, requester);
+		const thread = this.findThread(clubId, threadId);
+		const post = this.findPost(thread, postId);
+		if (post.deleted) {
+			throw new DiscussionError(409, 'POST_DELETED', 'This post has been deleted');
+		}
+		const updated = setReaction(post, input.emoji, requester.user.id, input.reacted);
+		this.replacePost(thread, updated);
+		return updated;
+	}
+
+	/**
+	 * Pin or lock a thread (moderators only)
+	 */
+	async moderateThread(clubId: string, threadId: string, changes: ModerateThread, requester: Requester): Promise<DiscussionThread> {
+		await this.assertModerator(clubId, requester);
+		const thread = { ...this.findThread(clubId, threadId), ...changes };
+		this.threads.set(thread.id, thread);
+		return this.summary(thread);
+	}
+
+	/**
+	 * Delete a thread and every post in it (moderators, or its author while nobody has replied)
+	 */
+	async deleteThread(clubId: string, threadId: string, requester: Requester): Promise<DiscussionThread> {
+		const members = await this.assertClubMember(clubId, requester);
+		const thread = this.findThread(clubId, threadId);
+		const replied = this.postsOf(thread).some(post => post.authorId !== thread.authorId);
+		if (!isClubModerator(requester.user, members) && (thread.authorId !== requester.user.id || replied)) {
+			throw new DiscussionError(403, 'NOT_MODERATOR', 'Only moderators can delete a thread others have posted in');
+		}
+		const summary = this.summary(thread);
+		this.threads.delete(thread.id);
+		this.posts.delete(thread.id);
+		return summary;
+	}
+
+	/**
+	 * Delete a post, leaving a placeholder so its replies keep their place (its author or moderators)
+	 */
+	async deletePost(clubId: string, threadId: string, postId: string, requester: Requester): Promise<DiscussionPost> {
+		const members = await this.assertClubMember(clubId, requester);
+		const thread = this.findThread(clubId, threadId);
+		const post = this.findPost(thread, postId);
+		if (post.authorId !== requester.user.id && !isClubModerator(requester.user, members)) {
+			throw new DiscussionError(403, 'NOT_MODERATOR', 'Only moderators can delete other members\' posts');
+		}
+		const deleted: DiscussionPost = { ...post, body: '', mentions: [], reactions: {}, deleted: true };
+		this.replacePost(thread, deleted);
+		return deleted;
+	}
+
+	private addPost(thread: StoredThread, input: NewPost, requester: Requester, members: ClubMember[]): DiscussionPost {
+		const post: DiscussionPost = {
+			id: `post_${crypto.randomUUID()}`,
+			threadId: thread.id,
+			parentId: input.parentId ?? null,
+			authorId: requester.user.id,
+			body: escapePostBody(input.body),
+			mentions: findMentions(input.body, members),
+			reactions: {},
+			createdAt: new Date(this.now()).toISOString(),
+			deleted: false
+		};
+		this.posts.set(thread.id, [...this.postsOf(thread), post]);
+
+		for (const userId of post.mentions.filter(id => id !== requester.user.id)) {
+			this.notify(userId, {
+				id: `mention-${post.id}-${userId}`,
+				type: 'info',
+				title: 'You were mentioned',
+				message: `${requester.user.name} mentioned you in "${thread.title}"`,
+				timestamp: post.createdAt,
+				read: false,
+				clubId: thread.clubId,
+				...(thread.eventId ? { eventId: thread.eventId } : {}),
+				link: clubPath(thread.clubId, 'discussions', `/${thread.id}#${post.id}`)
+			});
+		}
+		return post;
+	}
+
+	private summary(thread: StoredThread): DiscussionThread {
+		const posts = this.postsOf(thread);
+		return {
+			...thread,
+			postCount: posts.filter(post => !post.deleted).length,
+			lastPostAt: posts[posts.length - 1]?.createdAt ?? thread.createdAt
+		};
+	}
+
+	private detail(thread: StoredThread): DiscussionThreadDetail {
+		return { ...this.summary(thread), posts: this.postsOf(thread) };
+	}
+
+	private postsOf(thread: StoredThread): DiscussionPost[] {
+		return this.posts.get(thread.id) ?? [];
+	}
+
+	private replacePost(thread: StoredThread, post: DiscussionPost): void {
+		this.posts.set(thread.id, this.postsOf(thread).map(existing => existing.id === post.id ? post : existing));
+	}
+
+	private findThread(clubId: string, threadId: string): StoredThread {
+		const thread = this.threads.get(threadId);
+		if (!thread || thread.clubId !== clubId) {
+			throw new DiscussionError(404, 'THREAD_NOT_FOUND', 'This thread has been deleted');
+		}
+		return thread;
+	}
+
+	private findPost(thread: StoredThread, postId: string): DiscussionPost {
+		const post = this.postsOf(thread).find(candidate => candidate.id === postId);
+		if (!post) {
+			throw new DiscussionError(404, 'POST_NOT_FOUND', 'This post has been removed');
+		}
+		return post;
+	}
+
+	private assertClubMember(clubId: string, requester: Requester): Promise<ClubMember[]> {
+		return assertClubMember(this.directory, clubId, requester, 'Only club members can read and post in club discussions');
+	}
+
+	private async assertModerator(clubId: string, requester: Requester): Promise<ClubMember[]> {
+		const members = await this.directory.listMembers(clubId, requester.authorization);
+		if (!isClubModerator(requester.user, members)) {
+			throw new DiscussionError(403, 'NOT_MODERATOR', 'Only club moderators can pin and lock threads');
+		}
+		return members;
+	}
+}
+
+export const discussionService = new DiscussionService();
+
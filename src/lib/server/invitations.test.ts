@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { InvitationService } from './invitations';
+import { signInviteCode, verifyInviteCode, InviteCodeError } from './inviteCodes';
+import { clubMembers, fakeDirectory, requester } from './testing';
+import { ApiError, type ClubMember, type NewClubMember } from '$lib/api';
+import type { MailMessage } from './mail';
+
+const SECRET = 'test-signing-secret';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Club where "admin" is the admin, recording the memberships created
+ */
+function club() {
+	const added: Array<{ clubId: string; member: NewClubMember; authorization: string }> = [];
+	const directory = fakeDirectory(clubMembers({ admin: 'admin' }), {
+		addMember: async (clubId, member, authorization) => {
+			added.push({ clubId, member, authorization });
+			return { id: `member-${added.length}`, ...member } as ClubMember;
+		}
+	});
+	return { directory, added };
+}
+
+describe('invite codes', () => {
+	it('should round-trip a signed code and reject tampering', () => {
+		const payload = { inv: 'inv_1', clubId: 'club-1', exp: Date.now() + DAY_MS };
+		const code = signInviteCode(payload, SECRET);
+
+		expect(verifyInviteCode(code, SECRET)).toEqual(payload);
+
+		const [data, signature] = code.split('.');
+		const forged = Buffer.from(JSON.stringify({ ...payload, clubId: 'club-2' })).toString('base64url');
+		expect(() => verifyInviteCode(`${forged}.${signature}`, SECRET)).toThrow(InviteCodeError);
+		expect(() => verifyInviteCode(code, 'another-secret')).toThrow(InviteCodeError);
+		expect(() => verifyInviteCode(data, SECRET)).toThrow(InviteCodeError);
+	});
+
+	it('should reject expired codes but keep their payload', () => {
+		const code = signInviteCode({ inv: 'inv_1', clubId: 'club-1', exp: 1000 }, SECRET);
+
+		try {
+			verifyInviteCode(code, SECRET, 1000);
+			expect.unreachable();
+		} catch (error) {
+			expect(error).toBeInstanceOf(InviteCodeError);
+			expect((error as InviteCodeError).reason).toBe('expired');
+			expect((error as InviteCodeError).payload?.inv).toBe('inv_1');
+		}
+	});
+});
+
+describe('invitation workflow', () => {
+	let now: number;
+	let sent: MailMessage[];
+	let fake: ReturnType<typeof club>;
+	let service: InvitationService;
+
+	beforeEach(() => {
+		now = Date.parse('2025-03-01T12:00:00Z');
+		sent = [];
+		fake = club();
+		service = new InvitationService({
+			directory: fake.directory,
+			getSecret: () => SECRET,
+			send: async message => { sent.push(message); },
+			getAuthorization: () => 'Bearer service-key',
+			now: () => now
+		});
+	});
+
+	function codeOf(link: string): string {
+		return link.split('/invite/')[1];
+	}
+
+	it('should email single-use invitations bound to the invitee', async () => {
+		const invitation = await service.createInvitation(
+			'club-1',
+			{ email: 'reader@example.com', role: 'member' },
+			requester('admin'),
+			'https://bookwork.test'
+		);
+
+		expect(sent).toHaveLength(1);
+		expect(sent[0].to).toBe('reader@example.com');
+		expect(sent[0].text).toContain(invitation.link);
+		expect(sent[0].subject).toBe('User admin invited you to join their book club');
+		expect(service.previewInvitation(codeOf(invitation.link))).toMatchObject({ state: 'valid', email: 'r***@example.com' });
+
+		const code = codeOf(invitation.link);
+		await expect(service.acceptInvitation(code, requester('intruder'))).rejects.toMatchObject({ code: 'INVITATION_EMAIL_MISMATCH' });
+
+		const accepted = await service.acceptInvitation(code, requester('reader', { email: 'Reader@Example.com' }));
+		expect(accepted.clubId).toBe('club-1');
+		// Adding members is for club admins, so the invitee's own session can't do it
+		expect(fake.added[0]).toMatchObject({
+			clubId: 'club-1',
+			member: { email: 'Reader@Example.com', role: 'member', status: 'active' },
+			authorization: 'Bearer service-key'
+		});
+
+		await expect(service.acceptInvitation(code, requester('reader'))).rejects.toMatchObject({ code: 'INVITATION_USED' });
+	});
+
+	it('should let shareable links be reused until they expire or are revoked', async () => {
+		const invitation = await service.createInvitation('club-1', { expiresInDays: 1 }, requester('admin'), 'https://bookwork.test');
+		const code = codeOf(invitation.link);
+
+		await service.acceptInvitation(code, requester('first'));
+		await service.acceptInvitation(code, requester('second'));
+		expect(fake.added).toHaveLength(2);
+		expect(sent).toHaveLength(0);
+
+		now += DAY_MS;
+		expect(service.previewInvitation(code).state).toBe('expired');
+		await expect(service.acceptInvitation(code, requester('third'))).rejects.toMatchObject({ status: 410, code: 'INVITATION_EXPIRED' });
+
+		const second = await service.createInvitation('club-1', {}, requester('admin'), 'https://bookwork.test');
+		await service.revokeInvitation('club-1', second.id, requester('admin'));
+		await expect(service.acceptInvitation(codeOf(second.link), requester('third'))).rejects.toMatchObject({ code: 'INVITATION_REVOKED' });
+	});
+
+	it('should claim an email invitation before the membership is created and free it again on failure', async () => {
+		const invitation = await service.createInvitation('club-1', { email: 'reader@example.com' }, requester('admin'), 'https://bookwork.test');
+		const code = codeOf(invitation.link);
+		let failNext = true;
+		fake.directory.addMember = async (clubId, member, authorization) => {
+			if (failNext) {
+				failNext = false;
+				throw new Error('Backend unavailable');
+			}
+			fake.added.push({ clubId, member, authorization });
+			return { id: 'member-1', ...member } as ClubMember;
+		};
+
+		await expect(service.acceptInvitation(code, requester('reader'))).rejects.toThrow('Backend unavailable');
+		expect(service.previewInvitation(code).state).toBe('valid');
+
+		const [first, second] = await Promise.allSettled([
+			service.acceptInvitation(code, requester('reader')),
+			service.acceptInvitation(code, requester('reader'))
+		]);
+		expect(first.status).toBe('fulfilled');
+		expect(second).toMatchObject({ status: 'rejected', reason: { code: 'INVITATION_USED' } });
+		expect(fake.added).toHaveLength(1);
+	});
+
+	it('should not add someone who is already a member a second time', async () => {
+		const members = clubMembers({ admin: 'admin', reader: 'member' });
+		const directory = fakeDirectory(members, {
+			addMember: async (_clubId: string, member: NewClubMember) => {
+				fake.added.push({ clubId: 'club-1', member, authorization: '' });
+				throw new ApiError(new Response(null, { status: 409 }));
+			}
+		});
+		service = new InvitationService({
+			directory,
+			getSecret: () => SECRET,
+			send: async () => {},
+			getAuthorization: () => 'Bearer service-key',
+			now: () => now
+		});
+		const link = await service.createInvitation('club-1', {}, requester('admin'), 'https://bookwork.test');
+
+		const accepted = await service.acceptInvitation(codeOf(link.link), requester('reader'));
+		expect(accepted.member.id).toBe('reader');
+		expect(fake.added).toHaveLength(0);
+
+		// Joined between the lookup and the add, e.g. through another invitation
+		const late = requester('late');
+		let lookups = 0;
+		directory.listMembers = async () => lookups++ === 0 ? members : [...members, { id: 'late', clubRole: 'member' } as ClubMember];
+		await expect(service.acceptInvitation(codeOf(link.link), late)).resolves.toMatchObject({ member: { id: 'late' } });
+		expect(fake.added).toHaveLength(1);
+	});
+
+	it('should keep line breaks in the inviter\'s name out of the mail subject', async () => {
+		await service.createInvitation(
+			'club-1',
+			{ email: 'reader@example.com' },
+			requester('admin', { name: 'Ada\r\nBcc: everyone@example.com' }),
+			'https://bookwork.test'
+		);
+		expect(sent[0].subject).toBe('Ada Bcc: everyone@example.com invited you to join their book club');
+	});
+
+	it('should only let club admins manage invitations and join requests', async () => {
+		await expect(service.createInvitation('club-1', {}, requester('reader'), 'https://bookwork.test'))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_CLUB_ADMIN' });
+		await expect(service.listJoinRequests('club-1', requester('reader'))).rejects.toMatchObject({ status: 403 });
+
+		await expect(service.listJoinRequests('club-1', requester('site-admin', { role: 'admin' }))).resolves.toEqual([]);
+	});
+
+	it('should queue join requests for admins to approve or reject', async () => {
+		const first = await service.requestToJoin('club-1', { message: 'Love mysteries' }, requester('reader'));
+		const repeat = await service.requestToJoin('club-1', {}, requester('reader'));
+		const other = await service.requestToJoin('club-1', {}, requester('lurker'));
+
+		expect(repeat.id).toBe(first.id);
+		expect((await service.listJoinRequests('club-1', requester('admin'))).map(r => r.id)).toEqual([first.id, other.id]);
+
+		const approved = await service.decideJoinRequest('club-1', first.id, 'approve', requester('admin'));
+		expect(approved.request).toMatchObject({ status: 'approved', decidedBy: 'admin' });
+		expect(approved.member?.email).toBe('reader@example.com');
+		expect(fake.added[0].authorization).toBe('Bearer admin-session');
+
+		const rejected = await service.decideJoinRequest('club-1', other.id, 'reject', requester('admin'));
+		expect(rejected.member).toBeUndefined();
+		expect(fake.added).toHaveLength(1);
+
+		await expect(service.decideJoinRequest('club-1', other.id, 'approve', requester('admin')))
+			.rejects.toMatchObject({ status: 409 });
+		expect(await service.listJoinRequests('club-1', requester('admin'))).toEqual([]);
+	});
+});
@@ -0,0 +1,372 @@
+/**
+ * Club invitation and join-request workflow
+ * Invitations and join requests are held in memory on this server, like sessions and
+ * rate limits. Membership records are created in the backend when an invitation is
+ * accepted or a join request approved. Adding members is for club admins, so accepting an
+ * invitation creates the membership with the server's own key (INVITATION_API_KEY) rather
+ * than the invitee's session.
+ */
+
+import { ApiError, type ClubMember } from '$lib/api';
+import {
+	DEFAULT_INVITATION_TTL_DAYS,
+	type AcceptedInvitation,
+	type ClubInvitation,
+	type InvitationPreview,
+	type JoinRequest,
+	type JoinRequestDecision,
+	type JoinRequestStatus,
+	type NewInvitation,
+	type NewJoinRequest
+} from '$lib/invitations';
+import { signInviteCode, verifyInviteCode, getInviteSigningSecret, InviteCodeError } from './inviteCodes';
+import { sendMail, type MailMessage } from './mail';
+import {
+	ServiceError,
+	assertClubAdmin,
+	createBackendDirectory,
+	serviceAuthorization,
+	type BackendDirectory,
+	type Requester
+} from './backend';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Backend access needed to check admins and create memberships
+ */
+export type ClubDirectory = Pick<BackendDirectory, 'listMembers' | 'addMember'>;
+
+export class InvitationError extends ServiceError {
+	constructor(
+		status: number,
+		code: string,
+		message: string,
+		/** The invitation concerned, when it is known */
+		readonly invitation?: ClubInvitation
+	) {
+		super(status, code, message);
+		this.name = 'InvitationError';
+	}
+}
+
+/**
+ * Credentials used to add members who accept an invitation (INVITATION_API_KEY)
+ */
+export function getInvitationAuthorization(): string {
+	return serviceAuthorization('INVITATION_API_KEY', 'accept club invitations');
+}
+
+function maskEmail(email: string): string {
+	const [local, domain] = email.split('@');
+	return `${local.charAt(0)}***@${domain}`;
+}
+
+function createId(prefix: string): string {
+	return `${prefix}_${crypto.randomUUID()}`;
+}
+
+export interface InvitationServiceOptions {
+	directory?: ClubDirectory;
+	getSecret?: () => string;
+	send?: (message: MailMessage) => Promise<void>;
+	getAuthorization?: () => string;
+	now?: () => number;
+}
+
+/**
+ * Issues and redeems invitations and manages each club's join-request queue
+ */
+export class InvitationService {
+	private invitations = new Map<string, ClubInvitation>();
+	private joinRequests = new Map<string, JoinRequest>();
+	private readonly directory: ClubDirectory;
+	private readonly getSecret: () => string;
+	private readonly send: (message: MailMessage) => Promise<void>;
+	private readonly getAuthorization: () => string;
+	private readonly now: () => number;
+
+	constructor(options: InvitationServiceOptions = {}) {
+		this.directory = options.directory ?? createBackendDirectory();
+		this.getSecret = options.getSecret ?? getInviteSigningSecret;
+		this.send = options.send ?? sendMail;
+		this.getAuthorization = options.getAuthorization ?? getInvitationAuthorization;
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * Create an invite link, emailing it when an address is given (club admins only)
+	 * @param origin - Site origin used to build the link
+	 */
+	async createInvitation(clubId: string, input: NewInvitation, requester: Requester, origin: string): Promise<ClubInvitation> {
+		await this.assertClubAdmin(clubId, requester);
+
+		const createdAt = this.now();
+		const expiresAt = createdAt + (input.expiresInDays ?? DEFAULT_INVITATION_TTL_DAYS) * DAY_MS;
+		const id = createId('inv');
+		const code = signInviteCode({ inv: id, clubId, exp: expiresAt }, this.getSecret());
+
+		const invitation: ClubInvitation = {
+			id,
+			clubId,
+			email: input.email?.trim().toLowerCase() || null,
+			role: input.role ?? 'member',
+			status: 'pending',
+			createdBy: requester.user.id,
+			createdAt: new Date(createdAt).toISOString(),
+			expiresAt: new Date(expiresAt).toISOString(),
+			acceptedCount: 0,
+			link: `${origin}/invite/${code}`
+		};
+		this.invitations.set(id, invitation);
+
+		if (invitation.email) {
+			const expires = new Date(expiresAt).toDateString();
+			// A line break in the name would start a new mail header
+			const inviter = requester.user.name.replace(/[\r\n]+/g, ' ');
+			await this.send({
+				to: invitation.email,
+				subject: `${inviter} invited you to join their book club`,
+				text: `${requester.user.name} has invited you to join their book club on BookWork.\n\n` +
+					`Accept the invitation here (valid until ${expires}):\n${invitation.link}\n`,
+				html: `<p>${escapeHtml(requester.user.name)} has invited you to join their book club on BookWork.</p>` +
+					`<p><a href="${invitation.link}">Accept the invitation</a> (valid until ${expires}).</p>`
+			});
+		}
+
+		return invitation;
+	}
+
+	/**
+	 * Outstanding invitations for a club (club admins only)
+	 */
+	async listInvitations(clubId: string, requester: Requester): Promise<ClubInvitation[]> {
+		await this.assertClubAdmin(clubId, requester);
+		const now = this.now();
+		return [...this.invitations.values()].filter(invitation =>
+			invitation.clubId === clubId &&
+			invitation.status === 'pending' &&
+			Date.parse(invitation.expiresAt) > now
+		);
+	}
+
+	/**
+	 * Stop an invitation from being accepted (club admins only)
+	 */
+	async revokeInvitation(clubId: string, invitationId: string, requester: Requester): Promise<ClubInvitation> {
+		await this.assertClubAdmin(clubId, requester);
+		const invitation = this.invitations.get(invitationId);
+		if (!invitation || invitation.clubId !== clubId) {
+			throw new InvitationError(404, 'INVITATION_NOT_FOUND', 'Invitation not found');
+		}
+		invitation.status = 'revoked';
+		return invitation;
+	}
+
+	/**
+	 * Describe an invite code without redeeming it; never throws for bad codes
+	 */
+	previewInvitation(code: string): InvitationPreview {
+		try {
+			const invitation = this.resolve(code);
+			return {
+				clubId: invitation.clubId,
+				email: invitation.email ? maskEmail(invitation.email) : null,
+				role: invitation.role,
+				expiresAt: invitation.expiresAt,
+				state: invitation.status === 'revoked'
+					? 'revoked'
+					: invitation.status === 'accepted' ? 'used' : 'valid'
+			};
+		} catch (error) {
+			if (error instanceof InvitationError && error.code === 'INVITATION_EXPIRED' && error.invitation) {
+				const { clubId, email, role, expiresAt } = error.invitation;
+				return { clubId, email: email ? maskEmail(email) : null, role, expiresAt, state: 'expired' };
+			}
+			return { clubId: '', email: null, role: 'member', expiresAt: new Date(0).toISOString(), state: 'invalid' };
+		}
+	}
+
+	/**
+	 * Redeem an invite code and create the ClubMember record for the requester
+	 * The invitee isn't a club admin yet, so the record is created with the service key.
+	 * Someone who is already a member keeps their record rather than getting a second one.
+	 */
+	async acceptInvitation(code: string, requester: Requester): Promise<AcceptedInvitation> {
+		const invitation = this.resolve(code);
+
+		if (invitation.status === 'revoked') {
+			throw new InvitationError(410, 'INVITATION_REVOKED', 'This invitation has been withdrawn');
+		}
+		if (invitation.status === 'accepted') {
+			throw new InvitationError(410, 'INVITATION_USED', 'This invitation has already been used');
+		}
+		if (invitation.email && invitation.email !== requester.user.email.toLowerCase()) {
+			throw new InvitationError(403, 'INVITATION_EMAIL_MISMATCH', 'This invitation was sent to a different email address');
+		}
+
+		const authorization = this.getAuthorization();
+		// Claim the invitation before awaiting the backend, so a second accept of the same code is refused
+		const previousStatus = invitation.status;
+		invitation.acceptedCount += 1;
+		// Email invitations are for one person; links stay usable until they expire
+		if (invitation.email) {
+			invitation.status = 'accepted';
+		}
+
+		let member: ClubMember;
+		try {
+			member = await this.findMember(invitation.clubId, requester, authorization) ?? await this.addMember(invitation, requester, authorization);
+		} catch (error) {
+			invitation.acceptedCount -= 1;
+			invitation.status = previousStatus;
+			throw error;
+		}
+
+		this.closeJoinRequests(invitation.clubId, requester.user.id, 'approved', invitation.createdBy);
+		return { clubId: invitation.clubId, member };
+	}
+
+	/**
+	 * The requester's membership, matched by user ID or email
+	 */
+	private async findMember(clubId: string, requester: Requester, authorization: string): Promise<ClubMember | undefined> {
+		const members = await this.directory.listMembers(clubId, authorization);
+		const email = requester.user.email.toLowerCase();
+		return members.find(member => member.id === requester.user.id || member.email?.toLowerCase() === email);
+	}
+
+	/**
+	 * Create the invitee's membership; a conflict means another request already did
+	 */
+	private async addMember(invitation: ClubInvitation, requester: Requester, authorization: string): Promise<ClubMember> {
+		try {
+			return await this.directory.addMember(invitation.clubId, {
+				name: requester.user.name,
+				email: requester.user.email,
+				role: invitation.role,
+				status: 'active'
+			}, authorization);
+		} catch (error) {
+			if (!(error instanceof ApiError) || error.statusCode !== 409) throw error;
+			const member = await this.findMember(invitation.clubId, requester, authorization);
+			if (!member) throw error;
+			return member;
+		}
+	}
+
+	/**
+	 * Ask to join a club; repeated requests return the one already pending
+	 */
+	async requestToJoin(clubId: string, input: NewJoinRequest, requester: Requester): Promise<JoinRequest> {
+		const existing = [...this.joinRequests.values()].find(request =>
+			request.clubId === clubId && request.userId === requester.user.id && request.status === 'pending'
+		);
+		if (existing) return existing;
+
+		const request: JoinRequest = {
+			id: createId('jr'),
+			clubId,
+			userId: requester.user.id,
+			name: requester.user.name,
+			email: requester.user.email,
+			message: input.message || null,
+			status: 'pending',
+			createdAt: new Date(this.now()).toISOString(),
+			decidedAt: null,
+			decidedBy: null
+		};
+		this.joinRequests.set(request.id, request);
+		return request;
+	}
+
+	/**
+	 * Join requests for a club, oldest first (club admins only)
+	 */
+	async listJoinRequests(clubId: string, requester: Requester, status: JoinRequestStatus = 'pending'): Promise<JoinRequest[]> {
+		await this.assertClubAdmin(clubId, requester);
+		return [...this.joinRequests.values()]
+			.filter(request => request.clubId === clubId && request.status === status)
+			.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+	}
+
+	/**
+	 * Approve or reject a pending join request (club admins only)
+	 * Approving creates the membership with the admin's credentials
+	 */
+	async decideJoinRequest(
+		clubId: string,
+		requestId: string,
+		decision: JoinRequestDecision,
+		requester: Requester
+	): Promise<{ request: JoinRequest; member?: ClubMember }> {
+		await this.assertClubAdmin(clubId, requester);
+
+		const request = this.joinRequests.get(requestId);
+		if (!request || request.clubId !== clubId) {
+			throw new InvitationError(404, 'JOIN_REQUEST_NOT_FOUND', 'Join request not found');
+		}
+		if (request.status !== 'pending') {
+			throw new InvitationError(409, 'JOIN_REQUEST_DECIDED', `This request was already ${request.status}`);
+		}
+
+		let member: ClubMember | undefined;
+		if (decision === 'approve') {
+			member = await this.directory.addMember(clubId, {
+				name: request.name,
+				email: request.email,
+				role: 'member',
+				status: 'active'
+			}, requester.authorization);
+		}
+
+		Object.assign(request, {
+			status: decision === 'approve' ? 'approved' : 'rejected',
+			decidedAt: new Date(this.now()).toISOString(),
+			decidedBy: requester.user.id
+		});
+		return member ? { request, member } : { request };
+	}
+
+	/**
+	 * Verify a code and look up its invitation
+	 */
+	private resolve(code: string): ClubInvitation {
+		let invitationId: string;
+		try {
+			invitationId = verifyInviteCode(code, this.getSecret(), this.now()).inv;
+		} catch (error) {
+			if (error instanceof InviteCodeError && error.reason === 'expired' && error.payload) {
+				const expired = this.invitations.get(error.payload.inv);
+				throw new InvitationError(410, 'INVITATION_EXPIRED', error.message, expired);
+			}
+			throw new InvitationError(400, 'INVITATION_INVALID', 'This invite link is not valid');
+		}
+
+		const invitation = this.invitations.get(invitationId);
+		if (!invitation) {
+			// Signed by us but no longer known, e.g. issued before a restart
+			throw new InvitationError(404, 'INVITATION_NOT_FOUND', 'This invitation is no longer available');
+		}
+		return invitation;
+	}
+
+	private closeJoinRequests(clubId: string, userId: string, status: JoinRequestStatus, decidedBy: string): void {
+		for (const request of this.joinRequests.values()) {
+			if (request.clubId === clubId && request.userId === userId && request.status === 'pending') {
+				Object.assign(request, { status, decidedAt: new Date(this.now()).toISOString(), decidedBy });
+			}
+		}
+	}
+
+	private assertClubAdmin(clubId: string, requester: Requester): Promise<ClubMember[]> {
+		return assertClubAdmin(this.directory, clubId, requester, 'Only club admins can manage invitations and join requests');
+	}
+}
+
+function escapeHtml(value: string): string {
+	return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+export const invitationService = new InvitationService();
+
@@ -0,0 +1,92 @@
+/**
+ * Signed, expiring invite codes
+ * A code is base64url(JSON payload) + "." + base64url(HMAC-SHA256 of that payload).
+ * The payload names the invitation it belongs to so revocation and single use are
+ * enforced by the invitation store; the signature and expiry are checked here.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { dev } from '$app/environment';
+
+export interface InvitePayload {
+	/** Invitation record ID */
+	inv: string;
+	clubId: string;
+	/** Expiry as milliseconds since the epoch */
+	exp: number;
+}
+
+export type InviteCodeFailure = 'malformed' | 'signature' | 'expired';
+
+export class InviteCodeError extends Error {
+	/** Set for expired codes, whose payload is still authentic */
+	constructor(readonly reason: InviteCodeFailure, message: string, readonly payload?: InvitePayload) {
+		super(message);
+		this.name = 'InviteCodeError';
+	}
+}
+
+let devSecret: string | null = null;
+
+/**
+ * Secret used to sign invite codes (INVITE_SIGNING_SECRET)
+ * Development falls back to a per-process secret, so codes stop working on restart
+ */
+export function getInviteSigningSecret(): string {
+	const secret = process.env.INVITE_SIGNING_SECRET;
+	if (secret) return secret;
+
+	if (!dev) {
+		throw new Error('INVITE_SIGNING_SECRET must be set to create or accept club invitations');
+	}
+	if (!devSecret) {
+		devSecret = randomBytes(32).toString('hex');
+		console.warn('[Invitations] INVITE_SIGNING_SECRET is not set; using a temporary development secret');
+	}
+	return devSecret;
+}
+
+function sign(data: string, secret: string): Buffer {
+	return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Create a signed invite code
+ */
+export function signInviteCode(payload: InvitePayload, secret: string): string {
+	const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+	return `${data}.${sign(data, secret).toString('base64url')}`;
+}
+
+/**
+ * Check an invite code's signature and expiry
+ * @param now - Current time in milliseconds (overridable for tests)
+ * @throws InviteCodeError when the code is malformed, tampered with or expired
+ */
+export function verifyInviteCode(code: string, secret: string, now: number = Date.now()): InvitePayload {
+	const [data, signature, ...rest] = code.split('.');
+	if (!data || !signature || rest.length > 0) {
+		throw new InviteCodeError('malformed', 'This invite link is not valid');
+	}
+
+	const expected = sign(data, secret);
+	const actual = Buffer.from(signature, 'base64url');
+	if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+		throw new InviteCodeError('signature', 'This invite link is not valid');
+	}
+
+	let payload: InvitePayload;
+	try {
+		payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+	} catch {
+		throw new InviteCodeError('malformed', 'This invite link is not valid');
+	}
+	if (typeof payload?.inv !== 'string' || typeof payload.clubId !== 'string' || typeof payload.exp !== 'number') {
+		throw new InviteCodeError('malformed', 'This invite link is not valid');
+	}
+
+	if (payload.exp <= now) {
+		throw new InviteCodeError('expired', 'This invitation has expired', payload);
+	}
+	return payload;
+}
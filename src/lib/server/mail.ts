@@ -0,0 +1,94 @@
+/**
+ * Outgoing email
+ * Messages go through a pluggable transport. Until a real mail service is wired up,
+ * MAIL_TRANSPORT selects a local stand-in:
+ *   console (default) - print messages to the server log
+ *   file              - write each message as an .eml file to MAIL_OUTBOX_DIR (default .mail-outbox)
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	html?: string;
+}
+
+export interface MailTransport {
+	send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs messages instead of sending them
+ */
+export class ConsoleMailTransport implements MailTransport {
+	async send(message: MailMessage & { from: string }): Promise<void> {
+		console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+	}
+}
+
+/**
+ * Writes messages to a directory so they can be opened in a mail client
+ */
+export class FileMailTransport implements MailTransport {
+	constructor(private readonly directory: string) {}
+
+	async send(message: MailMessage & { from: string }): Promise<void> {
+		await mkdir(this.directory, { recursive: true });
+
+		const headers = [
+			`From: ${message.from}`,
+			`To: ${message.to}`,
+			`Subject: ${message.subject}`,
+			`Date: ${new Date().toUTCString()}`,
+			'MIME-Version: 1.0'
+		];
+		const body = message.html
+			? [
+				'Content-Type: multipart/alternative; boundary="bookwork"',
+				'',
+				'--bookwork',
+				'Content-Type: text/plain; charset=utf-8',
+				'',
+				message.text,
+				'--bookwork',
+				'Content-Type: text/html; charset=utf-8',
+				'',
+				message.html,
+				'--bookwork--'
+			]
+			: ['Content-Type: text/plain; charset=utf-8', '', message.text];
+
+		const recipient = message.to.replace(/[^a-z0-9]+/gi, '_');
+		const file = join(this.directory, `${Date.now()}-${recipient}.eml`);
+		await writeFile(file, [...headers, ...body].join('\r\n'));
+	}
+}
+
+let transport: MailTransport | null = null;
+
+function createTransportFromEnv(): MailTransport {
+	switch (process.env.MAIL_TRANSPORT) {
+		case 'file':
+			return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || '.mail-outbox');
+		default:
+			return new ConsoleMailTransport();
+	}
+}
+
+/**
+ * Replace the transport (e.g. with a real mail service, or a fake in tests); null restores the default
+ */
+export function configureMailTransport(next: MailTransport | null): void {
+	transport = next;
+}
+
+/**
+ * Send an email through the configured transport
+ */
+export async function sendMail(message: MailMessage): Promise<void> {
+	transport ??= createTransportFromEnv();
+	await transport.send({ ...message, from: process.env.MAIL_FROM || 'BookWork <no-reply@bookwork.local>' });
+}
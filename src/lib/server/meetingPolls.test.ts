@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { MeetingPollService } from './meetingPolls';
+import { clubMembers, fakeDirectory, requester } from './testing';
+import type { Event, NewEvent } from '$lib/api';
+
+/**
+ * Club where "lead" is an admin and "member" an ordinary member, recording created events
+ */
+function club() {
+	const created: Array<{ clubId: string; event: NewEvent; authorization: string }> = [];
+	const directory = fakeDirectory(clubMembers({ lead: 'admin', member: 'member' }), {
+		createEvent: async (clubId, event, authorization) => {
+			created.push({ clubId, event, authorization });
+			return { ...event, id: 'event-9', status: 'scheduled', organizerId: 'lead' } as Event;
+		}
+	});
+	return { directory, created };
+}
+
+const newPoll = {
+	title: 'September Discussion',
+	location: 'Library',
+	timeZone: 'America/New_York',
+	slots: ['2025-09-04T23:00:00.000Z', '2025-09-02T23:00:00.000Z'],
+	requiredMemberIds: ['lead']
+};
+
+describe('MeetingPollService', () => {
+	it('should let admins propose times and members answer them', async () => {
+		const { directory } = club();
+		const polls = new MeetingPollService({ directory, now: () => Date.UTC(2025, 7, 1) });
+
+		await expect(polls.createPoll('club-1', newPoll, requester('member')))
+			.rejects.toMatchObject({ status: 403, code: 'NOT_CLUB_ADMIN' });
+		await expect(polls.createPoll('club-1', { ...newPoll, requiredMemberIds: ['stranger'] }, requester('lead')))
+			.rejects.toMatchObject({ status: 400, code: 'UNKNOWN_MEMBER' });
+
+		const poll = await polls.createPoll('club-1', newPoll, requester('lead'));
+		expect(poll.slots).toEqual([
+			{ id: 'slot-1', start: '2025-09-02T23:00:00.000Z' },
+			{ id: 'slot-2', start: '2025-09-04T23:00:00.000Z' }
+		]);
+
+		await polls.respond('club-1', poll.id, { responses: { 'slot-1': 'maybe' } }, requester('member'));
+		const answered = await polls.respond('club-1', poll.id, { responses: { 'slot-2': 'available' } }, requester('member'));
+		expect(answered.responses).toEqual({ member: { 'slot-1': 'maybe', 'slot-2': 'available' } });
+
+		await expect(polls.respond('club-1', poll.id, { responses: { 'slot-9': 'available' } }, requester('member')))
+			.rejects.toMatchObject({ status: 400, code: 'UNKNOWN_SLOT' });
+		await expect(polls.listPolls('club-1', requester('stranger'))).rejects.toMatchObject({ status: 403 });
+		expect(await polls.listPolls('club-1', requester('member'))).toHaveLength(1);
+	});
+
+	it('should turn the chosen slot into an event in the poll zone and close the poll', async () => {
+		const { directory, created } = club();
+		const polls = new MeetingPollService({ directory });
+		const poll = await polls.createPoll('club-1', newPoll, requester('lead'));
+
+		const { poll: scheduled, event } = await polls.schedule('club-1', poll.id, 'slot-2', requester('lead'));
+
+		expect(created).toEqual([{
+			clubId: 'club-1',
+			event: { title: 'September Discussion', location: 'Library', date: '2025-09-04T23:00:00.000Z', timeZone: 'America/New_York', type: 'meeting' },
+			authorization: 'Bearer lead-session'
+		}]);
+		expect(scheduled).toMatchObject({ status: 'scheduled', scheduledSlotId: 'slot-2', eventId: event.id });
+		await expect(polls.respond('club-1', poll.id, { responses: { 'slot-1': 'available' } }, requester('member')))
+			.rejects.toMatchObject({ status: 409, code: 'POLL_CLOSED' });
+	});
+});
@@ -0,0 +1,168 @@
+/**
+ * Meeting time polls
+ * Polls are held in memory on this server, like invitations. Scheduling a poll creates a
+ * real event in the backend from the chosen slot.
+ */
+
+import type { Event } from '$lib/api.generated';
+import type { ClubMember } from '$lib/api';
+import type { MeetingPoll, NewMeetingPoll, PollResponse } from '$lib/meetingPolls';
+import {
+	ServiceError,
+	assertClubAdmin,
+	assertClubMember,
+	createBackendDirectory,
+	type BackendDirectory,
+	type Requester
+} from './backend';
+
+/**
+ * Backend access needed to check membership and create the scheduled event
+ */
+export type PollDirectory = Pick<BackendDirectory, 'listMembers' | 'createEvent'>;
+
+export class MeetingPollError extends ServiceError {
+	constructor(status: number, code: string, message: string) {
+		super(status, code, message);
+		this.name = 'MeetingPollError';
+	}
+}
+
+export interface MeetingPollServiceOptions {
+	directory?: PollDirectory;
+	now?: () => number;
+}
+
+/**
+ * Runs a club's meeting time polls and turns the chosen slot into an event
+ */
+export class MeetingPollService {
+	private polls = new Map<string, MeetingPoll>();
+	private readonly directory: PollDirectory;
+	private readonly now: () => number;
+
+	constructor(options: MeetingPollServiceOptions = {}) {
+		this.directory = options.directory ?? createBackendDirectory();
+		this.now = options.now ?? Date.now;
+	}
+
+	/**
+	 * Propose candidate times to the club (club admins only)
+	 */
+	async createPoll(clubId: string, input: NewMeetingPoll, requester: Requester): Promise<MeetingPoll> {
+		const members = await this.assertClubAdmin(clubId, requester);
+
+		const requiredMemberIds = [...new Set(input.requiredMemberIds ?? [])];
+		const unknown = requiredMemberIds.find(id => !members.some(member => member.id === id));
+		if (unknown) {
+			throw new MeetingPollError(400, 'UNKNOWN_MEMBER', 'Required members must belong to the club');
+		}
+
+		const poll: MeetingPoll = {
+			id: `poll_${crypto.randomUUID()}`,
+			clubId,
+			title: input.title,
+			description: input.description || null,
+			location: input.location || null,
+			timeZone: input.timeZone,
+			slots: [...input.slots]
+				.sort((a, b) => Date.parse(a) - Date.parse(b))
+				.map((start, index) => ({ id: `slot-${index + 1}`, start: new Date(start).toISOString() })),
+			requiredMemberIds,
+			responses: {},
+			status: 'open',
+			createdBy: requester.user.id,
+			createdAt: new Date(this.now()).toISOString(),
+			scheduledSlotId: null,
+			eventId: null
+		};
+		this.polls.set(poll.id, poll);
+		return poll;
+	}
+
+	/**
+	 * A club's open and scheduled polls, newest first (club members only)
+	 */
+	async listPolls(clubId: string, requester: Requester): Promise<MeetingPoll[]> {
+		await this.assertClubMember(clubId, requester);
+		return [...this.polls.values()]
+			.filter(poll => poll.clubId === clubId && poll.status !== 'closed')
+			.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+	}
+
+	/**
+	 * Record the requester's answers for some or all of a poll's slots (club members only)
+	 */
+	async respond(clubId: string, pollId: string, input: PollResponse, requester: Requester): Promise<MeetingPoll> {
+		await this.assertClubMember(clubId, requester);
+		const poll = this.openPoll(clubId, pollId);
+
+		const unknown = Object.keys(input.responses).find(slotId => !poll.slots.some(slot => slot.id === slotId));
+		if (unknown) {
+			throw new MeetingPollError(400, 'UNKNOWN_SLOT', 'That time is not part of this poll');
+		}
+
+		poll.responses = {
+			...poll.responses,
+			[requester.user.id]: { ...poll.responses[requester.user.id], ...input.responses }
+		};
+		return poll;
+	}
+
+	/**
+	 * Create the event for a slot and close the poll (club admins only)
+	 */
+	async schedule(clubId: string, pollId: string, slotId: string, requester: Requester): Promise<{ poll: MeetingPoll; event: Event }> {
+		await this.assertClubAdmin(clubId, requester);
+		const poll = this.openPoll(clubId, pollId);
+
+		const slot = poll.slots.find(candidate => candidate.id === slotId);
+		if (!slot) {
+			throw new MeetingPollError(400, 'UNKNOWN_SLOT', 'That time is not part of this poll');
+		}
+
+		const event = await this.directory.createEvent(clubId, {
+			title: poll.title,
+			...(poll.description ? { description: poll.description } : {}),
+			...(poll.location ? { location: poll.location } : {}),
+			date: slot.start,
+			timeZone: poll.timeZone,
+			type: 'meeting'
+		}, requester.authorization);
+
+		Object.assign(poll, { status: 'scheduled', scheduledSlotId: slot.id, eventId: event.id });
+		return { poll, event };
+	}
+
+	/**
+	 * Withdraw a poll without scheduling anything (club admins only)
+	 */
+	async closePoll(clubId: string, pollId: string, requester: Requester): Promise<MeetingPoll> {
+		await this.assertClubAdmin(clubId, requester);
+		const poll = this.openPoll(clubId, pollId);
+		poll.status = 'closed';
+		return poll;
+	}
+
+	private openPoll(clubId: string, pollId: string): MeetingPoll {
+		const poll = this.polls.get(pollId);
+		if (!poll || poll.clubId !== clubId) {
+			throw new MeetingPollError(404, 'POLL_NOT_FOUND', 'Poll not found');
+		}
+		if (poll.status !== 'open') {
+			throw new MeetingPollError(409, 'POLL_CLOSED', `This poll is already ${poll.status}`);
+		}
+		return poll;
+	}
+
+	private assertClubMember(clubId: string, requester: Requester): Promise<ClubMember[]> {
+		return assertClubMember(this.directory, clubId, requester, 'Only club members can see meeting polls');
+	}
+
+	private assertClubAdmin(clubId: string, requester: Requester): Promise<ClubMember[]> {
+		return assertClubAdmin(this.directory, clubId, requester, 'Only club admins can propose and schedule meeting times');
+	}
+}
+
+export const meetingPollService = new MeetingPollService();
+
@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InProcessReminderQueue, ReminderService, type ReminderSource } from './reminders';
+import type { PushSender } from './webPush';
+import { clubMembers, fakeDirectory, requester } from './testing';
+import type { MailMessage } from './mail';
+import type { Event } from '$lib/api';
+
+const HOUR = 60 * 60 * 1000;
+const meetingStart = Date.parse('2025-09-02T23:00:00Z');
+
+/**
+ * Club with two members and one meeting, which "ann" has said she'll come to
+ */
+function fakeSource(): ReminderSource {
+	const members = clubMembers({ ann: 'member', bob: 'member' }, {
+		ann: { email: 'ann@example.com', status: 'active' },
+		bob: { email: 'bob@example.com', status: 'active' }
+	});
+	return fakeDirectory(members, {
+		listEvents: async () => [{
+			id: 'event-1',
+			title: 'Book Circle',
+			date: new Date(meetingStart).toISOString(),
+			timeZone: 'America/New_York',
+			type: 'meeting',
+			status: 'scheduled',
+			organizerId: 'ann'
+		} as Event],
+		getAvailability: async () => ({ ann: { userId: 'ann', status: 'available', updatedAt: '2025-08-01T00:00:00.000Z' } })
+	});
+}
+
+function setup(clock: { now: number }, push: PushSender | null = null) {
+	const sent: MailMessage[] = [];
+	const service = new ReminderService({
+		source: fakeSource(),
+		send: async message => { sent.push(message); },
+		push: () => push,
+		getAuthorization: () => 'Bearer service-key',
+		now: () => clock.now,
+		clubIds: ['club-1']
+	});
+	return { service, sent };
+}
+
+describe('ReminderService', () => {
+	it('should deliver the day-before reminder in the app and by email once it is due', async () => {
+		const clock = { now: meetingStart - 25 * HOUR };
+		const { service, sent } = setup(clock);
+
+		expect(await service.plan(clock.now + 2 * HOUR)).toBe(2);
+		expect(await service.deliverDue()).toBe(0);
+
+		clock.now = meetingStart - 24 * HOUR;
+		expect(await service.deliverDue()).toBe(2);
+		expect(sent.map(message => [message.to, message.subject])).toEqual([
+			['ann@example.com', 'Book Circle is in 1 day'],
+			['bob@example.com', 'Book Circle is in 1 day']
+		]);
+		expect(service.listNotifications('bob')).toMatchObject([{ type: 'info', read: false, eventId: 'event-1', link: '/clubs/club-1/schedule' }]);
+
+		// Planning the same window again doesn't queue the reminders a second time
+		clock.now = meetingStart - 25 * HOUR;
+		expect(await service.plan(clock.now + 2 * HOUR)).toBe(0);
+	});
+
+	it('should nudge members who haven\'t answered and use each member\'s channels', async () => {
+		const clock = { now: meetingStart - 73 * HOUR };
+		const { service, sent } = setup(clock);
+		service.updatePreferences('bob', { channels: ['inApp'], eventLeadTimes: [], availabilityLeadTimes: [72 * 60] });
+
+		await service.plan(clock.now + 2 * HOUR);
+		clock.now += 2 * HOUR;
+		await service.deliverDue();
+
+		expect(sent).toEqual([]);
+		expect(service.listNotifications('ann')).toEqual([]);
+		expect(service.listNotifications('bob')).toMatchObject([{ type: 'warning', title: 'Can you make Book Circle?', link: '/clubs/club-1/availability' }]);
+		expect(service.markRead('bob').every(notification => notification.read)).toBe(true);
+	});
+
+	it('should push to saved subscriptions and forget ones that have expired', async () => {
+		const pushed: string[] = [];
+		const push: PushSender = {
+			publicKey: 'public-key',
+			send: async (subscription, payload) => {
+				if (subscription.endpoint.includes('gone')) {
+					throw Object.assign(new Error('Gone'), { statusCode: 410 });
+				}
+				pushed.push(`${subscription.endpoint} ${payload.title}`);
+			}
+		};
+		const clock = { now: meetingStart - 25 * HOUR };
+		const { service } = setup(clock, push);
+		service.updatePreferences('ann', { channels: ['push'], eventLeadTimes: [24 * 60], availabilityLeadTimes: [] });
+		service.updatePreferences('bob', { channels: [], eventLeadTimes: [24 * 60], availabilityLeadTimes: [] });
+		const keys = { p256dh: 'key', auth: 'secret' };
+		service.saveSubscription('ann', { endpoint: 'https://push.example.com/phone', keys });
+		service.saveSubscription('ann', { endpoint: 'https://push.example.com/gone', keys });
+
+		await service.plan(clock.now + 2 * HOUR);
+		clock.now += 2 * HOUR;
+		await service.deliverDue();
+
+		expect(pushed).toEqual(['https://push.example.com/phone Book Circle is in 1 day']);
+		expect(service.getSettings('ann').vapidPublicKey).toBe('public-key');
+
+		// The expired subscription isn't tried again
+		pushed.length = 0;
+		service.updatePreferences('ann', { channels: ['push'], eventLeadTimes: [60], availabilityLeadTimes: [] });
+		await service.plan(meetingStart);
+		clock.now = meetingStart - HOUR;
+		await service.deliverDue();
+		expect(pushed).toEqual(['https://push.example.com/phone Book Circle is in 1 hour']);
+		expect(service.listNotifications('ann')).toEqual([]);
+	});
+
+	it('should plan a club again after its backend calls fail', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const clock = { now: meetingStart - 25 * HOUR };
+		const source = fakeSource();
+		const listEvents = source.listEvents;
+		source.listEvents = async () => { throw new Error('Backend unavailable'); };
+		const service = new ReminderService({ source, getAuthorization: () => '', now: () => clock.now, clubIds: ['club-1'] });
+
+		expect(await service.plan(clock.now + 2 * HOUR)).toBe(0);
+		expect(warn).toHaveBeenCalledTimes(1);
+
+		source.listEvents = listEvents;
+		expect(await service.plan(clock.now + 2 * HOUR)).toBe(2);
+		warn.mockRestore();
+	});
+
+	it('should only watch clubs for their members', async () => {
+		const service = new ReminderService({ source: fakeSource(), clubIds: [], getAuthorization: () => '' });
+
+		await expect(service.watchClub('club-2', requester('stranger'))).rejects.toMatchObject({ status: 403, code: 'NOT_CLUB_MEMBER' });
+		await expect(service.watchClub('club-2', requester('ann'))).resolves.toBeUndefined();
+	});
+
+	it('should not need the service key until a club is watched', async () => {
+		const getAuthorization = vi.fn(() => { throw new Error('REMINDER_API_KEY is not set'); });
+		const service = new ReminderService({ source: fakeSource(), clubIds: [], getAuthorization });
+
+		await expect(service.plan()).resolves.toBe(0);
+		expect(getAuthorization).not.toHaveBeenCalled();
+	});
+});
+
+describe('InProcessReminderQueue', () => {
+	it('should hand out due reminders once, oldest first', () => {
+		const queue = new InProcessReminderQueue();
+		const job = { kind: 'event', userId: 'ann', email: 'ann@example.com', clubId: 'club-1', eventId: 'event-1', eventTitle: 'Book Circle', location: null, start: '2025-09-02T23:00:00.000Z', leadTime: 60 } as const;
+
+		expect(queue.add({ ...job, key: 'b', runAt: 20 })).toBe(true);
+		expect(queue.add({ ...job, key: 'a', runAt: 10 })).toBe(true);
+		expect(queue.add({ ...job, key: 'a', runAt: 10 })).toBe(false);
+
+		expect(queue.takeDue(15).map(due => due.key)).toEqual(['a']);
+		expect(queue.takeDue(30).map(due => due.key)).toEqual(['b']);
+		expect(queue.size).toBe(0);
+		expect(queue.add({ ...job, key: 'a', runAt: 10 })).toBe(false);
+	});
+});
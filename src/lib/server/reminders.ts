@@ -0,0 +1,343 @@
+/**
+ * Reminder scheduler
+ * Every interval the scheduler reads the events, members and answers of the clubs it
+ * watches, queues the reminders coming due and delivers those whose time has come, in the
+ * app, by email through the mail transport, and by Web Push when VAPID keys are set.
+ * Queued reminders, in-app notifications, preferences and push subscriptions are held in
+ * memory on this server, like invitations.
+ */
+
+import { clubPath } from '$lib/clubs';
+import {
+	DEFAULT_REMINDER_PREFERENCES,
+	describeReminder,
+	planReminders,
+	type PushSubscriptionInput,
+	type ReminderJob,
+	type ReminderPreferences,
+	type ReminderSettings,
+	type UserNotification
+} from '$lib/reminders';
+import {
+	ServiceError,
+	assertClubMember,
+	createBackendDirectory,
+	serviceAuthorization,
+	type BackendDirectory,
+	type Requester
+} from './backend';
+import { sendMail, type MailMessage } from './mail';
+import { getPushSender, type PushSender } from './webPush';
+
+/** Most in-app notifications kept per member; older ones are dropped */
+const MAX_NOTIFICATIONS = 100;
+
+const DEFAULT_INTERVAL_MS = 60_000;
+
+/**
+ * Backend access needed to plan a club's reminders
+ */
+export type ReminderSource = Pick<BackendDirectory, 'listMembers' | 'listEvents' | 'getAvailability'>;
+
+/**
+ * Where reminders wait until they are due
+ */
+export interface ReminderQueue {
+	/** Queue a reminder; false when one with the same key was already queued */
+	add(job: ReminderJob): boolean;
+	/** Remove and return the reminders due by a time, oldest first */
+	takeDue(now: number): ReminderJob[];
+	readonly size: number;
+}
+
+/**
+ * Queue held in this process; remembers delivered keys so a reminder is never queued twice
+ */
+export class InProcessReminderQueue implements ReminderQueue {
+	private jobs = new Map<string, ReminderJob>();
+	private seen = new Set<string>();
+
+	add(job: ReminderJob): boolean {
+		if (this.seen.has(job.key)) return false;
+		this.seen.add(job.key);
+		this.jobs.set(job.key, job);
+		return true;
+	}
+
+	takeDue(now: number): ReminderJob[] {
+		const due = [...this.jobs.values()]
+			.filter(job => job.runAt <= now)
+			.sort((a, b) => a.runAt - b.runAt);
+		for (const job of due) this.jobs.delete(job.key);
+		return due;
+	}
+
+	get size(): number {
+		return this.jobs.size;
+	}
+}
+
+export class ReminderError extends ServiceError {
+	constructor(status: number, code: string, message: string) {
+		super(status, code, message);
+		this.name = 'ReminderError';
+	}
+}
+
+/**
+ * Credentials the scheduler uses to read the backend (REMINDER_API_KEY)
+ * Reminders are planned outside any request, so they read with a service key instead
+ */
+export function getReminderAuthorization(): string {
+	return serviceAuthorization('REMINDER_API_KEY', 'send event reminders');
+}
+
+function watchedFromEnv(): string[] {
+	return (process.env.REMINDER_CLUB_IDS ?? '').split(',').map(id => id.trim()).filter(Boolean);
+}
+
+export interface ReminderServiceOptions {
+	source?: ReminderSource;
+	queue?: ReminderQueue;
+	send?: (message: MailMessage) => Promise<void>;
+	/** Push sender; defaults to the one from the VAPID keys (see webPush.ts) */
+	push?: () => PushSender | null;
+	getAuthorization?: () => string;
+	now?: () => number;
+	/** Clubs to watch from the start; defaults to REMINDER_CLUB_IDS */
+	clubIds?: string[];
+}
+
+/**
+ * Plans and delivers event reminders and keeps each member's in-app notifications
+ */
+export class ReminderService {
+	private clubs: Set<string>;
+	private preferences = new Map<string, ReminderPreferences>();
+	private inbox = new Map<string, UserNotification[]>();
+	private subscriptions = new Map<string, PushSubscriptionInput[]>();
+	/** End of the window already planned for each club; reminders before it are queued or were skipped */
+	private plannedUntil = new Map<string, number>();
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private running: Promise<void> | null = null;
+	private readonly source: ReminderSource;
+	private readonly queue: ReminderQueue;
+	private readonly send: (message: MailMessage) => Promise<void>;
+	private readonly push: () => PushSender | null;
+	private readonly getAuthorization: () => string;
+	private readonly now: () => number;
+
+	constructor(options: ReminderServiceOptions = {}) {
+		this.source = options.source ?? createBackendDirectory();
+		this.queue = options.queue ?? new InProcessReminderQueue();
+		this.send = options.send ?? sendMail;
+		this.push = options.push ?? getPushSender;
+		this.getAuthorization = options.getAuthorization ?? getReminderAuthorization;
+		this.now = options.now ?? Date.now;
+		this.clubs = new Set(options.clubIds ?? watchedFromEnv());
+	}
+
+	/**
+	 * Start planning a club's reminders once a member has confirmed they belong to it
+	 */
+	async watchClub(clubId: string, requester: Requester): Promise<void> {
+		if (this.clubs.has(clubId)) return;
+		await assertClubMember(this.source, clubId, requester, 'Only club members get reminders for a club');
+		// A club with no window yet is planned from now on
+		this.clubs.add(clubId);
+	}
+
+	/**
+	 * Queue the reminders due before the next run for every watched club
+	 * A club whose backend calls fail keeps its window, so the next run plans it again.
+	 * @returns How many reminders were queued
+	 */
+	async plan(until = this.now() + DEFAULT_INTERVAL_MS * 2): Promise<number> {
+		// Nothing to plan needs no service key, so a server without REMINDER_API_KEY idles quietly
+		if (this.clubs.size === 0) return 0;
+		const authorization = this.getAuthorization();
+		let queued = 0;
+		for (const clubId of this.clubs) {
+			const from = this.plannedUntil.get(clubId) ?? this.now();
+			if (until <= from) continue;
+			try {
+				const [members, events] = await Promise.all([
+					this.source.listMembers(clubId, authorization),
+					this.source.listEvents(clubId, authorization)
+				]);
+				const live = events.filter(event => event.status !== 'cancelled');
+				const availability = Object.fromEntries(await Promise.all(
+					live.map(async event => [event.id, await this.source.getAvailability(event.id, authorization)] as const)
+				));
+
+				const jobs = planReminders({
+					clubId,
+					events: live,
+					members: members.filter(member => member.status !== 'inactive'),
+					availability,
+					preferences: userId => this.getPreferences(userId),
+					from: new Date(from),
+					until: new Date(until)
+				});
+				queued += jobs.filter(job => this.queue.add(job)).length;
+				this.plannedUntil.set(clubId, until);
+			} catch (error) {
+				console.warn(`[Reminders] Could not plan reminders for club ${clubId}:`, error);
+			}
+		}
+		return queued;
+	}
+
+	/**
+	 * Deliver every queued reminder whose time has come
+	 * @returns How many reminders were delivered
+	 */
+	async deliverDue(): Promise<number> {
+		const due = this.queue.takeDue(this.now());
+		for (const job of due) {
+			await this.deliver(job);
+		}
+		return due.length;
+	}
+
+	/**
+	 * One scheduler run: plan ahead, then deliver what's due
+	 */
+	async run(intervalMs = DEFAULT_INTERVAL_MS): Promise<void> {
+		// A slow backend must not let runs pile up
+		if (this.running) return this.running;
+		this.running = (async () => {
+			await this.plan(this.now() + intervalMs * 2);
+			await this.deliverDue();
+		})().finally(() => {
+			this.running = null;
+		});
+		return this.running;
+	}
+
+	/**
+	 * Run every interval until stopped
+	 */
+	start(intervalMs = DEFAULT_INTERVAL_MS): void {
+		if (this.timer) return;
+		const tick = () => this.run(intervalMs).catch(error => console.error('[Reminders] Scheduler run failed:', error));
+		this.timer = setInterval(tick, intervalMs);
+		// Don't keep the server alive just for reminders
+		this.timer.unref?.();
+		tick();
+	}
+
+	stop(): void {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = null;
+	}
+
+	getPreferences(userId: string): ReminderPreferences {
+		return this.preferences.get(userId) ?? DEFAULT_REMINDER_PREFERENCES;
+	}
+
+	/**
+	 * Save a member's preferences; reminders already queued are delivered by their new channels
+	 */
+	updatePreferences(userId: string, preferences: ReminderPreferences): ReminderPreferences {
+		this.preferences.set(userId, preferences);
+		return preferences;
+	}
+
+	/**
+	 * A member's preferences, with the key their browser needs to subscribe to push
+	 */
+	getSettings(userId: string): ReminderSettings {
+		return { preferences: this.getPreferences(userId), vapidPublicKey: this.push()?.publicKey ?? null };
+	}
+
+	/**
+	 * A member's in-app notifications, newest first
+	 */
+	listNotifications(userId: string): UserNotification[] {
+		return this.inbox.get(userId) ?? [];
+	}
+
+	/**
+	 * Mark some or all of a member's notifications as read
+	 */
+	markRead(userId: string, ids?: string[]): UserNotification[] {
+		const marked = this.listNotifications(userId).map(notification =>
+			!ids || ids.includes(notification.id) ? { ...notification, read: true } : notification
+		);
+		this.inbox.set(userId, marked);
+		return marked;
+	}
+
+	/**
+	 * Add an in-app notification for a member
+	 */
+	notify(userId: string, notification: UserNotification): void {
+		this.inbox.set(userId, [notification, ...this.listNotifications(userId)].slice(0, MAX_NOTIFICATIONS));
+	}
+
+	saveSubscription(userId: string, subscription: PushSubscriptionInput): void {
+		const others = (this.subscriptions.get(userId) ?? []).filter(existing => existing.endpoint !== subscription.endpoint);
+		this.subscriptions.set(userId, [...others, subscription]);
+	}
+
+	removeSubscription(userId: string, endpoint: string): void {
+		this.subscriptions.set(userId, (this.subscriptions.get(userId) ?? []).filter(existing => existing.endpoint !== endpoint));
+	}
+
+	private async deliver(job: ReminderJob): Promise<void> {
+		const { channels } = this.getPreferences(job.userId);
+		const { title, message } = describeReminder(job);
+		const link = clubPath(job.clubId, job.kind === 'availability' ? 'availability' : 'schedule');
+
+		if (channels.includes('inApp')) {
+			this.notify(job.userId, {
+				id: `reminder_${crypto.randomUUID()}`,
+				type: job.kind === 'availability' ? 'warning' : 'info',
+				title,
+				message,
+				timestamp: new Date(this.now()).toISOString(),
+				read: false,
+				clubId: job.clubId,
+				eventId: job.eventId,
+				link
+			});
+		}
+
+		if (channels.includes('email')) {
+			try {
+				await this.send({ to: job.email, subject: title, text: `${message}\n\nChange when you're reminded in BookWork's reminder settings.` });
+			} catch (error) {
+				console.warn(`[Reminders] Could not email ${job.userId}:`, error);
+			}
+		}
+
+		const sender = this.push();
+		if (channels.includes('push') && sender) {
+			for (const subscription of this.subscriptions.get(job.userId) ?? []) {
+				try {
+					await sender.send(subscription, { title, body: message, url: link });
+				} catch (error) {
+					const status = (error as { statusCode?: number }).statusCode;
+					if (status === 404 || status === 410) {
+						this.removeSubscription(job.userId, subscription.endpoint);
+					} else {
+						console.warn(`[Reminders] Could not push to ${job.userId}:`, error);
+					}
+				}
+			}
+		}
+	}
+}
+
+export const reminderService = new ReminderService();
+
+/**
+ * Start the scheduler unless REMINDERS_ENABLED is false; runs every REMINDER_INTERVAL_SECONDS
+ */
+export function startReminderScheduler(service = reminderService): void {
+	if (process.env.REMINDERS_ENABLED === 'false') return;
+	const seconds = Number(process.env.REMINDER_INTERVAL_SECONDS);
+	service.start(seconds > 0 ? seconds * 1000 : DEFAULT_INTERVAL_MS);
+}
+
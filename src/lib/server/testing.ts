@@ -0,0 +1,31 @@
+/**
+ * Fixtures shared by the club service tests
+ */
+
+import type { ClubMember } from '$lib/api';
+import type { Role } from '$lib/api.generated';
+import type { BackendDirectory, Requester } from './backend';
+
+/**
+ * A signed-in user whose session credentials name them, e.g. "Bearer ana-session"
+ */
+export function requester(id: string, user: Partial<Requester['user']> = {}): Requester {
+	return { user: { id, name: `User ${id}`, email: `${id}@example.com`, ...user }, authorization: `Bearer ${id}-session` };
+}
+
+/**
+ * Club members by ID and club role, with any other details by ID
+ */
+export function clubMembers(roles: Record<string, Role>, details: Record<string, Partial<ClubMember>> = {}): ClubMember[] {
+	return Object.entries(roles).map(([id, clubRole]) => ({ id, clubRole, ...details[id] }) as ClubMember);
+}
+
+/**
+ * Directory for a club with these members, plus whatever else a service needs from the backend
+ */
+export function fakeDirectory<T extends Partial<BackendDirectory>>(
+	members: ClubMember[],
+	methods: T = {} as T
+): Pick<BackendDirectory, 'listMembers'> & T {
+	return { listMembers: async () => members, ...methods };
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect, vi } from 'vitest';
+import webpush from 'web-push';
+import { createWebPushSender } from './webPush';
+
+vi.mock('web-push', () => ({
+	default: { sendNotification: vi.fn(async () => ({ statusCode: 201, body: '', headers: {} })) }
+}));
+
+describe('createWebPushSender', () => {
+	it('should stay off until both VAPID keys are set', () => {
+		expect(createWebPushSender({})).toBeNull();
+		expect(createWebPushSender({ VAPID_PUBLIC_KEY: 'public' })).toBeNull();
+	});
+
+	it('should push the reminder as JSON signed with the VAPID keys', async () => {
+		const sender = createWebPushSender({ VAPID_PUBLIC_KEY: 'public', VAPID_PRIVATE_KEY: 'private', VAPID_SUBJECT: 'mailto:club@example.com' });
+		const subscription = { endpoint: 'https://push.example.com/phone', keys: { p256dh: 'key', auth: 'secret' } };
+
+		await sender!.send(subscription, { title: 'Book Circle is in 1 day', body: 'Tomorrow at 7pm', url: '/clubs/club-1/schedule' });
+
+		expect(sender!.publicKey).toBe('public');
+		expect(webpush.sendNotification).toHaveBeenCalledWith(
+			subscription,
+			JSON.stringify({ title: 'Book Circle is in 1 day', body: 'Tomorrow at 7pm', url: '/clubs/club-1/schedule' }),
+			expect.objectContaining({ vapidDetails: { subject: 'mailto:club@example.com', publicKey: 'public', privateKey: 'private' } })
+		);
+	});
+});
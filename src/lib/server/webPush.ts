@@ -0,0 +1,62 @@
+/**
+ * Web Push delivery
+ * Reminders are pushed with the web-push package once VAPID keys are set (generate a pair with
+ * `npx web-push generate-vapid-keys`):
+ *   VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY - the key pair; without both, push stays off
+ *   VAPID_SUBJECT                       - mailto: or https: contact for push services
+ */
+
+import webpush from 'web-push';
+import type { PushSubscriptionInput } from '$lib/reminders';
+
+export interface PushPayload {
+	title: string;
+	body: string;
+	url?: string;
+}
+
+/**
+ * Sends Web Push messages
+ * Throws an error with statusCode 404 or 410 when the subscription has expired.
+ */
+export interface PushSender {
+	readonly publicKey: string;
+	send(subscription: PushSubscriptionInput, payload: PushPayload): Promise<void>;
+}
+
+/** How long push services keep a reminder for a device that is offline */
+const PUSH_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Sender using the VAPID keys in the environment, or null when they aren't set
+ */
+export function createWebPushSender(env: Record<string, string | undefined> = process.env): PushSender | null {
+	const publicKey = env.VAPID_PUBLIC_KEY;
+	const privateKey = env.VAPID_PRIVATE_KEY;
+	if (!publicKey || !privateKey) return null;
+
+	const vapidDetails = { subject: env.VAPID_SUBJECT || 'mailto:no-reply@bookwork.local', publicKey, privateKey };
+	return {
+		publicKey,
+		async send(subscription, payload) {
+			await webpush.sendNotification(subscription, JSON.stringify(payload), { vapidDetails, TTL: PUSH_TTL_SECONDS });
+		}
+	};
+}
+
+let sender: PushSender | null = null;
+
+/**
+ * Replace the sender (e.g. with a fake in tests); null restores the default from the VAPID keys
+ */
+export function configurePushSender(next: PushSender | null): void {
+	sender = next;
+}
+
+/**
+ * The configured sender, or null when push is off
+ */
+export function getPushSender(): PushSender | null {
+	sender ??= createWebPushSender();
+	return sender;
+}
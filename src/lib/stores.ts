@@ -19,7 +19,11 @@
  * - Includes persistence layer integration points
  */
 
-import { writable, derived, type Writable, type Readable } from 'svelte/store';
+import { writable, derived, get, type Writable, type Readable } from 'svelte/store';
+import { getLocalTimeZone, isValidTimeZone } from './timezones';
+import type { AvailabilityStatus } from './availability';
+import type { ClubMember as ApiClubMember, Event as ApiEvent, EventItem as ApiEventItem, Role, User as ApiUser, UserClub } from './api.generated';
+import { clubPath, clubRole, type ClubSection } from './clubs';
 
 /**
  * Type Definitions and Interfaces
@@ -27,12 +31,12 @@ import { writable, derived, type Writable, type Readable } from 'svelte/store';
 
 /**
  * User account information and profile data
+ * The backend's User with only its identity required
  * 
- * @interface User
  * @property {string} id - Unique user identifier (UUID format)
  * @property {string} email - User's email address (validated format)
  * @property {string} name - User's display name or full name
- * @property {string} [role] - User role (e.g., 'admin', 'member', 'moderator')
+ * @property {Role} [role] - User role (e.g., 'admin', 'member', 'moderator')
  * @property {string} [avatar] - URL to user's profile avatar image
  * 
  * @example
@@ -46,13 +50,7 @@ import { writable, derived, type Writable, type Readable } from 'svelte/store';
  * };
  * ```
  */
-export interface User {
-	id: string;
-	email: string;
-	name: string;
-	role?: string;
-	avatar?: string;
-}
+export type User = Pick<ApiUser, 'id' | 'email' | 'name'> & Partial<Pick<ApiUser, 'role' | 'avatar'>>;
 
 /**
  * Book club information and metadata
@@ -60,7 +58,7 @@ export interface User {
  * @interface Club
  * @property {string} id - Unique club identifier (UUID format)
  * @property {string} name - Club display name
- * @property {string} description - Club description and purpose
+ * @property {string} [description] - Club description and purpose
  * @property {number} memberCount - Current number of active members
  * @property {string} createdAt - ISO date string of club creation
  * 
@@ -78,15 +76,15 @@ export interface User {
 export interface Club {
 	id: string;
 	name: string;
-	description: string;
+	description?: string;
 	memberCount: number;
 	createdAt: string;
 }
 
 /**
  * Individual club member profile and activity data
+ * The backend's ClubMember, generated from the API contract
  * 
- * @interface ClubMember
  * @property {string} id - Unique member identifier (UUID format)
  * @property {string} name - Member's display name
  * @property {string} email - Member's contact email address
@@ -94,7 +92,7 @@ export interface Club {
  * @property {string} role - Member's role within the club
  * @property {string} avatar - URL to member's profile picture
  * @property {string} joinedDate - ISO date string when member joined
- * @property {number} booksRead - Total number of books read in the club
+ * @property {number} booksRead - Club books the member has finished, counted from their reading progress
  * 
  * @example
  * ```typescript
@@ -110,24 +108,7 @@ export interface Club {
  * };
  * ```
  */
-export interface ClubMember {
-  id: string;
-  name: string;
-  email: string;
-  phone?: string | null;
-  avatar?: string | null;
-  role: 'admin' | 'moderator' | 'member' | 'guest';
-  isActive: boolean;
-  lastLoginAt?: string | null;
-  createdAt: string;
-  updatedAt?: string;
-  joinedDate?: string | null;
-  joinDate: string;
-  status: 'active' | 'inactive' | 'pending';
-  permissions?: string[];
-  booksRead?: number;
-  clubRole?: 'admin' | 'moderator' | 'member' | 'guest';
-}
+export type ClubMember = ApiClubMember;
 
 /**
  * Scheduled event information for club activities
@@ -141,6 +122,9 @@ export interface ClubMember {
  * @property {string} location - Event location or virtual meeting link
  * @property {string[]} attendees - Array of attendee IDs
  * @property {'meeting' | 'discussion' | 'social' | 'other'} type - Event category
+ * @property {number} [capacity] - Seats available; further attendees are waitlisted
+ * @property {string} [rrule] - RFC 5545 RRULE repeating the event from its date
+ * @property {EventException[]} [exceptions] - Cancelled or changed occurrences of the series
  */
 export interface ScheduleEvent {
 	id: string;
@@ -151,23 +135,64 @@ export interface ScheduleEvent {
 	location: string;
 	attendees: string[];
 	type: 'meeting' | 'discussion' | 'social' | 'other';
-	book?: string;
+	/** Club book the meeting discusses; see reading.ts */
+	bookId?: string | null;
+	/** IANA zone the organizer scheduled the event in */
+	timeZone?: string;
+	/** iCalendar UID, kept from the source calendar for imported events */
+	uid?: string;
+	capacity?: number | null;
+	rrule?: string | null;
+	exceptions?: EventException[];
 }
 
-export interface MeetingAvailability {
-	[memberId: string]: {
-		[date: string]: boolean;
-	};
+/**
+ * A cancelled or changed occurrence of a recurring event, keyed by the date it would have fallen on
+ */
+export interface EventException {
+	originalDate: string;
+	cancelled?: boolean;
+	/** ISO start the occurrence moved to */
+	date?: string;
+	title?: string;
+	description?: string;
+	location?: string;
+	/** Book discussed at this occurrence; null means none, unlike the series */
+	bookId?: string | null;
 }
 
-export interface EventItem {
-	id: string;
+/**
+ * One member's answer for an event
+ */
+export interface AvailabilityResponse {
 	name: string;
-	assignedTo: string;
-	status: 'pending' | 'confirmed' | 'completed';
-	category: string;
+	status: AvailabilityStatus;
+	note?: string;
+	updatedAt?: string;
+	/** Said available but the event is full */
+	waitlisted?: boolean;
 }
 
+/**
+ * Availability for one event: the current user's answer plus every member's response
+ */
+export interface EventAvailability {
+	userId: string;
+	/** The current user's answer; null until they give one */
+	status: AvailabilityStatus | null;
+	note?: string;
+	/** The current user said available but the event is full */
+	waitlisted?: boolean;
+	responses: Record<string, AvailabilityResponse>;
+}
+
+export interface MeetingAvailability {
+	[eventId: string]: EventAvailability;
+}
+
+/** Something to bring to an event, with who signed up for how much of it */
+export type EventItem = ApiEventItem;
+
 export interface WebsiteModule {
 	id: string;
 	name: string;
@@ -183,9 +208,24 @@ export interface WebsiteModule {
 export const user: Writable<User | null> = writable(null);
 export const isAuthenticated: Readable<boolean> = derived(user, $user => !!$user);
 
-// Current club store
+// Current club store; set it with selectClub so the choice is remembered
 export const currentClub: Writable<Club | null> = writable(null);
 
+// Clubs the signed-in user belongs to, with their role in each
+export const userClubs: Writable<UserClub[]> = writable([]);
+
+/** The signed-in user's role in the current club, or null outside a club */
+export const currentClubRole: Readable<Role | null> = derived(
+	[userClubs, currentClub],
+	([$userClubs, $currentClub]) => clubRole($userClubs, $currentClub?.id)
+);
+
+/** Links to the current club's pages; the unscoped URL when no club is open */
+export const clubHref: Readable<(section: ClubSection, rest?: string) => string> = derived(
+	currentClub,
+	$currentClub => (section: ClubSection, rest = '') => $currentClub ? clubPath($currentClub.id, section, rest) : `/clubs/${section}${rest}`
+);
+
 // Club members stores
 export const clubMembers: Writable<ClubMember[]> = writable([]);
 export const membersLoading: Writable<boolean> = writable(false);
@@ -196,6 +236,28 @@ export const scheduleEvents: Writable<ScheduleEvent[]> = writable([]);
 export const scheduleLoading: Writable<boolean> = writable(false);
 export const scheduleError: Writable<string | null> = writable(null);
 
+/**
+ * Schedule entry for an event from the API; the schedule has no training type
+ */
+export function toScheduleEvent(event: ApiEvent): ScheduleEvent {
+	return {
+		id: event.id,
+		title: event.title,
+		description: event.description ?? '',
+		date: event.date,
+		time: '',
+		location: event.location ?? '',
+		attendees: [],
+		type: event.type === 'training' ? 'meeting' : event.type,
+		timeZone: event.timeZone,
+		uid: event.uid,
+		capacity: event.capacity,
+		rrule: event.rrule,
+		bookId: event.bookId,
+		exceptions: event.exceptions
+	};
+}
+
 // Meeting availability store
 export const meetingAvailability: Writable<MeetingAvailability> = writable({});
 
@@ -225,15 +287,101 @@ export const currentRoute: Writable<string> = writable('/');
 // Theme store
 export const darkMode: Writable<boolean> = writable(false);
 
-// Notification store
-export const notifications: Writable<Array<{
+// Time zone preference stores, by user id; kept in this browser's localStorage
+const TIME_ZONE_PREFERENCES_KEY = 'bookwork.timeZones';
+
+function loadTimeZonePreferences(): Record<string, string> {
+	try {
+		const stored = typeof localStorage === 'undefined' ? null : JSON.parse(localStorage.getItem(TIME_ZONE_PREFERENCES_KEY) ?? '{}');
+		return stored && typeof stored === 'object' ? stored : {};
+	} catch {
+		return {};
+	}
+}
+
+const timeZonePreferences: Writable<Record<string, string>> = writable(loadTimeZonePreferences());
+timeZonePreferences.subscribe(value => {
+	try {
+		if (typeof localStorage !== 'undefined') localStorage.setItem(TIME_ZONE_PREFERENCES_KEY, JSON.stringify(value));
+	} catch {
+		// Storage can be refused (private browsing); the choice then lasts for this visit
+	}
+});
+
+/** The signed-in user's chosen display zone, or null to follow the browser */
+export const timeZonePreference: Readable<string | null> = derived(
+	[user, timeZonePreferences],
+	([$user, $preferences]) => ($user && $preferences[$user.id]) || null
+);
+
+/** The IANA zone event times are shown in */
+export const viewerTimeZone: Readable<string> = derived(
+	timeZonePreference,
+	$preference => $preference && isValidTimeZone($preference) ? $preference : getLocalTimeZone()
+);
+
+// Club each user last had open, by user id; kept in this browser's localStorage
+const CURRENT_CLUB_KEY = 'bookwork.currentClubs';
+
+function loadCurrentClubs(): Record<string, string> {
+	try {
+		const stored = typeof localStorage === 'undefined' ? null : JSON.parse(localStorage.getItem(CURRENT_CLUB_KEY) ?? '{}');
+		return stored && typeof stored === 'object' ? stored : {};
+	} catch {
+		return {};
+	}
+}
+
+/**
+ * The club a user last had open in this browser, if any
+ */
+export function rememberedClubId(userId: string): string | null {
+	return loadCurrentClubs()[userId] ?? null;
+}
+
+/**
+ * Open a club and remember it for the signed-in user's next visit
+ */
+export function selectClub(club: Club): void {
+	currentClub.set(club);
+	const userId = get(user)?.id;
+	if (!userId) return;
+	try {
+		if (typeof localStorage !== 'undefined') {
+			localStorage.setItem(CURRENT_CLUB_KEY, JSON.stringify({ ...loadCurrentClubs(), [userId]: club.id }));
+		}
+	} catch {
+		// Storage can be refused (private browsing); the club is then picked afresh next visit
+	}
+}
+
+/**
+ * Choose the zone a user sees event times in; null follows the browser again
+ */
+export function setTimeZonePreference(userId: string, timeZone: string | null): void {
+	timeZonePreferences.update(current => {
+		const rest = { ...current };
+		delete rest[userId];
+		return timeZone ? { ...rest, [userId]: timeZone } : rest;
+	});
+}
+
+/**
+ * An in-app notification for the signed-in user
+ */
+export interface AppNotification {
 	id: string;
 	type: 'success' | 'error' | 'warning' | 'info';
 	title: string;
 	message: string;
 	timestamp: string;
 	read: boolean;
-}>> = writable([]);
+	/** Page the notification is about */
+	link?: string;
+}
+
+// Notification store
+export const notifications: Writable<AppNotification[]> = writable([]);
 
 // Loading states
 export const globalLoading: Writable<boolean> = writable(false);
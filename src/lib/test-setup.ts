@@ -8,6 +8,7 @@ import { vi, beforeEach, afterEach } from 'vitest';
 
 // Mock SvelteKit modules
 vi.mock('$app/environment', () => ({
+	browser: false,
 	dev: true,
 	building: false,
 	version: 'test'
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { wallClock, fromWallClock, zoneOffsetMinutes, isValidTimeZone, timeZoneCity } from './timezones';
+
+function wall(year: number, month: number, day: number, hours: number, minutes = 0) {
+	return { year, month: month - 1, day, hours, minutes, seconds: 0 };
+}
+
+describe('time zone conversion', () => {
+	it('should read and place wall-clock times in a zone', () => {
+		const start = new Date('2025-07-08T23:00:00Z');
+
+		expect(wallClock(start, 'America/New_York')).toMatchObject({ year: 2025, month: 6, day: 8, hours: 19, weekday: 2 });
+		expect(wallClock(start, 'Asia/Tokyo')).toMatchObject({ day: 9, hours: 8, weekday: 3 });
+		expect(fromWallClock(wall(2025, 7, 8, 19), 'America/New_York')).toEqual(start);
+		expect(zoneOffsetMinutes(start, 'Asia/Kolkata')).toBe(330);
+		// Overflowing fields roll over as with the Date constructor
+		expect(fromWallClock(wall(2025, 12, 32, 9), 'UTC').toISOString()).toBe('2026-01-01T09:00:00.000Z');
+	});
+
+	it('should handle daylight-saving gaps and repeats', () => {
+		// 02:30 doesn't happen on 9 March 2025 in New York; it moves forward an hour
+		expect(fromWallClock(wall(2025, 3, 9, 2, 30), 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z');
+		expect(fromWallClock(wall(2025, 3, 9, 3, 30), 'America/New_York').toISOString()).toBe('2025-03-09T07:30:00.000Z');
+		// 01:30 happens twice on 26 October 2025 in London; the first (BST) is used
+		expect(fromWallClock(wall(2025, 10, 26, 1, 30), 'Europe/London').toISOString()).toBe('2025-10-26T00:30:00.000Z');
+	});
+
+	it('should recognise zone names', () => {
+		expect(isValidTimeZone('Europe/London')).toBe(true);
+		expect(isValidTimeZone('W. Europe Standard Time')).toBe(false);
+		expect(timeZoneCity('America/Argentina/Buenos_Aires')).toBe('Buenos Aires');
+	});
+});
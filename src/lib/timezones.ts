@@ -0,0 +1,154 @@
+/**
+ * Time zones
+ * Events keep the IANA zone they were scheduled in, so a 19:00 meeting in London stays at
+ * 19:00 London time across daylight-saving changes, and each viewer sees it in their own
+ * zone. Conversions go through Intl, which carries the tz database in every supported browser.
+ *
+ * Helpers that take an optional zone fall back to the runtime's local zone when it is missing.
+ * The zone each user views times in is kept in stores.ts (viewerTimeZone).
+ */
+
+/**
+ * Calendar date and wall-clock time in a zone; month is 0-based and weekday 0 is Sunday, as in Date
+ */
+export interface WallClock {
+	year: number;
+	month: number;
+	day: number;
+	hours: number;
+	minutes: number;
+	seconds: number;
+	weekday: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+	let formatter = formatters.get(timeZone);
+	if (!formatter) {
+		formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone,
+			hourCycle: 'h23',
+			year: 'numeric',
+			month: 'numeric',
+			day: 'numeric',
+			hour: 'numeric',
+			minute: 'numeric',
+			second: 'numeric',
+			weekday: 'short'
+		});
+		formatters.set(timeZone, formatter);
+	}
+	return formatter;
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Whether Intl recognises a zone name, e.g. "Europe/London" or "UTC"
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+	try {
+		partsFormatter(timeZone);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * The runtime's own zone (the browser's, or the server's TZ)
+ */
+export function getLocalTimeZone(): string {
+	return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+/**
+ * Zone names to offer in pickers, with the given zones included even if Intl doesn't list them
+ */
+export function listTimeZones(...include: Array<string | undefined>): string[] {
+	const supported = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+	const zones = new Set([...supported, 'UTC', getLocalTimeZone()]);
+	for (const zone of include) {
+		if (zone) zones.add(zone);
+	}
+	return [...zones].sort();
+}
+
+/**
+ * A moment's calendar date and time in a zone
+ */
+export function wallClock(date: Date, timeZone?: string): WallClock {
+	if (!timeZone) {
+		return {
+			year: date.getFullYear(),
+			month: date.getMonth(),
+			day: date.getDate(),
+			hours: date.getHours(),
+			minutes: date.getMinutes(),
+			seconds: date.getSeconds(),
+			weekday: date.getDay()
+		};
+	}
+
+	const parts = partsFormatter(timeZone).formatToParts(date);
+	const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '';
+	return {
+		year: Number(get('year')),
+		month: Number(get('month')) - 1,
+		day: Number(get('day')),
+		hours: Number(get('hour')),
+		minutes: Number(get('minute')),
+		seconds: Number(get('second')),
+		weekday: WEEKDAY_INDEX[get('weekday')]
+	};
+}
+
+/**
+ * Offset of a zone from UTC at a moment, in minutes (east is positive)
+ */
+export function zoneOffsetMinutes(date: Date, timeZone?: string): number {
+	if (!timeZone) return -date.getTimezoneOffset();
+	const wall = wallClock(date, timeZone);
+	const asUtc = Date.UTC(wall.year, wall.month, wall.day, wall.hours, wall.minutes, wall.seconds);
+	return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * The moment a wall-clock time happens in a zone
+ * Fields may overflow (day 32, month -1) as with the Date constructor. Times skipped by a
+ * daylight-saving change move forward by the size of the gap; times that happen twice
+ * resolve to the first.
+ */
+export function fromWallClock(fields: Omit<WallClock, 'weekday'>, timeZone?: string): Date {
+	const { year, month, day, hours, minutes, seconds } = fields;
+	if (!timeZone) return new Date(year, month, day, hours, minutes, seconds);
+
+	const asUtc = Date.UTC(year, month, day, hours, minutes, seconds);
+	const requested = new Date(asUtc);
+	// Zones change offset at most once in a day, so the offsets a day either side cover both readings
+	const candidates = [...new Set([asUtc - DAY_MS, asUtc + DAY_MS].map(instant =>
+		asUtc - zoneOffsetMinutes(new Date(instant), timeZone) * 60000
+	))];
+	const readsBack = candidates.filter(instant => {
+		const wall = wallClock(new Date(instant), timeZone);
+		return wall.day === requested.getUTCDate() && wall.hours === requested.getUTCHours() && wall.minutes === requested.getUTCMinutes();
+	});
+	return new Date(readsBack.length > 0 ? Math.min(...readsBack) : Math.max(...candidates));
+}
+
+/**
+ * Short zone label for a moment, e.g. "EDT", "GMT+1"
+ */
+export function timeZoneAbbreviation(date: Date, timeZone?: string): string {
+	const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(date);
+	return parts.find(part => part.type === 'timeZoneName')?.value ?? '';
+}
+
+/**
+ * Zone name for people, e.g. "America/New_York" becomes "New York"
+ */
+export function timeZoneCity(timeZone: string): string {
+	return timeZone.split('/').pop()!.replace(/_/g, ' ');
+}
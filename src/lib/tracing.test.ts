@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+	parseTraceparent,
+	formatTraceparent,
+	startSpan,
+	setTraceContextProvider,
+	configureTracing,
+	OtlpHttpExporter,
+	type TraceContext
+} from './tracing';
+import { createServerError, sanitizeErrorForClient } from './errors';
+
+vi.mock('$app/environment', () => ({
+	browser: false,
+	dev: true,
+	building: false,
+	version: 'test'
+}));
+
+const incoming = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+describe('trace context', () => {
+	afterEach(() => {
+		setTraceContextProvider(null);
+		configureTracing({ exporter: null });
+	});
+
+	it('should round-trip a valid traceparent header', () => {
+		const context = parseTraceparent(incoming, 'vendor=abc');
+
+		expect(context).toEqual({
+			traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+			spanId: '00f067aa0ba902b7',
+			traceFlags: 1,
+			traceState: 'vendor=abc'
+		});
+		expect(formatTraceparent(context!)).toBe(incoming);
+	});
+
+	it('should reject malformed or invalid headers', () => {
+		expect(parseTraceparent('not-a-header')).toBeNull();
+		expect(parseTraceparent('ff-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01')).toBeNull();
+		expect(parseTraceparent('00-00000000000000000000000000000000-00f067aa0ba902b7-01')).toBeNull();
+		expect(parseTraceparent(null)).toBeNull();
+	});
+
+	it('should start child spans in the active trace', () => {
+		const parent = parseTraceparent(incoming)!;
+		setTraceContextProvider(() => parent);
+
+		const span = startSpan('child', { kind: 'client' });
+
+		expect(span.traceId).toBe(parent.traceId);
+		expect(span.parentSpanId).toBe(parent.spanId);
+		expect(span.context.spanId).toMatch(/^[0-9a-f]{16}$/);
+		expect(startSpan('root', { parent: null }).traceId).not.toBe(parent.traceId);
+	});
+
+	it('should attach the active trace ID to app errors sent to clients', () => {
+		const active: TraceContext = parseTraceparent(incoming)!;
+		setTraceContextProvider(() => active);
+
+		const error = createServerError('Backend unavailable');
+
+		expect(error.traceId).toBe(active.traceId);
+		expect(sanitizeErrorForClient(error).traceId).toBe(active.traceId);
+	});
+
+	it('should batch finished spans to the OTLP/HTTP endpoint', async () => {
+		const fetchMock = vi.fn(async () => ({ ok: true, status: 200 }));
+		(globalThis as any).fetch = fetchMock;
+		const exporter = new OtlpHttpExporter({ endpoint: 'http://localhost:4318/', serviceName: 'bookwork-test' });
+		configureTracing({ exporter });
+
+		const span = startSpan('GET /clubs', { kind: 'server', parent: null, attributes: { 'http.status_code': 200 } });
+		span.end();
+		span.end();
+		await exporter.flush();
+
+		expect(fetchMock).toHaveBeenCalledTimes(1);
+		const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+		expect(url).toBe('http://localhost:4318/v1/traces');
+
+		const payload = JSON.parse(String(init.body));
+		const [exported] = payload.resourceSpans[0].scopeSpans[0].spans;
+		expect(payload.resourceSpans[0].resource.attributes).toEqual([
+			{ key: 'service.name', value: { stringValue: 'bookwork-test' } }
+		]);
+		expect(exported).toMatchObject({
+			traceId: span.traceId,
+			name: 'GET /clubs',
+			kind: 2,
+			attributes: [{ key: 'http.status_code', value: { intValue: '200' } }]
+		});
+	});
+});
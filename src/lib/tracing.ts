@@ -0,0 +1,349 @@
+/**
+ * Lightweight distributed tracing with W3C Trace Context
+ * Creates spans for incoming requests and outbound API calls, propagates
+ * traceparent/tracestate headers and exports finished spans over OTLP/HTTP (JSON).
+ * Works in both the browser and on the server; the server registers an
+ * AsyncLocalStorage-backed context provider so nested calls join the request trace.
+ */
+
+import { isDevelopment } from './env';
+
+/**
+ * Trace context carried between services in the traceparent header
+ */
+export interface TraceContext {
+	/** 32 lowercase hex characters */
+	traceId: string;
+	/** 16 lowercase hex characters */
+	spanId: string;
+	/** Bit field; 0x01 = sampled */
+	traceFlags: number;
+	/** Vendor-specific tracestate header, passed through unchanged */
+	traceState?: string;
+}
+
+export type SpanKind = 'internal' | 'server' | 'client';
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Receives spans once they end
+ */
+export interface SpanExporter {
+	export(span: Span): void;
+	flush?(): Promise<void>;
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const SAMPLED_FLAG = 0x01;
+
+let exporter: SpanExporter | null = null;
+let contextProvider: (() => TraceContext | undefined) | null = null;
+
+function randomHex(bytes: number): string {
+	const values = new Uint8Array(bytes);
+	if (typeof globalThis.crypto?.getRandomValues === 'function') {
+		globalThis.crypto.getRandomValues(values);
+	} else {
+		for (let i = 0; i < bytes; i++) {
+			values[i] = Math.floor(Math.random() * 256);
+		}
+	}
+	return Array.from(values, value => value.toString(16).padStart(2, '0')).join('');
+}
+
+function isAllZeros(hex: string): boolean {
+	return /^0+$/.test(hex);
+}
+
+/**
+ * Parse a traceparent header
+ * @param header - traceparent value, e.g. 00-<trace-id>-<parent-id>-01
+ * @param traceState - Optional tracestate value to carry along
+ * @returns Trace context, or null when the header is missing or malformed
+ */
+export function parseTraceparent(header: string | null | undefined, traceState?: string | null): TraceContext | null {
+	if (!header) return null;
+
+	const match = TRACEPARENT_PATTERN.exec(header.trim().toLowerCase());
+	if (!match) return null;
+
+	const [, version, traceId, spanId, flags] = match;
+	// Version ff is forbidden; all-zero IDs are invalid
+	if (version === 'ff' || isAllZeros(traceId) || isAllZeros(spanId)) return null;
+
+	return {
+		traceId,
+		spanId,
+		traceFlags: parseInt(flags, 16),
+		...(traceState ? { traceState } : {})
+	};
+}
+
+/**
+ * Format a trace context as a traceparent header value
+ */
+export function formatTraceparent(context: TraceContext): string {
+	const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+	return `00-${context.traceId}-${context.spanId}-${flags}`;
+}
+
+/**
+ * Add traceparent and tracestate headers for an outbound request
+ */
+export function injectTraceHeaders(headers: Record<string, string>, context: TraceContext): Record<string, string> {
+	headers['traceparent'] = formatTraceparent(context);
+	if (context.traceState) {
+		headers['tracestate'] = context.traceState;
+	}
+	return headers;
+}
+
+/**
+ * Register how the currently active trace context is looked up
+ * The server uses AsyncLocalStorage so calls made while handling a request join its trace
+ */
+export function setTraceContextProvider(provider: (() => TraceContext | undefined) | null): void {
+	contextProvider = provider;
+}
+
+/**
+ * Get the trace context of the work currently in progress, if any
+ */
+export function getActiveTraceContext(): TraceContext | undefined {
+	return contextProvider?.() ?? undefined;
+}
+
+/**
+ * Set where finished spans are sent; pass null to stop exporting
+ */
+export function configureTracing(options: { exporter: SpanExporter | null }): void {
+	exporter = options.exporter;
+}
+
+/**
+ * Flush any spans buffered by the exporter
+ */
+export async function flushTraces(): Promise<void> {
+	await exporter?.flush?.();
+}
+
+/**
+ * A timed operation within a trace
+ */
+export class Span {
+	readonly context: TraceContext;
+	readonly parentSpanId?: string;
+	readonly startTime = Date.now();
+	endTime?: number;
+	attributes: Record<string, SpanAttributeValue> = {};
+	status: { code: SpanStatusCode; message?: string } = { code: 'unset' };
+
+	constructor(
+		readonly name: string,
+		readonly kind: SpanKind,
+		parent?: TraceContext | null
+	) {
+		this.context = {
+			traceId: parent?.traceId ?? randomHex(16),
+			spanId: randomHex(8),
+			traceFlags: parent?.traceFlags ?? SAMPLED_FLAG,
+			...(parent?.traceState ? { traceState: parent.traceState } : {})
+		};
+		this.parentSpanId = parent?.spanId;
+	}
+
+	get traceId(): string {
+		return this.context.traceId;
+	}
+
+	get isSampled(): boolean {
+		return (this.context.traceFlags & SAMPLED_FLAG) === SAMPLED_FLAG;
+	}
+
+	setAttribute(key: string, value: SpanAttributeValue | undefined | null): this {
+		if (value !== undefined && value !== null) {
+			this.attributes[key] = value;
+		}
+		return this;
+	}
+
+	setStatus(code: SpanStatusCode, message?: string): this {
+		this.status = message ? { code, message } : { code };
+		return this;
+	}
+
+	/**
+	 * Record an error on the span and mark it failed
+	 */
+	recordError(error: unknown): this {
+		const message = error instanceof Error ? error.message : String(error);
+		this.setAttribute('exception.type', error instanceof Error ? error.name : typeof error);
+		this.setAttribute('exception.message', message);
+		return this.setStatus('error', message);
+	}
+
+	/**
+	 * Finish the span and hand it to the exporter; later calls are ignored
+	 */
+	end(): void {
+		if (this.endTime !== undefined) return;
+		this.endTime = Date.now();
+
+		if (exporter && this.isSampled) {
+			try {
+				exporter.export(this);
+			} catch (error) {
+				if (isDevelopment()) {
+					console.warn('[Tracing] Span export failed:', error);
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Start a span
+ * @param name - Operation name, e.g. "GET /clubs"
+ * @param options.kind - Span kind (default internal)
+ * @param options.parent - Parent context; defaults to the active context, null starts a new trace
+ * @param options.attributes - Initial attributes
+ */
+export function startSpan(
+	name: string,
+	options: {
+		kind?: SpanKind;
+		parent?: TraceContext | null;
+		attributes?: Record<string, SpanAttributeValue | undefined>;
+	} = {}
+): Span {
+	const parent = options.parent === undefined ? getActiveTraceContext() : options.parent;
+	const span = new Span(name, options.kind ?? 'internal', parent);
+	for (const [key, value] of Object.entries(options.attributes ?? {})) {
+		span.setAttribute(key, value);
+	}
+	return span;
+}
+
+/**
+ * OTLP span kind and status codes
+ */
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const OTLP_STATUS_CODE: Record<SpanStatusCode, number> = { unset: 0, ok: 1, error: 2 };
+
+function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>) {
+	return Object.entries(attributes).map(([key, value]) => ({
+		key,
+		value: typeof value === 'string'
+			? { stringValue: value }
+			: typeof value === 'boolean'
+				? { boolValue: value }
+				: Number.isInteger(value)
+					? { intValue: String(value) }
+					: { doubleValue: value }
+	}));
+}
+
+function toUnixNano(ms: number): string {
+	return `${ms}000000`;
+}
+
+/**
+ * Sends spans to an OpenTelemetry collector using OTLP/HTTP with JSON encoding
+ * Spans are batched and posted when the batch fills or the flush interval elapses
+ */
+export class OtlpHttpExporter implements SpanExporter {
+	private buffer: Span[] = [];
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private readonly url: string;
+	private readonly serviceName: string;
+	private readonly headers: Record<string, string>;
+	private readonly maxBatchSize: number;
+	private readonly flushInterval: number;
+
+	constructor(options: {
+		/** Collector base URL (e.g. http://localhost:4318) or full /v1/traces URL */
+		endpoint: string;
+		serviceName: string;
+		headers?: Record<string, string>;
+		maxBatchSize?: number;
+		flushInterval?: number;
+	}) {
+		const endpoint = options.endpoint.replace(/\/+$/, '');
+		this.url = endpoint.endsWith('/v1/traces') ? endpoint : `${endpoint}/v1/traces`;
+		this.serviceName = options.serviceName;
+		this.headers = options.headers ?? {};
+		this.maxBatchSize = options.maxBatchSize ?? 100;
+		this.flushInterval = options.flushInterval ?? 5000;
+	}
+
+	export(span: Span): void {
+		this.buffer.push(span);
+
+		if (this.buffer.length >= this.maxBatchSize) {
+			void this.flush();
+		} else if (!this.timer) {
+			this.timer = setTimeout(() => void this.flush(), this.flushInterval);
+			// Never keep a Node process alive just to export spans
+			(this.timer as { unref?: () => void }).unref?.();
+		}
+	}
+
+	/**
+	 * Build the OTLP JSON request body for a batch of spans
+	 */
+	toPayload(spans: Span[]) {
+		return {
+			resourceSpans: [{
+				resource: {
+					attributes: toOtlpAttributes({ 'service.name': this.serviceName })
+				},
+				scopeSpans: [{
+					scope: { name: 'bookwork-tracing' },
+					spans: spans.map(span => ({
+						traceId: span.context.traceId,
+						spanId: span.context.spanId,
+						...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+						...(span.context.traceState ? { traceState: span.context.traceState } : {}),
+						name: span.name,
+						kind: OTLP_SPAN_KIND[span.kind],
+						startTimeUnixNano: toUnixNano(span.startTime),
+						endTimeUnixNano: toUnixNano(span.endTime ?? span.startTime),
+						attributes: toOtlpAttributes(span.attributes),
+						status: {
+							code: OTLP_STATUS_CODE[span.status.code],
+							...(span.status.message ? { message: span.status.message } : {})
+						}
+					}))
+				}]
+			}]
+		};
+	}
+
+	async flush(): Promise<void> {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+		if (this.buffer.length === 0) return;
+
+		const batch = this.buffer;
+		this.buffer = [];
+
+		try {
+			const response = await fetch(this.url, {
+				method: 'POST',
+				headers: { 'Content-Type': 'application/json', ...this.headers },
+				body: JSON.stringify(this.toPayload(batch))
+			});
+			if (!response.ok && isDevelopment()) {
+				console.warn(`[Tracing] Collector rejected ${batch.length} spans: HTTP ${response.status}`);
+			}
+		} catch (error) {
+			// Tracing must never break the app; drop the batch
+			if (isDevelopment()) {
+				console.warn('[Tracing] Failed to export spans:', error);
+			}
+		}
+	}
+}
@@ -16,6 +16,7 @@
 /**
  * Format a date string or Date object to a readable format
  * @param {string | Date} date - Date string (ISO format) or Date object to format
+ * @param {string} [timeZone] - IANA zone to show the date in; defaults to the browser's zone
  * @returns {string} Formatted date string in "Month Day, Year" format (e.g., "January 15, 2024")
  * @throws {Error} Throws error if date is invalid or cannot be parsed
  * @example
@@ -24,8 +25,9 @@
  * formatDate(new Date(2024, 0, 15)) // Returns "January 15, 2024"
  * ```
  */
-export function formatDate(date: string | Date): string {
+export function formatDate(date: string | Date, timeZone?: string): string {
 	return new Intl.DateTimeFormat('en-US', {
+		timeZone,
 		year: 'numeric',
 		month: 'long',
 		day: 'numeric'
@@ -35,16 +37,19 @@ export function formatDate(date: string | Date): string {
 /**
  * Format a date string or Date object to a readable time format
  * @param {string | Date} date - Date string (ISO format) or Date object to format
+ * @param {string} [timeZone] - IANA zone to show the time in; defaults to the browser's zone
  * @returns {string} Formatted time string in 12-hour format (e.g., "2:30 PM")
  * @throws {Error} Throws error if date is invalid or cannot be parsed
  * @example
  * ```typescript
  * formatTime('2024-01-15T14:30:00') // Returns "2:30 PM"
  * formatTime(new Date(2024, 0, 15, 14, 30)) // Returns "2:30 PM"
+ * formatTime('2024-01-15T19:30:00Z', 'America/New_York') // Returns "2:30 PM"
  * ```
  */
-export function formatTime(date: string | Date): string {
+export function formatTime(date: string | Date, timeZone?: string): string {
 	return new Intl.DateTimeFormat('en-US', {
+		timeZone,
 		hour: 'numeric',
 		minute: '2-digit',
 		hour12: true
@@ -54,6 +59,7 @@ export function formatTime(date: string | Date): string {
 /**
  * Format a date string or Date object to a readable date and time format
  * @param {string | Date} date - Date string (ISO format) or Date object to format
+ * @param {string} [timeZone] - IANA zone to show the date and time in; defaults to the browser's zone
  * @returns {string} Formatted date and time string (e.g., "January 15, 2024 at 2:30 PM")
  * @throws {Error} Throws error if date is invalid or cannot be parsed
  * @example
@@ -62,8 +68,8 @@ export function formatTime(date: string | Date): string {
  * formatDateTime(new Date(2024, 0, 15, 14, 30)) // Returns "January 15, 2024 at 2:30 PM"
  * ```
  */
-export function formatDateTime(date: string | Date): string {
-	return `${formatDate(date)} at ${formatTime(date)}`;
+export function formatDateTime(date: string | Date, timeZone?: string): string {
+	return `${formatDate(date, timeZone)} at ${formatTime(date, timeZone)}`;
 }
 
 /**
@@ -320,6 +326,21 @@ export function formatFileSize(bytes: number): string {
 	return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 }
 
+/**
+ * Offer text content as a file download (browser only)
+ * @param fileName - Name the browser saves the file as
+ * @param content - File contents
+ * @param mimeType - MIME type without charset; UTF-8 is added
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+	const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = fileName;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
 /**
  * Generate a slug from a string
  * @param text - Text to convert to slug
@@ -246,7 +246,7 @@ export interface ValidationResult<T = Record<string, any>> {
  */
 export function validateFormData<T extends Record<string, any>>(
 	formData: Record<string, any>,
-	schema: z.ZodType<T>
+	schema: z.ZodType<T, z.ZodTypeDef, unknown>
 ): ValidationResult<T> {
 	const errors: Record<string, string[]> = {};
 	const sanitized: Record<string, any> = {};
@@ -349,6 +349,8 @@ export function validateEvent(eventData: any): ValidationResult {
 
 /**
  * Zod schema for item validation
+ * quantity is how many the event needs; claimQuantity is how many the member adding it will
+ * bring, with 0 posting the item as still needed
  */
 export const itemSchema = z.object({
 	name: z.string()
@@ -356,19 +358,23 @@ export const itemSchema = z.object({
 		.min(1, 'Item name is required')
 		.max(100, 'Item name must be less than 100 characters')
 		.transform(name => sanitizeText(name)),
-	bringer: z.string()
-		.trim()
-		.min(1, 'Please specify who will bring this item')
-		.max(100, 'Bringer name must be less than 100 characters')
-		.transform(bringer => sanitizeText(bringer)),
 	description: z.string()
 		.optional()
 		.transform(desc => desc ? sanitizeHTML(desc, 'basic') : undefined),
 	quantity: z.number()
+		.int('Quantity must be a whole number')
 		.min(1, 'Quantity must be at least 1')
 		.max(999, 'Quantity cannot exceed 999')
 		.optional()
-		.default(1)
+		.default(1),
+	claimQuantity: z.number()
+		.int('Quantity must be a whole number')
+		.min(0, 'Quantity cannot be negative')
+		.optional()
+		.default(0)
+}).refine(item => item.claimQuantity <= item.quantity, {
+	message: "You can't bring more than are needed",
+	path: ['claimQuantity']
 });
 
 /**
@@ -380,6 +386,31 @@ export function validateItem(itemData: any): ValidationResult {
 	return validateFormData(itemData, itemSchema);
 }
 
+/**
+ * Zod schema for club member form validation
+ * Phone is optional; an empty value clears it
+ */
+export const memberSchema = z.object({
+	name: nameSchema,
+	email: emailSchema,
+	phone: z.string()
+		.trim()
+		.optional()
+		.refine(phone => !phone || phoneSchema.safeParse(phone).success, 'Enter a phone number with 10-15 digits')
+		.transform(phone => phone || null),
+	role: z.enum(['admin', 'moderator', 'member', 'guest']).optional(),
+	status: z.enum(['active', 'inactive', 'pending']).optional()
+});
+
+/**
+ * Validate club member form data
+ * @param memberData - Member data to validate
+ * @returns Validation result
+ */
+export function validateMember(memberData: any): ValidationResult {
+	return validateFormData(memberData, memberSchema);
+}
+
 /**
  * Test known XSS attack vectors against sanitization
  * @param input - Input to test
@@ -0,0 +1,7 @@
+import type { ParamMatcher } from '@sveltejs/kit';
+import { isClubSection } from '$lib/clubs';
+
+/**
+ * Club pages from before clubs had their own URLs, e.g. the "schedule" in /clubs/schedule
+ */
+export const match: ParamMatcher = param => isClubSection(param);
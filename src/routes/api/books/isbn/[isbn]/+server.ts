@@ -0,0 +1,15 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { bookMetadataService } from '$lib/server/bookMetadata';
+
+/**
+ * Title, authors, cover and page count for an ISBN, to fill in a new catalog book
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		requireRequester(event);
+		return json(await bookMetadataService.lookupIsbn(event.params.isbn!, event.request.signal));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,22 @@
+import type { RequestHandler } from '@sveltejs/kit';
+import { serviceErrorResponse } from '$lib/server/backend';
+import { calendarFeedService } from '$lib/server/calendarFeeds';
+
+/**
+ * A club's schedule as iCalendar, polled by calendar apps; the key is the only credential
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const calendar = await calendarFeedService.renderFeed(event.params.key!);
+		return new Response(calendar, {
+			headers: {
+				'Content-Type': 'text/calendar; charset=utf-8',
+				'Content-Disposition': 'inline; filename="club-schedule.ics"',
+				// The address identifies a member, so shared caches must not keep it
+				'Cache-Control': 'private, max-age=900'
+			}
+		});
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,29 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { NewBookVoteSchema } from '$lib/bookVotes';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { bookVoteService } from '$lib/server/bookVotes';
+
+/**
+ * A club's book votes, with results for the closed ones
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		return json(await bookVoteService.listVotes(event.params.clubId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Put nominated books to a vote
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, NewBookVoteSchema);
+		return json(await bookVoteService.createVote(event.params.clubId!, input, requester), { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,18 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { BallotSchema } from '$lib/bookVotes';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { bookVoteService } from '$lib/server/bookVotes';
+
+/**
+ * Cast or replace the signed-in member's ballot
+ */
+export const PUT: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { choices } = await readBody(event, BallotSchema);
+		const { clubId, voteId } = event.params;
+		return json(await bookVoteService.castBallot(clubId!, voteId!, choices, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
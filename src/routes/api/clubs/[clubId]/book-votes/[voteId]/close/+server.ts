@@ -0,0 +1,16 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { bookVoteService } from '$lib/server/bookVotes';
+
+/**
+ * End voting before the closing date and count the ballots
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { clubId, voteId } = event.params;
+		return json(await bookVoteService.closeVote(clubId!, voteId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
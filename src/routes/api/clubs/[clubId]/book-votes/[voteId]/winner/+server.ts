@@ -0,0 +1,18 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { AttachWinnerSchema } from '$lib/bookVotes';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { bookVoteService } from '$lib/server/bookVotes';
+
+/**
+ * Add the winning book to the club's books and set it on a meeting
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, AttachWinnerSchema);
+		const { clubId, voteId } = event.params;
+		return json(await bookVoteService.attachWinner(clubId!, voteId!, input, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
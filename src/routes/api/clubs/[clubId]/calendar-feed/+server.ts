@@ -0,0 +1,15 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { calendarFeedService } from '$lib/server/calendarFeeds';
+
+/**
+ * The signed-in member's subscription address for the club calendar
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		return json(await calendarFeedService.getFeed(event.params.clubId!, requester, event.url.origin));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
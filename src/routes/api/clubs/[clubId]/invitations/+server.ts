@@ -0,0 +1,30 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { NewInvitationSchema } from '$lib/invitations';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { invitationService } from '$lib/server/invitations';
+
+/**
+ * Outstanding invitations for a club (club admins only)
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		return json(await invitationService.listInvitations(event.params.clubId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Create an invite link; when an email address is given the link is sent to it
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, NewInvitationSchema);
+		const invitation = await invitationService.createInvitation(event.params.clubId!, input, requester, event.url.origin);
+		return json(invitation, { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,16 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { invitationService } from '$lib/server/invitations';
+
+/**
+ * Revoke an invitation so its link can no longer be accepted
+ */
+export const DELETE: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { clubId, invitationId } = event.params;
+		return json(await invitationService.revokeInvitation(clubId!, invitationId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,30 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { JoinRequestStatusSchema, NewJoinRequestSchema } from '$lib/invitations';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { invitationService } from '$lib/server/invitations';
+
+/**
+ * Join-request queue for a club (club admins only); ?status= defaults to pending
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const status = JoinRequestStatusSchema.catch('pending').parse(event.url.searchParams.get('status') ?? 'pending');
+		return json(await invitationService.listJoinRequests(event.params.clubId!, requester, status));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Ask to join a club
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, NewJoinRequestSchema);
+		return json(await invitationService.requestToJoin(event.params.clubId!, input, requester), { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,18 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { JoinRequestDecisionSchema } from '$lib/invitations';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { invitationService } from '$lib/server/invitations';
+
+/**
+ * Approve or reject a join request; approval adds the requester to the club
+ */
+export const PATCH: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { decision } = await readBody(event, JoinRequestDecisionSchema);
+		const { clubId, requestId } = event.params;
+		return json(await invitationService.decideJoinRequest(clubId!, requestId!, decision, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
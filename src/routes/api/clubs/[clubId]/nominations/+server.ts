@@ -0,0 +1,29 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { NewNominationSchema } from '$lib/bookVotes';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { bookVoteService } from '$lib/server/bookVotes';
+
+/**
+ * Books on the club's nomination board
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		return json(await bookVoteService.listNominations(event.params.clubId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Nominate a book for the club to read
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, NewNominationSchema);
+		return json(await bookVoteService.nominate(event.params.clubId!, input, requester), { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,16 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { bookVoteService } from '$lib/server/bookVotes';
+
+/**
+ * Withdraw a nomination from the board
+ */
+export const DELETE: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { clubId, nominationId } = event.params;
+		return json(await bookVoteService.withdrawNomination(clubId!, nominationId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,29 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { NewMeetingPollSchema } from '$lib/meetingPolls';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { meetingPollService } from '$lib/server/meetingPolls';
+
+/**
+ * A club's open and scheduled meeting polls
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		return json(await meetingPollService.listPolls(event.params.clubId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Propose candidate meeting times to the club
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, NewMeetingPollSchema);
+		return json(await meetingPollService.createPoll(event.params.clubId!, input, requester), { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
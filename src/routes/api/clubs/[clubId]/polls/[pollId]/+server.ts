@@ -0,0 +1,16 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { meetingPollService } from '$lib/server/meetingPolls';
+
+/**
+ * Close a poll without scheduling a meeting
+ */
+export const DELETE: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { clubId, pollId } = event.params;
+		return json(await meetingPollService.closePoll(clubId!, pollId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
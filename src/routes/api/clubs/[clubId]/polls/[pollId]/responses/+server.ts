@@ -0,0 +1,18 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { PollResponseSchema } from '$lib/meetingPolls';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { meetingPollService } from '$lib/server/meetingPolls';
+
+/**
+ * Save the signed-in member's answers for a poll's slots
+ */
+export const PUT: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, PollResponseSchema);
+		const { clubId, pollId } = event.params;
+		return json(await meetingPollService.respond(clubId!, pollId!, input, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
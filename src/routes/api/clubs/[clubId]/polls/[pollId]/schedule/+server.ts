@@ -0,0 +1,18 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { SchedulePollSchema } from '$lib/meetingPolls';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { meetingPollService } from '$lib/server/meetingPolls';
+
+/**
+ * Schedule the meeting at one of the poll's slots
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { slotId } = await readBody(event, SchedulePollSchema);
+		const { clubId, pollId } = event.params;
+		return json(await meetingPollService.schedule(clubId!, pollId!, slotId, requester), { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
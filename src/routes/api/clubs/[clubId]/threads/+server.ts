@@ -0,0 +1,30 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { NewThreadSchema } from '$lib/discussions';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { discussionService } from '$lib/server/discussions';
+
+/**
+ * The club's threads; ?eventId= narrows them to one event's, ?eventId= with no value to club-wide ones
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const eventId = event.url.searchParams.get('eventId');
+		return json(await discussionService.listThreads(event.params.clubId!, eventId === null ? undefined : eventId || null, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Start a thread with its opening post
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, NewThreadSchema);
+		return json(await discussionService.createThread(event.params.clubId!, input, requester), { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
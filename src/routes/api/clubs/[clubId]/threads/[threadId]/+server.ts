@@ -0,0 +1,44 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { ModerateThreadSchema } from '$lib/discussions';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { discussionService } from '$lib/server/discussions';
+
+/**
+ * A thread with its posts
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { clubId, threadId } = event.params;
+		return json(await discussionService.getThread(clubId!, threadId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Pin or lock a thread (moderators)
+ */
+export const PATCH: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const changes = await readBody(event, ModerateThreadSchema);
+		const { clubId, threadId } = event.params;
+		return json(await discussionService.moderateThread(clubId!, threadId!, changes, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Delete a thread and its posts
+ */
+export const DELETE: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { clubId, threadId } = event.params;
+		return json(await discussionService.deleteThread(clubId!, threadId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
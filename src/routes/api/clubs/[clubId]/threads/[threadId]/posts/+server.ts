@@ -0,0 +1,18 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { NewPostSchema } from '$lib/discussions';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { discussionService } from '$lib/server/discussions';
+
+/**
+ * Post in a thread, or reply to one of its posts
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, NewPostSchema);
+		const { clubId, threadId } = event.params;
+		return json(await discussionService.reply(clubId!, threadId!, input, requester), { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
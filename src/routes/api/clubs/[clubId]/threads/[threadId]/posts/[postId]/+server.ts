@@ -0,0 +1,16 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { discussionService } from '$lib/server/discussions';
+
+/**
+ * Delete a post, leaving a placeholder for its replies
+ */
+export const DELETE: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { clubId, threadId, postId } = event.params;
+		return json(await discussionService.deletePost(clubId!, threadId!, postId!, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
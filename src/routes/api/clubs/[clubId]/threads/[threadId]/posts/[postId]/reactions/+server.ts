@@ -0,0 +1,18 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { SetReactionSchema } from '$lib/discussions';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { discussionService } from '$lib/server/discussions';
+
+/**
+ * Add or take back the signed-in member's reaction to a post
+ */
+export const PUT: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const input = await readBody(event, SetReactionSchema);
+		const { clubId, threadId, postId } = event.params;
+		return json(await discussionService.react(clubId!, threadId!, postId!, input, requester));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
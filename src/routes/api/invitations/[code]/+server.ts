@@ -0,0 +1,22 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { invitationService } from '$lib/server/invitations';
+
+/**
+ * Describe an invitation for the acceptance page; available without signing in
+ */
+export const GET: RequestHandler = async ({ params }) => {
+	return json(invitationService.previewInvitation(params.code!));
+};
+
+/**
+ * Accept an invitation, creating the signed-in user's club membership
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		return json(await invitationService.acceptInvitation(event.params.code!, requester), { status: 201 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,20 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { requireRequester, serviceErrorResponse } from '$lib/server/backend';
+import { reminderService } from '$lib/server/reminders';
+
+/**
+ * The signed-in member's in-app notifications, newest first
+ * Passing clubId starts reminders for that club if the scheduler isn't planning them yet.
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const clubId = event.url.searchParams.get('clubId');
+		if (clubId) {
+			await reminderService.watchClub(clubId, requester);
+		}
+		return json(reminderService.listNotifications(requester.user.id));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,32 @@
+import { type RequestHandler } from '@sveltejs/kit';
+import { PushSubscriptionSchema, RemovePushSubscriptionSchema } from '$lib/reminders';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { reminderService } from '$lib/server/reminders';
+
+/**
+ * Send the signed-in member's reminders to this browser's push subscription
+ */
+export const PUT: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const subscription = await readBody(event, PushSubscriptionSchema);
+		reminderService.saveSubscription(requester.user.id, subscription);
+		return new Response(null, { status: 204 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Stop pushing reminders to a browser
+ */
+export const DELETE: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { endpoint } = await readBody(event, RemovePushSubscriptionSchema);
+		reminderService.removeSubscription(requester.user.id, endpoint);
+		return new Response(null, { status: 204 });
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
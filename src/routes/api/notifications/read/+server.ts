@@ -0,0 +1,17 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { MarkNotificationsReadSchema } from '$lib/reminders';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { reminderService } from '$lib/server/reminders';
+
+/**
+ * Mark some or all of the signed-in member's notifications as read
+ */
+export const POST: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const { ids } = await readBody(event, MarkNotificationsReadSchema);
+		return json(reminderService.markRead(requester.user.id, ids));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,30 @@
+import { json, type RequestHandler } from '@sveltejs/kit';
+import { ReminderPreferencesSchema } from '$lib/reminders';
+import { requireRequester, readBody, serviceErrorResponse } from '$lib/server/backend';
+import { reminderService } from '$lib/server/reminders';
+
+/**
+ * When and how the signed-in member is reminded
+ */
+export const GET: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		return json(reminderService.getSettings(requester.user.id));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
+
+/**
+ * Change the signed-in member's reminder channels and lead times
+ */
+export const PUT: RequestHandler = async (event) => {
+	try {
+		const requester = requireRequester(event);
+		const preferences = await readBody(event, ReminderPreferencesSchema);
+		reminderService.updatePreferences(requester.user.id, preferences);
+		return json(reminderService.getSettings(requester.user.id));
+	} catch (error) {
+		return serviceErrorResponse(error);
+	}
+};
@@ -0,0 +1,27 @@
+/// <reference types="@sveltejs/kit" />
+/// <reference no-default-lib="true"/>
+/// <reference lib="esnext" />
+/// <reference lib="webworker" />
+
+/**
+ * Shows event reminders sent by Web Push and opens the page a reminder is about when it is
+ * clicked. Nothing is cached here; offline changes are handled by offlineQueue.ts.
+ */
+
+const sw = self as unknown as ServiceWorkerGlobalScope;
+
+sw.addEventListener('push', (event) => {
+	const reminder = event.data?.json() as { title?: string; body?: string; url?: string } | undefined;
+	if (!reminder?.title) return;
+
+	event.waitUntil(sw.registration.showNotification(reminder.title, {
+		body: reminder.body,
+		data: { url: reminder.url ?? '/' }
+	}));
+});
+
+sw.addEventListener('notificationclick', (event) => {
+	event.notification.close();
+	const url = (event.notification.data as { url?: string } | null)?.url ?? '/';
+	event.waitUntil(sw.clients.openWindow(url));
+});